@@ -13,6 +13,10 @@ import { AdminDashboard } from "@/components/admin/admin-dashboard";
 import { MerchantManagement } from "@/components/admin/merchant-management";
 import { FeeConfiguration } from "@/components/admin/fee-configuration";
 import { WebhookManagement } from "@/components/admin/webhook-management";
+import { ReconciliationReport } from "@/components/admin/reconciliation-report";
+import { AuditLog } from "@/components/admin/audit-log";
+import { NotificationLog } from "@/components/admin/notification-log";
+import { TwoFactorSettings } from "@/components/admin/two-factor-settings";
 import { SignupLinkManagement } from "@/components/admin/signup-link-management";
 import { PlatformSettings } from "@/components/admin/platform-settings";
 import { UserManagement } from "@/components/admin/user-management";
@@ -21,10 +25,17 @@ import { KybOnboarding } from "@/components/merchant/kyb-onboarding";
 import { AccountStatus } from "@/components/merchant/account-status";
 import { ReceiveCrypto } from "@/components/merchant/receive-crypto";
 import { UnifiedCryptoPayout } from "@/components/merchant/unified-crypto-payout";
+import { Accounts } from "@/components/merchant/accounts";
+import { Invoices } from "@/components/merchant/invoices";
+import { AccountSecurity } from "@/components/merchant/account-security";
+import { MerchantModeSwitch } from "@/components/merchant/mode-switch";
+import { PaymentFlow } from "@/components/customer/payment-flow";
+import { InvoiceView } from "@/components/customer/invoice-view";
 import MerchantLogin from "@/pages/merchant-login";
 import MerchantSignup from "@/pages/merchant-signup";
 import AdminLogin from "@/pages/admin-login";
 import AdminPasswordReset from "@/pages/admin-password-reset";
+import MerchantPasswordReset from "@/pages/merchant-password-reset";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -47,10 +58,19 @@ function Router() {
       
       {/* Authentication Routes */}
       <Route path="/merchant/login" component={MerchantLogin} />
+      <Route path="/merchant/reset-password" component={MerchantPasswordReset} />
       <Route path="/signup/:token" component={MerchantSignup} />
       <Route path="/admin/login" component={AdminLogin} />
       <Route path="/admin/reset-password" component={AdminPasswordReset} />
       
+      {/* Hosted checkout for masked payment links */}
+      <Route path="/pay/:linkId">
+        {(params) => <PaymentFlow linkId={params.linkId} />}
+      </Route>
+      <Route path="/invoice/:invoiceId">
+        {(params) => <InvoiceView invoiceId={params.invoiceId} />}
+      </Route>
+      
       {/* Admin Portal Routes - Protected */}
       <Route path="/admin">
         <AdminProtectedRoute>
@@ -77,6 +97,26 @@ function Router() {
           <WebhookManagement />
         </AdminProtectedRoute>
       </Route>
+      <Route path="/admin/reconciliation">
+        <AdminProtectedRoute>
+          <ReconciliationReport />
+        </AdminProtectedRoute>
+      </Route>
+      <Route path="/admin/audit-log">
+        <AdminProtectedRoute>
+          <AuditLog />
+        </AdminProtectedRoute>
+      </Route>
+      <Route path="/admin/notifications">
+        <AdminProtectedRoute>
+          <NotificationLog />
+        </AdminProtectedRoute>
+      </Route>
+      <Route path="/admin/security">
+        <AdminProtectedRoute>
+          <TwoFactorSettings />
+        </AdminProtectedRoute>
+      </Route>
       <Route path="/admin/signup-links">
         <AdminProtectedRoute>
           <SignupLinkManagement />
@@ -114,6 +154,21 @@ function Router() {
           <AccountStatus />
         </MerchantProtectedRoute>
       </Route>
+      <Route path="/merchant/accounts">
+        <MerchantProtectedRoute>
+          <Accounts />
+        </MerchantProtectedRoute>
+      </Route>
+      <Route path="/merchant/invoices">
+        <MerchantProtectedRoute>
+          <Invoices />
+        </MerchantProtectedRoute>
+      </Route>
+      <Route path="/merchant/security">
+        <MerchantProtectedRoute>
+          <AccountSecurity />
+        </MerchantProtectedRoute>
+      </Route>
       
       
       {/* Fallback to 404 */}
@@ -125,7 +180,7 @@ function Router() {
 function AppLayout() {
   const [location] = useLocation();
   const isLandingPage = location === '/';
-  const isLoginRoute = location === '/admin/login' || location === '/merchant/login' || location === '/admin/reset-password';
+  const isLoginRoute = location === '/admin/login' || location === '/merchant/login' || location === '/admin/reset-password' || location === '/merchant/reset-password';
   const isPortalRoute = (location.startsWith('/admin') || location.startsWith('/merchant')) && !isLoginRoute;
   
   // Determine user role based on current path
@@ -156,7 +211,10 @@ function AppLayout() {
           <div className="flex flex-col flex-1">
             <header className="flex items-center justify-between p-4 border-b bg-card/50 backdrop-blur">
               <SidebarTrigger data-testid="button-sidebar-toggle" />
-              <ThemeToggle />
+              <div className="flex items-center gap-4">
+                {userRole === 'merchant' && <MerchantModeSwitch />}
+                <ThemeToggle />
+              </div>
             </header>
             <main className="flex-1 overflow-auto p-6">
               <Router />
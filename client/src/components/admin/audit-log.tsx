@@ -0,0 +1,272 @@
+import { useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { Search, Eye, Loader2, Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { auditActorTypes, type AuditChanges } from "@shared/schema"
+
+interface AuditLogEntry {
+  id: string
+  actorType: typeof auditActorTypes[number]
+  actorId: string | null
+  actorName: string | null
+  action: string
+  targetType: string | null
+  targetId: string | null
+  changes: AuditChanges | null
+  metadata: Record<string, unknown> | null
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: string
+}
+
+interface AuditLogResponse {
+  entries: AuditLogEntry[]
+  actions: string[]
+}
+
+const actorBadgeVariants = {
+  admin: "default" as const,
+  merchant: "secondary" as const,
+  system: "outline" as const,
+  anonymous: "outline" as const
+}
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value)
+
+// Append-only record of admin and merchant actions, filterable and exportable as CSV for compliance reviews
+export function AuditLog() {
+  const [actorType, setActorType] = useState("all")
+  const [action, setAction] = useState("all")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [searchInput, setSearchInput] = useState("")
+  const [search, setSearch] = useState("")
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null)
+
+  const params = new URLSearchParams()
+  if (actorType !== "all") params.set("actorType", actorType)
+  if (action !== "all") params.set("action", action)
+  if (from) params.set("from", new Date(from).toISOString())
+  // The date input is inclusive of the whole day
+  if (to) params.set("to", new Date(new Date(to).getTime() + 24 * 60 * 60 * 1000 - 1).toISOString())
+  if (search) params.set("search", search)
+  const query = params.toString()
+
+  const { data, isLoading } = useQuery<AuditLogResponse>({
+    queryKey: [`/api/admin/audit-log${query ? `?${query}` : ''}`],
+  })
+  const entries = data?.entries ?? []
+
+  // The export applies the same filters but is not capped at the page size
+  const exportParams = new URLSearchParams(params)
+  exportParams.set("limit", "5000")
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Who changed what, when and from where
+          </p>
+        </div>
+        <Button asChild variant="outline" data-testid="button-export-audit-log">
+          <a href={`/api/admin/audit-log/export?${exportParams.toString()}`} download>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Actor</Label>
+              <Select value={actorType} onValueChange={setActorType}>
+                <SelectTrigger data-testid="select-audit-actor-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Actors</SelectItem>
+                  {auditActorTypes.map(type => (
+                    <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Action</Label>
+              <Select value={action} onValueChange={setAction}>
+                <SelectTrigger data-testid="select-audit-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Actions</SelectItem>
+                  {(data?.actions ?? []).map(value => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="audit-log-search">Search</Label>
+              <form
+                className="flex gap-2"
+                onSubmit={e => {
+                  e.preventDefault()
+                  setSearch(searchInput.trim())
+                }}
+              >
+                <Input
+                  id="audit-log-search"
+                  placeholder="Actor, target id or changed value"
+                  value={searchInput}
+                  onChange={e => setSearchInput(e.target.value)}
+                  data-testid="input-audit-search"
+                />
+                <Button type="submit" variant="outline" size="icon">
+                  <Search className="h-4 w-4" />
+                </Button>
+              </form>
+            </div>
+            <div>
+              <Label htmlFor="audit-log-from">From</Label>
+              <Input id="audit-log-from" type="date" value={from} onChange={e => setFrom(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="audit-log-to">To</Label>
+              <Input id="audit-log-to" type="date" value={to} onChange={e => setTo(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries</CardTitle>
+          <CardDescription>
+            Newest first. Entries can't be edited or deleted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No entries match these filters</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>Changes</TableHead>
+                    <TableHead>IP</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <TableRow key={entry.id} data-testid={`row-audit-entry-${entry.id}`}>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge variant={actorBadgeVariants[entry.actorType] ?? "outline"} className="capitalize">
+                            {entry.actorType}
+                          </Badge>
+                          <span className="text-sm">{entry.actorName ?? entry.actorId ?? '—'}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{entry.action}</TableCell>
+                      <TableCell>
+                        {entry.targetType ? (
+                          <>
+                            <div className="text-sm">{entry.targetType}</div>
+                            <div className="text-xs text-muted-foreground font-mono truncate max-w-[180px]">{entry.targetId}</div>
+                          </>
+                        ) : '—'}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[240px] truncate">
+                        {entry.changes ? Object.keys(entry.changes).join(', ') || 'No field changes' : '—'}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{entry.ipAddress ?? '—'}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelectedEntry(entry)}
+                          data-testid={`button-view-audit-entry-${entry.id}`}
+                        >
+                          <Eye className="h-3 w-3" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={selectedEntry !== null} onOpenChange={open => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="font-mono">{selectedEntry?.action}</DialogTitle>
+            <DialogDescription>
+              {selectedEntry && `${new Date(selectedEntry.createdAt).toLocaleString()} · ${selectedEntry.actorType} ${selectedEntry.actorName ?? selectedEntry.actorId ?? ''}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEntry && (
+            <div className="space-y-4">
+              {selectedEntry.changes && Object.keys(selectedEntry.changes).length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Before</TableHead>
+                      <TableHead>After</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(selectedEntry.changes).map(([field, change]) => (
+                      <TableRow key={field}>
+                        <TableCell className="font-mono text-xs">{field}</TableCell>
+                        <TableCell className="font-mono text-xs break-all">{formatValue(change.before)}</TableCell>
+                        <TableCell className="font-mono text-xs break-all">{formatValue(change.after)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {selectedEntry.metadata && (
+                <pre className="bg-muted rounded p-4 text-xs overflow-auto max-h-64" data-testid="text-audit-entry-metadata">
+                  {JSON.stringify(selectedEntry.metadata, null, 2)}
+                </pre>
+              )}
+              <div className="text-xs text-muted-foreground space-y-1">
+                <div>IP: {selectedEntry.ipAddress ?? '—'}</div>
+                <div className="break-all">User agent: {selectedEntry.userAgent ?? '—'}</div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
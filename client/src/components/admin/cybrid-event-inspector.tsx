@@ -0,0 +1,310 @@
+import { useState } from "react"
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { RotateCcw, Search, Eye, Loader2, CheckCircle, AlertTriangle, Clock, MinusCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+
+interface CybridEvent {
+  id: number
+  eventId: string
+  eventType: string
+  objectGuid: string | null
+  merchantId: string | null
+  merchantName: string | null
+  outcome: 'received' | 'handled' | 'ignored' | 'failed'
+  outcomeDetail: string | null
+  dispatchCount: number
+  lastDispatchedAt: string | null
+  processedAt: string
+}
+
+interface CybridEventDetail extends CybridEvent {
+  payload: unknown
+}
+
+interface CybridEventsResponse {
+  events: CybridEvent[]
+  eventTypes: string[]
+}
+
+interface MerchantOption {
+  id: string
+  name: string
+}
+
+const outcomeBadges = {
+  handled: { variant: "default" as const, icon: CheckCircle },
+  failed: { variant: "destructive" as const, icon: AlertTriangle },
+  ignored: { variant: "outline" as const, icon: MinusCircle },
+  received: { variant: "secondary" as const, icon: Clock }
+}
+
+const OutcomeBadge = ({ outcome }: { outcome: CybridEvent['outcome'] }) => {
+  const config = outcomeBadges[outcome] || outcomeBadges.received
+  const Icon = config.icon
+  return (
+    <Badge variant={config.variant} className="flex items-center gap-1 w-fit capitalize">
+      <Icon className="h-3 w-3" />
+      {outcome}
+    </Badge>
+  )
+}
+
+// Inbound Cybrid webhook events with their processing outcome, raw payload and replay
+export function CybridEventInspector() {
+  const { toast } = useToast()
+  const [eventType, setEventType] = useState("all")
+  const [merchantId, setMerchantId] = useState("all")
+  const [outcome, setOutcome] = useState("all")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [searchInput, setSearchInput] = useState("")
+  const [search, setSearch] = useState("")
+  const [selectedEventId, setSelectedEventId] = useState<number | null>(null)
+
+  const params = new URLSearchParams()
+  if (eventType !== "all") params.set("type", eventType)
+  if (merchantId !== "all") params.set("merchantId", merchantId)
+  if (outcome !== "all") params.set("outcome", outcome)
+  if (from) params.set("from", new Date(from).toISOString())
+  // The date input is inclusive of the whole day
+  if (to) params.set("to", new Date(new Date(to).getTime() + 24 * 60 * 60 * 1000 - 1).toISOString())
+  if (search) params.set("search", search)
+  const query = params.toString()
+
+  const { data, isLoading } = useQuery<CybridEventsResponse>({
+    queryKey: [`/api/admin/webhooks/cybrid/events${query ? `?${query}` : ''}`],
+  })
+  const events = data?.events ?? []
+
+  const { data: merchants = [] } = useQuery<MerchantOption[]>({
+    queryKey: ['/api/admin/merchants'],
+  })
+
+  const { data: selectedEvent, isLoading: detailLoading } = useQuery<CybridEventDetail>({
+    queryKey: ['/api/admin/webhooks/cybrid/events', selectedEventId],
+    enabled: selectedEventId !== null,
+  })
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/admin/webhooks/cybrid/events/${id}/replay`)
+      return response.json() as Promise<CybridEvent>
+    },
+    onSuccess: (event) => {
+      queryClient.invalidateQueries({
+        predicate: q => String(q.queryKey[0]).startsWith('/api/admin/webhooks/cybrid/events')
+      })
+      toast({
+        title: `Event ${event.outcome}`,
+        description: event.outcomeDetail ?? `${event.eventType} re-dispatched`,
+        variant: event.outcome === 'failed' ? "destructive" : "default",
+      })
+    },
+    onError: (error: Error) => {
+      toast({ title: "Replay failed", description: error.message, variant: "destructive" })
+    },
+  })
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Event Type</Label>
+              <Select value={eventType} onValueChange={setEventType}>
+                <SelectTrigger data-testid="select-cybrid-event-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {(data?.eventTypes ?? []).map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Merchant</Label>
+              <Select value={merchantId} onValueChange={setMerchantId}>
+                <SelectTrigger data-testid="select-cybrid-event-merchant">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Merchants</SelectItem>
+                  {merchants.map(merchant => (
+                    <SelectItem key={merchant.id} value={merchant.id}>{merchant.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Outcome</Label>
+              <Select value={outcome} onValueChange={setOutcome}>
+                <SelectTrigger data-testid="select-cybrid-event-outcome">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Outcomes</SelectItem>
+                  <SelectItem value="handled">Handled</SelectItem>
+                  <SelectItem value="ignored">Ignored</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="received">Received</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="cybrid-events-from">From</Label>
+              <Input id="cybrid-events-from" type="date" value={from} onChange={e => setFrom(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="cybrid-events-to">To</Label>
+              <Input id="cybrid-events-to" type="date" value={to} onChange={e => setTo(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="cybrid-events-search">Search</Label>
+              <form
+                className="flex gap-2"
+                onSubmit={e => {
+                  e.preventDefault()
+                  setSearch(searchInput.trim())
+                }}
+              >
+                <Input
+                  id="cybrid-events-search"
+                  placeholder="Event id, GUID or payload text"
+                  value={searchInput}
+                  onChange={e => setSearchInput(e.target.value)}
+                  data-testid="input-cybrid-event-search"
+                />
+                <Button type="submit" variant="outline" size="icon">
+                  <Search className="h-4 w-4" />
+                </Button>
+              </form>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cybrid Events</CardTitle>
+          <CardDescription>
+            Inbound webhooks from Cybrid and what the platform did with them
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No events match these filters</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Merchant</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead>Dispatches</TableHead>
+                    <TableHead>Received</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map(event => (
+                    <TableRow key={event.id} data-testid={`row-cybrid-event-${event.id}`}>
+                      <TableCell>
+                        <div className="font-medium font-mono text-sm">{event.eventType}</div>
+                        <div className="text-xs text-muted-foreground font-mono truncate max-w-[220px]">
+                          {event.objectGuid ?? event.eventId}
+                        </div>
+                      </TableCell>
+                      <TableCell>{event.merchantName ?? '—'}</TableCell>
+                      <TableCell>
+                        <OutcomeBadge outcome={event.outcome} />
+                        {event.outcomeDetail && (
+                          <div className="text-xs text-muted-foreground mt-1 max-w-[260px] truncate" title={event.outcomeDetail}>
+                            {event.outcomeDetail}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono">{event.dispatchCount}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(event.processedAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right space-x-1 whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelectedEventId(event.id)}
+                          data-testid={`button-view-cybrid-event-${event.id}`}
+                        >
+                          <Eye className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => replayMutation.mutate(event.id)}
+                          disabled={replayMutation.isPending}
+                          data-testid={`button-replay-cybrid-event-${event.id}`}
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          Replay
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={selectedEventId !== null} onOpenChange={open => !open && setSelectedEventId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="font-mono">{selectedEvent?.eventType ?? 'Event'}</DialogTitle>
+            <DialogDescription className="font-mono text-xs">{selectedEvent?.eventId}</DialogDescription>
+          </DialogHeader>
+          {detailLoading || !selectedEvent ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <OutcomeBadge outcome={selectedEvent.outcome} />
+                <span>Merchant: {selectedEvent.merchantName ?? '—'}</span>
+                <span>Dispatched {selectedEvent.dispatchCount}×</span>
+                {selectedEvent.lastDispatchedAt && (
+                  <span className="text-muted-foreground">
+                    Last {new Date(selectedEvent.lastDispatchedAt).toLocaleString()}
+                  </span>
+                )}
+              </div>
+              {selectedEvent.outcomeDetail && (
+                <p className="text-sm text-muted-foreground">{selectedEvent.outcomeDetail}</p>
+              )}
+              <pre className="bg-muted rounded p-4 text-xs overflow-auto max-h-96" data-testid="text-cybrid-event-payload">
+                {JSON.stringify(selectedEvent.payload, null, 2)}
+              </pre>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { KeyRound, Loader2, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+import type { KeyRotationError, KeyRotationRunStatus } from "@shared/schema"
+
+interface KeyRotationRunSummary {
+  id: string
+  targetKeyId: string
+  status: KeyRotationRunStatus
+  totalCount: number
+  processedCount: number
+  rewrappedCount: number
+  alreadyCurrentCount: number
+  skippedCount: number
+  errorCount: number
+  errors: KeyRotationError[]
+  error: string | null
+  startedAt: string
+  completedAt: string | null
+}
+
+interface EncryptionStatus {
+  currentKeyId: string
+  keyIds: string[]
+  running: boolean
+  runs: KeyRotationRunSummary[]
+}
+
+const statusBadgeVariants = {
+  running: "secondary" as const,
+  completed: "default" as const,
+  failed: "destructive" as const
+}
+
+// Re-encrypt stored credentials under the newest key; super admins only
+export function EncryptionKeyRotation() {
+  const { toast } = useToast()
+
+  const { data: status, isLoading } = useQuery<EncryptionStatus>({
+    queryKey: ["/api/admin/security/encryption"],
+    // Poll while a run is in progress so the progress bar moves
+    refetchInterval: query => query.state.data?.running ? 2000 : false,
+  })
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/security/encryption/runs")
+      return response.json() as Promise<KeyRotationRunSummary>
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/security/encryption"] })
+      toast({
+        title: "Re-encryption Started",
+        description: `Stored secrets are being re-encrypted under key ${run.targetKeyId}.`,
+      })
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to start re-encryption", description: error.message, variant: "destructive" })
+    },
+  })
+
+  const latest = status?.runs[0]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Credential Encryption Keys
+        </CardTitle>
+        <CardDescription>
+          Add a new key to the front of CREDENTIAL_ENCRYPTION_KEYS, re-encrypt, then remove retired keys once a run completes without errors
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Configured keys:</span>
+                {status.keyIds.map(keyId => (
+                  <Badge key={keyId} variant={keyId === status.currentKeyId ? "default" : "outline"} className="font-mono">
+                    {keyId}{keyId === status.currentKeyId && " (current)"}
+                  </Badge>
+                ))}
+              </div>
+              <Button
+                onClick={() => rotateMutation.mutate()}
+                disabled={status.running || rotateMutation.isPending}
+                data-testid="button-rotate-encryption-key"
+              >
+                {status.running || rotateMutation.isPending
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <RefreshCw className="h-4 w-4 mr-2" />}
+                Re-encrypt to {status.currentKeyId}
+              </Button>
+            </div>
+
+            {latest && latest.status === "running" && (
+              <div className="space-y-1">
+                <Progress value={latest.totalCount ? (latest.processedCount / latest.totalCount) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  {latest.processedCount} of {latest.totalCount} values processed
+                </p>
+              </div>
+            )}
+
+            {latest?.errors && latest.errors.length > 0 && (
+              <div className="rounded border border-destructive/50 p-3 text-sm space-y-1" data-testid="text-key-rotation-errors">
+                <p className="font-medium text-destructive">Values that could not be re-encrypted in the latest run</p>
+                {latest.errors.map(error => (
+                  <div key={`${error.field}:${error.recordId}`} className="font-mono text-xs">
+                    {error.field} {error.recordId}: {error.error}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {status.runs.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Re-encrypted</TableHead>
+                    <TableHead className="text-right">Already current</TableHead>
+                    <TableHead className="text-right">Skipped</TableHead>
+                    <TableHead className="text-right">Errors</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {status.runs.map(run => (
+                    <TableRow key={run.id} data-testid={`row-key-rotation-${run.id}`}>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {new Date(run.startedAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{run.targetKeyId}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusBadgeVariants[run.status] ?? "outline"} className="capitalize" title={run.error ?? undefined}>
+                          {run.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{run.rewrappedCount}</TableCell>
+                      <TableCell className="text-right">{run.alreadyCurrentCount}</TableCell>
+                      <TableCell className="text-right">{run.skippedCount}</TableCell>
+                      <TableCell className="text-right">{run.errorCount}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
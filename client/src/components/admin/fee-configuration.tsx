@@ -1,5 +1,6 @@
 import { useState } from "react"
-import { DollarSign, Percent, Calendar, Save, Edit, TrendingUp, Building, Receipt } from "lucide-react"
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { DollarSign, Percent, Calendar, Save, Edit, TrendingUp, Building, Receipt, Plus, Trash2, Loader2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -8,76 +9,104 @@ import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { useToast } from "@/hooks/use-toast"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+
+interface FeeSchedule {
+  id: string
+  scope: 'global' | 'tier' | 'merchant'
+  merchantId: string | null
+  tierName: string | null
+  minMonthlyVolume: string | null
+  percentage: string
+  flatFee: string
+  currency: string
+  effectiveFrom: string
+  effectiveTo: string | null
+  reason: string | null
+}
+
+interface ResolvedFee {
+  source: 'merchant' | 'tier' | 'global' | 'default'
+  tierName: string | null
+  percentage: number
+  flatFee: number
+  currency: string
+  monthlyVolume: number | null
+}
+
+interface FeeConfig {
+  default: ResolvedFee
+  global: FeeSchedule | null
+  tiers: FeeSchedule[]
+  merchants: Array<{
+    merchantId: string
+    name: string
+    customFeeEnabled: boolean
+    override: FeeSchedule | null
+    effective: ResolvedFee
+  }>
+}
+
+interface TierDraft {
+  tierName: string
+  minMonthlyVolume: string
+  percentage: string
+  flatFee: string
+}
+
+interface MerchantFeeDraft {
+  merchantId: string
+  name: string
+  percentage: string
+  flatFee: string
+  effectiveFrom: string
+  reason: string
+}
+
+interface ScheduledFeeChange extends FeeSchedule {
+  merchantName: string | null
+  currentFee: { percentage: number; flatFee: number } | null
+}
+
+interface ScheduleDraft {
+  scope: 'global' | 'merchant'
+  merchantId: string
+  percentage: string
+  flatFee: string
+  effectiveFrom: string
+  reason: string
+}
+
+const emptyScheduleDraft = (): ScheduleDraft => ({ scope: 'global', merchantId: "", percentage: "", flatFee: "0", effectiveFrom: "", reason: "" })
+
+const formatUsd = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+
+const describeSource = (fee: ResolvedFee) =>
+  fee.source === 'tier' ? `${fee.tierName} tier` : fee.source === 'merchant' ? 'Custom' : fee.source === 'global' ? 'Global' : 'Built-in default'
 
 export function FeeConfiguration() {
   const { toast } = useToast()
   const [editingGlobal, setEditingGlobal] = useState(false)
   const [globalFees, setGlobalFees] = useState({
-    percentage: "2.5",
-    flatFee: "0.30",
-    currency: "USD"
+    percentage: "",
+    flatFee: "",
+    currency: "USD",
+    reason: ""
   })
+  const [editingTiers, setEditingTiers] = useState(false)
+  const [tierDrafts, setTierDrafts] = useState<TierDraft[]>([])
+  const [merchantDraft, setMerchantDraft] = useState<MerchantFeeDraft | null>(null)
+  const [scheduleDraft, setScheduleDraft] = useState<ScheduleDraft | null>(null)
 
-  // TODO: remove mock functionality - replace with real fee configuration
-  const merchantFees = [
-    {
-      id: "merch_001",
-      name: "TechCorp Inc",
-      percentage: "2.0",
-      flatFee: "0.25",
-      currency: "USD",
-      customFees: true,
-      volume: "$125,000",
-      effectiveDate: "2024-01-15"
-    },
-    {
-      id: "merch_002",
-      name: "Digital Goods Ltd", 
-      percentage: "2.5",
-      flatFee: "0.30",
-      currency: "USD",
-      customFees: false,
-      volume: "$45,000",
-      effectiveDate: "2024-01-20"
-    },
-    {
-      id: "merch_003",
-      name: "CryptoShop",
-      percentage: "1.8",
-      flatFee: "0.20",
-      currency: "USD", 
-      customFees: true,
-      volume: "$285,000",
-      effectiveDate: "2024-01-10"
-    }
-  ]
-
-  const scheduledChanges = [
-    {
-      id: "change_001",
-      merchant: "TechCorp Inc",
-      currentFee: "2.0%",
-      newFee: "1.9%",
-      effectiveDate: "2024-02-01",
-      reason: "Volume tier upgrade"
-    },
-    {
-      id: "change_002",
-      merchant: "Global Default",
-      currentFee: "2.5%",
-      newFee: "2.4%",
-      effectiveDate: "2024-02-15",
-      reason: "Market adjustment"
-    }
-  ]
+  const { data: feeConfig, isLoading } = useQuery<FeeConfig>({
+    queryKey: ['/api/admin/fees'],
+  })
 
-  const volumeTiers = [
-    { tier: "Starter", minVolume: "$0", maxVolume: "$10K", percentage: "2.5%", flatFee: "$0.30" },
-    { tier: "Growth", minVolume: "$10K", maxVolume: "$100K", percentage: "2.0%", flatFee: "$0.25" },
-    { tier: "Scale", minVolume: "$100K", maxVolume: "$500K", percentage: "1.8%", flatFee: "$0.20" },
-    { tier: "Enterprise", minVolume: "$500K+", maxVolume: "∞", percentage: "1.5%", flatFee: "$0.15" }
-  ]
+  const { data: scheduledChanges = [] } = useQuery<ScheduledFeeChange[]>({
+    queryKey: ['/api/admin/fees/scheduled'],
+  })
 
   // Partner revenue tracking data
   const partnerRevenue = {
@@ -97,23 +126,131 @@ export function FeeConfiguration() {
     }
   }
 
-  const handleSaveGlobalFees = () => {
-    console.log('Saving global fees:', globalFees)
-    setEditingGlobal(false)
-    toast({
-      title: "Global fees updated",
-      description: "Default fee structure has been saved successfully.",
-    })
+  const currentGlobal = feeConfig?.global
+    ? { percentage: feeConfig.global.percentage, flatFee: feeConfig.global.flatFee, currency: feeConfig.global.currency }
+    : { percentage: String(feeConfig?.default.percentage ?? ""), flatFee: String(feeConfig?.default.flatFee ?? ""), currency: "USD" }
+  const displayedGlobal = editingGlobal ? globalFees : currentGlobal
+
+  const onFeeSaved = (title: string, description: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/fees'] })
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/fees/scheduled'] })
+    toast({ title, description })
   }
 
-  const handleToggleCustomFees = (merchantId: string, enabled: boolean) => {
-    console.log(`Toggling custom fees for ${merchantId}:`, enabled)
-    toast({
-      title: enabled ? "Custom fees enabled" : "Custom fees disabled",
-      description: `Merchant will ${enabled ? 'use custom' : 'use global'} fee structure.`,
+  const onFeeError = (error: Error) => {
+    toast({ title: "Failed to update fees", description: error.message, variant: "destructive" })
+  }
+
+  const globalMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", "/api/admin/fees/global", {
+        percentage: globalFees.percentage,
+        flatFee: globalFees.flatFee,
+        currency: globalFees.currency,
+        reason: globalFees.reason || undefined,
+      })
+    },
+    onSuccess: () => {
+      setEditingGlobal(false)
+      onFeeSaved("Global fees updated", "Default fee structure has been saved successfully.")
+    },
+    onError: onFeeError,
+  })
+
+  const tiersMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", "/api/admin/fees/tiers", { tiers: tierDrafts })
+    },
+    onSuccess: () => {
+      setEditingTiers(false)
+      onFeeSaved("Volume tiers updated", `${tierDrafts.length} tiers are now in effect.`)
+    },
+    onError: onFeeError,
+  })
+
+  const merchantFeeMutation = useMutation({
+    mutationFn: async (update: { merchantId: string; enabled: boolean; percentage?: string; flatFee?: string; effectiveFrom?: string; reason?: string }) => {
+      const { merchantId, ...body } = update
+      await apiRequest("PUT", `/api/admin/fees/merchants/${merchantId}`, body)
+      return update
+    },
+    onSuccess: (update) => {
+      setMerchantDraft(null)
+      onFeeSaved(
+        update.enabled ? "Custom fees enabled" : "Custom fees disabled",
+        `Merchant will ${update.enabled ? 'use custom' : 'use global'} fee structure.`
+      )
+    },
+    onError: onFeeError,
+  })
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (draft: ScheduleDraft) => {
+      await apiRequest("POST", "/api/admin/fees/scheduled", {
+        scope: draft.scope,
+        merchantId: draft.scope === 'merchant' ? draft.merchantId : undefined,
+        percentage: draft.percentage,
+        flatFee: draft.flatFee,
+        effectiveFrom: new Date(draft.effectiveFrom).toISOString(),
+        reason: draft.reason,
+      })
+      return draft
+    },
+    onSuccess: (draft) => {
+      setScheduleDraft(null)
+      onFeeSaved("Fee change scheduled", `New fees take effect ${new Date(draft.effectiveFrom).toLocaleString()}.`)
+    },
+    onError: onFeeError,
+  })
+
+  const cancelScheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/fees/scheduled/${id}`)
+    },
+    onSuccess: () => {
+      onFeeSaved("Fee change cancelled", "The current fees will stay in effect.")
+    },
+    onError: onFeeError,
+  })
+
+  const handleEditGlobalFees = () => {
+    setGlobalFees({ ...currentGlobal, reason: "" })
+    setEditingGlobal(true)
+  }
+
+  const handleEditTiers = () => {
+    setTierDrafts((feeConfig?.tiers ?? []).map(tier => ({
+      tierName: tier.tierName ?? "",
+      minMonthlyVolume: tier.minMonthlyVolume ?? "0",
+      percentage: tier.percentage,
+      flatFee: tier.flatFee,
+    })))
+    setEditingTiers(true)
+  }
+
+  const updateTierDraft = (index: number, field: keyof TierDraft, value: string) => {
+    setTierDrafts(tierDrafts.map((tier, i) => i === index ? { ...tier, [field]: value } : tier))
+  }
+
+  const openMerchantFeeEditor = (merchant: FeeConfig['merchants'][number]) => {
+    setMerchantDraft({
+      merchantId: merchant.merchantId,
+      name: merchant.name,
+      percentage: merchant.override?.percentage ?? String(merchant.effective.percentage),
+      flatFee: merchant.override?.flatFee ?? String(merchant.effective.flatFee),
+      effectiveFrom: "",
+      reason: "",
     })
   }
 
+  const handleToggleCustomFees = (merchant: FeeConfig['merchants'][number], enabled: boolean) => {
+    if (enabled) {
+      openMerchantFeeEditor(merchant)
+    } else {
+      merchantFeeMutation.mutate({ merchantId: merchant.merchantId, enabled: false })
+    }
+  }
+
   const calculateFeePreview = (amount: string, percentage: string, flatFee: string) => {
     const amt = parseFloat(amount) || 0
     const pct = parseFloat(percentage) || 0
@@ -128,7 +265,7 @@ export function FeeConfiguration() {
     }
   }
 
-  const samplePreview = calculateFeePreview("100", globalFees.percentage, globalFees.flatFee)
+  const samplePreview = calculateFeePreview("100", displayedGlobal.percentage, displayedGlobal.flatFee)
 
   const handleUpdatePartnerFee = (provider: string, newFee: string) => {
     console.log(`Updating ${provider} partner fee to ${newFee}`)
@@ -268,12 +405,14 @@ export function FeeConfiguration() {
               Global Fee Structure
             </CardTitle>
             <CardDescription>
-              Default fees applied to all merchants without custom rates
+              Default fees applied to all merchants without custom rates or a matching volume tier
+              {feeConfig && !feeConfig.global && " (currently the built-in default)"}
             </CardDescription>
           </div>
           <Button 
             variant={editingGlobal ? "default" : "outline"}
-            onClick={() => editingGlobal ? handleSaveGlobalFees() : setEditingGlobal(true)}
+            onClick={() => editingGlobal ? globalMutation.mutate() : handleEditGlobalFees()}
+            disabled={isLoading || globalMutation.isPending}
             data-testid={editingGlobal ? "button-save-global-fees" : "button-edit-global-fees"}
           >
             {editingGlobal ? <Save className="h-4 w-4 mr-2" /> : <Edit className="h-4 w-4 mr-2" />}
@@ -289,7 +428,7 @@ export function FeeConfiguration() {
                   id="percentage"
                   type="number"
                   step="0.1"
-                  value={globalFees.percentage}
+                  value={displayedGlobal.percentage}
                   onChange={(e) => setGlobalFees(prev => ({ ...prev, percentage: e.target.value }))}
                   disabled={!editingGlobal}
                   className="pr-8"
@@ -306,7 +445,7 @@ export function FeeConfiguration() {
                   id="flatFee"
                   type="number"
                   step="0.01"
-                  value={globalFees.flatFee}
+                  value={displayedGlobal.flatFee}
                   onChange={(e) => setGlobalFees(prev => ({ ...prev, flatFee: e.target.value }))}
                   disabled={!editingGlobal}
                   className="pl-8"
@@ -319,7 +458,7 @@ export function FeeConfiguration() {
             <div className="space-y-2">
               <Label htmlFor="currency">Currency</Label>
               <Select 
-                value={globalFees.currency} 
+                value={displayedGlobal.currency} 
                 onValueChange={(value) => setGlobalFees(prev => ({ ...prev, currency: value }))}
                 disabled={!editingGlobal}
               >
@@ -335,6 +474,26 @@ export function FeeConfiguration() {
             </div>
           </div>
 
+          {editingGlobal && (
+            <div className="mt-4 space-y-2">
+              <Label htmlFor="global-reason">Reason for change</Label>
+              <Input
+                id="global-reason"
+                value={globalFees.reason}
+                onChange={(e) => setGlobalFees(prev => ({ ...prev, reason: e.target.value }))}
+                placeholder="e.g. Market adjustment"
+                data-testid="input-global-reason"
+              />
+            </div>
+          )}
+
+          {feeConfig?.global && !editingGlobal && (
+            <p className="mt-4 text-xs text-muted-foreground">
+              In effect since {new Date(feeConfig.global.effectiveFrom).toLocaleDateString()}
+              {feeConfig.global.reason && ` • ${feeConfig.global.reason}`}
+            </p>
+          )}
+
           {/* Fee Preview */}
           <div className="mt-6 p-4 bg-muted/50 rounded-lg">
             <h3 className="font-semibold mb-3">Fee Preview (on $100 transaction)</h3>
@@ -362,11 +521,22 @@ export function FeeConfiguration() {
 
       {/* Volume Tiers */}
       <Card>
-        <CardHeader>
-          <CardTitle>Volume-Based Tiers</CardTitle>
-          <CardDescription>
-            Automatic fee reductions based on monthly transaction volume
-          </CardDescription>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Volume-Based Tiers</CardTitle>
+            <CardDescription>
+              Automatic fee reductions based on trailing 30-day completed volume
+            </CardDescription>
+          </div>
+          <Button
+            variant={editingTiers ? "default" : "outline"}
+            onClick={() => editingTiers ? tiersMutation.mutate() : handleEditTiers()}
+            disabled={isLoading || tiersMutation.isPending}
+            data-testid={editingTiers ? "button-save-tiers" : "button-edit-tiers"}
+          >
+            {editingTiers ? <Save className="h-4 w-4 mr-2" /> : <Edit className="h-4 w-4 mr-2" />}
+            {editingTiers ? "Save Tiers" : "Edit Tiers"}
+          </Button>
         </CardHeader>
         <CardContent>
           <div className="overflow-x-auto">
@@ -374,29 +544,62 @@ export function FeeConfiguration() {
               <TableHeader>
                 <TableRow>
                   <TableHead>Tier</TableHead>
-                  <TableHead>Volume Range</TableHead>
+                  <TableHead>Minimum Monthly Volume</TableHead>
                   <TableHead>Percentage Fee</TableHead>
                   <TableHead>Flat Fee</TableHead>
+                  {editingTiers && <TableHead></TableHead>}
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {volumeTiers.map((tier) => (
-                  <TableRow key={tier.tier}>
+                {editingTiers ? tierDrafts.map((tier, index) => (
+                  <TableRow key={index}>
                     <TableCell>
-                      <Badge variant={tier.tier === 'Enterprise' ? 'default' : 'secondary'}>
-                        {tier.tier}
-                      </Badge>
+                      <Input value={tier.tierName} onChange={(e) => updateTierDraft(index, 'tierName', e.target.value)} placeholder="Starter" />
                     </TableCell>
-                    <TableCell className="font-mono">
-                      {tier.minVolume} - {tier.maxVolume}
+                    <TableCell>
+                      <Input type="number" value={tier.minMonthlyVolume} onChange={(e) => updateTierDraft(index, 'minMonthlyVolume', e.target.value)} />
+                    </TableCell>
+                    <TableCell>
+                      <Input type="number" step="0.1" value={tier.percentage} onChange={(e) => updateTierDraft(index, 'percentage', e.target.value)} />
+                    </TableCell>
+                    <TableCell>
+                      <Input type="number" step="0.01" value={tier.flatFee} onChange={(e) => updateTierDraft(index, 'flatFee', e.target.value)} />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => setTierDrafts(tierDrafts.filter((_, i) => i !== index))}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
                     </TableCell>
-                    <TableCell className="font-mono">{tier.percentage}</TableCell>
-                    <TableCell className="font-mono">{tier.flatFee}</TableCell>
+                  </TableRow>
+                )) : (feeConfig?.tiers ?? []).map((tier) => (
+                  <TableRow key={tier.id}>
+                    <TableCell>
+                      <Badge variant="secondary">{tier.tierName}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono">{formatUsd(Number(tier.minMonthlyVolume))}+</TableCell>
+                    <TableCell className="font-mono">{tier.percentage}%</TableCell>
+                    <TableCell className="font-mono">${Number(tier.flatFee).toFixed(2)}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
             </Table>
           </div>
+          {editingTiers ? (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-3"
+              onClick={() => setTierDrafts([...tierDrafts, { tierName: "", minMonthlyVolume: "0", percentage: "", flatFee: "0" }])}
+              data-testid="button-add-tier"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add Tier
+            </Button>
+          ) : feeConfig && feeConfig.tiers.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No volume tiers configured. All merchants without custom fees use the global fee.
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -409,6 +612,11 @@ export function FeeConfiguration() {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
           <div className="overflow-x-auto">
             <Table>
               <TableHeader>
@@ -417,41 +625,51 @@ export function FeeConfiguration() {
                   <TableHead>Custom Fees</TableHead>
                   <TableHead>Percentage</TableHead>
                   <TableHead>Flat Fee</TableHead>
-                  <TableHead>Volume</TableHead>
+                  <TableHead>Applied From</TableHead>
+                  <TableHead>30-Day Volume</TableHead>
                   <TableHead>Effective Date</TableHead>
                   <TableHead></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {merchantFees.map((merchant) => (
-                  <TableRow key={merchant.id} data-testid={`row-merchant-fee-${merchant.id}`}>
+                {(feeConfig?.merchants ?? []).map((merchant) => (
+                  <TableRow key={merchant.merchantId} data-testid={`row-merchant-fee-${merchant.merchantId}`}>
                     <TableCell>
                       <div className="font-medium">{merchant.name}</div>
                     </TableCell>
                     <TableCell>
                       <Switch 
-                        checked={merchant.customFees}
-                        onCheckedChange={(checked) => handleToggleCustomFees(merchant.id, checked)}
-                        data-testid={`switch-custom-fees-${merchant.id}`}
+                        checked={merchant.effective.source === 'merchant'}
+                        onCheckedChange={(checked) => handleToggleCustomFees(merchant, checked)}
+                        disabled={merchantFeeMutation.isPending}
+                        data-testid={`switch-custom-fees-${merchant.merchantId}`}
                       />
                     </TableCell>
                     <TableCell>
-                      <span className="font-mono">{merchant.percentage}%</span>
+                      <span className="font-mono">{merchant.effective.percentage}%</span>
+                    </TableCell>
+                    <TableCell>
+                      <span className="font-mono">${merchant.effective.flatFee.toFixed(2)}</span>
                     </TableCell>
                     <TableCell>
-                      <span className="font-mono">${merchant.flatFee}</span>
+                      <Badge variant={merchant.effective.source === 'merchant' ? 'default' : 'outline'}>
+                        {describeSource(merchant.effective)}
+                      </Badge>
                     </TableCell>
                     <TableCell>
-                      <span className="font-mono">{merchant.volume}</span>
+                      <span className="font-mono">
+                        {merchant.effective.monthlyVolume !== null ? formatUsd(merchant.effective.monthlyVolume) : '—'}
+                      </span>
                     </TableCell>
                     <TableCell className="text-sm text-muted-foreground">
-                      {new Date(merchant.effectiveDate).toLocaleDateString()}
+                      {merchant.override ? new Date(merchant.override.effectiveFrom).toLocaleDateString() : '—'}
                     </TableCell>
                     <TableCell>
                       <Button 
                         variant="outline" 
                         size="sm"
-                        data-testid={`button-edit-merchant-fee-${merchant.id}`}
+                        onClick={() => openMerchantFeeEditor(merchant)}
+                        data-testid={`button-edit-merchant-fee-${merchant.merchantId}`}
                       >
                         <Edit className="h-3 w-3 mr-1" />
                         Edit
@@ -462,37 +680,131 @@ export function FeeConfiguration() {
               </TableBody>
             </Table>
           </div>
+          )}
         </CardContent>
       </Card>
 
+      <Dialog open={!!merchantDraft} onOpenChange={(open) => !open && setMerchantDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Custom Fees for {merchantDraft?.name}</DialogTitle>
+            <DialogDescription>
+              Overrides the global fee and volume tiers for this merchant.
+            </DialogDescription>
+          </DialogHeader>
+          {merchantDraft && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="merchant-fee-percentage">Percentage Fee (%)</Label>
+                <Input
+                  id="merchant-fee-percentage"
+                  type="number"
+                  step="0.1"
+                  value={merchantDraft.percentage}
+                  onChange={(e) => setMerchantDraft({ ...merchantDraft, percentage: e.target.value })}
+                  data-testid="input-merchant-fee-percentage"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="merchant-fee-flat">Flat Fee</Label>
+                <Input
+                  id="merchant-fee-flat"
+                  type="number"
+                  step="0.01"
+                  value={merchantDraft.flatFee}
+                  onChange={(e) => setMerchantDraft({ ...merchantDraft, flatFee: e.target.value })}
+                  data-testid="input-merchant-fee-flat"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="merchant-fee-effective">Effective From</Label>
+                <Input
+                  id="merchant-fee-effective"
+                  type="date"
+                  value={merchantDraft.effectiveFrom}
+                  onChange={(e) => setMerchantDraft({ ...merchantDraft, effectiveFrom: e.target.value })}
+                  data-testid="input-merchant-fee-effective"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="merchant-fee-reason">Reason</Label>
+                <Input
+                  id="merchant-fee-reason"
+                  value={merchantDraft.reason}
+                  onChange={(e) => setMerchantDraft({ ...merchantDraft, reason: e.target.value })}
+                  placeholder="e.g. Volume agreement"
+                  data-testid="input-merchant-fee-reason"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMerchantDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => merchantDraft && merchantFeeMutation.mutate({
+                merchantId: merchantDraft.merchantId,
+                enabled: true,
+                percentage: merchantDraft.percentage,
+                flatFee: merchantDraft.flatFee,
+                effectiveFrom: merchantDraft.effectiveFrom || undefined,
+                reason: merchantDraft.reason || undefined,
+              })}
+              disabled={!merchantDraft?.percentage || merchantFeeMutation.isPending}
+              data-testid="button-save-merchant-fee"
+            >
+              {merchantFeeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Custom Fees
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Scheduled Changes */}
       <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Calendar className="h-5 w-5" />
-            Scheduled Fee Changes
-          </CardTitle>
-          <CardDescription>
-            Upcoming fee modifications with effective dates
-          </CardDescription>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Scheduled Fee Changes
+            </CardTitle>
+            <CardDescription>
+              Upcoming fee modifications with effective dates. Affected merchants are notified when a change takes effect.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => setScheduleDraft(emptyScheduleDraft())} data-testid="button-schedule-fee-change">
+            <Plus className="h-4 w-4 mr-2" />
+            Schedule Change
+          </Button>
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
+            {scheduledChanges.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No fee changes scheduled</p>
+            )}
             {scheduledChanges.map((change) => (
               <div key={change.id} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`scheduled-change-${change.id}`}>
                 <div className="space-y-1">
                   <div className="flex items-center gap-2">
-                    <span className="font-medium">{change.merchant}</span>
-                    <Badge variant="outline">{change.reason}</Badge>
+                    <span className="font-medium">
+                      {change.scope === 'merchant' ? change.merchantName : change.scope === 'tier' ? `${change.tierName} Tier` : 'Global Default'}
+                    </span>
+                    {change.reason && <Badge variant="outline">{change.reason}</Badge>}
                   </div>
                   <p className="text-sm text-muted-foreground">
-                    {change.currentFee} → {change.newFee} effective {new Date(change.effectiveDate).toLocaleDateString()}
+                    {change.currentFee ? `${change.currentFee.percentage}% + $${change.currentFee.flatFee.toFixed(2)} → ` : ''}
+                    {change.percentage}% + ${Number(change.flatFee).toFixed(2)} effective {new Date(change.effectiveFrom).toLocaleString()}
                   </p>
                 </div>
                 <div className="flex items-center gap-2">
                   <Badge variant="secondary">Scheduled</Badge>
-                  <Button variant="outline" size="sm">
-                    Edit
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => cancelScheduleMutation.mutate(change.id)}
+                    disabled={cancelScheduleMutation.isPending}
+                    data-testid={`button-cancel-scheduled-change-${change.id}`}
+                  >
+                    Cancel
                   </Button>
                 </div>
               </div>
@@ -500,6 +812,111 @@ export function FeeConfiguration() {
           </div>
         </CardContent>
       </Card>
+
+      <Dialog open={!!scheduleDraft} onOpenChange={(open) => !open && setScheduleDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Schedule Fee Change</DialogTitle>
+            <DialogDescription>
+              The new fee applies automatically from the effective date.
+            </DialogDescription>
+          </DialogHeader>
+          {scheduleDraft && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Applies To</Label>
+                <Select
+                  value={scheduleDraft.scope}
+                  onValueChange={(value) => setScheduleDraft({ ...scheduleDraft, scope: value as ScheduleDraft['scope'] })}
+                >
+                  <SelectTrigger data-testid="select-schedule-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="global">Global Default</SelectItem>
+                    <SelectItem value="merchant">Specific Merchant</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {scheduleDraft.scope === 'merchant' && (
+                <div className="space-y-2">
+                  <Label>Merchant</Label>
+                  <Select
+                    value={scheduleDraft.merchantId}
+                    onValueChange={(value) => setScheduleDraft({ ...scheduleDraft, merchantId: value })}
+                  >
+                    <SelectTrigger data-testid="select-schedule-merchant">
+                      <SelectValue placeholder="Select merchant" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(feeConfig?.merchants ?? []).map(merchant => (
+                        <SelectItem key={merchant.merchantId} value={merchant.merchantId}>{merchant.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="schedule-percentage">Percentage Fee (%)</Label>
+                <Input
+                  id="schedule-percentage"
+                  type="number"
+                  step="0.1"
+                  value={scheduleDraft.percentage}
+                  onChange={(e) => setScheduleDraft({ ...scheduleDraft, percentage: e.target.value })}
+                  data-testid="input-schedule-percentage"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-flat-fee">Flat Fee</Label>
+                <Input
+                  id="schedule-flat-fee"
+                  type="number"
+                  step="0.01"
+                  value={scheduleDraft.flatFee}
+                  onChange={(e) => setScheduleDraft({ ...scheduleDraft, flatFee: e.target.value })}
+                  data-testid="input-schedule-flat-fee"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-effective">Effective From</Label>
+                <Input
+                  id="schedule-effective"
+                  type="datetime-local"
+                  value={scheduleDraft.effectiveFrom}
+                  onChange={(e) => setScheduleDraft({ ...scheduleDraft, effectiveFrom: e.target.value })}
+                  data-testid="input-schedule-effective"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-reason">Reason</Label>
+                <Input
+                  id="schedule-reason"
+                  value={scheduleDraft.reason}
+                  onChange={(e) => setScheduleDraft({ ...scheduleDraft, reason: e.target.value })}
+                  placeholder="e.g. Market adjustment"
+                  data-testid="input-schedule-reason"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setScheduleDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => scheduleDraft && scheduleMutation.mutate(scheduleDraft)}
+              disabled={
+                !scheduleDraft?.percentage || !scheduleDraft.effectiveFrom || !scheduleDraft.reason
+                || (scheduleDraft.scope === 'merchant' && !scheduleDraft.merchantId)
+                || scheduleMutation.isPending
+              }
+              data-testid="button-save-scheduled-change"
+            >
+              {scheduleMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
-}
\ No newline at end of file
+}
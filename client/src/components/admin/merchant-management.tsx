@@ -14,6 +14,9 @@ import { Label } from "@/components/ui/label"
 import { useToast } from "@/hooks/use-toast"
 import { useQuery, useMutation } from "@tanstack/react-query"
 import { apiRequest, queryClient } from "@/lib/queryClient"
+import { MerchantProvisioning } from "./merchant-provisioning"
+import { MerchantOnboarding } from "./merchant-onboarding"
+import { MerchantTransakCredentials } from "./merchant-transak-credentials"
 
 // Types for merchant data
 interface MerchantData {
@@ -295,9 +298,8 @@ export function MerchantManagement() {
   // Create trade account mutation
   const createTradeAccountMutation = useMutation({
     mutationFn: async (merchantId: string) => {
-      const response = await apiRequest('POST', `/api/admin/merchants/${merchantId}/create-trade-account`, {
-        asset: 'USDC'
-      })
+      // No asset list: the server provisions its configured set of assets
+      const response = await apiRequest('POST', `/api/admin/merchants/${merchantId}/create-trade-account`, {})
       return await response.json()
     },
     retry: (failureCount, error: any) => {
@@ -325,8 +327,9 @@ export function MerchantManagement() {
       refetchMerchants()
       queryClient.invalidateQueries({ queryKey: ['/api/admin/merchants'] })
       toast({
-        title: "Trade Account Created",
-        description: `USDC trade account created successfully: ${data.tradeAccount?.guid || 'Account ready'}`,
+        title: data.success ? "Trade Accounts Created" : "Trade Accounts Partially Created",
+        description: `Trade accounts ready: ${data.tradeAccounts?.map((a: any) => a.asset).join(', ') || 'none'}${data.errors?.length ? `. Failed: ${data.errors.map((e: any) => e.asset).join(', ')}` : ''}`,
+        variant: data.success ? "default" : "destructive",
       })
     },
     onError: (error: any) => {
@@ -388,9 +391,7 @@ export function MerchantManagement() {
   // Create deposit address mutation
   const createDepositAddressMutation = useMutation({
     mutationFn: async (merchantId: string) => {
-      const response = await apiRequest('POST', `/api/admin/merchants/${merchantId}/create-deposit-address`, {
-        asset: 'USDC'
-      })
+      const response = await apiRequest('POST', `/api/admin/merchants/${merchantId}/create-deposit-address`, {})
       return await response.json()
     },
     retry: (failureCount, error: any) => {
@@ -418,8 +419,9 @@ export function MerchantManagement() {
       refetchMerchants()
       queryClient.invalidateQueries({ queryKey: ['/api/admin/merchants'] })
       toast({
-        title: "Deposit Address Created",
-        description: `USDC deposit address created successfully: ${data.depositAddress?.address || 'Address ready'}`,
+        title: data.success ? "Deposit Addresses Created" : "Deposit Addresses Partially Created",
+        description: `Deposit addresses ready: ${data.depositAddresses?.map((a: any) => a.asset).join(', ') || 'none'}${data.errors?.length ? `. Failed: ${data.errors.map((e: any) => e.asset).join(', ')}` : ''}`,
+        variant: data.success ? "default" : "destructive",
       })
     },
     onError: (error: any) => {
@@ -1262,7 +1264,7 @@ export function MerchantManagement() {
 
       {/* Cybrid Status Dialog */}
       <Dialog open={showCybridDialog} onOpenChange={setShowCybridDialog}>
-        <DialogContent className="sm:max-w-lg">
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Wallet className="h-5 w-5" />
@@ -1340,6 +1342,24 @@ export function MerchantManagement() {
             </div>
           )}
 
+          {selectedMerchant && (
+            <div className="border-t pt-4">
+              <MerchantOnboarding merchantId={selectedMerchant.id} />
+            </div>
+          )}
+
+          {selectedMerchant && (
+            <div className="border-t pt-4">
+              <MerchantTransakCredentials merchantId={selectedMerchant.id} />
+            </div>
+          )}
+
+          {selectedMerchant && cybridStatus?.hasCustomer && (
+            <div className="border-t pt-4">
+              <MerchantProvisioning merchantId={selectedMerchant.id} />
+            </div>
+          )}
+
           {/* Customer Type Display - show the type selected during merchant creation */}
           {selectedMerchant && (
             <div className="space-y-3 border-t pt-4">
@@ -1593,7 +1613,7 @@ export function MerchantManagement() {
                               ) : (
                                 <TrendingUp className="h-4 w-4 mr-2" />
                               )}
-                              Create USDC Trade Account (Manual)
+                              Create Trade Accounts (Manual)
                             </DropdownMenuItem>
                           )}
 
@@ -1615,7 +1635,7 @@ export function MerchantManagement() {
                               ) : (
                                 <Wallet className="h-4 w-4 mr-2" />
                               )}
-                              Create USDC Deposit Address {merchant.depositAddressStatus === 'error' ? '(Retry)' : '(Manual)'}
+                              Create Deposit Addresses {merchant.depositAddressStatus === 'error' ? '(Retry)' : '(Manual)'}
                             </DropdownMenuItem>
                           )}
 
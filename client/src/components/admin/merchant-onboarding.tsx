@@ -0,0 +1,171 @@
+import { useState } from "react"
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { ArrowRight, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+import { onboardingStates, type OnboardingState } from "@shared/schema"
+
+interface StateTransition {
+  id: string
+  fromState: OnboardingState
+  toState: OnboardingState
+  trigger: string
+  actorId: string | null
+  reason: string | null
+  forced: boolean
+  createdAt: string
+}
+
+interface OnboardingStatus {
+  state: OnboardingState
+  allowedTransitions: OnboardingState[]
+  transitions: StateTransition[]
+}
+
+interface MerchantOnboardingProps {
+  merchantId: string
+}
+
+const stateLabel = (state: OnboardingState) => state.replace(/_/g, ' ')
+
+const stateVariant = (state: OnboardingState): "default" | "secondary" | "destructive" | "outline" => {
+  switch (state) {
+    case 'active':
+      return 'default'
+    case 'customer_error':
+    case 'kyc_rejected':
+    case 'provisioning_failed':
+    case 'deactivated':
+      return 'destructive'
+    case 'registered':
+      return 'outline'
+    default:
+      return 'secondary'
+  }
+}
+
+// Onboarding state machine for a merchant: current state, transition history and manual transitions
+export function MerchantOnboarding({ merchantId }: MerchantOnboardingProps) {
+  const { toast } = useToast()
+  const queryKey = ['/api/admin/merchants', merchantId, 'onboarding']
+  const [target, setTarget] = useState<OnboardingState | "">("")
+  const [reason, setReason] = useState("")
+  const [force, setForce] = useState(false)
+
+  const { data, isLoading } = useQuery<OnboardingStatus>({
+    queryKey,
+    refetchInterval: 10000,
+  })
+
+  const transitionMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/merchants/${merchantId}/onboarding/transition`, { state: target, reason, force })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey })
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/merchants', merchantId, 'provisioning'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/merchants'] })
+      toast({ title: "Onboarding state updated", description: `Merchant moved to ${stateLabel(target as OnboardingState)}.` })
+      setTarget("")
+      setReason("")
+      setForce(false)
+    },
+    onError: (error: Error) => {
+      toast({ title: "Transition failed", description: error.message, variant: "destructive" })
+    },
+  })
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const targets = force
+    ? onboardingStates.filter(state => state !== data.state)
+    : data.allowedTransitions
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Onboarding State</Label>
+        <Badge variant={stateVariant(data.state)} className="capitalize" data-testid="badge-onboarding-state">
+          {stateLabel(data.state)}
+        </Badge>
+      </div>
+
+      <div className="space-y-2 p-2 border rounded">
+        <div className="flex gap-2">
+          <Select value={target} onValueChange={(value) => setTarget(value as OnboardingState)}>
+            <SelectTrigger className="flex-1" data-testid="select-onboarding-target">
+              <SelectValue placeholder={targets.length > 0 ? "Move to…" : "No transitions available"} />
+            </SelectTrigger>
+            <SelectContent>
+              {targets.map(state => (
+                <SelectItem key={state} value={state} className="capitalize">{stateLabel(state)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={() => transitionMutation.mutate()}
+            disabled={!target || !reason.trim() || transitionMutation.isPending}
+            data-testid="button-onboarding-transition"
+          >
+            {transitionMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : "Apply"}
+          </Button>
+        </div>
+        <Input
+          placeholder="Reason (recorded in history)"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          data-testid="input-onboarding-reason"
+        />
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={`force-${merchantId}`}
+            checked={force}
+            onCheckedChange={(checked) => {
+              setForce(checked === true)
+              setTarget("")
+            }}
+            data-testid="checkbox-onboarding-force"
+          />
+          <Label htmlFor={`force-${merchantId}`} className="text-xs text-muted-foreground">
+            Force (allow transitions outside the normal flow)
+          </Label>
+        </div>
+      </div>
+
+      {data.transitions.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {data.transitions.map(transition => (
+            <div key={transition.id} className="text-xs p-2 bg-muted rounded space-y-0.5" data-testid={`transition-${transition.id}`}>
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-1 capitalize">
+                  {stateLabel(transition.fromState)}
+                  <ArrowRight className="h-3 w-3" />
+                  {stateLabel(transition.toState)}
+                  {transition.forced && <Badge variant="outline" className="ml-1 text-[10px] px-1 py-0">forced</Badge>}
+                </span>
+                <span className="text-muted-foreground">{new Date(transition.createdAt).toLocaleString()}</span>
+              </div>
+              <div className="text-muted-foreground">
+                {transition.trigger.replace(/_/g, ' ')}
+                {transition.reason && ` — ${transition.reason}`}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { RotateCcw, Loader2, CheckCircle, AlertTriangle, Clock, Skull } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+
+interface ProvisioningJob {
+  id: string
+  status: 'pending' | 'running' | 'succeeded' | 'dead'
+  attempts: number
+  maxAttempts: number
+  runAt: string
+  lastError: string | null
+  payload: { asset?: string }
+}
+
+interface ProvisioningStatus {
+  kybStatus: string | null
+  tradeAccountStatus: string | null
+  cybridLastError: string | null
+  assets: Array<{
+    asset: string
+    tradeAccountStatus: string | null
+    tradeAccountError: string | null
+    depositAddress: string | null
+    ready: boolean
+    latestJob: ProvisioningJob | null
+  }>
+}
+
+interface MerchantProvisioningProps {
+  merchantId: string
+}
+
+const jobBadge = (job: ProvisioningJob) => {
+  switch (job.status) {
+    case 'succeeded':
+      return <Badge variant="default" className="gap-1"><CheckCircle className="h-3 w-3" />Done</Badge>
+    case 'dead':
+      return <Badge variant="destructive" className="gap-1"><Skull className="h-3 w-3" />Dead</Badge>
+    case 'running':
+      return <Badge variant="secondary" className="gap-1"><Loader2 className="h-3 w-3 animate-spin" />Running</Badge>
+    default:
+      return (
+        <Badge variant="outline" className="gap-1">
+          <Clock className="h-3 w-3" />
+          {job.attempts > 0 ? `Retry ${new Date(job.runAt).toLocaleTimeString()}` : 'Queued'}
+        </Badge>
+      )
+  }
+}
+
+// Per-asset trade account / deposit address provisioning for a merchant, with retry for stuck jobs
+export function MerchantProvisioning({ merchantId }: MerchantProvisioningProps) {
+  const { toast } = useToast()
+  const queryKey = ['/api/admin/merchants', merchantId, 'provisioning']
+
+  const { data, isLoading } = useQuery<ProvisioningStatus>({
+    queryKey,
+    refetchInterval: 10000,
+  })
+
+  const onError = (error: Error) => {
+    toast({ title: "Retry failed", description: error.message, variant: "destructive" })
+  }
+
+  const retryAllMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/merchants/${merchantId}/provisioning/retry`)
+      return response.json() as Promise<{ queued: ProvisioningJob[]; message?: string }>
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey })
+      toast({
+        title: result.queued.length > 0 ? "Provisioning queued" : "Nothing to retry",
+        description: result.message ?? `${result.queued.length} asset${result.queued.length === 1 ? '' : 's'} queued for provisioning.`,
+      })
+    },
+    onError,
+  })
+
+  const retryJobMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      await apiRequest("POST", `/api/admin/jobs/${jobId}/retry`)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey })
+    },
+    onError,
+  })
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const hasIncomplete = data.assets.some(asset => !asset.ready)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Account Provisioning</Label>
+        {hasIncomplete && data.kybStatus === 'approved' && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => retryAllMutation.mutate()}
+            disabled={retryAllMutation.isPending}
+            data-testid="button-retry-provisioning"
+          >
+            {retryAllMutation.isPending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <RotateCcw className="h-3 w-3 mr-1" />}
+            Retry Provisioning
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {data.assets.map(asset => (
+          <div key={asset.asset} className="p-2 border rounded space-y-1" data-testid={`provisioning-${asset.asset}`}>
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{asset.asset}</span>
+              <div className="flex items-center gap-2">
+                {asset.ready ? (
+                  <Badge variant="default" className="gap-1"><CheckCircle className="h-3 w-3" />Ready</Badge>
+                ) : asset.latestJob ? (
+                  jobBadge(asset.latestJob)
+                ) : asset.tradeAccountStatus === 'error' ? (
+                  <Badge variant="destructive" className="gap-1"><AlertTriangle className="h-3 w-3" />Error</Badge>
+                ) : (
+                  <Badge variant="outline">Not started</Badge>
+                )}
+                {!asset.ready && asset.latestJob && (asset.latestJob.status === 'dead' || asset.latestJob.status === 'pending') && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => retryJobMutation.mutate(asset.latestJob!.id)}
+                    disabled={retryJobMutation.isPending}
+                    data-testid={`button-retry-job-${asset.asset}`}
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {asset.depositAddress && (
+              <div className="font-mono text-xs text-muted-foreground break-all">{asset.depositAddress}</div>
+            )}
+            {!asset.ready && (asset.latestJob?.lastError || asset.tradeAccountError) && (
+              <div className="text-xs text-destructive">
+                {asset.latestJob?.lastError ?? asset.tradeAccountError}
+                {asset.latestJob && ` (attempt ${asset.latestJob.attempts}/${asset.latestJob.maxAttempts})`}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
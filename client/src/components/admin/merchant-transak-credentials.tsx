@@ -0,0 +1,111 @@
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+import { transakCredentialPolicies, type CredentialVerificationStatus, type MerchantMode, type TransakCredentialPolicy, type TransakCredentialSource } from "@shared/schema"
+
+interface TransakCredentialStatus {
+  policy: TransakCredentialPolicy
+  mode: MerchantMode
+  effectiveSource: TransakCredentialSource | null
+  merchantCredentials: {
+    configured: boolean
+    environment: string | null
+    isActive: boolean
+    verificationStatus: CredentialVerificationStatus | null
+    lastVerifiedAt: string | null
+    verificationError: string | null
+  }
+  platformConfigured: boolean
+}
+
+interface MerchantTransakCredentialsProps {
+  merchantId: string
+}
+
+const policyLabels: Record<TransakCredentialPolicy, string> = {
+  merchant: "Merchant's own keys only",
+  platform: "Platform keys",
+  merchant_with_fallback: "Merchant's keys, falling back to platform"
+}
+
+// Whose Transak keys the merchant's pricing, sessions and off-ramp use
+export function MerchantTransakCredentials({ merchantId }: MerchantTransakCredentialsProps) {
+  const { toast } = useToast()
+  const queryKey = ['/api/admin/merchants', merchantId, 'transak-credentials']
+
+  const { data, isLoading } = useQuery<TransakCredentialStatus>({
+    queryKey,
+  })
+
+  const policyMutation = useMutation({
+    mutationFn: async (policy: TransakCredentialPolicy) => {
+      await apiRequest("PUT", `/api/admin/merchants/${merchantId}/transak-credentials/policy`, { policy })
+    },
+    onSuccess: (_, policy) => {
+      queryClient.invalidateQueries({ queryKey })
+      toast({ title: "Credential policy updated", description: policyLabels[policy] })
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update credential policy", description: error.message, variant: "destructive" })
+    },
+  })
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Transak Credentials</Label>
+        {data.effectiveSource ? (
+          <Badge variant="secondary" className="capitalize" data-testid="badge-transak-credential-source">
+            Using {data.effectiveSource} keys
+          </Badge>
+        ) : (
+          <Badge variant="destructive" data-testid="badge-transak-credential-source">Not configured</Badge>
+        )}
+      </div>
+
+      <Select
+        value={data.policy}
+        onValueChange={(value) => policyMutation.mutate(value as TransakCredentialPolicy)}
+        disabled={policyMutation.isPending}
+      >
+        <SelectTrigger data-testid="select-transak-credential-policy">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {transakCredentialPolicies.map(policy => (
+            <SelectItem key={policy} value={policy}>{policyLabels[policy]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="text-xs text-muted-foreground space-y-0.5">
+        <div className="capitalize" data-testid="text-merchant-mode">{data.mode} mode</div>
+        <div>
+          Merchant keys: {data.merchantCredentials.configured
+            ? `saved (${data.merchantCredentials.environment})`
+            : data.merchantCredentials.environment ? "saved but inactive or missing from the secret store" : "not saved"}
+        </div>
+        {data.merchantCredentials.verificationStatus && (
+          <div data-testid="text-transak-verification">
+            Verification: {data.merchantCredentials.verificationStatus}
+            {data.merchantCredentials.lastVerifiedAt && `, last verified ${new Date(data.merchantCredentials.lastVerifiedAt).toLocaleString()}`}
+            {data.merchantCredentials.verificationError && ` (${data.merchantCredentials.verificationError})`}
+          </div>
+        )}
+        <div>Platform keys: {data.platformConfigured ? "configured" : "not configured"}</div>
+      </div>
+    </div>
+  )
+}
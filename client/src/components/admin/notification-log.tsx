@@ -0,0 +1,173 @@
+import { useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { Search, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { notificationTemplates, notificationStatuses, type NotificationStatus } from "@shared/schema"
+
+interface NotificationEntry {
+  id: string
+  template: string
+  recipient: string
+  recipientType: string
+  recipientId: string | null
+  subject: string
+  status: NotificationStatus
+  transport: string
+  error: string | null
+  createdAt: string
+  sentAt: string | null
+}
+
+const statusBadgeVariants = {
+  sent: "default" as const,
+  pending: "secondary" as const,
+  failed: "destructive" as const
+}
+
+// Outbound emails with their delivery outcome; bodies aren't stored, only the subject and template inputs
+export function NotificationLog() {
+  const [template, setTemplate] = useState("all")
+  const [status, setStatus] = useState("all")
+  const [searchInput, setSearchInput] = useState("")
+  const [search, setSearch] = useState("")
+
+  const params = new URLSearchParams()
+  if (template !== "all") params.set("template", template)
+  if (status !== "all") params.set("status", status)
+  if (search) params.set("search", search)
+  const query = params.toString()
+
+  const { data: notifications = [], isLoading } = useQuery<NotificationEntry[]>({
+    queryKey: [`/api/admin/notifications${query ? `?${query}` : ''}`],
+  })
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Notifications</h1>
+        <p className="text-muted-foreground">
+          Emails sent to merchants, admins and invitees
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Template</Label>
+              <Select value={template} onValueChange={setTemplate}>
+                <SelectTrigger data-testid="select-notification-template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Templates</SelectItem>
+                  {notificationTemplates.map(value => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger data-testid="select-notification-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {notificationStatuses.map(value => (
+                    <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="notification-search">Recipient</Label>
+              <form
+                className="flex gap-2"
+                onSubmit={e => {
+                  e.preventDefault()
+                  setSearch(searchInput.trim())
+                }}
+              >
+                <Input
+                  id="notification-search"
+                  placeholder="Email address"
+                  value={searchInput}
+                  onChange={e => setSearchInput(e.target.value)}
+                  data-testid="input-notification-search"
+                />
+                <Button type="submit" variant="outline" size="icon">
+                  <Search className="h-4 w-4" />
+                </Button>
+              </form>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sent Emails</CardTitle>
+          <CardDescription>Newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No notifications match these filters</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Template</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Transport</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {notifications.map(notification => (
+                    <TableRow key={notification.id} data-testid={`row-notification-${notification.id}`}>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {new Date(notification.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{notification.recipient}</div>
+                        <div className="text-xs text-muted-foreground capitalize">{notification.recipientType}</div>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{notification.template}</TableCell>
+                      <TableCell className="text-sm max-w-[280px] truncate">{notification.subject}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusBadgeVariants[notification.status] ?? "outline"} className="capitalize">
+                          {notification.status}
+                        </Badge>
+                        {notification.error && (
+                          <div className="text-xs text-destructive mt-1 max-w-[240px] truncate" title={notification.error}>
+                            {notification.error}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{notification.transport}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
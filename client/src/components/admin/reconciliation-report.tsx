@@ -0,0 +1,264 @@
+import { useState } from "react"
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { Play, Loader2, CheckCircle, AlertTriangle, Wrench, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+import { reconciliationChecks, type ReconciliationDiscrepancy, type ReconciliationMerchantError } from "@shared/schema"
+
+interface ReconciliationRunSummary {
+  id: string
+  trigger: 'scheduled' | 'manual'
+  status: 'running' | 'completed' | 'failed'
+  merchantsChecked: number
+  discrepancyCount: number
+  repairedCount: number
+  errorCount: number
+  error: string | null
+  startedAt: string
+  completedAt: string | null
+}
+
+interface ReconciliationRun extends ReconciliationRunSummary {
+  discrepancies: ReconciliationDiscrepancy[]
+  merchantErrors: ReconciliationMerchantError[]
+}
+
+const runStatusBadge = (status: ReconciliationRunSummary['status']) => {
+  switch (status) {
+    case 'completed':
+      return <Badge variant="default" className="gap-1"><CheckCircle className="h-3 w-3" />Completed</Badge>
+    case 'failed':
+      return <Badge variant="destructive" className="gap-1"><XCircle className="h-3 w-3" />Failed</Badge>
+    default:
+      return <Badge variant="secondary" className="gap-1"><Loader2 className="h-3 w-3 animate-spin" />Running</Badge>
+  }
+}
+
+// Last Cybrid reconciliation run's discrepancies, recent run history and a manual trigger
+export function ReconciliationReport() {
+  const { toast } = useToast()
+  const [check, setCheck] = useState("all")
+  const [repaired, setRepaired] = useState("all")
+
+  const { data: latest, isLoading } = useQuery<{ running: boolean; run: ReconciliationRun | null }>({
+    queryKey: ['/api/admin/reconciliation/runs/latest'],
+    refetchInterval: (query) => query.state.data?.running ? 5000 : false,
+  })
+
+  const { data: history } = useQuery<{ running: boolean; runs: ReconciliationRunSummary[] }>({
+    queryKey: ['/api/admin/reconciliation/runs'],
+    refetchInterval: (query) => query.state.data?.running ? 5000 : false,
+  })
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/reconciliation/runs")
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reconciliation/runs'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reconciliation/runs/latest'] })
+      toast({ title: "Reconciliation started", description: "Merchants are being compared with Cybrid in the background." })
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not start reconciliation", description: error.message, variant: "destructive" })
+    },
+  })
+
+  const running = latest?.running || history?.running
+  const run = latest?.run
+  const discrepancies = (run?.discrepancies ?? []).filter(discrepancy =>
+    (check === "all" || discrepancy.check === check)
+    && (repaired === "all" || (repaired === "repaired") === discrepancy.repaired)
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Cybrid Reconciliation</h1>
+          <p className="text-muted-foreground">
+            Scheduled comparison of merchant customer, KYC and account state with Cybrid
+          </p>
+        </div>
+        <Button
+          onClick={() => runMutation.mutate()}
+          disabled={running || runMutation.isPending}
+          data-testid="button-run-reconciliation"
+        >
+          {running || runMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+          {running ? "Running…" : "Run Now"}
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Last completed run</CardDescription>
+            <CardTitle className="text-lg" data-testid="text-last-run">
+              {run?.completedAt ? new Date(run.completedAt).toLocaleString() : "Never"}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Merchants checked</CardDescription>
+            <CardTitle className="text-2xl">{run?.merchantsChecked ?? 0}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Discrepancies (repaired)</CardDescription>
+            <CardTitle className="text-2xl">
+              {run?.discrepancyCount ?? 0}
+              <span className="text-base text-muted-foreground font-normal"> ({run?.repairedCount ?? 0})</span>
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Needs attention</CardDescription>
+            <CardTitle className="text-2xl text-destructive" data-testid="text-unrepaired-count">
+              {(run?.discrepancyCount ?? 0) - (run?.repairedCount ?? 0) + (run?.errorCount ?? 0)}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row gap-4 justify-between">
+            <div>
+              <CardTitle>Discrepancies</CardTitle>
+              <CardDescription>Differences found in the last completed run. Unrepaired items need an admin.</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={check} onValueChange={setCheck}>
+                <SelectTrigger className="w-44" data-testid="select-check-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All checks</SelectItem>
+                  {reconciliationChecks.map(value => (
+                    <SelectItem key={value} value={value} className="capitalize">{value.replace(/_/g, ' ')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={repaired} onValueChange={setRepaired}>
+                <SelectTrigger className="w-40" data-testid="select-repaired-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="repaired">Repaired</SelectItem>
+                  <SelectItem value="unrepaired">Needs attention</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : discrepancies.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {run ? "No discrepancies match the filters." : "No reconciliation run has completed yet."}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Merchant</TableHead>
+                  <TableHead>Check</TableHead>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Local</TableHead>
+                  <TableHead>Cybrid</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {discrepancies.map((discrepancy, index) => (
+                  <TableRow key={`${discrepancy.merchantId}-${discrepancy.check}-${discrepancy.field}-${discrepancy.asset ?? ''}-${index}`}>
+                    <TableCell className="font-medium">{discrepancy.merchantName}</TableCell>
+                    <TableCell className="capitalize">
+                      {discrepancy.check.replace(/_/g, ' ')}
+                      {discrepancy.asset && <Badge variant="outline" className="ml-2">{discrepancy.asset}</Badge>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{discrepancy.field}</TableCell>
+                    <TableCell className="font-mono text-xs break-all">{discrepancy.localValue ?? "—"}</TableCell>
+                    <TableCell className="font-mono text-xs break-all">{discrepancy.remoteValue ?? "—"}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        {discrepancy.repaired ? (
+                          <Badge variant="default" className="gap-1"><Wrench className="h-3 w-3" />Repaired</Badge>
+                        ) : (
+                          <Badge variant="destructive" className="gap-1"><AlertTriangle className="h-3 w-3" />Needs attention</Badge>
+                        )}
+                        {discrepancy.detail && <p className="text-xs text-muted-foreground">{discrepancy.detail}</p>}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {run && run.merchantErrors.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <h3 className="text-sm font-medium">Merchants that could not be checked</h3>
+              {run.merchantErrors.map(merchantError => (
+                <div key={merchantError.merchantId} className="p-2 rounded border border-destructive/20 bg-destructive/10 text-sm">
+                  <span className="font-medium">{merchantError.merchantName}</span>
+                  <span className="text-destructive/80">: {merchantError.error}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Runs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Trigger</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Merchants</TableHead>
+                <TableHead className="text-right">Discrepancies</TableHead>
+                <TableHead className="text-right">Repaired</TableHead>
+                <TableHead className="text-right">Errors</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(history?.runs ?? []).map(item => (
+                <TableRow key={item.id} data-testid={`row-reconciliation-run-${item.id}`}>
+                  <TableCell>{new Date(item.startedAt).toLocaleString()}</TableCell>
+                  <TableCell className="capitalize">{item.trigger}</TableCell>
+                  <TableCell>
+                    {runStatusBadge(item.status)}
+                    {item.error && <p className="text-xs text-destructive mt-1">{item.error}</p>}
+                  </TableCell>
+                  <TableCell className="text-right">{item.merchantsChecked}</TableCell>
+                  <TableCell className="text-right">{item.discrepancyCount}</TableCell>
+                  <TableCell className="text-right">{item.repairedCount}</TableCell>
+                  <TableCell className="text-right">{item.errorCount}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -32,6 +32,7 @@ interface CreateSignupLinkResponse {
   token: SignupToken;
   signupUrl: string;
   expiresAt: string;
+  inviteStatus: "sent" | "failed" | "pending" | null;
 }
 
 export function SignupLinkManagement() {
@@ -42,7 +43,8 @@ export function SignupLinkManagement() {
   const [newLink, setNewLink] = useState({
     expirationHours: 168, // 7 days default
     cybridCustomerType: "individual" as "individual" | "business",
-    notes: ""
+    notes: "",
+    email: ""
   })
 
   // Fetch signup tokens from API
@@ -57,19 +59,24 @@ export function SignupLinkManagement() {
 
   // Create signup link mutation
   const createLinkMutation = useMutation({
-    mutationFn: async (linkData: { expirationHours: number; cybridCustomerType: "individual" | "business"; notes?: string }) => {
+    mutationFn: async (linkData: { expirationHours: number; cybridCustomerType: "individual" | "business"; notes?: string; email?: string }) => {
       const response = await apiRequest('POST', '/api/admin/signup-links', linkData)
       return await response.json() as CreateSignupLinkResponse
     },
     onSuccess: (data) => {
       toast({
         title: "Signup Link Created",
-        description: "The merchant signup link has been generated successfully."
+        description: data.inviteStatus === "sent"
+          ? "The invite has been emailed to the merchant."
+          : data.inviteStatus
+            ? "The link was created but the invite email could not be sent. Share the link manually."
+            : "The merchant signup link has been generated successfully.",
+        variant: data.inviteStatus && data.inviteStatus !== "sent" ? "destructive" : "default"
       })
       setGeneratedSignupUrl(data.signupUrl)
       setShowCreateDialog(false)
       setShowGeneratedLink(true)
-      setNewLink({ expirationHours: 168, cybridCustomerType: "individual", notes: "" })
+      setNewLink({ expirationHours: 168, cybridCustomerType: "individual", notes: "", email: "" })
       queryClient.invalidateQueries({ queryKey: ['/api/admin/signup-links'] })
     },
     onError: (error) => {
@@ -85,7 +92,8 @@ export function SignupLinkManagement() {
     createLinkMutation.mutate({
       expirationHours: newLink.expirationHours,
       cybridCustomerType: newLink.cybridCustomerType,
-      notes: newLink.notes || undefined
+      notes: newLink.notes || undefined,
+      email: newLink.email.trim() || undefined
     })
   }
 
@@ -199,6 +207,20 @@ export function SignupLinkManagement() {
                   Individual customers can complete KYC verification automatically. Business customers require manual KYB verification.
                 </p>
               </div>
+              <div>
+                <Label htmlFor="invite-email">Email invite to (optional)</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  placeholder="merchant@example.com"
+                  value={newLink.email}
+                  onChange={(e) => setNewLink(prev => ({ ...prev, email: e.target.value }))}
+                  data-testid="input-invite-email"
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  The link is always shown after creation, whether or not it is emailed.
+                </p>
+              </div>
               <div>
                 <Label htmlFor="notes">Notes (optional)</Label>
                 <Textarea
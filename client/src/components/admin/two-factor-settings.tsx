@@ -0,0 +1,349 @@
+import { useState } from "react"
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { ShieldCheck, ShieldAlert, KeyRound, Copy, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { useToast } from "@/hooks/use-toast"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+import type { AdminSecuritySettings } from "@shared/schema"
+import { EncryptionKeyRotation } from "./encryption-key-rotation"
+
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  pendingEnrollment: boolean
+  recoveryCodesRemaining: number
+  required: boolean
+}
+
+interface TwoFactorSetup {
+  secret: string
+  otpauthUri: string
+}
+
+function CodeInput({ value, onChange, testId }: { value: string; onChange: (value: string) => void; testId: string }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} data-testid={testId}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  )
+}
+
+// Authenticator-app enrollment for the signed-in admin, plus the platform-wide 2FA requirement for super admins
+export function TwoFactorSettings() {
+  const { toast } = useToast()
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [setupCode, setSetupCode] = useState("")
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [regenerateCode, setRegenerateCode] = useState("")
+  const [disableCode, setDisableCode] = useState("")
+  const [disablePassword, setDisablePassword] = useState("")
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/admin/2fa"],
+  })
+  const { data: profile } = useQuery<{ role: string }>({
+    queryKey: ["/api/admin/profile"],
+  })
+  const isSuperAdmin = profile?.role === "super_admin" || profile?.role === "admin"
+  const { data: settings } = useQuery<AdminSecuritySettings>({
+    queryKey: ["/api/admin/security/settings"],
+    enabled: status?.enabled === true,
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/2fa"] })
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/profile"] })
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/security/settings"] })
+  }
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" })
+  }
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/2fa/setup")
+      return response.json() as Promise<TwoFactorSetup>
+    },
+    onSuccess: (result) => {
+      setSetupCode("")
+      setSetup(result)
+    },
+    onError: onError("Failed to start setup"),
+  })
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/admin/2fa/enable", { code })
+      return response.json() as Promise<{ recoveryCodes: string[] }>
+    },
+    onSuccess: (result) => {
+      setSetup(null)
+      setRecoveryCodes(result.recoveryCodes)
+      invalidate()
+      toast({ title: "Two-Factor Enabled", description: "You'll be asked for a code each time you sign in." })
+    },
+    onError: (error: Error) => {
+      setSetupCode("")
+      onError("Failed to enable two-factor authentication")(error)
+    },
+  })
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/admin/2fa/recovery-codes", { code })
+      return response.json() as Promise<{ recoveryCodes: string[] }>
+    },
+    onSuccess: (result) => {
+      setRegenerateCode("")
+      setRecoveryCodes(result.recoveryCodes)
+      invalidate()
+    },
+    onError: (error: Error) => {
+      setRegenerateCode("")
+      onError("Failed to regenerate recovery codes")(error)
+    },
+  })
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/2fa/disable", { password: disablePassword, code: disableCode })
+    },
+    onSuccess: () => {
+      setDisableCode("")
+      setDisablePassword("")
+      invalidate()
+      toast({ title: "Two-Factor Disabled", description: "Your account is protected by your password only." })
+    },
+    onError: (error: Error) => {
+      setDisableCode("")
+      onError("Failed to disable two-factor authentication")(error)
+    },
+  })
+
+  const requirementMutation = useMutation({
+    mutationFn: async (requireAdmin2fa: boolean) => {
+      const response = await apiRequest("PUT", "/api/admin/security/settings", { requireAdmin2fa })
+      return response.json() as Promise<AdminSecuritySettings>
+    },
+    onSuccess: (result) => {
+      invalidate()
+      toast({
+        title: "Security Settings Updated",
+        description: result.requireAdmin2fa
+          ? "Every admin must now use two-factor authentication."
+          : "Two-factor authentication is now optional for admins.",
+      })
+    },
+    onError: onError("Failed to update security settings"),
+  })
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text)
+    toast({ title: "Copied", description: "Copied to clipboard." })
+  }
+
+  if (isLoading || !status) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Security</h1>
+        <p className="text-muted-foreground">
+          Two-factor authentication for your admin account
+        </p>
+      </div>
+
+      {status.required && !status.enabled && (
+        <Card className="border-destructive">
+          <CardContent className="pt-6 flex items-center gap-3">
+            <ShieldAlert className="h-5 w-5 text-destructive" />
+            <p className="text-sm">
+              Two-factor authentication is required for all admins. Set it up to continue using the admin portal.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Authenticator App
+              </CardTitle>
+              <CardDescription>
+                Sign-ins ask for a 6-digit code from an app such as Google Authenticator, 1Password or Authy
+              </CardDescription>
+            </div>
+            <Badge variant={status.enabled ? "default" : "outline"} data-testid="badge-2fa-status">
+              {status.enabled ? "Enabled" : "Not set up"}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!status.enabled && !setup && (
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-start-2fa-setup">
+              {setupMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Set Up Two-Factor Authentication
+            </Button>
+          )}
+
+          {!status.enabled && setup && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>1. Add this account to your authenticator app</Label>
+                <p className="text-sm text-muted-foreground">
+                  On a phone, <a href={setup.otpauthUri} className="underline">open the setup link</a> directly.
+                  Otherwise enter this key manually as a time-based code:
+                </p>
+                <div className="flex gap-2">
+                  <Input readOnly value={setup.secret} className="font-mono" data-testid="text-2fa-secret" />
+                  <Button variant="outline" size="icon" onClick={() => copy(setup.secret)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>2. Enter the code the app shows</Label>
+                <CodeInput value={setupCode} onChange={setSetupCode} testId="input-2fa-setup-code" />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => enableMutation.mutate(setupCode)}
+                  disabled={setupCode.length !== 6 || enableMutation.isPending}
+                  data-testid="button-enable-2fa"
+                >
+                  {enableMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Enable
+                </Button>
+                <Button variant="outline" onClick={() => setSetup(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {status.enabled && (
+            <>
+              <div className="text-sm text-muted-foreground">
+                Enabled {status.enabledAt ? new Date(status.enabledAt).toLocaleString() : ""} ·{" "}
+                <span data-testid="text-recovery-codes-remaining">{status.recoveryCodesRemaining}</span> recovery codes left
+              </div>
+
+              <div className="space-y-2">
+                <Label>Regenerate recovery codes</Label>
+                <p className="text-sm text-muted-foreground">
+                  Replaces all existing recovery codes. Enter a current code from your app to confirm.
+                </p>
+                <div className="flex items-center gap-4">
+                  <CodeInput value={regenerateCode} onChange={setRegenerateCode} testId="input-2fa-regenerate-code" />
+                  <Button
+                    variant="outline"
+                    onClick={() => regenerateMutation.mutate(regenerateCode)}
+                    disabled={regenerateCode.length !== 6 || regenerateMutation.isPending}
+                    data-testid="button-regenerate-recovery-codes"
+                  >
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    Regenerate
+                  </Button>
+                </div>
+              </div>
+
+              {!status.required && (
+                <div className="space-y-2">
+                  <Label>Disable two-factor authentication</Label>
+                  <div className="flex flex-col md:flex-row md:items-center gap-4">
+                    <Input
+                      type="password"
+                      placeholder="Current password"
+                      value={disablePassword}
+                      onChange={e => setDisablePassword(e.target.value)}
+                      className="md:max-w-xs"
+                      data-testid="input-2fa-disable-password"
+                    />
+                    <CodeInput value={disableCode} onChange={setDisableCode} testId="input-2fa-disable-code" />
+                    <Button
+                      variant="destructive"
+                      onClick={() => disableMutation.mutate()}
+                      disabled={!disablePassword || disableCode.length !== 6 || disableMutation.isPending}
+                      data-testid="button-disable-2fa"
+                    >
+                      Disable
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {isSuperAdmin && status.enabled && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Platform Policy</CardTitle>
+            <CardDescription>
+              Admins without two-factor authentication are limited to setting it up until they do
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="require-admin-2fa">Require two-factor authentication for all admins</Label>
+              <Switch
+                id="require-admin-2fa"
+                checked={settings?.requireAdmin2fa ?? false}
+                onCheckedChange={checked => requirementMutation.mutate(checked)}
+                disabled={!settings || requirementMutation.isPending}
+                data-testid="switch-require-admin-2fa"
+              />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isSuperAdmin && <EncryptionKeyRotation />}
+
+      <Dialog open={recoveryCodes !== null} onOpenChange={open => !open && setRecoveryCodes(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Your Recovery Codes</DialogTitle>
+            <DialogDescription>
+              Each code signs you in once if you lose your authenticator. They won't be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted rounded p-4" data-testid="text-recovery-codes">
+            {recoveryCodes?.map(code => <div key={code}>{code}</div>)}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => recoveryCodes && copy(recoveryCodes.join("\n"))}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)} data-testid="button-close-recovery-codes">
+              I've saved them
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
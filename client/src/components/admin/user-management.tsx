@@ -1,192 +1,240 @@
 import { useState } from "react"
-import { Users, Shield, UserPlus, Edit, Trash2, Eye, Lock, MoreVertical, Search, Filter } from "lucide-react"
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { Users, Shield, UserPlus, Edit, Trash2, Eye, Lock, MoreVertical, Search, KeyRound, Loader2, ShieldOff } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Switch } from "@/components/ui/switch"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Checkbox } from "@/components/ui/checkbox"
 import { useToast } from "@/hooks/use-toast"
-
-type AdminRole = "super_admin" | "platform_admin" | "financial_admin" | "support_agent" | "viewer"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+import { adminRoles, adminPermissions, adminPermissionCatalog, adminRoleDefinitions, type AdminRole, type AdminPermission } from "@shared/schema"
 
 interface AdminUser {
   id: string
-  name: string
+  username: string
+  firstName: string
+  lastName: string
   email: string
-  role: AdminRole
-  status: "active" | "inactive" | "suspended"
-  lastLogin: string
+  role: string
+  permissions: AdminPermission[] | null
+  effectivePermissions: AdminPermission[]
+  status: "active" | "suspended"
+  totpEnabled: boolean
+  lastLoginAt: string | null
   createdAt: string
-  permissions: string[]
 }
 
-interface Permission {
-  id: string
-  name: string
-  category: string
-  description: string
+interface GeneratedCredentials {
+  username: string
+  password: string
+}
+
+interface AdminForm {
+  firstName: string
+  lastName: string
+  email: string
+  username: string
+  role: AdminRole
+  customPermissions: boolean
+  permissions: AdminPermission[]
 }
 
+const emptyForm: AdminForm = {
+  firstName: "",
+  lastName: "",
+  email: "",
+  username: "",
+  role: "viewer",
+  customPermissions: false,
+  permissions: [...adminRoleDefinitions.viewer.permissions]
+}
+
+// Legacy "admin" accounts predate roles and have full access
+const roleName = (role: string) => adminRoleDefinitions[role as AdminRole]?.name ?? (role === "admin" ? "Admin (legacy)" : role)
+
+const groupedPermissions = adminPermissions.reduce((acc, permission) => {
+  const { category } = adminPermissionCatalog[permission]
+  acc[category] = [...(acc[category] ?? []), permission]
+  return acc
+}, {} as Record<string, AdminPermission[]>)
+
 export function UserManagement() {
   const { toast } = useToast()
   const [searchTerm, setSearchTerm] = useState("")
   const [roleFilter, setRoleFilter] = useState("all")
   const [showCreateDialog, setShowCreateDialog] = useState(false)
-  const [showEditDialog, setShowEditDialog] = useState(false)
-  const [selectedUser, setSelectedUser] = useState<AdminUser | null>(null)
-  
-  const [newUser, setNewUser] = useState({
-    name: "",
-    email: "",
-    role: "viewer" as AdminRole,
-    permissions: [] as string[]
+  const [editingUser, setEditingUser] = useState<AdminUser | null>(null)
+  const [form, setForm] = useState<AdminForm>(emptyForm)
+  const [credentials, setCredentials] = useState<GeneratedCredentials | null>(null)
+
+  const { data: adminUsers = [], isLoading } = useQuery<AdminUser[]>({
+    queryKey: ['/api/admin/users'],
+  })
+
+  const { data: profile } = useQuery<{ id: string; role: string }>({
+    queryKey: ['/api/admin/profile'],
+  })
+
+  const isSuperAdmin = profile?.role === "super_admin" || profile?.role === "admin"
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" })
+  }
+
+  const invalidateUsers = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] })
+  }
+
+  const createMutation = useMutation({
+    mutationFn: async (data: AdminForm) => {
+      const response = await apiRequest("POST", "/api/admin/users", {
+        firstName: data.firstName,
+        lastName: data.lastName,
+        email: data.email,
+        username: data.username || undefined,
+        role: data.role,
+        permissions: data.customPermissions ? data.permissions : null
+      })
+      return response.json() as Promise<{ admin: AdminUser; credentials: GeneratedCredentials }>
+    },
+    onSuccess: (result) => {
+      invalidateUsers()
+      setShowCreateDialog(false)
+      setForm(emptyForm)
+      setCredentials(result.credentials)
+      toast({
+        title: "Admin User Created",
+        description: `${result.admin.firstName} ${result.admin.lastName} has been added as ${roleName(result.admin.role)}.`
+      })
+    },
+    onError: onError("Failed to create admin user"),
   })
 
-  // Mock admin users data
-  const [adminUsers, setAdminUsers] = useState<AdminUser[]>([
-    {
-      id: "admin_001",
-      name: "John Smith",
-      email: "john@ruupay.com",
-      role: "super_admin",
-      status: "active",
-      lastLogin: "2024-01-21 15:30",
-      createdAt: "2024-01-01",
-      permissions: ["*"]
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Record<string, unknown> }) => {
+      await apiRequest("PATCH", `/api/admin/users/${id}`, updates)
     },
-    {
-      id: "admin_002", 
-      name: "Sarah Johnson",
-      email: "sarah@ruupay.com",
-      role: "platform_admin",
-      status: "active",
-      lastLogin: "2024-01-21 14:15",
-      createdAt: "2024-01-05",
-      permissions: ["merchant_management", "settings_management", "integration_management"]
+    onSuccess: () => {
+      invalidateUsers()
+      setEditingUser(null)
+      toast({ title: "Admin User Updated" })
     },
-    {
-      id: "admin_003",
-      name: "Mike Wilson",
-      email: "mike@ruupay.com", 
-      role: "financial_admin",
-      status: "active",
-      lastLogin: "2024-01-21 12:45",
-      createdAt: "2024-01-10",
-      permissions: ["fee_management", "revenue_tracking", "financial_reports"]
+    onError: onError("Failed to update admin user"),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/users/${id}`)
     },
-    {
-      id: "admin_004",
-      name: "Lisa Chen",
-      email: "lisa@ruupay.com",
-      role: "support_agent",
-      status: "active", 
-      lastLogin: "2024-01-21 16:20",
-      createdAt: "2024-01-15",
-      permissions: ["merchant_view", "transaction_view", "customer_support"]
-    }
-  ])
-
-  // Available permissions by category
-  const availablePermissions: Permission[] = [
-    // Merchant Management
-    { id: "merchant_create", name: "Create Merchants", category: "Merchant Management", description: "Create new merchant accounts" },
-    { id: "merchant_edit", name: "Edit Merchants", category: "Merchant Management", description: "Edit merchant profile and settings" },
-    { id: "merchant_approve", name: "Approve Merchants", category: "Merchant Management", description: "Approve or reject merchant applications" },
-    { id: "merchant_deactivate", name: "Deactivate Merchants", category: "Merchant Management", description: "Deactivate merchant accounts" },
-    { id: "merchant_view", name: "View Merchants", category: "Merchant Management", description: "View merchant data and profiles" },
-    
-    // Financial Management
-    { id: "fee_management", name: "Fee Management", category: "Financial", description: "Configure fees and pricing" },
-    { id: "revenue_tracking", name: "Revenue Tracking", category: "Financial", description: "View revenue and partner earnings" },
-    { id: "financial_reports", name: "Financial Reports", category: "Financial", description: "Generate financial reports" },
-    
-    // Platform Management
-    { id: "settings_management", name: "Platform Settings", category: "Platform", description: "Configure platform settings" },
-    { id: "integration_management", name: "Integration Management", category: "Platform", description: "Manage third-party integrations" },
-    { id: "user_management", name: "User Management", category: "Platform", description: "Manage admin users and permissions" },
-    
-    // System Access
-    { id: "transaction_view", name: "Transaction Monitoring", category: "System", description: "View transaction data and status" },
-    { id: "webhook_management", name: "Webhook Management", category: "System", description: "Manage webhook configurations" },
-    { id: "audit_logs", name: "Audit Logs", category: "System", description: "View system audit logs" },
-    { id: "customer_support", name: "Customer Support", category: "System", description: "Access customer support tools" }
-  ]
-
-  // Role definitions with default permissions
-  const roleDefinitions = {
-    super_admin: {
-      name: "Super Admin",
-      description: "Full access to all platform features",
-      permissions: ["*"]
+    onSuccess: () => {
+      invalidateUsers()
+      toast({
+        title: "User Deleted",
+        description: "Admin user has been removed from the system.",
+        variant: "destructive"
+      })
     },
-    platform_admin: {
-      name: "Platform Admin", 
-      description: "Manage merchants, settings, and integrations",
-      permissions: ["merchant_create", "merchant_edit", "merchant_approve", "merchant_deactivate", "merchant_view", "settings_management", "integration_management"]
+    onError: onError("Failed to delete admin user"),
+  })
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin/users/${id}/reset-password`)
+      return response.json() as Promise<{ credentials: GeneratedCredentials }>
     },
-    financial_admin: {
-      name: "Financial Admin",
-      description: "Manage fees, revenue tracking, and financial reports",
-      permissions: ["fee_management", "revenue_tracking", "financial_reports", "merchant_view", "transaction_view"]
+    onSuccess: (result) => {
+      setCredentials(result.credentials)
     },
-    support_agent: {
-      name: "Support Agent",
-      description: "View-only access with customer support capabilities",
-      permissions: ["merchant_view", "transaction_view", "customer_support"]
+    onError: onError("Failed to reset password"),
+  })
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      await apiRequest("POST", `/api/admin/users/${id}/reset-2fa`, { reason })
     },
-    viewer: {
-      name: "Viewer",
-      description: "Read-only access to platform data",
-      permissions: ["merchant_view", "transaction_view"]
-    }
-  }
+    onSuccess: () => {
+      invalidateUsers()
+      toast({
+        title: "Two-Factor Reset",
+        description: "The admin will set up two-factor authentication again after signing in.",
+      })
+    },
+    onError: onError("Failed to reset two-factor authentication"),
+  })
 
-  const getRoleBadge = (role: AdminRole) => {
-    const variants = {
-      super_admin: { variant: "default" as const, text: "Super Admin" },
-      platform_admin: { variant: "secondary" as const, text: "Platform Admin" },
-      financial_admin: { variant: "outline" as const, text: "Financial Admin" },
-      support_agent: { variant: "secondary" as const, text: "Support Agent" },
-      viewer: { variant: "outline" as const, text: "Viewer" }
+  const getRoleBadge = (role: string) => {
+    const variants: Record<string, "default" | "secondary" | "outline"> = {
+      super_admin: "default",
+      admin: "default",
+      platform_admin: "secondary",
+      financial_admin: "outline",
+      support_agent: "secondary",
+      viewer: "outline"
     }
-    const config = variants[role]
     return (
-      <Badge variant={config.variant} className="text-xs">
-        {config.text}
+      <Badge variant={variants[role] ?? "outline"} className="text-xs">
+        {roleName(role)}
       </Badge>
     )
   }
 
-  const getStatusBadge = (status: string) => {
-    const variants = {
-      active: { variant: "default" as const, text: "Active" },
-      inactive: { variant: "secondary" as const, text: "Inactive" },
-      suspended: { variant: "destructive" as const, text: "Suspended" }
-    }
-    const config = variants[status as keyof typeof variants]
-    return (
-      <Badge variant={config.variant} className="text-xs">
-        {config.text}
-      </Badge>
-    )
-  }
+  const getStatusBadge = (status: string) => (
+    <Badge variant={status === "active" ? "default" : "destructive"} className="text-xs capitalize">
+      {status}
+    </Badge>
+  )
 
   const filteredUsers = adminUsers.filter(user => {
-    const matchesSearch = user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         user.email.toLowerCase().includes(searchTerm.toLowerCase())
+    const name = `${user.firstName} ${user.lastName}`.toLowerCase()
+    const matchesSearch = name.includes(searchTerm.toLowerCase()) ||
+                         user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         user.username.toLowerCase().includes(searchTerm.toLowerCase())
     const matchesRole = roleFilter === "all" || user.role === roleFilter
     return matchesSearch && matchesRole
   })
 
+  // Roles the current admin may assign (only super admins can create super admins)
+  const assignableRoles = adminRoles.filter(role => role !== "super_admin" || isSuperAdmin)
+
+  const setRole = (role: AdminRole) => {
+    setForm(prev => ({
+      ...prev,
+      role,
+      permissions: prev.customPermissions ? prev.permissions : [...adminRoleDefinitions[role].permissions]
+    }))
+  }
+
+  const togglePermission = (permission: AdminPermission, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      permissions: checked ? [...prev.permissions, permission] : prev.permissions.filter(p => p !== permission)
+    }))
+  }
+
+  const openEdit = (user: AdminUser) => {
+    const role = (adminRoles as readonly string[]).includes(user.role) ? user.role as AdminRole : "super_admin"
+    setForm({
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      username: user.username,
+      role,
+      customPermissions: user.permissions !== null,
+      permissions: user.permissions ?? [...adminRoleDefinitions[role].permissions]
+    })
+    setEditingUser(user)
+  }
+
   const handleCreateUser = () => {
-    if (!newUser.name || !newUser.email) {
+    if (!form.firstName || !form.lastName || !form.email) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields.",
@@ -194,62 +242,105 @@ export function UserManagement() {
       })
       return
     }
+    createMutation.mutate(form)
+  }
 
-    const userPermissions = newUser.role === "super_admin" 
-      ? ["*"] 
-      : roleDefinitions[newUser.role].permissions
-
-    const userData: AdminUser = {
-      id: `admin_${Date.now()}`,
-      name: newUser.name,
-      email: newUser.email,
-      role: newUser.role,
-      status: "active",
-      lastLogin: "Never",
-      createdAt: new Date().toISOString().split('T')[0],
-      permissions: userPermissions
-    }
-
-    setAdminUsers(prev => [...prev, userData])
-
-    toast({
-      title: "Admin User Created",
-      description: `${newUser.name} has been added with ${roleDefinitions[newUser.role].name} permissions.`
+  const handleSaveUser = () => {
+    if (!editingUser) return
+    const isSelf = editingUser.id === profile?.id
+    updateMutation.mutate({
+      id: editingUser.id,
+      updates: {
+        firstName: form.firstName,
+        lastName: form.lastName,
+        email: form.email,
+        // Own access can't be changed, so it isn't sent
+        ...(!isSelf && {
+          role: form.role,
+          permissions: form.customPermissions && form.role !== "super_admin" ? form.permissions : null
+        })
+      }
     })
-
-    setShowCreateDialog(false)
-    setNewUser({ name: "", email: "", role: "viewer", permissions: [] })
   }
 
-  const handleEditUser = (user: AdminUser) => {
-    setSelectedUser(user)
-    setShowEditDialog(true)
+  const handleDeleteUser = (user: AdminUser) => {
+    if (window.confirm(`Delete admin ${user.firstName} ${user.lastName}? This cannot be undone.`)) {
+      deleteMutation.mutate(user.id)
+    }
   }
 
-  const handleDeleteUser = (userId: string) => {
-    setAdminUsers(prev => prev.filter(user => user.id !== userId))
-    toast({
-      title: "User Deleted",
-      description: "Admin user has been removed from the system.",
-      variant: "destructive"
-    })
+  // The reason is kept in the audit log alongside the reset
+  const handleResetTwoFactor = (user: AdminUser) => {
+    const reason = window.prompt(`Reset two-factor authentication for ${user.firstName} ${user.lastName}? Enter the reason (e.g. how their identity was verified):`)
+    if (reason?.trim()) {
+      resetTwoFactorMutation.mutate({ id: user.id, reason: reason.trim() })
+    }
   }
 
-  const handleStatusToggle = (userId: string) => {
-    setAdminUsers(prev => prev.map(user => 
-      user.id === userId 
-        ? { ...user, status: user.status === "active" ? "inactive" : "active" }
-        : user
-    ))
+  const handleStatusToggle = (user: AdminUser) => {
+    updateMutation.mutate({
+      id: user.id,
+      updates: { status: user.status === "active" ? "suspended" : "active" }
+    })
   }
 
-  const groupedPermissions = availablePermissions.reduce((acc, permission) => {
-    if (!acc[permission.category]) {
-      acc[permission.category] = []
-    }
-    acc[permission.category].push(permission)
-    return acc
-  }, {} as Record<string, Permission[]>)
+  const renderAccessFields = (disabled: boolean) => (
+    <>
+      <div className="space-y-2">
+        <Label>Role</Label>
+        <Select value={form.role} onValueChange={(value) => setRole(value as AdminRole)} disabled={disabled}>
+          <SelectTrigger data-testid="select-user-role">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {assignableRoles.map(role => (
+              <SelectItem key={role} value={role}>
+                {adminRoleDefinitions[role].name} - {adminRoleDefinitions[role].description}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {form.role !== "super_admin" && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="custom-permissions">Custom permissions</Label>
+            <Switch
+              id="custom-permissions"
+              checked={form.customPermissions}
+              disabled={disabled}
+              onCheckedChange={(checked) => setForm(prev => ({
+                ...prev,
+                customPermissions: checked,
+                permissions: checked ? prev.permissions : [...adminRoleDefinitions[prev.role].permissions]
+              }))}
+              data-testid="switch-custom-permissions"
+            />
+          </div>
+          <div className="max-h-64 overflow-y-auto space-y-3 border rounded-lg p-3">
+            {Object.entries(groupedPermissions).map(([category, permissions]) => (
+              <div key={category} className="space-y-2">
+                <p className="text-xs font-semibold text-muted-foreground">{category}</p>
+                {permissions.map(permission => (
+                  <div key={permission} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`permission-${permission}`}
+                      checked={form.permissions.includes(permission)}
+                      disabled={disabled || !form.customPermissions}
+                      onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                    />
+                    <Label htmlFor={`permission-${permission}`} className="text-sm font-normal">
+                      {adminPermissionCatalog[permission].name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  )
 
   return (
     <div className="space-y-6">
@@ -260,66 +351,76 @@ export function UserManagement() {
             Manage admin users, roles, and permissions
           </p>
         </div>
-        <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <Dialog open={showCreateDialog} onOpenChange={(open) => {
+          setShowCreateDialog(open)
+          if (open) setForm(emptyForm)
+        }}>
           <DialogTrigger asChild>
             <Button data-testid="button-add-user">
               <UserPlus className="h-4 w-4 mr-2" />
               Add Admin User
             </Button>
           </DialogTrigger>
-          <DialogContent className="sm:max-w-md">
+          <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="flex items-center gap-2">
                 <UserPlus className="h-5 w-5" />
                 Create Admin User
               </DialogTitle>
               <DialogDescription>
-                Add a new admin user to the platform with specific role and permissions.
+                A password is generated for the new admin and shown once after creation.
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="new-user-name">Full Name</Label>
-                <Input
-                  id="new-user-name"
-                  value={newUser.name}
-                  onChange={(e) => setNewUser(prev => ({...prev, name: e.target.value}))}
-                  placeholder="Enter full name"
-                  data-testid="input-new-user-name"
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="new-user-first-name">First Name</Label>
+                  <Input
+                    id="new-user-first-name"
+                    value={form.firstName}
+                    onChange={(e) => setForm(prev => ({ ...prev, firstName: e.target.value }))}
+                    data-testid="input-new-user-first-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="new-user-last-name">Last Name</Label>
+                  <Input
+                    id="new-user-last-name"
+                    value={form.lastName}
+                    onChange={(e) => setForm(prev => ({ ...prev, lastName: e.target.value }))}
+                    data-testid="input-new-user-last-name"
+                  />
+                </div>
               </div>
               <div className="space-y-2">
                 <Label htmlFor="new-user-email">Email Address</Label>
                 <Input
                   id="new-user-email"
                   type="email"
-                  value={newUser.email}
-                  onChange={(e) => setNewUser(prev => ({...prev, email: e.target.value}))}
+                  value={form.email}
+                  onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
                   placeholder="Enter email address"
                   data-testid="input-new-user-email"
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="new-user-role">Role</Label>
-                <Select value={newUser.role} onValueChange={(value) => setNewUser(prev => ({...prev, role: value as AdminRole}))}>
-                  <SelectTrigger data-testid="select-new-user-role">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {Object.entries(roleDefinitions).map(([role, def]) => (
-                      <SelectItem key={role} value={role}>
-                        {def.name} - {def.description}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <Label htmlFor="new-user-username">Username (optional)</Label>
+                <Input
+                  id="new-user-username"
+                  value={form.username}
+                  onChange={(e) => setForm(prev => ({ ...prev, username: e.target.value }))}
+                  placeholder="Generated if left empty"
+                  data-testid="input-new-user-username"
+                />
               </div>
+              {renderAccessFields(false)}
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
                 Cancel
               </Button>
-              <Button onClick={handleCreateUser} data-testid="button-create-user">
+              <Button onClick={handleCreateUser} disabled={createMutation.isPending} data-testid="button-create-user">
+                {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                 Create User
               </Button>
             </DialogFooter>
@@ -369,9 +470,9 @@ export function UserManagement() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Roles</SelectItem>
-                    {Object.entries(roleDefinitions).map(([role, def]) => (
+                    {adminRoles.map(role => (
                       <SelectItem key={role} value={role}>
-                        {def.name}
+                        {adminRoleDefinitions[role].name}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -391,25 +492,38 @@ export function UserManagement() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredUsers.map((user) => (
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8">
+                          <Loader2 className="h-5 w-5 animate-spin mx-auto text-muted-foreground" />
+                        </TableCell>
+                      </TableRow>
+                    ) : filteredUsers.map((user) => (
                       <TableRow key={user.id}>
                         <TableCell>
                           <div>
                             <div className="font-medium" data-testid={`text-user-name-${user.id}`}>
-                              {user.name}
+                              {user.firstName} {user.lastName}
+                              {user.id === profile?.id && <span className="text-xs text-muted-foreground"> (you)</span>}
                             </div>
                             <div className="text-sm text-muted-foreground">
-                              {user.email}
+                              {user.email} · {user.username}
                             </div>
                           </div>
                         </TableCell>
-                        <TableCell>{getRoleBadge(user.role)}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            {getRoleBadge(user.role)}
+                            {user.permissions !== null && <Badge variant="outline" className="text-xs">Custom</Badge>}
+                            {user.totpEnabled && <Badge variant="secondary" className="text-xs">2FA</Badge>}
+                          </div>
+                        </TableCell>
                         <TableCell>{getStatusBadge(user.status)}</TableCell>
                         <TableCell className="text-sm text-muted-foreground">
-                          {user.lastLogin}
+                          {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : "Never"}
                         </TableCell>
                         <TableCell className="text-sm text-muted-foreground">
-                          {user.createdAt}
+                          {new Date(user.createdAt).toLocaleDateString()}
                         </TableCell>
                         <TableCell className="text-right">
                           <DropdownMenu>
@@ -419,22 +533,35 @@ export function UserManagement() {
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
-                              <DropdownMenuItem onClick={() => handleEditUser(user)}>
+                              <DropdownMenuItem onClick={() => openEdit(user)}>
                                 <Edit className="mr-2 h-4 w-4" />
                                 Edit
                               </DropdownMenuItem>
-                              <DropdownMenuItem onClick={() => handleStatusToggle(user.id)}>
-                                <Lock className="mr-2 h-4 w-4" />
-                                {user.status === "active" ? "Deactivate" : "Activate"}
+                              <DropdownMenuItem onClick={() => resetPasswordMutation.mutate(user.id)}>
+                                <KeyRound className="mr-2 h-4 w-4" />
+                                Reset Password
                               </DropdownMenuItem>
-                              {user.role !== "super_admin" && (
-                                <DropdownMenuItem 
-                                  onClick={() => handleDeleteUser(user.id)}
-                                  className="text-destructive"
-                                >
-                                  <Trash2 className="mr-2 h-4 w-4" />
-                                  Delete
-                                </DropdownMenuItem>
+                              {user.id !== profile?.id && (
+                                <>
+                                  {user.totpEnabled && (
+                                    <DropdownMenuItem onClick={() => handleResetTwoFactor(user)} data-testid={`button-reset-2fa-${user.id}`}>
+                                      <ShieldOff className="mr-2 h-4 w-4" />
+                                      Reset 2FA
+                                    </DropdownMenuItem>
+                                  )}
+                                  <DropdownMenuItem onClick={() => handleStatusToggle(user)}>
+                                    <Lock className="mr-2 h-4 w-4" />
+                                    {user.status === "active" ? "Suspend" : "Activate"}
+                                  </DropdownMenuItem>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    onClick={() => handleDeleteUser(user)}
+                                    className="text-destructive"
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                </>
                               )}
                             </DropdownMenuContent>
                           </DropdownMenu>
@@ -459,24 +586,24 @@ export function UserManagement() {
                   Role Definitions
                 </CardTitle>
                 <CardDescription>
-                  Overview of available roles and their capabilities
+                  Default permissions for each role; individual admins can be given custom permissions
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                {Object.entries(roleDefinitions).map(([role, def]) => (
+                {adminRoles.map(role => (
                   <div key={role} className="border rounded-lg p-4">
                     <div className="flex items-center justify-between mb-2">
-                      <h4 className="font-semibold">{def.name}</h4>
-                      {getRoleBadge(role as AdminRole)}
+                      <h4 className="font-semibold">{adminRoleDefinitions[role].name}</h4>
+                      {getRoleBadge(role)}
                     </div>
                     <p className="text-sm text-muted-foreground mb-3">
-                      {def.description}
+                      {adminRoleDefinitions[role].description}
                     </p>
                     <div className="text-xs text-muted-foreground">
                       <strong>Permissions:</strong>{" "}
-                      {role === "super_admin" 
+                      {role === "super_admin"
                         ? "Full access to all features"
-                        : `${def.permissions.length} specific permissions`
+                        : adminRoleDefinitions[role].permissions.map(permission => adminPermissionCatalog[permission].name).join(", ")
                       }
                     </div>
                   </div>
@@ -501,10 +628,10 @@ export function UserManagement() {
                     <h4 className="font-semibold mb-2">{category}</h4>
                     <div className="space-y-1">
                       {permissions.map((permission) => (
-                        <div key={permission.id} className="text-sm">
-                          <div className="font-medium">{permission.name}</div>
+                        <div key={permission} className="text-sm">
+                          <div className="font-medium">{adminPermissionCatalog[permission].name}</div>
                           <div className="text-muted-foreground text-xs">
-                            {permission.description}
+                            {adminPermissionCatalog[permission].description}
                           </div>
                         </div>
                       ))}
@@ -517,6 +644,105 @@ export function UserManagement() {
         </TabsContent>
       </Tabs>
 
+      {/* Edit Dialog */}
+      <Dialog open={!!editingUser} onOpenChange={(open) => !open && setEditingUser(null)}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Edit className="h-5 w-5" />
+              Edit Admin User
+            </DialogTitle>
+            <DialogDescription>
+              {editingUser?.id === profile?.id
+                ? "You can't change your own role or permissions."
+                : `Changes apply to ${editingUser?.username} on their next request.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-user-first-name">First Name</Label>
+                <Input
+                  id="edit-user-first-name"
+                  value={form.firstName}
+                  onChange={(e) => setForm(prev => ({ ...prev, firstName: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-user-last-name">Last Name</Label>
+                <Input
+                  id="edit-user-last-name"
+                  value={form.lastName}
+                  onChange={(e) => setForm(prev => ({ ...prev, lastName: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-user-email">Email Address</Label>
+              <Input
+                id="edit-user-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+              />
+            </div>
+            {renderAccessFields(editingUser?.id === profile?.id)}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingUser(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveUser} disabled={updateMutation.isPending} data-testid="button-save-user">
+              {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Generated Credentials Dialog */}
+      <Dialog open={!!credentials} onOpenChange={(open) => !open && setCredentials(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Admin Credentials
+            </DialogTitle>
+            <DialogDescription>
+              This password is shown only once. Share it securely with the admin.
+            </DialogDescription>
+          </DialogHeader>
+          {credentials && (
+            <div className="p-4 bg-muted rounded-lg space-y-3">
+              <div>
+                <Label className="text-sm font-medium text-muted-foreground">Username</Label>
+                <div className="mt-1 p-2 bg-background rounded border font-mono text-sm">{credentials.username}</div>
+              </div>
+              <div>
+                <Label className="text-sm font-medium text-muted-foreground">Password</Label>
+                <div className="mt-1 p-2 bg-background rounded border font-mono text-sm">{credentials.password}</div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCredentials(null)}>
+              Close
+            </Button>
+            <Button
+              onClick={() => {
+                if (credentials) {
+                  navigator.clipboard.writeText(`Username: ${credentials.username}\nPassword: ${credentials.password}`)
+                  toast({ title: "Copied!", description: "Credentials copied to clipboard" })
+                }
+              }}
+              data-testid="button-copy-admin-credentials"
+            >
+              Copy Credentials
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* User Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
@@ -551,7 +777,7 @@ export function UserManagement() {
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Super Admins</p>
                 <div className="text-2xl font-bold text-blue-600" data-testid="text-super-admins">
-                  {adminUsers.filter(u => u.role === "super_admin").length}
+                  {adminUsers.filter(u => u.role === "super_admin" || u.role === "admin").length}
                 </div>
               </div>
               <Shield className="h-8 w-8 text-blue-600" />
@@ -574,4 +800,4 @@ export function UserManagement() {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
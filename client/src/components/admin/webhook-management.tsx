@@ -1,5 +1,6 @@
 import { useState } from "react"
-import { Webhook, Play, Pause, RotateCcw, AlertTriangle, CheckCircle, Clock, Settings } from "lucide-react"
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { Webhook, RotateCcw, AlertTriangle, CheckCircle, Clock, Settings, Loader2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -10,97 +11,131 @@ import { Switch } from "@/components/ui/switch"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useToast } from "@/hooks/use-toast"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+import { merchantWebhookEventTypes } from "@shared/schema"
+import { CybridEventInspector } from "./cybrid-event-inspector"
+
+interface WebhookEndpoint {
+  id: string
+  merchantId: string
+  merchantName: string | null
+  url: string
+  description: string | null
+  events: string[] | null
+  enabled: boolean
+  maxAttempts: number
+  createdAt: string
+}
+
+interface WebhookDelivery {
+  id: string
+  merchantId: string
+  merchantName: string | null
+  url: string | null
+  eventId: string
+  eventType: string
+  status: 'pending' | 'success' | 'failed'
+  attempts: number
+  nextAttemptAt: string | null
+  responseCode: number | null
+  responseTimeMs: number | null
+  lastError: string | null
+  replayOfId: string | null
+  createdAt: string
+}
+
+interface DeliveriesResponse {
+  deliveries: WebhookDelivery[]
+  stats: {
+    total: number
+    success: number
+    failed: number
+    pending: number
+    successRate: number | null
+    avgResponseTimeMs: number | null
+  }
+}
+
+const eventDescriptions: Record<string, string> = {
+  "kyb.approved": "KYB verification approved",
+  "kyb.rejected": "KYB verification rejected",
+  "deposit_address.created": "Deposit address ready to receive funds",
+  "payment.pending": "Payment is being processed",
+  "payment.completed": "Payment successfully processed",
+  "payment.failed": "Payment failed, was cancelled or refunded",
+  "webhook.test": "Test event sent from the dashboard"
+}
+
+// Mirrors WebhookDeliveryService: 30s doubling per attempt, capped at 6 hours
+const retryDelays = Array.from({ length: 9 }, (_, i) => Math.min(30 * 2 ** i, 6 * 60 * 60))
+
+const formatDelay = (seconds: number) =>
+  seconds < 60 ? `${seconds}s` : seconds < 3600 ? `${Math.round(seconds / 60)}m` : `${Math.round(seconds / 360) / 10}h`
 
 export function WebhookManagement() {
   const { toast } = useToast()
   const [selectedMerchant, setSelectedMerchant] = useState("all")
   const [filterStatus, setFilterStatus] = useState("all")
 
-  // TODO: remove mock functionality - replace with real webhook data
-  const webhookEvents = [
-    {
-      id: "evt_001",
-      merchant: "TechCorp Inc",
-      eventType: "payment.completed",
-      url: "https://techcorp.com/webhooks/ruupay",
-      status: "success",
-      attempts: 1,
-      timestamp: "2024-01-21 14:30:22",
-      responseCode: 200,
-      responseTime: "145ms"
+  const { data: endpoints = [], isLoading: endpointsLoading } = useQuery<WebhookEndpoint[]>({
+    queryKey: ['/api/admin/webhooks/endpoints'],
+  })
+
+  const deliveryParams = new URLSearchParams()
+  if (selectedMerchant !== "all") deliveryParams.set("merchantId", selectedMerchant)
+  if (filterStatus !== "all") deliveryParams.set("status", filterStatus)
+  const deliveryQuery = deliveryParams.toString()
+
+  const { data, isLoading: deliveriesLoading } = useQuery<DeliveriesResponse>({
+    queryKey: [`/api/admin/webhooks/deliveries${deliveryQuery ? `?${deliveryQuery}` : ''}`],
+    refetchInterval: 30000,
+  })
+  const deliveries = data?.deliveries ?? []
+  const stats = data?.stats
+
+  // Merchants with at least one endpoint, for the filter
+  const merchants = Array.from(new Map(endpoints.map(endpoint => [endpoint.merchantId, endpoint.merchantName ?? endpoint.merchantId])))
+
+  const replayMutation = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      const response = await apiRequest("POST", `/api/admin/webhooks/deliveries/${deliveryId}/replay`)
+      return response.json() as Promise<WebhookDelivery>
     },
-    {
-      id: "evt_002",
-      merchant: "Digital Goods Ltd",
-      eventType: "payment.failed",
-      url: "https://digitalgoods.com/api/webhooks",
-      status: "failed",
-      attempts: 3,
-      timestamp: "2024-01-21 14:25:15",
-      responseCode: 500,
-      responseTime: "timeout"
+    onSuccess: (delivery) => {
+      // Filtered delivery lists are cached under their full URL
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith('/api/admin/webhooks/deliveries')
+      })
+      toast({
+        title: delivery.status === 'success' ? "Webhook delivered" : "Webhook replay queued",
+        description: delivery.status === 'success'
+          ? `Endpoint responded with ${delivery.responseCode}.`
+          : `First attempt failed${delivery.lastError ? `: ${delivery.lastError}` : ''}. It will be retried automatically.`,
+      })
     },
-    {
-      id: "evt_003",
-      merchant: "CryptoShop",
-      eventType: "kyb.approved",
-      url: "https://cryptoshop.io/webhooks/status",
-      status: "success",
-      attempts: 1,
-      timestamp: "2024-01-21 13:45:10",
-      responseCode: 200,
-      responseTime: "89ms"
+    onError: (error: Error) => {
+      toast({ title: "Replay failed", description: error.message, variant: "destructive" })
     },
-    {
-      id: "evt_004",
-      merchant: "GameFi Platform",
-      eventType: "payment.completed",
-      url: "https://gamefi.game/api/payments",
-      status: "pending",
-      attempts: 1,
-      timestamp: "2024-01-21 14:32:01",
-      responseCode: null,
-      responseTime: null
-    }
-  ]
+  })
 
-  const webhookConfig = [
-    {
-      merchant: "TechCorp Inc",
-      endpoint: "https://techcorp.com/webhooks/ruupay",
-      enabled: true,
-      events: ["payment.completed", "payment.failed", "kyb.approved"],
-      secret: "whsec_1234567890abcdef",
-      retryCount: 3
+  const updateEndpointMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: { enabled?: boolean; maxAttempts?: number } }) => {
+      const response = await apiRequest("PATCH", `/api/admin/webhooks/endpoints/${id}`, updates)
+      return response.json() as Promise<WebhookEndpoint>
     },
-    {
-      merchant: "Digital Goods Ltd", 
-      endpoint: "https://digitalgoods.com/api/webhooks",
-      enabled: true,
-      events: ["payment.completed", "payment.failed"],
-      secret: "whsec_abcdef1234567890",
-      retryCount: 3
+    onSuccess: (endpoint, { updates }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/webhooks/endpoints'] })
+      if (updates.enabled !== undefined) {
+        toast({
+          title: updates.enabled ? "Webhook enabled" : "Webhook disabled",
+          description: `Webhook delivery ${updates.enabled ? 'enabled' : 'disabled'} for ${endpoint.url}.`,
+        })
+      }
     },
-    {
-      merchant: "CryptoShop",
-      endpoint: "https://cryptoshop.io/webhooks/status",
-      enabled: false,
-      events: ["payment.completed", "kyb.approved"],
-      secret: "whsec_fedcba0987654321",
-      retryCount: 2
-    }
-  ]
-
-  const eventTypes = [
-    { name: "payment.completed", description: "Payment successfully processed" },
-    { name: "payment.failed", description: "Payment processing failed" },
-    { name: "payment.pending", description: "Payment is being processed" },
-    { name: "kyb.submitted", description: "KYB documents submitted" },
-    { name: "kyb.approved", description: "KYB verification approved" },
-    { name: "kyb.rejected", description: "KYB verification rejected" },
-    { name: "merchant.approved", description: "Merchant account approved" },
-    { name: "merchant.suspended", description: "Merchant account suspended" }
-  ]
+    onError: (error: Error) => {
+      toast({ title: "Failed to update webhook", description: error.message, variant: "destructive" })
+    },
+  })
 
   const getStatusBadge = (status: string) => {
     const variants = {
@@ -110,7 +145,7 @@ export function WebhookManagement() {
     }
     const config = variants[status as keyof typeof variants] || variants.pending
     const Icon = config.icon
-    
+
     return (
       <Badge variant={config.variant} className="flex items-center gap-1 w-fit">
         <Icon className="h-3 w-3" />
@@ -119,28 +154,6 @@ export function WebhookManagement() {
     )
   }
 
-  const handleRetryWebhook = (eventId: string) => {
-    console.log(`Retrying webhook: ${eventId}`)
-    toast({
-      title: "Webhook retry initiated",
-      description: "The webhook event has been queued for retry.",
-    })
-  }
-
-  const handleToggleWebhook = (merchant: string, enabled: boolean) => {
-    console.log(`Toggling webhook for ${merchant}:`, enabled)
-    toast({
-      title: enabled ? "Webhook enabled" : "Webhook disabled",
-      description: `Webhook delivery ${enabled ? 'enabled' : 'disabled'} for ${merchant}.`,
-    })
-  }
-
-  const filteredEvents = webhookEvents.filter(event => {
-    const matchesMerchant = selectedMerchant === "all" || event.merchant === selectedMerchant
-    const matchesStatus = filterStatus === "all" || event.status === filterStatus
-    return matchesMerchant && matchesStatus
-  })
-
   return (
     <div className="space-y-6">
       <div>
@@ -155,6 +168,7 @@ export function WebhookManagement() {
           <TabsTrigger value="events" data-testid="tab-webhook-events">Webhook Events</TabsTrigger>
           <TabsTrigger value="config" data-testid="tab-webhook-config">Configuration</TabsTrigger>
           <TabsTrigger value="settings" data-testid="tab-webhook-settings">Settings</TabsTrigger>
+          <TabsTrigger value="inbound" data-testid="tab-webhook-inbound">Cybrid Events</TabsTrigger>
         </TabsList>
 
         <TabsContent value="events" className="space-y-4">
@@ -165,16 +179,18 @@ export function WebhookManagement() {
                 <CardTitle className="text-sm font-medium text-muted-foreground">Total Events</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold" data-testid="text-total-events">4</div>
+                <div className="text-2xl font-bold" data-testid="text-total-events">{stats?.total ?? 0}</div>
               </CardContent>
             </Card>
-            
+
             <Card>
               <CardHeader className="pb-2">
                 <CardTitle className="text-sm font-medium text-muted-foreground">Success Rate</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-green-600" data-testid="text-success-rate">75%</div>
+                <div className="text-2xl font-bold text-green-600" data-testid="text-success-rate">
+                  {stats?.successRate != null ? `${stats.successRate}%` : '—'}
+                </div>
               </CardContent>
             </Card>
 
@@ -183,7 +199,7 @@ export function WebhookManagement() {
                 <CardTitle className="text-sm font-medium text-muted-foreground">Failed Events</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-red-600" data-testid="text-failed-events">1</div>
+                <div className="text-2xl font-bold text-red-600" data-testid="text-failed-events">{stats?.failed ?? 0}</div>
               </CardContent>
             </Card>
 
@@ -192,7 +208,9 @@ export function WebhookManagement() {
                 <CardTitle className="text-sm font-medium text-muted-foreground">Avg Response Time</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold" data-testid="text-avg-response-time">117ms</div>
+                <div className="text-2xl font-bold" data-testid="text-avg-response-time">
+                  {stats?.avgResponseTimeMs != null ? `${stats.avgResponseTimeMs}ms` : '—'}
+                </div>
               </CardContent>
             </Card>
           </div>
@@ -209,14 +227,13 @@ export function WebhookManagement() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Merchants</SelectItem>
-                      <SelectItem value="TechCorp Inc">TechCorp Inc</SelectItem>
-                      <SelectItem value="Digital Goods Ltd">Digital Goods Ltd</SelectItem>
-                      <SelectItem value="CryptoShop">CryptoShop</SelectItem>
-                      <SelectItem value="GameFi Platform">GameFi Platform</SelectItem>
+                      {merchants.map(([id, name]) => (
+                        <SelectItem key={id} value={id}>{name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
-                
+
                 <div className="flex-1">
                   <Label>Filter by Status</Label>
                   <Select value={filterStatus} onValueChange={setFilterStatus}>
@@ -244,68 +261,88 @@ export function WebhookManagement() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Event</TableHead>
-                      <TableHead>Merchant</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead>Attempts</TableHead>
-                      <TableHead>Response</TableHead>
-                      <TableHead>Timestamp</TableHead>
-                      <TableHead></TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {filteredEvents.map((event) => (
-                      <TableRow key={event.id} data-testid={`row-webhook-${event.id}`}>
-                        <TableCell>
-                          <div>
-                            <div className="font-medium font-mono text-sm">{event.eventType}</div>
-                            <div className="text-xs text-muted-foreground truncate max-w-[200px]">
-                              {event.url}
+              {deliveriesLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : deliveries.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No webhook deliveries yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Event</TableHead>
+                        <TableHead>Merchant</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Attempts</TableHead>
+                        <TableHead>Response</TableHead>
+                        <TableHead>Timestamp</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {deliveries.map((delivery) => (
+                        <TableRow key={delivery.id} data-testid={`row-webhook-${delivery.id}`}>
+                          <TableCell>
+                            <div>
+                              <div className="font-medium font-mono text-sm">
+                                {delivery.eventType}
+                                {delivery.replayOfId && <Badge variant="outline" className="ml-2 text-xs">replay</Badge>}
+                              </div>
+                              <div className="text-xs text-muted-foreground truncate max-w-[200px]">
+                                {delivery.url ?? 'Endpoint deleted'}
+                              </div>
                             </div>
-                          </div>
-                        </TableCell>
-                        <TableCell>{event.merchant}</TableCell>
-                        <TableCell>
-                          {getStatusBadge(event.status)}
-                        </TableCell>
-                        <TableCell>
-                          <span className="font-mono">{event.attempts}</span>
-                        </TableCell>
-                        <TableCell>
-                          <div className="text-sm">
-                            {event.responseCode && (
-                              <div className="font-mono">{event.responseCode}</div>
+                          </TableCell>
+                          <TableCell>{delivery.merchantName ?? delivery.merchantId}</TableCell>
+                          <TableCell>
+                            {getStatusBadge(delivery.status)}
+                            {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                Next try {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                              </div>
                             )}
-                            {event.responseTime && (
-                              <div className="text-muted-foreground">{event.responseTime}</div>
+                          </TableCell>
+                          <TableCell>
+                            <span className="font-mono">{delivery.attempts}</span>
+                          </TableCell>
+                          <TableCell>
+                            <div className="text-sm">
+                              {delivery.responseCode && (
+                                <div className="font-mono">{delivery.responseCode}</div>
+                              )}
+                              {delivery.lastError && !delivery.responseCode && (
+                                <div className="text-muted-foreground">{delivery.lastError}</div>
+                              )}
+                              {delivery.responseTimeMs !== null && (
+                                <div className="text-muted-foreground">{delivery.responseTimeMs}ms</div>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {new Date(delivery.createdAt).toLocaleString()}
+                          </TableCell>
+                          <TableCell>
+                            {delivery.status === 'failed' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => replayMutation.mutate(delivery.id)}
+                                disabled={replayMutation.isPending}
+                                data-testid={`button-retry-${delivery.id}`}
+                              >
+                                <RotateCcw className="h-3 w-3 mr-1" />
+                                Retry
+                              </Button>
                             )}
-                          </div>
-                        </TableCell>
-                        <TableCell className="text-sm text-muted-foreground">
-                          {event.timestamp}
-                        </TableCell>
-                        <TableCell>
-                          {event.status === 'failed' && (
-                            <Button 
-                              variant="outline" 
-                              size="sm"
-                              onClick={() => handleRetryWebhook(event.id)}
-                              data-testid={`button-retry-${event.id}`}
-                            >
-                              <RotateCcw className="h-3 w-3 mr-1" />
-                              Retry
-                            </Button>
-                          )}
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -313,71 +350,85 @@ export function WebhookManagement() {
         <TabsContent value="config" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Webhook Configuration</CardTitle>
+              <CardTitle className="flex items-center gap-2">
+                <Webhook className="h-5 w-5" />
+                Webhook Configuration
+              </CardTitle>
               <CardDescription>
-                Configure webhook endpoints and event subscriptions per merchant
+                Endpoints registered by merchants. Disabling an endpoint stops all deliveries to it.
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {webhookConfig.map((config, index) => (
-                  <Card key={index}>
-                    <CardHeader>
-                      <div className="flex items-center justify-between">
-                        <CardTitle className="text-lg">{config.merchant}</CardTitle>
-                        <Switch 
-                          checked={config.enabled}
-                          onCheckedChange={(checked) => handleToggleWebhook(config.merchant, checked)}
-                          data-testid={`switch-webhook-${index}`}
-                        />
-                      </div>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div>
-                        <Label>Webhook Endpoint</Label>
-                        <Input 
-                          value={config.endpoint} 
-                          className="font-mono text-sm"
-                          data-testid={`input-endpoint-${index}`}
-                        />
-                      </div>
-                      
-                      <div>
-                        <Label>Subscribed Events</Label>
-                        <div className="flex flex-wrap gap-2 mt-2">
-                          {config.events.map((event) => (
-                            <Badge key={event} variant="outline" className="text-xs">
-                              {event}
-                            </Badge>
-                          ))}
+              {endpointsLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : endpoints.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No merchant has registered a webhook endpoint</p>
+              ) : (
+                <div className="space-y-4">
+                  {endpoints.map((endpoint) => (
+                    <Card key={endpoint.id}>
+                      <CardHeader>
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <CardTitle className="text-lg">{endpoint.merchantName ?? endpoint.merchantId}</CardTitle>
+                            {endpoint.description && (
+                              <CardDescription>{endpoint.description}</CardDescription>
+                            )}
+                          </div>
+                          <Switch
+                            checked={endpoint.enabled}
+                            onCheckedChange={(checked) => updateEndpointMutation.mutate({ id: endpoint.id, updates: { enabled: checked } })}
+                            data-testid={`switch-webhook-${endpoint.id}`}
+                          />
                         </div>
-                      </div>
-
-                      <div className="grid grid-cols-2 gap-4">
+                      </CardHeader>
+                      <CardContent className="space-y-4">
                         <div>
-                          <Label>Webhook Secret</Label>
-                          <Input 
-                            value={config.secret}
-                            type="password"
+                          <Label>Webhook Endpoint</Label>
+                          <Input
+                            value={endpoint.url}
+                            readOnly
                             className="font-mono text-sm"
-                            data-testid={`input-secret-${index}`}
+                            data-testid={`input-endpoint-${endpoint.id}`}
                           />
                         </div>
+
                         <div>
-                          <Label>Retry Count</Label>
-                          <Input 
-                            value={config.retryCount}
-                            type="number"
-                            min="0"
-                            max="5"
-                            data-testid={`input-retry-${index}`}
-                          />
+                          <Label>Subscribed Events</Label>
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {endpoint.events && endpoint.events.length > 0 ? endpoint.events.map((event) => (
+                              <Badge key={event} variant="outline" className="text-xs">
+                                {event}
+                              </Badge>
+                            )) : (
+                              <Badge variant="outline" className="text-xs">All events</Badge>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
+
+                        <div className="w-48">
+                          <Label>Max Attempts</Label>
+                          <Select
+                            value={endpoint.maxAttempts.toString()}
+                            onValueChange={(value) => updateEndpointMutation.mutate({ id: endpoint.id, updates: { maxAttempts: Number(value) } })}
+                          >
+                            <SelectTrigger data-testid={`select-retry-${endpoint.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Array.from({ length: 10 }, (_, i) => i + 1).map(count => (
+                                <SelectItem key={count} value={count.toString()}>{count}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -387,56 +438,54 @@ export function WebhookManagement() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Settings className="h-5 w-5" />
-                Global Webhook Settings
+                Delivery Policy
               </CardTitle>
               <CardDescription>
-                Configure platform-wide webhook behavior and policies
+                How deliveries are signed and retried across the platform
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-4">
                   <h3 className="font-semibold">Retry Policy</h3>
-                  <div className="space-y-2">
-                    <Label>Default Retry Count</Label>
-                    <Input type="number" defaultValue="3" min="0" max="10" data-testid="input-default-retry" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Retry Delay (seconds)</Label>
-                    <Input type="number" defaultValue="30" min="1" max="3600" data-testid="input-retry-delay" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Timeout (seconds)</Label>
-                    <Input type="number" defaultValue="30" min="5" max="120" data-testid="input-timeout" />
+                  <p className="text-sm text-muted-foreground">
+                    Failed deliveries (non-2xx, network error or timeout) are retried with exponential
+                    backoff until the endpoint's max attempts is reached, then marked failed and can be replayed.
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {retryDelays.map((delay, i) => (
+                      <Badge key={i} variant="outline" className="font-mono text-xs">
+                        #{i + 2} after {formatDelay(delay)}
+                      </Badge>
+                    ))}
                   </div>
+                  <h3 className="font-semibold pt-2">Signature</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Each request carries <span className="font-mono">Ruupay-Signature: t=&lt;timestamp&gt;,v1=&lt;hmac&gt;</span>,
+                    an HMAC-SHA256 of <span className="font-mono">timestamp.body</span> using the endpoint's whsec_ secret.
+                  </p>
                 </div>
 
                 <div className="space-y-4">
                   <h3 className="font-semibold">Event Types</h3>
                   <div className="space-y-2 max-h-64 overflow-y-auto">
-                    {eventTypes.map((eventType) => (
-                      <div key={eventType.name} className="flex items-center justify-between p-2 border rounded">
-                        <div>
-                          <div className="font-mono text-sm">{eventType.name}</div>
-                          <div className="text-xs text-muted-foreground">{eventType.description}</div>
-                        </div>
-                        <Switch defaultChecked data-testid={`switch-event-${eventType.name}`} />
+                    {merchantWebhookEventTypes.map((eventType) => (
+                      <div key={eventType} className="p-2 border rounded" data-testid={`event-type-${eventType}`}>
+                        <div className="font-mono text-sm">{eventType}</div>
+                        <div className="text-xs text-muted-foreground">{eventDescriptions[eventType]}</div>
                       </div>
                     ))}
                   </div>
                 </div>
               </div>
-
-              <div className="pt-4 border-t">
-                <Button data-testid="button-save-webhook-settings">
-                  <Settings className="h-4 w-4 mr-2" />
-                  Save Settings
-                </Button>
-              </div>
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="inbound" className="space-y-4">
+          <CybridEventInspector />
+        </TabsContent>
       </Tabs>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -3,7 +3,7 @@ import {
   Users, Settings, CreditCard, Webhook, 
   Building, BarChart3, Wallet,
   Home, FileText, Shield, Activity, ArrowDownToLine, ArrowUpFromLine,
-  LogOut, ChevronUp, Link as LinkIcon
+  LogOut, ChevronUp, Link as LinkIcon, Receipt, ScanSearch, ScrollText, KeyRound, Mail
 } from "lucide-react"
 import { Link, useLocation } from "wouter"
 import { useQuery, useMutation } from "@tanstack/react-query"
@@ -121,25 +121,36 @@ export function AppSidebar({ userRole }: AppSidebarProps) {
     }
   }
 
+  // Sections are hidden when the admin lacks the permission their APIs require
   const adminItems = [
     { title: "Dashboard", url: "/admin", icon: Home },
-    { title: "Merchants", url: "/admin/merchants", icon: Users },
-    { title: "Signup Links", url: "/admin/signup-links", icon: LinkIcon },
-    { title: "Permissions", url: "/admin/permissions", icon: Shield },
-    { title: "Fee Config", url: "/admin/fees", icon: CreditCard },
-    { title: "Webhooks", url: "/admin/webhooks", icon: Webhook },
-    { title: "Settings", url: "/admin/settings", icon: Settings },
+    { title: "Merchants", url: "/admin/merchants", icon: Users, permission: "merchant_view" },
+    { title: "Signup Links", url: "/admin/signup-links", icon: LinkIcon, permission: "merchant_create" },
+    { title: "Permissions", url: "/admin/permissions", icon: Shield, permission: "user_management" },
+    { title: "Fee Config", url: "/admin/fees", icon: CreditCard, permission: "fee_management" },
+    { title: "Webhooks", url: "/admin/webhooks", icon: Webhook, permission: "webhook_management" },
+    { title: "Reconciliation", url: "/admin/reconciliation", icon: ScanSearch, permission: "integration_management" },
+    { title: "Audit Log", url: "/admin/audit-log", icon: ScrollText, permission: "audit_logs" },
+    { title: "Notifications", url: "/admin/notifications", icon: Mail, permission: "audit_logs" },
+    { title: "Settings", url: "/admin/settings", icon: Settings, permission: "settings_management" },
+    { title: "Security", url: "/admin/security", icon: KeyRound },
   ]
+  const adminPermissions: string[] = (adminProfile as any)?.effectivePermissions ?? []
 
   const merchantItems = [
     { title: "Dashboard", url: "/merchant", icon: Home },
     { title: "Account Overview", url: "/merchant/account-status", icon: Activity },
+    { title: "Accounts", url: "/merchant/accounts", icon: Wallet },
+    { title: "Invoices", url: "/merchant/invoices", icon: Receipt },
     { title: "Onboarding", url: "/merchant/onboarding", icon: FileText },
     { title: "Receive Crypto", url: "/merchant/receive-crypto", icon: ArrowDownToLine },
     { title: "Offramp Crypto", url: "/merchant/offramp-crypto", icon: ArrowUpFromLine },
+    { title: "Security", url: "/merchant/security", icon: KeyRound },
   ]
 
-  const items = userRole === "admin" ? adminItems : merchantItems
+  const items = userRole === "admin"
+    ? adminItems.filter(item => !item.permission || adminPermissions.includes(item.permission))
+    : merchantItems
 
   return (
     <Sidebar>
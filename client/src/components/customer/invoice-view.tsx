@@ -0,0 +1,159 @@
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { Receipt, CheckCircle, XCircle, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { apiRequest } from "@/lib/queryClient"
+
+interface PublicInvoice {
+  id: string
+  invoiceNumber: string
+  status: 'open' | 'paid' | 'void'
+  merchantName: string
+  customerName: string | null
+  currency: string
+  cryptoCurrency: string
+  total: string
+  notes: string | null
+  dueDate: string | null
+  issuedAt: string | null
+  paidAt: string | null
+  isOverdue: boolean
+  items: Array<{ id: string; description: string; quantity: string; unitPrice: string; amount: string }>
+}
+
+interface InvoiceViewProps {
+  invoiceId: string
+}
+
+const formatMoney = (value: string, currency: string) =>
+  `${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`
+
+export function InvoiceView({ invoiceId }: InvoiceViewProps) {
+  const { toast } = useToast()
+
+  const { data: invoice, isLoading, error } = useQuery<PublicInvoice>({
+    queryKey: ['/api/public/invoices', invoiceId],
+  })
+
+  // Hands the customer off to the hosted checkout for this invoice
+  const payMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/public/invoices/${invoiceId}/pay`)
+      return response.json() as Promise<{ url: string }>
+    },
+    onSuccess: ({ url }) => {
+      window.location.href = url
+    },
+    onError: (error: Error) => {
+      toast({ title: "Unable to start payment", description: error.message, variant: "destructive" })
+    },
+  })
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (error || !invoice) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 p-3 rounded-lg bg-red-100 dark:bg-red-900 w-fit">
+              <XCircle className="h-8 w-8 text-red-600" />
+            </div>
+            <CardTitle>Invoice Not Found</CardTitle>
+            <CardDescription>Please check the link or contact the merchant.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl">
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2" data-testid="text-merchant-name">
+                <Receipt className="h-5 w-5" />
+                {invoice.merchantName}
+              </CardTitle>
+              <CardDescription>
+                Invoice {invoice.invoiceNumber}
+                {invoice.customerName && ` • Billed to ${invoice.customerName}`}
+              </CardDescription>
+            </div>
+            <Badge variant={invoice.isOverdue ? "destructive" : invoice.status === 'paid' ? "default" : "secondary"} className="capitalize">
+              {invoice.isOverdue ? 'overdue' : invoice.status}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Unit price</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoice.items.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell>{item.description}</TableCell>
+                  <TableCell className="text-right">{Number(item.quantity)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatMoney(item.unitPrice, invoice.currency)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatMoney(item.amount, invoice.currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex justify-between text-lg font-semibold">
+            <span>Total</span>
+            <span className="font-mono" data-testid="text-invoice-total">{formatMoney(invoice.total, invoice.currency)}</span>
+          </div>
+
+          {invoice.dueDate && (
+            <p className="text-sm text-muted-foreground">Due {new Date(invoice.dueDate).toLocaleDateString()}</p>
+          )}
+          {invoice.notes && (
+            <p className="text-sm text-muted-foreground whitespace-pre-wrap">{invoice.notes}</p>
+          )}
+
+          {invoice.status === 'paid' ? (
+            <div className="p-4 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-lg text-center">
+              <CheckCircle className="h-8 w-8 mx-auto mb-2 text-green-600" />
+              <h3 className="font-semibold text-green-800 dark:text-green-200">Paid</h3>
+              {invoice.paidAt && (
+                <p className="text-sm text-green-700 dark:text-green-300">{new Date(invoice.paidAt).toLocaleString()}</p>
+              )}
+            </div>
+          ) : invoice.status === 'void' ? (
+            <p className="text-center text-muted-foreground">This invoice has been voided by the merchant.</p>
+          ) : (
+            <Button
+              className="w-full"
+              size="lg"
+              onClick={() => payMutation.mutate()}
+              disabled={payMutation.isPending}
+              data-testid="button-pay-invoice"
+            >
+              {payMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Pay {formatMoney(invoice.total, invoice.currency)}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
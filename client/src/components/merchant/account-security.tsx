@@ -0,0 +1,139 @@
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { KeyRound, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { useToast } from "@/hooks/use-toast"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+import { merchantPasswordSchema, type MerchantChangePassword } from "@shared/schema"
+
+const changePasswordFormSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: merchantPasswordSchema,
+  confirmPassword: z.string().min(1, "Please confirm your password"),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+})
+
+type ChangePasswordForm = z.infer<typeof changePasswordFormSchema>
+
+// Sign-in details for the merchant portal
+export function AccountSecurity() {
+  const { toast } = useToast()
+
+  const { data: profile } = useQuery<{ username: string; passwordChangedAt: string | null }>({
+    queryKey: ["/api/merchant/profile"],
+  })
+
+  const form = useForm<ChangePasswordForm>({
+    resolver: zodResolver(changePasswordFormSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  })
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async (data: MerchantChangePassword) => {
+      await apiRequest("POST", "/api/merchant/change-password", data)
+    },
+    onSuccess: () => {
+      form.reset()
+      queryClient.invalidateQueries({ queryKey: ["/api/merchant/profile"] })
+      toast({
+        title: "Password Changed",
+        description: "Use your new password the next time you sign in.",
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change password",
+        description: error.message,
+        variant: "destructive",
+      })
+    },
+  })
+
+  const onSubmit = ({ currentPassword, newPassword }: ChangePasswordForm) => {
+    changePasswordMutation.mutate({ currentPassword, newPassword })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Security</h1>
+        <p className="text-muted-foreground">
+          Manage how you sign in to the merchant portal
+        </p>
+      </div>
+
+      <Card className="max-w-xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Change Password
+          </CardTitle>
+          <CardDescription>
+            Signed in as <span className="font-mono">{profile?.username}</span>
+            {profile?.passwordChangedAt && ` · last changed ${new Date(profile.passwordChangedAt).toLocaleDateString()}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="currentPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Current Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" data-testid="input-current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="newPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" data-testid="input-new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm New Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" data-testid="input-confirm-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={changePasswordMutation.isPending} data-testid="button-change-password">
+                {changePasswordMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Change Password
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
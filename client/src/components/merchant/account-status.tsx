@@ -8,11 +8,13 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Separator } from "@/components/ui/separator"
+import { Alert, AlertDescription } from "@/components/ui/alert"
 import { useQuery, useMutation } from "@tanstack/react-query"
 import { useLocation } from "wouter"
 import { useToast } from "@/hooks/use-toast"
 import { apiRequest, queryClient } from "@/lib/queryClient"
 import { KycNotificationBanner } from "./kyc-notification-banner"
+import type { CredentialVerificationStatus, MerchantMode, TransakCredentialPolicy } from "@shared/schema"
 
 interface StatusItem {
   title: string
@@ -44,6 +46,21 @@ interface DepositAddressesResponse {
   addresses: DepositAddress[];
 }
 
+// GET /api/merchant/credentials-v2/transak; verification fields are only present once keys are saved
+interface TransakCredentialStatus {
+  provider: 'transak';
+  mode: MerchantMode;
+  environment: string;
+  hasApiKey: boolean;
+  hasApiSecret: boolean;
+  isActive: boolean | null;
+  credentialPolicy: TransakCredentialPolicy;
+  verificationStatus?: CredentialVerificationStatus;
+  lastVerifiedAt?: string | null;
+  lastCheckedAt?: string | null;
+  verificationError?: string | null;
+}
+
 export function AccountStatus() {
   const [, setLocation] = useLocation()
   const { toast } = useToast()
@@ -70,7 +87,7 @@ export function AccountStatus() {
     queryKey: ['/api/merchant/deposit-addresses'],
   })
 
-  const { data: transakData, isLoading: isLoadingTransak } = useQuery({
+  const { data: transakData, isLoading: isLoadingTransak } = useQuery<TransakCredentialStatus>({
     queryKey: ['/api/merchant/credentials-v2/transak'],
   })
 
@@ -79,13 +96,13 @@ export function AccountStatus() {
     if (transakData) {
       setTransakCredentials(prev => ({
         ...prev,
-        environment: (transakData as any).environment || 'staging'
+        environment: transakData.environment || 'staging'
         // API key and secret remain empty for security - only show if they exist
       }))
     }
   }, [transakData])
 
-  // Mutation for saving Transak credentials (v2 uses Secret Manager)
+  // Mutation for saving Transak credentials (the server verifies them with Transak first)
   const saveTransakMutation = useMutation({
     mutationFn: async (credentials: { apiKey: string; apiSecret: string; environment: string }) => {
       const response = await apiRequest('POST', '/api/merchant/credentials-v2/transak', credentials)
@@ -102,7 +119,7 @@ export function AccountStatus() {
       queryClient.invalidateQueries({ queryKey: ['/api/merchant/credentials-v2/transak'] })
       toast({
         title: "Transak Credentials Saved",
-        description: "Your Transak API credentials have been securely stored in Google Secret Manager.",
+        description: "Transak accepted your API credentials and they have been stored securely.",
       })
     },
     onError: (error: any) => {
@@ -114,17 +131,26 @@ export function AccountStatus() {
     }
   })
 
-  // Mutation for testing Transak connection
+  // Mutation for re-checking the saved credentials with Transak
   const testTransakMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/transak/access-token')
+      const response = await apiRequest('POST', '/api/merchant/credentials-v2/transak/verify')
       return await response.json()
     },
     onSuccess: (data: any) => {
-      toast({
-        title: "Connection Successful",
-        description: `Successfully connected to Transak API. Token expires in ${data.expiresIn} seconds.`,
-      })
+      queryClient.invalidateQueries({ queryKey: ['/api/merchant/credentials-v2/transak'] })
+      if (data.status === 'valid') {
+        toast({
+          title: "Connection Successful",
+          description: "Transak accepted your API credentials.",
+        })
+      } else {
+        toast({
+          title: data.status === 'unreachable' ? "Transak Unreachable" : "Credentials Rejected",
+          description: data.error || "Transak did not accept your API credentials.",
+          variant: "destructive"
+        })
+      }
     },
     onError: (error: any) => {
       toast({
@@ -159,7 +185,7 @@ export function AccountStatus() {
     }
     
     // For new integrations, require both credentials
-    if (!(transakData as any)?.hasApiKey && (!transakCredentials.apiKey || !transakCredentials.apiSecret)) {
+    if (!transakData?.hasApiKey && (!transakCredentials.apiKey || !transakCredentials.apiSecret)) {
       toast({
         title: "Missing Information",
         description: "Please provide both API key and API secret for initial setup",
@@ -249,7 +275,8 @@ export function AccountStatus() {
   // Calculate automation status based on backend data
   const kycStatus = (kycData as any)?.status
   const walletHasAddresses = (depositAddressData as any)?.addresses && (depositAddressData as any)?.addresses.length > 0
-  const transakConfigured = (transakData as any)?.hasApiKey && (transakData as any)?.hasApiSecret
+  const transakConfigured = transakData?.hasApiKey && transakData?.hasApiSecret
+  const transakRejected = transakData?.verificationStatus === 'invalid' || transakData?.verificationStatus === 'expired'
 
   const automationSteps: StatusItem[] = [
     {
@@ -569,7 +596,12 @@ export function AccountStatus() {
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="text-center p-3 border rounded-lg">
                   <div className="text-sm text-muted-foreground">Status</div>
-                  {transakConfigured ? (
+                  {transakConfigured && transakRejected ? (
+                    <Badge variant="destructive" className="flex items-center gap-1 justify-center capitalize" data-testid="badge-transak-verification">
+                      <AlertTriangle className="h-3 w-3" />
+                      {transakData.verificationStatus}
+                    </Badge>
+                  ) : transakConfigured ? (
                     <Badge variant="default" className="flex items-center gap-1 justify-center">
                       <CheckCircle className="h-3 w-3" />
                       Connected
@@ -583,16 +615,28 @@ export function AccountStatus() {
                 </div>
                 <div className="text-center p-3 border rounded-lg">
                   <div className="text-sm text-muted-foreground">Environment</div>
-                  <div className="text-sm font-medium capitalize">{(transakData as any)?.environment || 'Not Set'}</div>
+                  <div className="text-sm font-medium capitalize">{transakData?.environment || 'Not Set'}</div>
                 </div>
                 <div className="text-center p-3 border rounded-lg">
-                  <div className="text-sm text-muted-foreground">Last Updated</div>
-                  <div className="text-sm">
-                    {(transakData as any)?.createdAt ? new Date((transakData as any).createdAt).toLocaleDateString() : "Never"}
+                  <div className="text-sm text-muted-foreground">Last Verified</div>
+                  <div className="text-sm" data-testid="text-transak-last-verified">
+                    {transakData?.lastVerifiedAt ? new Date(transakData.lastVerifiedAt).toLocaleString() : "Never"}
                   </div>
                 </div>
               </div>
 
+              {transakConfigured && transakData?.verificationError && (
+                <Alert variant={transakRejected ? "destructive" : "default"} data-testid="alert-transak-verification-error">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    {transakRejected
+                      ? "Transak rejected your saved credentials, so they are no longer used for payments. Enter new keys below."
+                      : "The last check couldn't reach Transak; your credentials are still in use."}
+                    <span className="block text-xs mt-1 font-mono break-all">{transakData.verificationError}</span>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Setup Instructions */}
               {!transakConfigured && (
                 <div className="border-l-4 border-l-blue-500 bg-blue-50 dark:bg-blue-950 p-4">
@@ -665,9 +709,11 @@ export function AccountStatus() {
                   {/* Environment Selection */}
                   <div className="space-y-2">
                     <Label>Environment</Label>
+                    {/* Follows the sandbox/live switch: each mode keeps its own keys */}
                     <Select 
                       value={transakCredentials.environment} 
                       onValueChange={(value) => handleTransakChange('environment', value)}
+                      disabled
                     >
                       <SelectTrigger data-testid="select-transak-environment">
                         <SelectValue />
@@ -677,6 +723,9 @@ export function AccountStatus() {
                         <SelectItem value="production">Production</SelectItem>
                       </SelectContent>
                     </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {transakData?.mode === 'live' ? "Live" : "Sandbox"} mode keys. Use the Live mode switch to manage the other set.
+                    </p>
                   </div>
 
                   <div className="flex items-end">
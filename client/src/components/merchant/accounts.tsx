@@ -1,4 +1,5 @@
-import { useState } from "react"
+import { useMemo, useState } from "react"
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
 import { Wallet, Plus, CheckCircle, AlertTriangle, ExternalLink, Copy, Settings, Loader2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -11,16 +12,17 @@ import { useQuery } from "@tanstack/react-query"
 
 interface DepositAddress {
   created_at: string;
-  updated_at: string;
+  updated_at?: string;
   guid: string;
-  bank_guid: string;
+  bank_guid?: string;
   customer_guid: string;
   account_guid: string;
   asset: string;
+  network?: string;
   state: string;
   address: string;
-  format: string;
-  labels: string[];
+  format?: string;
+  labels?: string[];
 }
 
 interface DepositAddressesResponse {
@@ -28,6 +30,33 @@ interface DepositAddressesResponse {
   addresses: DepositAddress[];
 }
 
+interface AccountBalance {
+  accountGuid: string;
+  type: string;
+  asset: string;
+  name: string;
+  state: string;
+  platformBalance: number;
+  platformAvailable: number;
+}
+
+interface BalanceHistoryPoint {
+  accountGuid: string;
+  accountType: string;
+  asset: string;
+  platformBalance: number;
+  platformAvailable: number;
+  capturedAt: string;
+}
+
+interface BalancesResponse {
+  balances: AccountBalance[];
+  history: BalanceHistoryPoint[];
+  balancesError: string | null;
+}
+
+const CHART_COLORS = ["hsl(var(--primary))", "#16a34a", "#f59e0b", "#8b5cf6", "#ef4444", "#0ea5e9"]
+
 export function Accounts() {
   const { toast } = useToast()
   const [isCreatingCustodian, setIsCreatingCustodian] = useState(false)
@@ -43,6 +72,27 @@ export function Accounts() {
     enabled: true, // Only fetch if merchant has custodian account
   })
 
+  const {
+    data: balancesData,
+    isLoading: isLoadingBalances,
+    error: balancesError
+  } = useQuery<BalancesResponse>({
+    queryKey: ['/api/merchant/balances'],
+  })
+
+  // Pivot snapshots into one row per capture time with a column per asset
+  const { balanceChartData, chartAssets } = useMemo(() => {
+    const rows = new Map<string, Record<string, number | string>>()
+    const assets = new Set<string>()
+    for (const point of balancesData?.history || []) {
+      assets.add(point.asset)
+      const row = rows.get(point.capturedAt) || { capturedAt: point.capturedAt }
+      row[point.asset] = ((row[point.asset] as number) || 0) + point.platformBalance
+      rows.set(point.capturedAt, row)
+    }
+    return { balanceChartData: Array.from(rows.values()), chartAssets: Array.from(assets) }
+  }, [balancesData])
+
   // TODO: Replace with real merchant account data
   const merchantStatus = {
     kybCompleted: true,
@@ -290,6 +340,87 @@ export function Accounts() {
         </CardContent>
       </Card>
 
+      {/* Account Balances */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Balances</CardTitle>
+          <CardDescription>
+            Live balances for your trading and fiat accounts
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoadingBalances ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              <span>Loading balances...</span>
+            </div>
+          ) : balancesError ? (
+            <div className="text-center p-6">
+              <AlertTriangle className="h-12 w-12 mx-auto text-yellow-500 mb-4" />
+              <h3 className="font-semibold mb-2">Unable to Load Balances</h3>
+              <p className="text-sm text-muted-foreground">
+                Failed to fetch your account balances. Please try again later.
+              </p>
+            </div>
+          ) : balancesData?.balancesError ? (
+            <div className="text-center p-6">
+              <Wallet className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-sm text-muted-foreground" data-testid="text-balances-unavailable">
+                {balancesData.balancesError}
+              </p>
+            </div>
+          ) : balancesData?.balances?.length ? (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {balancesData.balances.map((balance) => (
+                  <div key={balance.accountGuid} className="p-4 border rounded-lg space-y-1" data-testid={`balance-${balance.asset.toLowerCase()}`}>
+                    <div className="flex items-center justify-between">
+                      <div className="font-semibold">{balance.asset}</div>
+                      <Badge variant="outline" className="text-xs capitalize">{balance.type}</Badge>
+                    </div>
+                    <div className="text-2xl font-bold">{balance.platformBalance.toLocaleString(undefined, { maximumFractionDigits: 8 })}</div>
+                    <div className="text-xs text-muted-foreground">
+                      Available: {balance.platformAvailable.toLocaleString(undefined, { maximumFractionDigits: 8 })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {balanceChartData.length > 1 ? (
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={balanceChartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="capturedAt" tickFormatter={(value) => new Date(value).toLocaleDateString()} />
+                    <YAxis />
+                    <Tooltip labelFormatter={(value) => new Date(value).toLocaleString()} />
+                    <Legend />
+                    {chartAssets.map((asset, index) => (
+                      <Line
+                        key={asset}
+                        type="monotone"
+                        dataKey={asset}
+                        stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="text-center text-sm text-muted-foreground">
+                  Balance history will appear here once snapshots have been collected
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-center p-6 text-muted-foreground">
+              <p>No accounts found</p>
+              <p className="text-sm">Balances will appear here once your accounts are created</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Cryptocurrency Wallets */}
       <Card>
         <CardHeader>
@@ -322,8 +453,8 @@ export function Accounts() {
                   <div className="space-y-1 flex-1">
                     <div className="flex items-center gap-2">
                       <div className="font-semibold">{address.asset}</div>
-                      <Badge variant="outline" className="text-xs">
-                        {address.asset === 'BTC' ? 'Bitcoin' : 'Ethereum'}
+                      <Badge variant="outline" className="text-xs capitalize">
+                        {address.network || (address.asset === 'BTC' ? 'bitcoin' : 'ethereum')}
                       </Badge>
                       {address.state === 'created' && (
                         <Badge variant="default" className="text-xs">
@@ -0,0 +1,321 @@
+import { useState } from "react"
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { Receipt, Plus, Trash2, Copy, Send, Ban, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+
+interface Invoice {
+  id: string
+  invoiceNumber: string
+  status: 'draft' | 'open' | 'paid' | 'void'
+  customerName: string | null
+  customerEmail: string
+  currency: string
+  cryptoCurrency: string
+  total: string
+  dueDate: string | null
+  issuedAt: string | null
+  paidAt: string | null
+  createdAt: string
+  isOverdue: boolean
+  publicUrl: string
+}
+
+interface ItemDraft {
+  description: string
+  quantity: string
+  unitPrice: string
+}
+
+const emptyItem = (): ItemDraft => ({ description: "", quantity: "1", unitPrice: "" })
+
+const statusVariant = (invoice: Invoice) => {
+  if (invoice.isOverdue) return "destructive" as const
+  if (invoice.status === 'paid') return "default" as const
+  if (invoice.status === 'open') return "secondary" as const
+  return "outline" as const
+}
+
+export function Invoices() {
+  const { toast } = useToast()
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [customerName, setCustomerName] = useState("")
+  const [customerEmail, setCustomerEmail] = useState("")
+  const [cryptoCurrency, setCryptoCurrency] = useState("USDC")
+  const [dueDate, setDueDate] = useState("")
+  const [notes, setNotes] = useState("")
+  const [items, setItems] = useState<ItemDraft[]>([emptyItem()])
+
+  const { data: invoices = [], isLoading } = useQuery<Invoice[]>({
+    queryKey: ['/api/merchant/invoices'],
+  })
+
+  const total = items.reduce((sum, item) => sum + (Number(item.quantity) || 0) * (Number(item.unitPrice) || 0), 0)
+
+  const resetForm = () => {
+    setCustomerName("")
+    setCustomerEmail("")
+    setCryptoCurrency("USDC")
+    setDueDate("")
+    setNotes("")
+    setItems([emptyItem()])
+  }
+
+  const createMutation = useMutation({
+    mutationFn: async (issue: boolean) => {
+      const response = await apiRequest("POST", "/api/merchant/invoices", {
+        customerName: customerName || undefined,
+        customerEmail,
+        cryptoCurrency,
+        dueDate: dueDate || undefined,
+        notes: notes || undefined,
+        items: items.map(item => ({
+          description: item.description,
+          quantity: Number(item.quantity),
+          unitPrice: Number(item.unitPrice),
+        })),
+        issue,
+      })
+      return response.json()
+    },
+    onSuccess: (invoice: Invoice) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/merchant/invoices'] })
+      setIsCreateOpen(false)
+      resetForm()
+      toast({
+        title: `Invoice ${invoice.invoiceNumber} ${invoice.status === 'open' ? 'issued' : 'saved as draft'}`,
+      })
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create invoice", description: error.message, variant: "destructive" })
+    },
+  })
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ invoice, action }: { invoice: Invoice; action: 'issue' | 'void' | 'delete' }) => {
+      if (action === 'delete') {
+        await apiRequest("DELETE", `/api/merchant/invoices/${invoice.id}`)
+      } else {
+        await apiRequest("POST", `/api/merchant/invoices/${invoice.id}/${action}`)
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/merchant/invoices'] })
+    },
+    onError: (error: Error) => {
+      toast({ title: "Invoice update failed", description: error.message, variant: "destructive" })
+    },
+  })
+
+  const updateItem = (index: number, field: keyof ItemDraft, value: string) => {
+    setItems(items.map((item, i) => i === index ? { ...item, [field]: value } : item))
+  }
+
+  const copyLink = async (invoice: Invoice) => {
+    await navigator.clipboard.writeText(invoice.publicUrl)
+    toast({ title: "Invoice link copied" })
+  }
+
+  const canSubmit = customerEmail && items.every(item => item.description && Number(item.quantity) > 0 && item.unitPrice !== "")
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Invoices</h1>
+          <p className="text-muted-foreground">Bill customers and get paid in crypto</p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)} data-testid="button-create-invoice">
+          <Plus className="h-4 w-4 mr-2" />
+          New Invoice
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            All Invoices
+          </CardTitle>
+          <CardDescription>Open invoices can be paid by the customer from their invoice link</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : invoices.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No invoices yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map(invoice => (
+                  <TableRow key={invoice.id} data-testid={`row-invoice-${invoice.id}`}>
+                    <TableCell className="font-mono">{invoice.invoiceNumber}</TableCell>
+                    <TableCell>
+                      <div>{invoice.customerName || invoice.customerEmail}</div>
+                      {invoice.customerName && (
+                        <div className="text-xs text-muted-foreground">{invoice.customerEmail}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono">
+                      {Number(invoice.total).toLocaleString(undefined, { minimumFractionDigits: 2 })} {invoice.currency}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariant(invoice)} className="capitalize">
+                        {invoice.isOverdue ? 'overdue' : invoice.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{invoice.dueDate ? new Date(invoice.dueDate).toLocaleDateString() : '—'}</TableCell>
+                    <TableCell className="text-right space-x-1">
+                      {invoice.status === 'draft' && (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => actionMutation.mutate({ invoice, action: 'issue' })}>
+                            <Send className="h-3 w-3 mr-1" />
+                            Issue
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => actionMutation.mutate({ invoice, action: 'delete' })}>
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </>
+                      )}
+                      {invoice.status === 'open' && (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => copyLink(invoice)}>
+                            <Copy className="h-3 w-3 mr-1" />
+                            Link
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => actionMutation.mutate({ invoice, action: 'void' })}>
+                            <Ban className="h-3 w-3" />
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Invoice</DialogTitle>
+            <DialogDescription>Add line items; the customer pays the total in USD and you receive crypto.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="invoice-customer-name">Customer name</Label>
+                <Input id="invoice-customer-name" value={customerName} onChange={e => setCustomerName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice-customer-email">Customer email</Label>
+                <Input id="invoice-customer-email" type="email" value={customerEmail} onChange={e => setCustomerEmail(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Receive as</Label>
+                <Select value={cryptoCurrency} onValueChange={setCryptoCurrency}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {["USDC", "USDT", "BTC", "ETH"].map(asset => (
+                      <SelectItem key={asset} value={asset}>{asset}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice-due-date">Due date</Label>
+                <Input id="invoice-due-date" type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Line items</Label>
+              {items.map((item, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    placeholder="Description"
+                    value={item.description}
+                    onChange={e => updateItem(index, 'description', e.target.value)}
+                    className="flex-1"
+                  />
+                  <Input
+                    type="number"
+                    placeholder="Qty"
+                    value={item.quantity}
+                    onChange={e => updateItem(index, 'quantity', e.target.value)}
+                    className="w-20"
+                  />
+                  <Input
+                    type="number"
+                    placeholder="Unit price"
+                    value={item.unitPrice}
+                    onChange={e => updateItem(index, 'unitPrice', e.target.value)}
+                    className="w-32"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={items.length === 1}
+                    onClick={() => setItems(items.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setItems([...items, emptyItem()])}>
+                <Plus className="h-3 w-3 mr-1" />
+                Add item
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="invoice-notes">Notes</Label>
+              <Textarea id="invoice-notes" value={notes} onChange={e => setNotes(e.target.value)} />
+            </div>
+
+            <div className="flex justify-between font-semibold">
+              <span>Total</span>
+              <span className="font-mono" data-testid="text-invoice-total">{total.toFixed(2)} USD</span>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" disabled={!canSubmit || createMutation.isPending} onClick={() => createMutation.mutate(false)}>
+              Save Draft
+            </Button>
+            <Button disabled={!canSubmit || createMutation.isPending} onClick={() => createMutation.mutate(true)}>
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Issue Invoice
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
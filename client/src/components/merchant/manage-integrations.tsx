@@ -49,8 +49,11 @@ export function ManageIntegrations() {
   const integrationStatus = {
     transak: {
       connected: (existingTransakCredentials as any)?.hasApiKey && (existingTransakCredentials as any)?.hasApiSecret,
-      lastTest: (existingTransakCredentials as any)?.createdAt ? new Date((existingTransakCredentials as any).createdAt).toLocaleString() : "Never",
-      status: isLoadingCredentials ? "loading" : ((existingTransakCredentials as any)?.isActive ? "operational" : "inactive"),
+      lastVerified: (existingTransakCredentials as any)?.lastVerifiedAt ? new Date((existingTransakCredentials as any).lastVerifiedAt).toLocaleString() : "Never",
+      verificationError: (existingTransakCredentials as any)?.verificationError as string | null | undefined,
+      status: isLoadingCredentials ? "loading"
+        : ['invalid', 'expired'].includes((existingTransakCredentials as any)?.verificationStatus) ? "error"
+        : ((existingTransakCredentials as any)?.isActive ? "operational" : "inactive"),
       supportedCountries: 95,
       supportedCurrencies: 45
     }
@@ -65,7 +68,7 @@ export function ManageIntegrations() {
     setUnsavedChanges(prev => ({ ...prev, transak: true }))
   }
 
-  // Mutation for saving Transak credentials (v2 uses Secret Manager)
+  // Mutation for saving Transak credentials (the server verifies them with Transak first)
   const saveTransakMutation = useMutation({
     mutationFn: async (credentials: { apiKey: string; apiSecret: string; environment: string }) => {
       const response = await apiRequest('POST', '/api/merchant/credentials-v2/transak', credentials)
@@ -82,7 +85,7 @@ export function ManageIntegrations() {
       queryClient.invalidateQueries({ queryKey: ['/api/merchant/credentials-v2/transak'] })
       toast({
         title: "Transak Credentials Saved",
-        description: "Your Transak API credentials have been securely stored in Google Secret Manager.",
+        description: "Transak accepted your API credentials and they have been stored securely.",
       })
     },
     onError: (error: any) => {
@@ -122,17 +125,26 @@ export function ManageIntegrations() {
   }
 
 
-  // Mutation for testing Transak connection
+  // Mutation for re-checking the saved credentials with Transak
   const testTransakMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/transak/access-token')
+      const response = await apiRequest('POST', '/api/merchant/credentials-v2/transak/verify')
       return await response.json()
     },
     onSuccess: (data: any) => {
-      toast({
-        title: "Connection Successful",
-        description: `Successfully connected to Transak API. Token expires in ${data.expiresIn} seconds.`,
-      })
+      queryClient.invalidateQueries({ queryKey: ['/api/merchant/credentials-v2/transak'] })
+      if (data.status === 'valid') {
+        toast({
+          title: "Connection Successful",
+          description: "Transak accepted your API credentials.",
+        })
+      } else {
+        toast({
+          title: data.status === 'unreachable' ? "Transak Unreachable" : "Credentials Rejected",
+          description: data.error || "Transak did not accept your API credentials.",
+          variant: "destructive"
+        })
+      }
     },
     onError: (error: any) => {
       toast({
@@ -233,6 +245,15 @@ export function ManageIntegrations() {
                 <Badge variant="secondary" className="text-xs">No</Badge>
               )}
             </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-muted-foreground">Last Verified</span>
+              <span className="text-sm" data-testid="text-transak-last-verified">{integrationStatus.transak.lastVerified}</span>
+            </div>
+            {integrationStatus.transak.verificationError && (
+              <p className="text-xs text-destructive break-all" data-testid="text-transak-verification-error">
+                {integrationStatus.transak.verificationError}
+              </p>
+            )}
             <div className="flex justify-between items-center">
               <span className="text-sm text-muted-foreground">Countries</span>
               <span className="text-sm font-medium">{integrationStatus.transak.supportedCountries}</span>
@@ -332,13 +353,20 @@ export function ManageIntegrations() {
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          {(existingTransakCredentials as any)?.credentialPolicy === 'platform' && (
+            <p className="text-sm text-muted-foreground" data-testid="text-transak-credential-policy">
+              Your payments currently use the platform's Transak account. Saved credentials will be used once an administrator enables them for your account.
+            </p>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {/* Environment Selection */}
             <div className="space-y-2">
               <Label>Environment</Label>
+              {/* Follows the sandbox/live switch: each mode keeps its own keys */}
               <Select 
                 value={transakCredentials.environment} 
                 onValueChange={(value) => handleTransakChange('environment', value)}
+                disabled
               >
                 <SelectTrigger data-testid="select-transak-environment">
                   <SelectValue />
@@ -348,6 +376,9 @@ export function ManageIntegrations() {
                   <SelectItem value="production">Production</SelectItem>
                 </SelectContent>
               </Select>
+              <p className="text-xs text-muted-foreground">
+                {(existingTransakCredentials as any)?.mode === 'live' ? "Live" : "Sandbox"} mode keys. Use the Live mode switch to manage the other set.
+              </p>
             </div>
 
             <div className="flex items-end">
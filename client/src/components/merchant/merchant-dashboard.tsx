@@ -7,6 +7,62 @@ import { DollarSign, TrendingUp, Users, Wallet, ExternalLink, CheckCircle, Clock
 import { useToast } from "@/hooks/use-toast"
 import { useQuery } from "@tanstack/react-query"
 
+interface DashboardOrder {
+  id: string;
+  partnerOrderId: string;
+  direction: 'BUY' | 'SELL';
+  status: string;
+  fiatAmount: string | null;
+  fiatCurrency: string | null;
+  cryptoAmount: string | null;
+  cryptoCurrency: string | null;
+  customerEmail: string | null;
+  paymentMethod: string | null;
+  createdAt: string;
+}
+
+interface DashboardBalance {
+  accountGuid: string;
+  type: string;
+  asset: string;
+  name: string;
+  platformBalance: number;
+  platformAvailable: number;
+}
+
+interface DashboardCurrencyVolume {
+  currency: string;
+  monthVolume: number;
+  averageTransaction: number | null;
+}
+
+interface DashboardResponse {
+  totals: {
+    volumeByCurrency: DashboardCurrencyVolume[];
+    transactionCount: number;
+    successRate: number | null;
+  };
+  volumeByDay: Array<{ date: string; volumes: Record<string, number>; transactions: number }>;
+  statusCounts: Record<string, number>;
+  recentOrders: DashboardOrder[];
+  balances: DashboardBalance[];
+  balancesError: string | null;
+}
+
+// Map Transak order statuses onto the badge states used by the dashboard
+const toDisplayStatus = (status: string): string => {
+  if (status === 'COMPLETED') return 'completed'
+  if (['FAILED', 'CANCELLED', 'EXPIRED', 'REFUNDED'].includes(status)) return 'failed'
+  if (status === 'SESSION_CREATED' || status === 'AWAITING_PAYMENT_FROM_USER') return 'pending'
+  return 'processing'
+}
+
+// Volumes are reported per fiat currency and never added across currencies
+const formatCurrency = (value: number, currency: string) =>
+  `${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`
+
+const chartColors = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626']
+
 export function MerchantDashboard() {
   const { toast } = useToast()
 
@@ -19,30 +75,18 @@ export function MerchantDashboard() {
   const kycStatus = (kycData as any)?.status
   const isKycApproved = kycStatus === 'approved'
 
-  // TODO: remove mock functionality - replace with real merchant data
-  const revenueData = [
-    { date: '2024-01-15', revenue: 1250, transactions: 12 },
-    { date: '2024-01-16', revenue: 2100, transactions: 18 },
-    { date: '2024-01-17', revenue: 1800, transactions: 15 },
-    { date: '2024-01-18', revenue: 2800, transactions: 22 },
-    { date: '2024-01-19', revenue: 3200, transactions: 28 },
-    { date: '2024-01-20', revenue: 2400, transactions: 20 },
-    { date: '2024-01-21', revenue: 3800, transactions: 32 },
-  ]
-
-  const accountBalances = [
-    { account: 'USDC Trading', balance: '15,234.56', change: '+2.3%', address: '0x742d35Cc6Bf0532B...' },
-    { account: 'USDT Trading', balance: '8,921.45', change: '+1.8%', address: '0x742d35Cc6Bf0532B...' },
-    { account: 'Fiat Account', balance: '12,450.00', change: '+5.2%', address: 'USD-ACCOUNT-001' },
-  ]
+  // Dashboard aggregates are only fetched once KYC is approved
+  const { data: dashboard, isLoading: isLoadingDashboard } = useQuery<DashboardResponse>({
+    queryKey: ['/api/merchant/dashboard'],
+    enabled: isKycApproved,
+  })
 
-  const recentOrders = [
-    { id: 'ord_001', category: 'Crypto Received', amount: '$245.00', crypto: '245 USDC', customer: 'john@example.com', status: 'completed', time: '2 minutes ago' },
-    { id: 'ord_002', category: 'Crypto Received', amount: '$1,200.00', crypto: '1,200 USDC', customer: 'sarah@company.com', status: 'completed', time: '15 minutes ago' },
-    { id: 'ord_003', category: 'Payouts', amount: '$500.00', crypto: '500 USDT', method: 'ACH Transfer', status: 'processing', time: '1 hour ago' },
-    { id: 'ord_004', category: 'Crypto Received', amount: '$75.50', crypto: '75.5 USDC', customer: 'mike@startup.io', status: 'completed', time: '2 hours ago' },
-    { id: 'ord_005', category: 'Payouts', amount: '$850.00', crypto: '850 USDC', method: 'Wire Transfer', status: 'completed', time: '3 hours ago' },
-  ]
+  const revenueData = dashboard?.volumeByDay ?? []
+  const accountBalances = dashboard?.balances ?? []
+  const recentOrders = dashboard?.recentOrders ?? []
+  const totals = dashboard?.totals
+  const currencyVolumes = totals?.volumeByCurrency ?? []
+  const [primaryVolume, ...otherVolumes] = currencyVolumes
 
   const kybProgress = {
     completed: 3,
@@ -128,9 +172,16 @@ export function MerchantDashboard() {
                 <DollarSign className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold" data-testid="text-monthly-revenue">$18,650</div>
+                <div className="text-2xl font-bold" data-testid="text-monthly-revenue">
+                  {isLoadingDashboard ? '—' : primaryVolume ? formatCurrency(primaryVolume.monthVolume, primaryVolume.currency) : '0.00'}
+                </div>
+                {otherVolumes.map((volume) => (
+                  <p key={volume.currency} className="text-sm font-medium" data-testid={`text-monthly-revenue-${volume.currency}`}>
+                    {formatCurrency(volume.monthVolume, volume.currency)}
+                  </p>
+                ))}
                 <p className="text-xs text-muted-foreground">
-                  +12.5% from last month
+                  Completed payment volume
                 </p>
               </CardContent>
             </Card>
@@ -141,9 +192,11 @@ export function MerchantDashboard() {
                 <TrendingUp className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold" data-testid="text-transaction-count">147</div>
+                <div className="text-2xl font-bold" data-testid="text-transaction-count">
+                  {isLoadingDashboard ? '—' : (totals?.transactionCount ?? 0).toLocaleString()}
+                </div>
                 <p className="text-xs text-muted-foreground">
-                  +8 from yesterday
+                  {dashboard?.statusCounts?.COMPLETED ?? 0} completed
                 </p>
               </CardContent>
             </Card>
@@ -154,9 +207,11 @@ export function MerchantDashboard() {
                 <CheckCircle className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-green-600" data-testid="text-success-rate">97.8%</div>
+                <div className="text-2xl font-bold text-green-600" data-testid="text-success-rate">
+                  {totals?.successRate != null ? `${totals.successRate.toFixed(1)}%` : '—'}
+                </div>
                 <p className="text-xs text-muted-foreground">
-                  Above industry average
+                  Of orders that reached a final state
                 </p>
               </CardContent>
             </Card>
@@ -167,9 +222,16 @@ export function MerchantDashboard() {
                 <Wallet className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold" data-testid="text-avg-transaction">$127</div>
+                <div className="text-2xl font-bold" data-testid="text-avg-transaction">
+                  {primaryVolume?.averageTransaction != null ? formatCurrency(primaryVolume.averageTransaction, primaryVolume.currency) : '—'}
+                </div>
+                {otherVolumes.filter((volume) => volume.averageTransaction != null).map((volume) => (
+                  <p key={volume.currency} className="text-sm font-medium" data-testid={`text-avg-transaction-${volume.currency}`}>
+                    {formatCurrency(volume.averageTransaction!, volume.currency)}
+                  </p>
+                ))}
                 <p className="text-xs text-muted-foreground">
-                  +3.2% from last month
+                  Last {revenueData.length || 30} days
                 </p>
               </CardContent>
             </Card>
@@ -186,16 +248,24 @@ export function MerchantDashboard() {
                 <ResponsiveContainer width="100%" height={300}>
                   <AreaChart data={revenueData}>
                     <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="date" tickFormatter={(value) => new Date(value).toLocaleDateString()} />
+                    <XAxis dataKey="date" tickFormatter={(value) => new Date(`${value}T00:00:00`).toLocaleDateString()} />
                     <YAxis />
                     <Tooltip 
-                      labelFormatter={(value) => new Date(value).toLocaleDateString()}
-                      formatter={(value, name) => [
-                        name === 'revenue' ? `$${value.toLocaleString()}` : value,
-                        name === 'revenue' ? 'Revenue' : 'Transactions'
-                      ]}
+                      labelFormatter={(value) => new Date(`${value}T00:00:00`).toLocaleDateString()}
+                      formatter={(value, name) => [`${value.toLocaleString()} ${name}`, 'Revenue']}
                     />
-                    <Area type="monotone" dataKey="revenue" stackId="1" stroke="#2563eb" fill="#2563eb" fillOpacity={0.6} />
+                    {/* One series per currency; amounts in different currencies are not stacked */}
+                    {currencyVolumes.map((volume, index) => (
+                      <Area
+                        key={volume.currency}
+                        type="monotone"
+                        dataKey={(day: DashboardResponse['volumeByDay'][number]) => day.volumes[volume.currency] ?? 0}
+                        name={volume.currency}
+                        stroke={chartColors[index % chartColors.length]}
+                        fill={chartColors[index % chartColors.length]}
+                        fillOpacity={0.3}
+                      />
+                    ))}
                   </AreaChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -213,20 +283,25 @@ export function MerchantDashboard() {
                 </Button>
               </CardHeader>
               <CardContent>
+                {dashboard?.balancesError ? (
+                  <p className="text-sm text-muted-foreground">Balances are temporarily unavailable.</p>
+                ) : accountBalances.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No accounts have been created yet.</p>
+                ) : (
                 <div className="space-y-4">
                   {accountBalances.map((account, index) => (
-                    <div key={index} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`balance-${index}`}>
+                    <div key={account.accountGuid} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`balance-${index}`}>
                       <div className="space-y-1">
-                        <p className="font-medium">{account.account}</p>
+                        <p className="font-medium">{account.name || `${account.asset} ${account.type}`}</p>
                         <div className="flex items-center gap-2">
                           <code className="text-xs bg-muted px-1 py-0.5 rounded font-mono">
-                            {account.address}
+                            {account.accountGuid}
                           </code>
                           <Button 
                             variant="ghost" 
                             size="icon" 
                             className="h-6 w-6"
-                            onClick={() => copyToClipboard(account.address, 'Address')}
+                            onClick={() => copyToClipboard(account.accountGuid, 'Account ID')}
                             data-testid={`button-copy-address-${index}`}
                           >
                             <Copy className="h-3 w-3" />
@@ -234,12 +309,13 @@ export function MerchantDashboard() {
                         </div>
                       </div>
                       <div className="text-right">
-                        <p className="font-bold text-lg">${account.balance}</p>
-                        <p className="text-sm text-green-600">{account.change}</p>
+                        <p className="font-bold text-lg">{account.platformBalance.toLocaleString()} {account.asset}</p>
+                        <p className="text-sm text-muted-foreground">{account.platformAvailable.toLocaleString()} available</p>
                       </div>
                     </div>
                   ))}
                 </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -256,31 +332,38 @@ export function MerchantDashboard() {
               </Button>
             </CardHeader>
             <CardContent>
+              {recentOrders.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No orders yet. Create a payment link to get started.</p>
+              ) : (
               <div className="space-y-3">
-                {recentOrders.map((order) => (
-                  <div key={order.id} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`order-${order.id}`}>
+                {recentOrders.map((order) => {
+                  const category = order.direction === 'BUY' ? 'Crypto Received' : 'Payouts'
+                  return (
+                  <div key={order.id} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`order-${order.partnerOrderId}`}>
                     <div className="space-y-1 flex-1">
                       <div className="flex items-center gap-2">
-                        <Badge variant={order.category === 'Crypto Received' ? 'default' : 'secondary'} className="text-xs">
-                          {order.category}
+                        <Badge variant={category === 'Crypto Received' ? 'default' : 'secondary'} className="text-xs">
+                          {category}
                         </Badge>
-                        {getStatusBadge(order.status)}
+                        {getStatusBadge(toDisplayStatus(order.status))}
                       </div>
                       <div className="text-sm text-muted-foreground">
-                        {order.category === 'Crypto Received' 
-                          ? `From: ${order.customer}` 
-                          : `Method: ${order.method}`
+                        {category === 'Crypto Received' 
+                          ? `From: ${order.customerEmail || 'Unknown'}` 
+                          : `Method: ${order.paymentMethod || 'Unknown'}`
                         }
                       </div>
-                      <p className="text-xs text-muted-foreground">{order.time}</p>
+                      <p className="text-xs text-muted-foreground">{new Date(order.createdAt).toLocaleString()}</p>
                     </div>
                     <div className="text-right">
-                      <p className="font-bold">{order.amount}</p>
-                      <p className="text-sm text-muted-foreground">{order.crypto}</p>
+                      <p className="font-bold">{order.fiatAmount ? `${order.fiatAmount} ${order.fiatCurrency}` : '—'}</p>
+                      <p className="text-sm text-muted-foreground">{order.cryptoAmount ? `${order.cryptoAmount} ${order.cryptoCurrency}` : order.cryptoCurrency}</p>
                     </div>
                   </div>
-                ))}
+                  )
+                })}
               </div>
+              )}
             </CardContent>
           </Card>
         </>
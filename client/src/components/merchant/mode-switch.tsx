@@ -0,0 +1,85 @@
+import { useQuery, useMutation } from "@tanstack/react-query"
+import { FlaskConical } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
+import { useToast } from "@/hooks/use-toast"
+import { queryClient, apiRequest } from "@/lib/queryClient"
+import type { MerchantMode } from "@shared/schema"
+
+interface MerchantModeStatus {
+  mode: MerchantMode
+  modes: {
+    mode: MerchantMode
+    environment: "staging" | "production"
+    transakCredentialsConfigured: boolean
+    platformTransakAvailable: boolean
+    cybridAvailable: boolean
+  }[]
+  liveAvailable: boolean
+}
+
+// Sandbox/live switch in the merchant portal header; every merchant view shows data for the selected mode only
+export function MerchantModeSwitch() {
+  const { toast } = useToast()
+
+  const { data } = useQuery<MerchantModeStatus>({
+    queryKey: ['/api/merchant/mode'],
+  })
+
+  const modeMutation = useMutation({
+    mutationFn: async (mode: MerchantMode) => {
+      const response = await apiRequest("PUT", "/api/merchant/mode", { mode })
+      return response.json() as Promise<MerchantModeStatus>
+    },
+    onSuccess: (status) => {
+      // Credentials, addresses, transactions, links and invoices all depend on the mode
+      queryClient.invalidateQueries()
+      toast({
+        title: status.mode === "live" ? "Live mode" : "Sandbox mode",
+        description: status.mode === "live"
+          ? "You're now working with real payments and production credentials."
+          : "You're now working with test payments and staging credentials.",
+      })
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to switch mode", description: error.message, variant: "destructive" })
+    },
+  })
+
+  if (!data) {
+    return null
+  }
+
+  const isLive = data.mode === "live"
+  const toggle = (
+    <div className="flex items-center gap-2">
+      {!isLive && (
+        <Badge variant="secondary" className="flex items-center gap-1" data-testid="badge-sandbox-mode">
+          <FlaskConical className="h-3 w-3" />
+          Sandbox
+        </Badge>
+      )}
+      <Label htmlFor="merchant-mode-switch" className="text-sm">Live mode</Label>
+      <Switch
+        id="merchant-mode-switch"
+        checked={isLive}
+        onCheckedChange={(checked) => modeMutation.mutate(checked ? "live" : "sandbox")}
+        disabled={modeMutation.isPending || (!isLive && !data.liveAvailable)}
+        data-testid="switch-merchant-mode"
+      />
+    </div>
+  )
+
+  if (isLive || data.liveAvailable) {
+    return toggle
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>{toggle}</TooltipTrigger>
+      <TooltipContent>Live mode is available once your KYC verification is approved</TooltipContent>
+    </Tooltip>
+  )
+}
@@ -340,19 +340,32 @@ export function ReceiveCrypto() {
   })()
 
   // Prepare deposit address options for dropdown from Cybrid
+  const selectedCrypto = form.watch('cryptoNetworkCombined')?.split('-')[0]
   const depositAddressOptions = (() => {
     if (!(depositAddressesData as any)?.success || !(depositAddressesData as any)?.addresses) {
       return []
     }
     
-    return (depositAddressesData as any).addresses.map((addr: any) => ({
-      value: addr.address,
-      label: `${addr.asset} - ${addr.address.slice(0, 12)}...${addr.address.slice(-8)}`,
-      asset: addr.asset,
-      network: addr.network || 'ethereum', // Default to ethereum if network not specified
-      fullAddress: addr.address
-    }))
+    // Only offer addresses that can receive the selected crypto; sending to any other would lose the funds
+    return (depositAddressesData as any).addresses
+      .filter((addr: any) => addr.asset === selectedCrypto && addr.address)
+      .map((addr: any) => ({
+        value: addr.address,
+        label: `${addr.asset} - ${addr.address.slice(0, 12)}...${addr.address.slice(-8)}`,
+        asset: addr.asset,
+        network: addr.network || 'ethereum', // Default to ethereum if network not specified
+        fullAddress: addr.address
+      }))
   })()
+  const hasAnyDepositAddress = ((depositAddressesData as any)?.addresses?.length ?? 0) > 0
+
+  // Drop an address picked for a different crypto
+  const selectedWalletAddress = form.watch('walletAddress')
+  useEffect(() => {
+    if (selectedWalletAddress && !depositAddressOptions.some((option: any) => option.value === selectedWalletAddress)) {
+      form.setValue('walletAddress', '')
+    }
+  }, [selectedCrypto, selectedWalletAddress, depositAddressOptions.length])
 
   // Real-time quote fetching function (without creating payment link)
   const fetchQuote = async (formData: any) => {
@@ -848,7 +861,7 @@ export function ReceiveCrypto() {
                                 isLoadingDepositAddresses 
                                   ? "Loading deposit addresses..." 
                                   : depositAddressOptions.length === 0 
-                                    ? "No deposit addresses available" 
+                                    ? (selectedCrypto ? `No ${selectedCrypto} deposit address available` : "No deposit addresses available")
                                     : "Select a deposit address"
                               } />
                             </SelectTrigger>
@@ -860,7 +873,7 @@ export function ReceiveCrypto() {
                                   data-testid={`option-wallet-${option.asset.toLowerCase()}`}
                                 >
                                   <div className="flex flex-col">
-                                    <span className="font-medium">{option.asset} Address</span>
+                                    <span className="font-medium">{option.asset} Address <span className="text-muted-foreground capitalize">({option.network})</span></span>
                                     <span className="text-xs text-muted-foreground font-mono">
                                       {option.fullAddress}
                                     </span>
@@ -878,7 +891,9 @@ export function ReceiveCrypto() {
                         )}
                         {depositAddressOptions.length === 0 && !isLoadingDepositAddresses && !depositAddressesError && (
                           <p className="text-sm text-muted-foreground">
-                            No deposit addresses available. Please complete KYB verification first.
+                            {hasAnyDepositAddress && selectedCrypto
+                              ? `Your ${selectedCrypto} deposit address is still being provisioned. Check back shortly or choose another crypto.`
+                              : "No deposit addresses available. Please complete KYB verification first."}
                           </p>
                         )}
                       </FormItem>
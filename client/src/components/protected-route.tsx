@@ -8,7 +8,7 @@ interface ProtectedRouteProps {
 }
 
 export function ProtectedRoute({ children, userType }: ProtectedRouteProps) {
-  const [, setLocation] = useLocation()
+  const [location, setLocation] = useLocation()
 
   // Check authentication status
   const { data: profile, isLoading, error } = useQuery({
@@ -27,6 +27,14 @@ export function ProtectedRoute({ children, userType }: ProtectedRouteProps) {
     }
   }, [profile, isLoading, error, userType, setLocation])
 
+  // Admins without 2FA are held on the security page while it is required platform-wide
+  const enrollmentRequired = userType === "admin" && !!(profile as any)?.twoFactorEnrollmentRequired
+  useEffect(() => {
+    if (enrollmentRequired && location !== "/admin/security") {
+      setLocation("/admin/security")
+    }
+  }, [enrollmentRequired, location, setLocation])
+
   // Show loading state while checking authentication
   if (isLoading) {
     return (
@@ -4,17 +4,18 @@ async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     // Handle 403 KYC_REQUIRED responses
     if (res.status === 403) {
+      // Read the body once; 403s carry a JSON error (KYC_REQUIRED, insufficient permissions, ...)
+      const text = (await res.text()) || res.statusText;
+      let errorData: any = null;
       try {
-        const errorData = await res.json();
-        if (errorData.code === 'KYC_REQUIRED') {
-          console.warn('KYC verification required:', errorData.message);
-        }
-        throw new Error(`${res.status}: ${errorData.error || errorData.message || 'KYB verification required'}`);
-      } catch (jsonError) {
-        // If JSON parsing fails, fall through to default error handling
-        const text = (await res.text()) || res.statusText;
-        throw new Error(`${res.status}: ${text}`);
+        errorData = JSON.parse(text);
+      } catch {
+        // Not JSON, fall through to the raw text
+      }
+      if (errorData?.code === 'KYC_REQUIRED') {
+        console.warn('KYC verification required:', errorData.message);
       }
+      throw new Error(`${res.status}: ${errorData ? (errorData.error || errorData.message || 'KYB verification required') : text}`);
     } else {
       const text = (await res.text()) || res.statusText;
       throw new Error(`${res.status}: ${text}`);
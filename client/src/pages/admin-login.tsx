@@ -6,16 +6,22 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { adminLoginSchema, type AdminLogin } from "@shared/schema";
-import { Shield, Lock, User } from "lucide-react";
+import { adminLoginSchema, type AdminLogin, type AdminTwoFactorLogin } from "@shared/schema";
+import { Shield, Lock, User, KeyRound } from "lucide-react";
 
 export default function AdminLogin() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  // Set once the password is accepted for an account with two-factor authentication
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
 
   // Check if user is already logged in as admin
   const { data: adminProfile } = useQuery({
@@ -77,22 +83,76 @@ export default function AdminLogin() {
 
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { requiresTwoFactor?: boolean }) => {
+      if (result.requiresTwoFactor) {
+        setTwoFactorStep(true);
+        return;
+      }
+      completeLogin();
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Login successful",
-        description: "Welcome to the admin portal!",
+        variant: "destructive",
+        title: "Login failed",
+        description: error.message,
       });
-      setLocation('/admin');
     },
+  });
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (data: AdminTwoFactorLogin) => {
+      const response = await fetch('/api/admin/login/2fa', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        // The server drops the pending sign-in after repeated failures or when it expires
+        if (response.status === 401 && error.restartLogin !== false) {
+          resetTwoFactor();
+        }
+        throw new Error(error.error || 'Verification failed');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => completeLogin(),
     onError: (error: Error) => {
+      setCode('');
       toast({
         variant: "destructive",
-        title: "Login failed",
+        title: "Verification failed",
         description: error.message,
       });
     },
   });
 
+  const completeLogin = () => {
+    toast({
+      title: "Login successful",
+      description: "Welcome to the admin portal!",
+    });
+    setLocation('/admin');
+  };
+
+  const resetTwoFactor = () => {
+    setTwoFactorStep(false);
+    setUseRecoveryCode(false);
+    setCode('');
+    setRecoveryCode('');
+    form.resetField('password');
+  };
+
+  const submitTwoFactor = (e: React.FormEvent) => {
+    e.preventDefault();
+    twoFactorMutation.mutate(useRecoveryCode ? { recoveryCode: recoveryCode.trim() } : { code });
+  };
+
   const onSubmit = (data: AdminLogin) => {
     setIsLoading(true);
     loginMutation.mutate(data, {
@@ -123,6 +183,73 @@ export default function AdminLogin() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            {twoFactorStep ? (
+              <form onSubmit={submitTwoFactor} className="space-y-4">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <KeyRound className="h-4 w-4" />
+                  {useRecoveryCode
+                    ? "Enter one of the recovery codes you saved when setting up two-factor authentication."
+                    : "Enter the 6-digit code from your authenticator app."}
+                </div>
+                {useRecoveryCode ? (
+                  <Input
+                    placeholder="xxxx-xxxx"
+                    autoComplete="off"
+                    autoFocus
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    data-testid="input-recovery-code"
+                  />
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={6}
+                      value={code}
+                      onChange={setCode}
+                      autoFocus
+                      data-testid="input-totp-code"
+                    >
+                      <InputOTPGroup>
+                        {Array.from({ length: 6 }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={twoFactorMutation.isPending || (useRecoveryCode ? !recoveryCode.trim() : code.length !== 6)}
+                  data-testid="button-verify-2fa"
+                >
+                  {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                </Button>
+                <div className="flex justify-between">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                    data-testid="button-toggle-recovery-code"
+                    className="text-sm text-muted-foreground hover:text-primary p-0 h-auto font-normal"
+                  >
+                    {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={resetTwoFactor}
+                    data-testid="button-cancel-2fa"
+                    className="text-sm text-muted-foreground hover:text-primary p-0 h-auto font-normal"
+                  >
+                    Back to sign in
+                  </Button>
+                </div>
+              </form>
+            ) : (
+            <>
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                 <FormField
@@ -190,6 +317,8 @@ export default function AdminLogin() {
                 Forgot your password?
               </Button>
             </div>
+            </>
+            )}
           </CardContent>
         </Card>
 
@@ -148,6 +148,18 @@ export default function MerchantLogin() {
               </Button>
             </form>
 
+            <div className="text-center mt-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setLocation('/merchant/reset-password')}
+                data-testid="link-forgot-password"
+                className="text-sm text-muted-foreground hover:text-primary p-0 h-auto font-normal"
+              >
+                Forgot your password?
+              </Button>
+            </div>
+
             <div className="mt-6 pt-6 border-t">
               <div className="text-center">
                 <p className="text-sm text-muted-foreground mb-2">
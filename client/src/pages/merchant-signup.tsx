@@ -13,7 +13,8 @@ import { useToast } from "@/hooks/use-toast"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { merchantUsernameSchema, merchantPasswordSchema } from "@shared/schema"
 
 // Registration form schema
 const registrationSchema = z.object({
@@ -23,14 +24,21 @@ const registrationSchema = z.object({
   website: z.string().url("Please enter a valid website URL").optional().or(z.literal("")),
   phone: z.string().min(10, "Please enter a valid phone number").optional().or(z.literal("")),
   address: z.string().min(10, "Please enter a complete address").optional().or(z.literal("")),
-  description: z.string().min(20, "Please provide at least 20 characters describing your business").optional().or(z.literal(""))
+  description: z.string().min(20, "Please provide at least 20 characters describing your business").optional().or(z.literal("")),
+  // Optional: left blank, the server generates them
+  username: merchantUsernameSchema.optional().or(z.literal("")),
+  password: merchantPasswordSchema.optional().or(z.literal("")),
+  confirmPassword: z.string().optional()
+}).refine(data => !data.password || data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"]
 })
 
 type RegistrationFormData = z.infer<typeof registrationSchema>
 
 interface MerchantCredentials {
   username: string;
-  password: string;
+  password?: string; // Only present when generated
 }
 
 interface RegistrationResponse {
@@ -64,7 +72,10 @@ export default function MerchantSignup() {
       website: "",
       phone: "",
       address: "",
-      description: ""
+      description: "",
+      username: "",
+      password: "",
+      confirmPassword: ""
     }
   })
 
@@ -115,7 +126,9 @@ export default function MerchantSignup() {
           website: data.website || undefined,
           phone: data.phone || undefined,
           address: data.address || undefined,
-          description: data.description || undefined
+          description: data.description || undefined,
+          username: data.username || undefined,
+          password: data.password || undefined
         })
       })
 
@@ -245,16 +258,21 @@ export default function MerchantSignup() {
               Registration Successful!
             </CardTitle>
             <CardDescription>
-              Your merchant account has been created. Save these credentials to access your account.
+              {credentials.password
+                ? "Your merchant account has been created. Save these credentials to access your account."
+                : "Your merchant account has been created. Sign in with the username and password you chose."}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            <Alert>
-              <AlertTriangle className="h-4 w-4" />
-              <AlertDescription>
-                <strong>Important:</strong> Save these credentials now. You won't see your password again.
-              </AlertDescription>
-            </Alert>
+            {credentials.password && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <strong>Important:</strong> Save these credentials now. You won't see your password again.
+                  You can change it later from the Security page.
+                </AlertDescription>
+              </Alert>
+            )}
 
             <div className="space-y-4">
               <div>
@@ -277,42 +295,44 @@ export default function MerchantSignup() {
                 </div>
               </div>
 
-              <div>
-                <Label className="text-sm font-semibold">Password</Label>
-                <div className="flex gap-2 mt-1">
-                  <div className="relative flex-1">
-                    <Input
-                      type={showPassword ? "text" : "password"}
-                      value={credentials.password}
-                      readOnly
-                      className="font-mono pr-10"
-                      data-testid="input-password"
-                    />
+              {credentials.password && (
+                <div>
+                  <Label className="text-sm font-semibold">Password</Label>
+                  <div className="flex gap-2 mt-1">
+                    <div className="relative flex-1">
+                      <Input
+                        type={showPassword ? "text" : "password"}
+                        value={credentials.password}
+                        readOnly
+                        className="font-mono pr-10"
+                        data-testid="input-password"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                        onClick={() => setShowPassword(!showPassword)}
+                        data-testid="button-toggle-password"
+                      >
+                        {showPassword ? (
+                          <EyeOff className="h-4 w-4" />
+                        ) : (
+                          <Eye className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
                     <Button
-                      type="button"
-                      variant="ghost"
                       size="sm"
-                      className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                      onClick={() => setShowPassword(!showPassword)}
-                      data-testid="button-toggle-password"
+                      variant="outline"
+                      onClick={() => copyToClipboard(credentials.password!, "Password")}
+                      data-testid="button-copy-password"
                     >
-                      {showPassword ? (
-                        <EyeOff className="h-4 w-4" />
-                      ) : (
-                        <Eye className="h-4 w-4" />
-                      )}
+                      <Copy className="w-4 h-4" />
                     </Button>
                   </div>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => copyToClipboard(credentials.password, "Password")}
-                    data-testid="button-copy-password"
-                  >
-                    <Copy className="w-4 h-4" />
-                  </Button>
                 </div>
-              </div>
+              )}
 
             </div>
 
@@ -496,6 +516,73 @@ export default function MerchantSignup() {
                   )}
                 />
 
+                <div className="space-y-4 pt-2 border-t">
+                  <div className="pt-4">
+                    <h3 className="font-medium">Login Credentials</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Optional. Leave these blank and we'll generate a username and password for you.
+                    </p>
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="your-business"
+                            autoComplete="username"
+                            data-testid="input-signup-username"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>Letters, numbers, dots, dashes and underscores</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Password</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              autoComplete="new-password"
+                              placeholder="At least 8 characters"
+                              data-testid="input-signup-password"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="confirmPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Confirm Password</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              autoComplete="new-password"
+                              data-testid="input-signup-confirm-password"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+
                 <div className="flex flex-col sm:flex-row gap-4 pt-4">
                   <Button
                     type="button"
@@ -2,10 +2,14 @@ import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { storage } from "./storage";
-import { adminLoginSchema } from "@shared/schema";
+import { adminLoginSchema, adminTwoFactorLoginSchema, adminTwoFactorCodeSchema, adminTwoFactorDisableSchema, type Admin } from "@shared/schema";
 import rateLimit from "express-rate-limit";
+import { getAdminPermissions } from "./auth-core";
+import { AuditService } from "./audit-service";
+import { TwoFactorService } from "./two-factor-service";
+import { NotificationService } from "./notification-service";
 
 const scryptAsync = promisify(scrypt);
 
@@ -65,45 +69,137 @@ export function setupAdminAuth(app: Express): void {
         return done(null, false, { message: 'Invalid username or password' });
       }
 
-      // Update last login timestamp
-      await storage.updateAdminLastLogin(admin.id);
-
+      // Last login is recorded once the session is established, after any second factor
       return done(null, admin as any);
     } catch (error) {
       return done(error);
     }
   }));
 
-  // Utility function to sanitize admin data (remove password)
+  // Utility function to sanitize admin data (remove password and 2FA secrets)
   const sanitizeAdmin = (admin: any) => {
     if (!admin) return null;
-    const { password, ...sanitized } = admin;
+    const { password, resetToken, totpSecret, totpLastUsedStep, recoveryCodeHashes, ...sanitized } = admin;
     return sanitized;
   };
 
+  const TWO_FACTOR_LOGIN_WINDOW_MS = 5 * 60 * 1000;
+  const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+  // Establishes the admin session once every required factor has been checked
+  const completeLogin = (req: Request, res: Response, admin: Admin, method: 'password' | 'totp' | 'recovery_code') => {
+    req.logIn(admin as any, async (err: any) => {
+      if (err) {
+        return res.status(500).json({ error: "Login failed" });
+      }
+      await storage.updateAdminLastLogin(admin.id);
+      await AuditService.record(req, { action: 'admin.login', targetType: 'admin', targetId: admin.id, metadata: { method } });
+      return res.status(200).json({
+        success: true,
+        admin: sanitizeAdmin(admin)
+      });
+    });
+  };
+
   // Admin authentication routes
   app.post("/api/admin/login", (req, res, next) => {
-    passport.authenticate("admin-local", (err: any, user: any, info: any) => {
+    passport.authenticate("admin-local", async (err: any, user: any, info: any) => {
       if (err) {
         return res.status(500).json({ error: "Authentication error" });
       }
       if (!user) {
+        await AuditService.record(req, {
+          action: 'admin.login_failed',
+          actor: { type: 'anonymous' },
+          metadata: { username: req.body?.username ?? null, reason: info?.message ?? null }
+        });
         return res.status(401).json({ error: info?.message || "Invalid credentials" });
       }
-      
-      req.logIn(user, (err: any) => {
-        if (err) {
-          return res.status(500).json({ error: "Login failed" });
+
+      // Accounts with 2FA get a second step; the session is only authenticated once the code checks out
+      if (user.totpEnabled) {
+        req.session.pendingAdmin2fa = { adminId: user.id, expiresAt: Date.now() + TWO_FACTOR_LOGIN_WINDOW_MS, attempts: 0 };
+        return res.status(200).json({ success: true, requiresTwoFactor: true });
+      }
+
+      completeLogin(req, res, user, 'password');
+    })(req, res, next);
+  });
+
+  const twoFactorLoginLimit = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 10, // Limit each IP to 10 code attempts per windowMs
+    message: {
+      error: "Too many verification attempts. Please try again later."
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
+  // Second login step: an authenticator code, or a single-use recovery code when the device is lost
+  app.post("/api/admin/login/2fa", twoFactorLoginLimit, async (req, res) => {
+    try {
+      const pending = req.session.pendingAdmin2fa;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingAdmin2fa;
+        return res.status(401).json({ error: "Your sign-in has expired. Enter your username and password again." });
+      }
+
+      const { code, recoveryCode } = adminTwoFactorLoginSchema.parse(req.body);
+      const admin = await storage.getAdmin(pending.adminId);
+      if (!admin || admin.status !== 'active' || !admin.totpEnabled || !admin.totpSecret) {
+        delete req.session.pendingAdmin2fa;
+        return res.status(401).json({ error: "Invalid credentials" });
+      }
+
+      if (code) {
+        if (await TwoFactorService.useCode(admin, code)) {
+          return completeLogin(req, res, admin, 'totp');
         }
-        return res.status(200).json({
-          success: true,
-          admin: sanitizeAdmin(user)
-        });
+      } else {
+        const remaining = await TwoFactorService.useRecoveryCode(admin, recoveryCode!);
+        if (remaining) {
+          console.log(`🔐 Admin ${admin.username} signed in with a recovery code (${remaining.length} left)`);
+          await AuditService.record(req, {
+            action: 'admin.2fa.recovery_code_used',
+            targetType: 'admin',
+            targetId: admin.id,
+            actor: { type: 'admin', id: admin.id, name: admin.username },
+            metadata: { recoveryCodesRemaining: remaining.length }
+          });
+          return completeLogin(req, res, admin, 'recovery_code');
+        }
+      }
+
+      // Too many wrong codes and the password step has to be repeated
+      pending.attempts += 1;
+      if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+        delete req.session.pendingAdmin2fa;
+      }
+      await AuditService.record(req, {
+        action: 'admin.login_failed',
+        actor: { type: 'anonymous' },
+        targetType: 'admin',
+        targetId: admin.id,
+        metadata: { username: admin.username, reason: code ? 'Invalid authenticator code' : 'Invalid recovery code' }
       });
-    })(req, res, next);
+      res.status(401).json({
+        error: code ? "Invalid authenticator code" : "Invalid recovery code",
+        restartLogin: pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid request data", details: (error as any).issues });
+      }
+      console.error("Error verifying admin two-factor code:", error);
+      res.status(500).json({ error: "Failed to verify code" });
+    }
   });
 
-  app.post("/api/admin/logout", (req, res, next) => {
+  app.post("/api/admin/logout", async (req, res, next) => {
+    if (req.user) {
+      await AuditService.record(req, { action: 'admin.logout', targetType: 'admin', targetId: req.user.id });
+    }
     req.logout((err) => {
       if (err) return next(err);
       req.session.destroy((err) => {
@@ -114,11 +210,15 @@ export function setupAdminAuth(app: Express): void {
     });
   });
 
-  app.get("/api/admin/profile", (req, res) => {
+  app.get("/api/admin/profile", async (req, res) => {
     if (!req.isAuthenticated() || !req.user || !('role' in req.user)) {
       return res.status(401).json({ error: "Not authenticated as admin" });
     }
-    res.json(sanitizeAdmin(req.user));
+    res.json({
+      ...sanitizeAdmin(req.user),
+      effectivePermissions: getAdminPermissions(req.user),
+      twoFactorEnrollmentRequired: !req.user.totpEnabled && await TwoFactorService.isRequiredForAll()
+    });
   });
 
   // Rate limiting for password reset endpoints
@@ -181,18 +281,24 @@ export function setupAdminAuth(app: Express): void {
 
       // Store hashed reset token
       await storage.updateAdminResetToken(admin.id, resetTokenHash, resetTokenExpiry);
+      await AuditService.record(req, {
+        action: 'admin.password_reset_requested',
+        targetType: 'admin',
+        targetId: admin.id,
+        actor: { type: 'anonymous' }
+      });
 
-      // In production, you would send an email with the reset link
-      // For now, we'll just return the token for testing (development only)
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`Password reset token for ${admin.username}: ${resetToken}`);
-        console.log(`Reset URL: /admin/reset-password?token=${resetToken}`);
-      }
+      await NotificationService.send('password_reset', { email: admin.email, type: 'admin', id: admin.id }, {
+        name: admin.firstName,
+        portal: 'admin',
+        resetUrl: NotificationService.appUrl(`/admin/reset-password?token=${resetToken}`),
+        expiresInMinutes: 15
+      });
 
       res.status(200).json({ 
         success: true, 
-        message: "Password reset token has been generated. Check the server logs for the reset link.",
-        // In production, remove this - only for development
+        message: "If an admin account with that identifier exists, a password reset link has been sent.",
+        // Development only, so the flow can be exercised without email
         resetToken: process.env.NODE_ENV === 'development' ? resetToken : undefined
       });
 
@@ -236,6 +342,12 @@ export function setupAdminAuth(app: Express): void {
       await storage.clearAdminResetToken(admin.id);
 
       console.log(`Password reset successful for admin: ${admin.username}`);
+      await AuditService.record(req, {
+        action: 'admin.password_reset',
+        targetType: 'admin',
+        targetId: admin.id,
+        actor: { type: 'admin', id: admin.id, name: admin.username }
+      });
 
       res.status(200).json({ 
         success: true, 
@@ -256,7 +368,7 @@ export function setupAdminAuth(app: Express): void {
     }
 
     // Allow login/logout/profile/password-reset routes to pass through
-    if (req.path === "/login" || req.path === "/logout" || req.path === "/profile" || 
+    if (req.path === "/login" || req.path === "/login/2fa" || req.path === "/logout" || req.path === "/profile" || 
         req.path === "/request-password-reset" || req.path === "/reset-password") {
       return next();
     }
@@ -272,6 +384,126 @@ export function setupAdminAuth(app: Express): void {
       return res.status(403).json({ error: "Admin account is suspended" });
     }
 
+    // While 2FA is required platform-wide, unenrolled admins can only reach enrollment
+    if (!admin.totpEnabled && !req.path.startsWith("/2fa") && await TwoFactorService.isRequiredForAll()) {
+      return res.status(403).json({
+        error: "Two-factor authentication must be set up before continuing",
+        code: "TWO_FACTOR_ENROLLMENT_REQUIRED"
+      });
+    }
+
     next();
   });
+
+  // Two-factor enrollment for the signed-in admin (registered after the middleware so it requires a session)
+  const handleTwoFactorError = (res: Response, error: unknown, fallback: string) => {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return res.status(400).json({ error: "Invalid request data", details: (error as any).issues });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/admin/2fa", async (req, res) => {
+    try {
+      const admin = req.user!;
+      res.json({
+        enabled: !!admin.totpEnabled,
+        enabledAt: admin.totpEnabledAt ?? null,
+        pendingEnrollment: !admin.totpEnabled && !!admin.totpSecret,
+        recoveryCodesRemaining: admin.recoveryCodeHashes?.length ?? 0,
+        required: await TwoFactorService.isRequiredForAll()
+      });
+    } catch (error) {
+      handleTwoFactorError(res, error, "Failed to fetch two-factor status");
+    }
+  });
+
+  // Starts (or restarts) enrollment with a fresh secret; 2FA is only on once a code is confirmed
+  app.post("/api/admin/2fa/setup", async (req, res) => {
+    try {
+      const admin = req.user!;
+      if (admin.totpEnabled) {
+        return res.status(409).json({ error: "Two-factor authentication is already enabled" });
+      }
+
+      const { secret, encryptedSecret } = TwoFactorService.generateSecret();
+      await storage.updateAdmin(admin.id, { totpSecret: encryptedSecret });
+      res.json({ secret, otpauthUri: TwoFactorService.provisioningUri(admin, secret) });
+    } catch (error) {
+      handleTwoFactorError(res, error, "Failed to start two-factor setup");
+    }
+  });
+
+  app.post("/api/admin/2fa/enable", async (req, res) => {
+    try {
+      const { code } = adminTwoFactorCodeSchema.parse(req.body);
+      const admin = await storage.getAdmin(req.user!.id);
+      if (!admin) {
+        return res.status(404).json({ error: "Admin not found" });
+      }
+      if (admin.totpEnabled) {
+        return res.status(409).json({ error: "Two-factor authentication is already enabled" });
+      }
+      if (!admin.totpSecret) {
+        return res.status(400).json({ error: "Start two-factor setup first" });
+      }
+
+      const recoveryCodes = await TwoFactorService.enable(admin, code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ error: "Invalid authenticator code" });
+      }
+
+      console.log(`🔐 Admin ${admin.username} enabled two-factor authentication`);
+      await AuditService.record(req, { action: 'admin.2fa.enable', targetType: 'admin', targetId: admin.id });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      handleTwoFactorError(res, error, "Failed to enable two-factor authentication");
+    }
+  });
+
+  // Replaces every recovery code; the old ones stop working
+  app.post("/api/admin/2fa/recovery-codes", async (req, res) => {
+    try {
+      const { code } = adminTwoFactorCodeSchema.parse(req.body);
+      const admin = await storage.getAdmin(req.user!.id);
+      if (!admin?.totpEnabled || !admin.totpSecret) {
+        return res.status(409).json({ error: "Two-factor authentication is not enabled" });
+      }
+
+      if (!await TwoFactorService.useCode(admin, code)) {
+        return res.status(400).json({ error: "Invalid authenticator code" });
+      }
+
+      const { codes, hashes } = TwoFactorService.generateRecoveryCodes();
+      await storage.updateAdmin(admin.id, { recoveryCodeHashes: hashes });
+      await AuditService.record(req, { action: 'admin.2fa.recovery_codes_regenerated', targetType: 'admin', targetId: admin.id });
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      handleTwoFactorError(res, error, "Failed to regenerate recovery codes");
+    }
+  });
+
+  app.post("/api/admin/2fa/disable", async (req, res) => {
+    try {
+      const { password, code } = adminTwoFactorDisableSchema.parse(req.body);
+      const admin = await storage.getAdmin(req.user!.id);
+      if (!admin?.totpEnabled || !admin.totpSecret) {
+        return res.status(409).json({ error: "Two-factor authentication is not enabled" });
+      }
+      if (await TwoFactorService.isRequiredForAll()) {
+        return res.status(409).json({ error: "Two-factor authentication is required for all admins" });
+      }
+      if (!await verifyPassword(password, admin.password) || !await TwoFactorService.useCode(admin, code)) {
+        return res.status(400).json({ error: "Invalid password or authenticator code" });
+      }
+
+      await TwoFactorService.disable(admin.id);
+      console.log(`🔐 Admin ${admin.username} disabled two-factor authentication`);
+      await AuditService.record(req, { action: 'admin.2fa.disable', targetType: 'admin', targetId: admin.id });
+      res.json({ success: true });
+    } catch (error) {
+      handleTwoFactorError(res, error, "Failed to disable two-factor authentication");
+    }
+  });
 }
\ No newline at end of file
@@ -0,0 +1,92 @@
+import type { Request } from 'express';
+import { storage } from './storage';
+import type { AuditActorType, AuditChanges } from '@shared/schema';
+
+export interface AuditActor {
+  type: AuditActorType;
+  id?: string | null;
+  name?: string | null;
+}
+
+export interface AuditEntryOptions {
+  action: string; // Dotted verb, e.g. merchant.update
+  targetType?: string;
+  targetId?: string | null;
+  before?: object | null; // Record as it was; omit for creates
+  after?: object | null; // Record as it is now; omit for deletes
+  metadata?: Record<string, unknown>;
+  actor?: AuditActor; // Defaults to the session user (logins record the admin or merchant explicitly)
+}
+
+// Append-only audit trail for sensitive admin and merchant actions
+export class AuditService {
+  // Secrets and bank details are never copied into the log; a change to one is recorded as "[redacted]"
+  private static readonly REDACTED_FIELDS = new Set([
+    'password', 'resetToken', 'token', 'apiKey', 'apiSecret', 'encryptedApiKey', 'encryptedApiSecret',
+    'secret', 'encryptedSecret', 'accessToken', 'totpSecret', 'recoveryCodeHashes',
+    'bankAccountNumber', 'bankRoutingNumber'
+  ]);
+
+  // Bookkeeping columns that change on every write and would only add noise
+  private static readonly IGNORED_FIELDS = new Set(['updatedAt', 'lastLoginAt']);
+
+  static actorOf(req: Request): AuditActor {
+    if (!req.isAuthenticated?.() || !req.user) {
+      return { type: 'anonymous' };
+    }
+    return {
+      type: 'role' in req.user ? 'admin' : 'merchant',
+      id: req.user.id,
+      name: req.user.username
+    };
+  }
+
+  // Field-level diff; unchanged fields are left out so updates show only what moved
+  static diff(before?: object | null, after?: object | null): AuditChanges {
+    const previous = (before ?? {}) as Record<string, unknown>;
+    const current = (after ?? {}) as Record<string, unknown>;
+    const changes: AuditChanges = {};
+
+    for (const field of Array.from(new Set([...Object.keys(previous), ...Object.keys(current)]))) {
+      if (this.IGNORED_FIELDS.has(field)) continue;
+
+      const hadValue = field in previous;
+      const hasValue = field in current;
+      if (hadValue && hasValue && this.serialize(previous[field]) === this.serialize(current[field])) continue;
+
+      const redact = this.REDACTED_FIELDS.has(field);
+      changes[field] = {
+        ...(before && hadValue && { before: redact ? '[redacted]' : previous[field] }),
+        ...(after && hasValue && { after: redact ? '[redacted]' : current[field] })
+      };
+    }
+    return changes;
+  }
+
+  // Writes are best-effort: the action has already happened, so a failed insert is logged rather than failing the request
+  static async record(req: Request, options: AuditEntryOptions): Promise<void> {
+    const actor = options.actor ?? this.actorOf(req);
+    const changes = options.before || options.after ? this.diff(options.before, options.after) : null;
+
+    try {
+      await storage.createAuditLogEntry({
+        actorType: actor.type,
+        actorId: actor.id ?? null,
+        actorName: actor.name ?? null,
+        action: options.action,
+        targetType: options.targetType ?? null,
+        targetId: options.targetId ?? null,
+        changes,
+        metadata: options.metadata ?? null,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null
+      });
+    } catch (error) {
+      console.error(`❌ Failed to write audit log entry for ${options.action}:`, error);
+    }
+  }
+
+  private static serialize(value: unknown): string {
+    return JSON.stringify(value instanceof Date ? value.toISOString() : value) ?? 'undefined';
+  }
+}
@@ -2,6 +2,8 @@ import { Express } from "express";
 import session from "express-session";
 import passport from "passport";
 import { storage } from "./storage";
+import { OnboardingService } from "./onboarding-service";
+import { adminPermissions, adminRoleDefinitions, type AdminPermission, type AdminRole } from "@shared/schema";
 
 /**
  * Centralized authentication core for both admin and merchant authentication
@@ -36,7 +38,8 @@ export function initAuthCore(app: Express): void {
   passport.serializeUser((user: any, done) => {
     // Determine user type based on presence of 'role' field (admins have role, merchants don't)
     const userType = 'role' in user ? 'admin' : 'merchant';
-    done(null, { id: user.id, type: userType });
+    // Login time, so sessions started before a password change can be rejected
+    done(null, { id: user.id, type: userType, authenticatedAt: Date.now() });
   });
   
   // Unified deserialization for both admin and merchant users
@@ -66,6 +69,10 @@ export function initAuthCore(app: Express): void {
         done(null, admin);
       } else if (obj && obj.type === 'merchant') {
         const merchant = await storage.getMerchant(obj.id);
+        // A password change or reset signs out every session that logged in before it
+        if (merchant?.passwordChangedAt && !(obj.authenticatedAt >= merchant.passwordChangedAt.getTime())) {
+          return done(null, false);
+        }
         done(null, merchant);
       } else {
         done(null, false);
@@ -103,6 +110,41 @@ export function requireAdmin(req: any, res: any, next: any) {
   next();
 }
 
+// The parts of an admin (or a session user) that decide access
+type AdminAccess = { role?: string; permissions?: string[] | null };
+
+export function isSuperAdmin(admin: AdminAccess): boolean {
+  return admin.role === 'super_admin' || admin.role === 'admin';
+}
+
+// Effective permissions: super admins (and legacy "admin" rows, which predate roles) have all of them;
+// everyone else has their per-admin override if set, otherwise their role's defaults
+export function getAdminPermissions(admin: AdminAccess): AdminPermission[] {
+  if (isSuperAdmin(admin)) {
+    return [...adminPermissions];
+  }
+  if (admin.permissions) {
+    return admin.permissions.filter((permission): permission is AdminPermission => (adminPermissions as readonly string[]).includes(permission));
+  }
+  return [...(adminRoleDefinitions[admin.role as AdminRole]?.permissions ?? [])];
+}
+
+export function hasAdminPermission(admin: AdminAccess, permission: AdminPermission): boolean {
+  return getAdminPermissions(admin).includes(permission);
+}
+
+// requireAdmin plus a permission check; with several permissions, any one of them is enough
+export function requirePermission(...permissions: AdminPermission[]) {
+  return (req: any, res: any, next: any) => {
+    requireAdmin(req, res, () => {
+      if (!permissions.some(permission => hasAdminPermission(req.user, permission))) {
+        return res.status(403).json({ error: "Insufficient permissions", required: permissions });
+      }
+      next();
+    });
+  };
+}
+
 // Light middleware for onboarding - allows pending merchants
 export function requireMerchantAuthenticated(req: any, res: any, next: any) {
   if (!req.isAuthenticated() || !req.user || getSessionType(req) !== 'merchant') {
@@ -137,8 +179,8 @@ export function requireMerchantKycVerified(req: any, res: any, next: any) {
     return res.status(401).json({ error: "Merchant authentication required" });
   }
   
-  // Check KYC completion: kybStatus must be 'verified' or 'approved' and cybridCustomerGuid must be present
-  if (!['verified', 'approved'].includes(req.user.kybStatus) || !req.user.cybridCustomerGuid) {
+  // Check KYC completion: onboarding must be past KYC approval and cybridCustomerGuid must be present
+  if (!OnboardingService.isKycApproved(req.user) || !req.user.cybridCustomerGuid) {
     return res.status(403).json({ 
       error: "KYC verification required to access this feature",
       code: "KYC_REQUIRED",
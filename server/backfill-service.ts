@@ -0,0 +1,71 @@
+import { storage } from './storage';
+import { CybridService } from './cybrid-service';
+import { TransakCredentialService } from './transak-credential-service';
+import { modeForEnvironment, type MerchantMode, type PlatformSettingKey } from '@shared/schema';
+
+// One-off data fixes for columns added with a default that is wrong for existing rows.
+// Each runs once per database (recorded as a platform setting); a failed one is retried on the next start.
+export class BackfillService {
+  private static readonly BACKFILLS: { key: PlatformSettingKey; run: () => Promise<void> }[] = [
+    { key: 'modes_backfilled', run: () => BackfillService.backfillModes() },
+    { key: 'webhook_event_sources_backfilled', run: () => BackfillService.backfillWebhookEventSources() },
+    { key: 'fee_schedules_backfilled', run: () => BackfillService.backfillFeeSchedulesApplied() },
+    { key: 'cybrid_modes_backfilled', run: () => BackfillService.backfillCybridRecordModes() }
+  ];
+
+  static async run(): Promise<void> {
+    for (const backfill of this.BACKFILLS) {
+      try {
+        if (await storage.getPlatformSetting(backfill.key)) {
+          continue;
+        }
+        await backfill.run();
+        await storage.setPlatformSetting(backfill.key, true, null);
+      } catch (error) {
+        console.error(`Backfill ${backfill.key} failed:`, error);
+      }
+    }
+  }
+
+  // Mode columns default to sandbox, which would otherwise hide production orders and addresses from live mode
+  private static async backfillModes(): Promise<void> {
+    const platformMode = TransakCredentialService.platformMode();
+    const merchants = await storage.getAllMerchants();
+    for (const merchant of merchants) {
+      const mode = await this.merchantMode(merchant.id, merchant.transakCredentialPolicy, platformMode);
+      await storage.backfillMerchantMode(merchant.id, mode, platformMode);
+    }
+
+    // Deposit addresses all came from the one Cybrid environment the platform is configured for
+    const addresses = await storage.backfillDepositAddressModes(CybridService.mode());
+    console.log(`🔀 Backfilled modes for ${merchants.length} merchants and ${addresses} deposit addresses`);
+  }
+
+  // Merchants worked in the environment of their own Transak keys, or of the platform keys if they had none
+  private static async merchantMode(merchantId: string, policy: string, platformMode: MerchantMode): Promise<MerchantMode> {
+    if (policy === 'platform') {
+      return platformMode;
+    }
+    const credentials = (await storage.getAllMerchantCredentials(merchantId)).find(record => record.provider === 'transak');
+    return credentials ? modeForEnvironment(credentials.environment) : platformMode;
+  }
+
+  // The source column defaults to cybrid, which would put Transak events in the Cybrid inspector
+  private static async backfillWebhookEventSources(): Promise<void> {
+    const events = await storage.backfillWebhookEventSources();
+    console.log(`🔀 Backfilled source of ${events} Transak webhook events`);
+  }
+
+  // Schedules in force before appliedAt existed took effect long ago and must not trigger fee change notices now
+  private static async backfillFeeSchedulesApplied(): Promise<void> {
+    const inForce = await storage.getDueFeeSchedules(new Date());
+    await storage.markFeeSchedulesApplied(inForce.map(schedule => schedule.id));
+    console.log(`🔀 Marked ${inForce.length} fee schedules already in force as applied`);
+  }
+
+  // Trades and balance snapshots all came from the one Cybrid environment the platform is configured for
+  private static async backfillCybridRecordModes(): Promise<void> {
+    const { trades, balanceSnapshots } = await storage.backfillCybridRecordModes(CybridService.mode());
+    console.log(`🔀 Backfilled modes for ${trades} trades and ${balanceSnapshots} balance snapshots`);
+  }
+}
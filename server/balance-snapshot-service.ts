@@ -0,0 +1,71 @@
+import { storage } from './storage';
+import { CybridService } from './cybrid-service';
+
+// Periodically captures merchant Cybrid account balances so they can be charted over time
+export class BalanceSnapshotService {
+  private static readonly INTERVAL_MS = parseInt(process.env.BALANCE_SNAPSHOT_INTERVAL_MINUTES || '60', 10) * 60 * 1000;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+
+  // Start the snapshot timer (no-op if already started)
+  static start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`📸 Balance snapshots scheduled every ${this.INTERVAL_MS / 60000} minutes`);
+    this.timer = setInterval(() => {
+      this.captureAll().catch(error => {
+        console.error('Balance snapshot run failed:', error);
+      });
+    }, this.INTERVAL_MS);
+  }
+
+  // Snapshot balances for a single merchant
+  static async captureMerchant(merchantId: string, cybridCustomerGuid: string): Promise<number> {
+    const balances = await CybridService.getCustomerBalances(cybridCustomerGuid);
+    const snapshots = await storage.createBalanceSnapshots(balances.map(balance => ({
+      merchantId,
+      cybridAccountGuid: balance.accountGuid,
+      accountType: balance.type,
+      asset: balance.asset,
+      platformBalance: balance.platformBalance.toString(),
+      platformAvailable: balance.platformAvailable.toString(),
+      mode: CybridService.mode()
+    })));
+    return snapshots.length;
+  }
+
+  // Snapshot balances for every merchant with a Cybrid customer
+  static async captureAll(): Promise<{ merchants: number; snapshots: number; errors: number }> {
+    // Skip overlapping runs if Cybrid is slow
+    if (this.isRunning) {
+      console.log('Balance snapshot run already in progress, skipping');
+      return { merchants: 0, snapshots: 0, errors: 0 };
+    }
+
+    this.isRunning = true;
+    let snapshots = 0;
+    let errors = 0;
+
+    try {
+      const merchants = await storage.getAllMerchants();
+      const merchantsWithCybrid = merchants.filter(m => m.cybridCustomerGuid);
+
+      for (const merchant of merchantsWithCybrid) {
+        try {
+          snapshots += await this.captureMerchant(merchant.id, merchant.cybridCustomerGuid!);
+        } catch (error) {
+          console.error(`Failed to snapshot balances for merchant ${merchant.id}:`, error);
+          errors++;
+        }
+      }
+
+      console.log(`📸 Balance snapshot complete: ${snapshots} accounts across ${merchantsWithCybrid.length} merchants, ${errors} errors`);
+      return { merchants: merchantsWithCybrid.length, snapshots, errors };
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { storage } from './storage';
+import { TransakCredentialService, type CredentialVerification } from './transak-credential-service';
+import { NotificationService } from './notification-service';
+import type { MerchantCredentials } from '@shared/schema';
+
+// Periodically re-checks every active set of merchant Transak credentials so keys revoked or rotated on
+// the Transak side are marked invalid/expired (and stop being used) before a payment fails on them.
+export class CredentialHealthService {
+  private static readonly INTERVAL_MS = parseInt(process.env.CREDENTIAL_HEALTH_CHECK_INTERVAL_MINUTES || '720', 10) * 60 * 1000;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+
+  // Start the health check timer (no-op if already started)
+  static start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`🩺 Credential health checks scheduled every ${this.INTERVAL_MS / 60000} minutes`);
+    this.timer = setInterval(() => {
+      this.checkAll().catch(error => {
+        console.error('Credential health check run failed:', error);
+      });
+    }, this.INTERVAL_MS);
+  }
+
+  static async checkAll(): Promise<void> {
+    // Skip overlapping runs if Transak is slow
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const records = (await storage.getMerchantCredentialsByProvider('transak')).filter(record => record.isActive !== false);
+      const counts: Record<string, number> = {};
+      for (const record of records) {
+        try {
+          const { verification } = await this.check(record);
+          counts[verification.status] = (counts[verification.status] ?? 0) + 1;
+        } catch (error) {
+          console.error(`Credential health check failed for merchant ${record.merchantId}:`, error);
+        }
+      }
+      console.log(`🩺 Checked ${records.length} Transak credentials: ${JSON.stringify(counts)}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  // Verify one merchant's stored keys and record the outcome; the merchant is emailed when working keys stop working
+  static async check(record: MerchantCredentials): Promise<{ verification: CredentialVerification; credentials: MerchantCredentials }> {
+    const stored = await TransakCredentialService.storedCredentials(record.merchantId, record.environment);
+    const verification: CredentialVerification = stored
+      ? await TransakCredentialService.verify(stored)
+      : { status: 'invalid', error: 'Credentials are missing from the secret store' };
+
+    const now = new Date();
+    // An outage says nothing about the keys, so only the failure reason is recorded
+    const updated = await storage.updateMerchantCredentials(record.merchantId, record.provider, record.environment, verification.status === 'unreachable'
+      ? { lastCheckedAt: now, verificationError: verification.error }
+      : {
+          verificationStatus: verification.status,
+          lastCheckedAt: now,
+          verificationError: verification.error,
+          ...(verification.status === 'valid' && { lastVerifiedAt: now })
+        });
+
+    const wasFailing = record.verificationStatus === 'invalid' || record.verificationStatus === 'expired';
+    if ((verification.status === 'invalid' || verification.status === 'expired') && !wasFailing) {
+      console.warn(`🩺 Transak ${record.environment} credentials for merchant ${record.merchantId} are ${verification.status}: ${verification.error}`);
+      TransakCredentialService.invalidateMerchantTokens(record.merchantId);
+      const merchant = await storage.getMerchant(record.merchantId);
+      if (merchant) {
+        await NotificationService.notifyMerchant(merchant, 'credentials_failed', {
+          merchantName: merchant.name,
+          provider: 'Transak',
+          status: verification.status,
+          reason: verification.error
+        });
+      }
+    }
+
+    return { verification, credentials: updated ?? record };
+  }
+}
@@ -1,6 +1,10 @@
 import { TokenCache } from './token-cache';
 import { storage } from './storage';
 import { CredentialEncryption } from './transak-service';
+import { WebhookDeliveryService } from './webhook-delivery-service';
+import { OnboardingService } from './onboarding-service';
+import { NotificationService } from './notification-service';
+import { supportedCryptoAssets, cryptoAssetNetworks, modeForEnvironment, type SupportedCryptoAsset, type MerchantTradeAccount, type MerchantDepositAddress, type MerchantMode } from '@shared/schema';
 
 export interface CybridCustomer {
   guid: string;
@@ -63,6 +67,54 @@ export interface CybridDepositAddress {
   labels?: string[];
 }
 
+export interface CybridAccountBalance {
+  accountGuid: string;
+  type: string;
+  asset: string;
+  name: string;
+  state: string;
+  platformBalance: number; // Converted from base units (e.g. cents, satoshi)
+  platformAvailable: number;
+}
+
+export interface CybridQuote {
+  guid: string;
+  product_type: string;
+  customer_guid: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  receive_amount: string; // Base units
+  deliver_amount: string; // Base units
+  fee: string;
+  issued_at: string;
+  expires_at: string;
+}
+
+export interface CybridTrade {
+  guid: string;
+  customer_guid: string;
+  quote_guid: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  state: 'storing' | 'pending' | 'cancelled' | 'completed' | 'settling' | 'failed';
+  failure_code?: string | null;
+  receive_amount: string;
+  deliver_amount: string;
+  fee: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+// Decimal places Cybrid uses for base-unit balances per asset
+const CYBRID_ASSET_DECIMALS: Record<string, number> = {
+  USD: 2,
+  CAD: 2,
+  USDC: 6,
+  USDT: 6,
+  BTC: 8,
+  ETH: 18
+};
+
 // Cybrid Banking API base URLs
 const CYBRID_API_URLS = {
   sandbox: 'https://bank.sandbox.cybrid.app',
@@ -95,6 +147,11 @@ export class CybridService {
 
   private static tokenCache = new TokenCache();
 
+  // The platform has one Cybrid bank, so accounts and deposit addresses only exist in the mode matching CYBRID_ENVIRONMENT
+  static mode(): MerchantMode {
+    return modeForEnvironment(this.ENVIRONMENT);
+  }
+
   private static async getAccessToken(): Promise<string> {
     const merchantId = 'platform'; // Use platform-level token for admin operations
     const provider = 'cybrid';
@@ -116,7 +173,7 @@ export class CybridService {
           grant_type: 'client_credentials',
           client_id: this.CLIENT_ID!,
           client_secret: this.CLIENT_SECRET!,
-          scope: 'banks:read customers:read customers:write customers:execute accounts:read accounts:execute deposit_addresses:execute identity_verifications:read identity_verifications:execute prices:read quotes:read'
+          scope: 'banks:read customers:read customers:write customers:execute accounts:read accounts:execute deposit_addresses:execute identity_verifications:read identity_verifications:execute prices:read quotes:read quotes:execute trades:read trades:execute'
         })
       });
 
@@ -244,10 +301,12 @@ export class CybridService {
       console.log(`Cybrid customer created successfully: ${customer.guid}`);
 
       // Update merchant record with Cybrid customer GUID
-      await storage.updateMerchant(merchantData.merchantId, {
-        cybridCustomerGuid: customer.guid,
-        cybridIntegrationStatus: 'active',
-        cybridLastSyncedAt: new Date()
+      await OnboardingService.advance(merchantData.merchantId, 'customer_created', {
+        trigger: 'cybrid_api',
+        updates: {
+          cybridCustomerGuid: customer.guid,
+          cybridLastSyncedAt: new Date()
+        }
       });
 
       return customer;
@@ -256,10 +315,14 @@ export class CybridService {
       console.error(`Failed to create Cybrid customer for merchant ${merchantData.merchantId}:`, error);
       
       // Update merchant record with error status
-      await storage.updateMerchant(merchantData.merchantId, {
-        cybridIntegrationStatus: 'error',
-        cybridLastError: error instanceof Error ? error.message : 'Unknown error',
-        cybridLastAttemptAt: new Date()
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await OnboardingService.advance(merchantData.merchantId, 'customer_error', {
+        trigger: 'cybrid_api',
+        reason: message,
+        updates: {
+          cybridLastError: message,
+          cybridLastAttemptAt: new Date()
+        }
       });
 
       throw error;
@@ -796,92 +859,157 @@ export class CybridService {
     }
   }
 
-  // Create trading accounts for crypto deposits (BTC, ETH, USDC, USDT)
-  static async createDepositAddresses(customerGuid: string, currencies: string[] = ['BTC', 'ETH', 'USDC', 'USDT']) {
-    const addresses = [];
-    const merchant = await storage.getMerchantByCybridGuid(customerGuid);
-    
-    if (!merchant) {
-      throw new Error(`No merchant found for Cybrid customer GUID: ${customerGuid}`);
+  // Assets provisioned for merchants by default (comma-separated CYBRID_PROVISIONED_ASSETS, defaults to all supported)
+  static getProvisionedAssets(): SupportedCryptoAsset[] {
+    const configured = (process.env.CYBRID_PROVISIONED_ASSETS || supportedCryptoAssets.join(','))
+      .split(',')
+      .map(asset => asset.trim().toUpperCase())
+      .filter((asset): asset is SupportedCryptoAsset => (supportedCryptoAssets as readonly string[]).includes(asset));
+
+    return configured.length > 0 ? configured : ['USDC'];
+  }
+
+  // Find or create the merchant's trading account for an asset and record it
+  static async ensureMerchantTradeAccount(merchantId: string, customerGuid: string, asset: SupportedCryptoAsset): Promise<MerchantTradeAccount> {
+    const existing = await storage.getMerchantTradeAccountByAsset(merchantId, asset);
+    if (existing?.status === 'created' && existing.cybridAccountGuid) {
+      return existing;
     }
 
+    const record = existing ?? await storage.createMerchantTradeAccount({
+      merchantId,
+      cybridCustomerGuid: customerGuid,
+      asset,
+      status: 'pending'
+    });
+
     try {
-      for (const currency of currencies) {
-        // First create a trading account for this currency
-        const accountPayload = {
-          type: 'trading',
-          customer_guid: customerGuid,
-          asset: currency,
-          name: `${currency} Trading Account`
-        };
+      // Reuse an account Cybrid already has for this asset (e.g. created before we tracked rows)
+      const cybridAccounts = await this.listTradeAccounts(customerGuid);
+      const account = cybridAccounts.find(a => a.type === 'trading' && a.asset === asset)
+        ?? await this.createTradeAccount(customerGuid, asset);
+
+      const updated = await storage.updateMerchantTradeAccount(record.id, {
+        cybridAccountGuid: account.guid,
+        status: 'created',
+        lastError: null
+      });
+      return updated!;
+    } catch (error) {
+      await storage.updateMerchantTradeAccount(record.id, {
+        status: 'error',
+        lastError: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
 
-        const account = await this.makeRequest('/api/accounts', {
-          method: 'POST',
-          body: JSON.stringify(accountPayload)
-        }) as CybridAccount;
+  // Find or create the deposit address for a merchant trade account and record it
+  static async ensureMerchantDepositAddress(tradeAccount: MerchantTradeAccount): Promise<MerchantDepositAddress> {
+    if (tradeAccount.status !== 'created' || !tradeAccount.cybridAccountGuid) {
+      throw new Error(`${tradeAccount.asset} trade account is not ready`);
+    }
 
-        console.log(`Created ${currency} trading account: ${account.guid}`);
+    const existing = await storage.getDepositAddressByAccount(tradeAccount.cybridAccountGuid);
+    if (existing) {
+      return existing;
+    }
 
-        // Wait for account to be ready before creating address
-        let attempts = 0;
-        let accountReady = false;
-        
-        while (attempts < 10 && !accountReady) {
-          await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2 seconds
-          const accountStatus = await this.makeRequest(`/api/accounts/${account.guid}`) as CybridAccount;
-          accountReady = accountStatus.state === 'storing';
-          attempts++;
-        }
+    // Reuse any address Cybrid already has for the account, including one still being stored by an earlier attempt,
+    // so retries never create more than one
+    const cybridAddresses = (await this.listDepositAddresses(tradeAccount.cybridAccountGuid))
+      .filter(a => a.state !== 'failed' && !a.expired_at);
+    const cybridAddress = cybridAddresses.find(a => a.address)
+      ?? cybridAddresses[0]
+      ?? await this.createDepositAddress(tradeAccount.cybridAccountGuid, tradeAccount.asset);
+    const depositAddress = await this.waitForDepositAddress(cybridAddress);
+
+    const created = await storage.createMerchantDepositAddress({
+      merchantId: tradeAccount.merchantId,
+      cybridCustomerGuid: tradeAccount.cybridCustomerGuid,
+      cybridAccountGuid: tradeAccount.cybridAccountGuid,
+      cybridDepositAddressGuid: depositAddress.guid,
+      asset: tradeAccount.asset,
+      network: cryptoAssetNetworks[tradeAccount.asset as SupportedCryptoAsset] ?? 'ethereum',
+      address: depositAddress.address,
+      mode: this.mode(),
+      isActive: true
+    });
 
-        if (!accountReady) {
-          console.warn(`Account ${account.guid} not ready after 20 seconds, skipping address creation`);
-          continue;
-        }
+    await WebhookDeliveryService.emit(created.merchantId, 'deposit_address.created', {
+      id: created.id,
+      asset: created.asset,
+      network: created.network,
+      address: created.address
+    });
 
-        // Create deposit address for this trading account
-        const addressPayload = {
-          account_guid: account.guid
-        };
+    const merchant = await storage.getMerchant(created.merchantId);
+    if (merchant) {
+      await NotificationService.notifyMerchant(merchant, 'deposit_address_ready', {
+        merchantName: merchant.name,
+        asset: created.asset,
+        network: created.network,
+        address: created.address
+      });
+    }
 
-        const address = await this.makeRequest('/api/deposit_addresses', {
-          method: 'POST',
-          body: JSON.stringify(addressPayload)
-        }) as CybridAddress;
-
-        console.log(`Created deposit address for ${currency}: ${address.address}`);
-
-        // Store in our database
-        await storage.createMerchantDepositAddress({
-          merchantId: merchant.id,
-          cybridCustomerGuid: customerGuid,
-          cybridAccountGuid: account.guid,
-          asset: currency,
-          network: currency === 'BTC' ? 'bitcoin' : 'ethereum',
-          address: address.address,
-          isActive: true
-        });
+    return created;
+  }
 
-        addresses.push({
-          currency,
-          network: currency === 'BTC' ? 'bitcoin' : 'ethereum',
-          address: address.address,
-          accountGuid: account.guid
-        });
+  // Cybrid assigns the address asynchronously (state "storing" until "created"); throws if it is still missing so the caller retries later
+  private static async waitForDepositAddress(depositAddress: CybridDepositAddress, maxAttempts: number = 10): Promise<CybridDepositAddress> {
+    let current = depositAddress;
+    for (let attempt = 1; !current.address; attempt++) {
+      if (current.state === 'failed' || attempt > maxAttempts) {
+        throw new Error(`Deposit address ${current.guid} is not ready at Cybrid (state ${current.state})`);
       }
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      current = await this.makeRequest(`/api/deposit_addresses/${current.guid}`) as CybridDepositAddress;
+    }
+    return current;
+  }
 
-      // Update merchant record to indicate addresses are created
-      await storage.updateMerchant(merchant.id, {
-        depositAddressesCreated: true,
-        cybridLastSyncedAt: new Date()
-      });
-
-      console.log(`Successfully created ${addresses.length} deposit addresses for merchant ${merchant.id}`);
-      return addresses;
+  // Provision the trade account and deposit address for one asset; both steps are idempotent so retries resume where they failed
+  static async provisionMerchantAsset(
+    merchantId: string,
+    customerGuid: string,
+    asset: SupportedCryptoAsset
+  ): Promise<{ tradeAccount: MerchantTradeAccount; depositAddress: MerchantDepositAddress }> {
+    const tradeAccount = await this.ensureMerchantTradeAccount(merchantId, customerGuid, asset);
+    const depositAddress = await this.ensureMerchantDepositAddress(tradeAccount);
+    console.log(`✅ Provisioned ${asset} for merchant ${merchantId}: ${depositAddress.address}`);
+    return { tradeAccount, depositAddress };
+  }
 
-    } catch (error) {
-      console.error(`Failed to create deposit addresses for customer ${customerGuid}:`, error);
-      throw error;
+  // Mirror per-asset rows onto the merchant's summary columns (primary account is USDC when present)
+  static async syncMerchantAccountSummary(merchantId: string): Promise<void> {
+    const tradeAccounts = await storage.getMerchantTradeAccounts(merchantId);
+    const depositAddresses = (await storage.getMerchantDepositAddresses(merchantId, this.mode())).filter(a => a.isActive);
+    if (tradeAccounts.length === 0) {
+      return;
     }
+
+    const created = tradeAccounts.filter(a => a.status === 'created');
+    const primaryAccount = created.find(a => a.asset === 'USDC') ?? created[0];
+    const primaryAddress = depositAddresses.find(a => a.cybridAccountGuid === primaryAccount?.cybridAccountGuid);
+    const errors = tradeAccounts.filter(a => a.status === 'error');
+
+    await storage.updateMerchant(merchantId, {
+      cybridTradeAccountGuid: primaryAccount?.cybridAccountGuid ?? null,
+      tradeAccountAsset: primaryAccount?.asset ?? null,
+      tradeAccountStatus: primaryAccount ? 'created' : errors.length > 0 ? 'error' : 'pending',
+      tradeAccountCreatedAt: primaryAccount?.createdAt ?? null,
+      depositAddressGuid: primaryAddress?.cybridDepositAddressGuid ?? null,
+      depositAddress: primaryAddress?.address ?? null,
+      depositAddressAsset: primaryAddress?.asset ?? null,
+      depositAddressStatus: primaryAddress ? 'created' : 'no_address',
+      depositAddressCreatedAt: primaryAddress?.createdAt ?? null,
+      depositAddressesCreated: depositAddresses.length > 0,
+      ...(errors.length > 0 && { cybridLastError: errors.map(a => `${a.asset}: ${a.lastError}`).join('; ') }),
+      cybridLastSyncedAt: new Date()
+    });
+
+    await OnboardingService.syncProvisioning(merchantId);
   }
 
   // List existing trade accounts for a customer
@@ -895,6 +1023,112 @@ export class CybridService {
     }
   }
 
+  // Get balances of all accounts (trading and fiat) for a customer, converted from base units
+  static async getCustomerBalances(customerGuid: string): Promise<CybridAccountBalance[]> {
+    const accounts = await this.listTradeAccounts(customerGuid);
+    return accounts.map(account => ({
+      accountGuid: account.guid,
+      type: account.type,
+      asset: account.asset,
+      name: account.name,
+      state: account.state,
+      platformBalance: this.fromBaseUnits(account.asset, account.platform_balance),
+      platformAvailable: this.fromBaseUnits(account.asset, account.platform_available)
+    }));
+  }
+
+  // Convert a base-unit amount string (e.g. "1500000" USDC) to a decimal number (1.5)
+  static fromBaseUnits(asset: string, amount: string | number | null | undefined): number {
+    if (amount === null || amount === undefined || amount === '') {
+      return 0;
+    }
+    const decimals = CYBRID_ASSET_DECIMALS[asset.toUpperCase()] ?? 2;
+    return Number(amount) / Math.pow(10, decimals);
+  }
+
+  // Convert a decimal amount (1.5 USDC) to the base-unit string Cybrid expects ("1500000")
+  static toBaseUnits(asset: string, amount: number): string {
+    const decimals = CYBRID_ASSET_DECIMALS[asset.toUpperCase()] ?? 2;
+    return BigInt(Math.round(amount * Math.pow(10, decimals))).toString();
+  }
+
+  // Create a fiat account (needed to receive the proceeds of a sell trade)
+  static async createFiatAccount(customerGuid: string, asset: string = 'USD'): Promise<CybridAccount> {
+    const normalizedAsset = asset.toUpperCase();
+    console.log(`Creating ${normalizedAsset} fiat account for customer: ${customerGuid}`);
+
+    try {
+      const account = await this.makeRequest('/api/accounts', {
+        method: 'POST',
+        body: JSON.stringify({
+          type: 'fiat',
+          customer_guid: customerGuid,
+          asset: normalizedAsset,
+          name: `${normalizedAsset} Fiat Account`
+        })
+      }) as CybridAccount;
+
+      console.log(`✅ Successfully created ${normalizedAsset} fiat account: ${account.guid}`);
+      return account;
+    } catch (error) {
+      console.error(`Failed to create fiat account for customer ${customerGuid}:`, error);
+      throw error;
+    }
+  }
+
+  // Request a trading quote; amounts are decimal and converted to base units here
+  static async createQuote(params: {
+    customerGuid: string;
+    symbol: string; // e.g. USDC-USD
+    side: 'buy' | 'sell';
+    deliverAmount?: number; // Amount of the asset being given up
+    receiveAmount?: number; // Amount of the asset being received
+  }): Promise<CybridQuote> {
+    const [baseAsset, counterAsset] = params.symbol.split('-');
+    const deliverAsset = params.side === 'sell' ? baseAsset : counterAsset;
+    const receiveAsset = params.side === 'sell' ? counterAsset : baseAsset;
+
+    try {
+      const quote = await this.makeRequest('/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify({
+          product_type: 'trading',
+          customer_guid: params.customerGuid,
+          symbol: params.symbol,
+          side: params.side,
+          ...(params.deliverAmount !== undefined && { deliver_amount: this.toBaseUnits(deliverAsset, params.deliverAmount) }),
+          ...(params.receiveAmount !== undefined && { receive_amount: this.toBaseUnits(receiveAsset, params.receiveAmount) })
+        })
+      }) as CybridQuote;
+
+      console.log(`✅ Created ${params.side} quote ${quote.guid} for ${params.symbol}, expires ${quote.expires_at}`);
+      return quote;
+    } catch (error) {
+      console.error(`Failed to create quote for customer ${params.customerGuid}:`, error);
+      throw error;
+    }
+  }
+
+  // Execute a previously issued quote
+  static async createTrade(quoteGuid: string): Promise<CybridTrade> {
+    try {
+      const trade = await this.makeRequest('/api/trades', {
+        method: 'POST',
+        body: JSON.stringify({ quote_guid: quoteGuid })
+      }) as CybridTrade;
+
+      console.log(`✅ Created trade ${trade.guid} from quote ${quoteGuid}, state: ${trade.state}`);
+      return trade;
+    } catch (error) {
+      console.error(`Failed to execute quote ${quoteGuid}:`, error);
+      throw error;
+    }
+  }
+
+  static async getTrade(tradeGuid: string): Promise<CybridTrade> {
+    return this.makeRequest(`/api/trades/${tradeGuid}`) as Promise<CybridTrade>;
+  }
+
   // List existing deposit addresses for a trade account
   static async listDepositAddresses(accountGuid: string): Promise<CybridDepositAddress[]> {
     try {
@@ -1047,10 +1281,12 @@ export class CybridService {
         console.log(`Cybrid customer already exists: ${existingCustomer.guid}`);
         
         // Update our database with the existing customer GUID
-        await storage.updateMerchant(merchantData.merchantId, {
-          cybridCustomerGuid: existingCustomer.guid,
-          cybridIntegrationStatus: 'active',
-          cybridLastSyncedAt: new Date()
+        await OnboardingService.advance(merchantData.merchantId, 'customer_created', {
+          trigger: 'cybrid_api',
+          updates: {
+            cybridCustomerGuid: existingCustomer.guid,
+            cybridLastSyncedAt: new Date()
+          }
         });
         
         return existingCustomer;
@@ -1107,13 +1343,18 @@ export class CybridService {
           const kycStatus = await this.getLatestKycStatus(merchant.cybridCustomerGuid!);
           
           // Only update if status has changed
-          if (kycStatus.status !== oldStatus) {
-            await storage.updateMerchant(merchant.id, {
-              kybStatus: kycStatus.status,
-              cybridVerificationGuid: kycStatus.verificationGuid,
-              cybridLastSyncedAt: new Date()
-            });
-
+          const targetState = OnboardingService.stateForKycStatus(kycStatus.status);
+          const result = targetState && kycStatus.status !== oldStatus
+            ? await OnboardingService.advance(merchant.id, targetState, {
+                trigger: 'kyc_sync',
+                updates: {
+                  cybridVerificationGuid: kycStatus.verificationGuid,
+                  cybridLastSyncedAt: new Date()
+                }
+              })
+            : null;
+
+          if (result?.changed) {
             console.log(`✅ Updated ${merchant.name}: ${oldStatus} → ${kycStatus.status}`);
             updated++;
           } else {
@@ -0,0 +1,109 @@
+import { storage } from './storage';
+import { FeeService } from './fee-service';
+import { NotificationService } from './notification-service';
+import type { FeeSchedule, Merchant } from '@shared/schema';
+
+// Applies fee schedule changes once their effective date arrives and tells affected merchants
+export class FeeScheduleService {
+  private static readonly INTERVAL_MS = parseInt(process.env.FEE_SCHEDULE_CHECK_INTERVAL_MINUTES || '5', 10) * 60 * 1000;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+
+  // Start the fee schedule timer (no-op if already started)
+  static start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`💲 Fee schedule changes checked every ${this.INTERVAL_MS / 60000} minutes`);
+    this.timer = setInterval(() => {
+      this.applyDue().catch(error => {
+        console.error('Fee schedule run failed:', error);
+      });
+    }, this.INTERVAL_MS);
+  }
+
+  private static describe(schedules: FeeSchedule[]): string {
+    if (schedules[0].scope === 'tier') {
+      return schedules
+        .map(tier => `${tier.tierName} (from ${tier.minMonthlyVolume} ${tier.currency}/month): ${tier.percentage}% + ${tier.flatFee} ${tier.currency}`)
+        .join(', ');
+    }
+    return `${schedules[0].percentage}% + ${schedules[0].flatFee} ${schedules[0].currency}`;
+  }
+
+  private static async notifyMerchant(merchant: Merchant, schedules: FeeSchedule[]): Promise<void> {
+    const scopeLabel = schedules[0].scope === 'merchant' ? 'Your custom' : schedules[0].scope === 'tier' ? 'Volume tier' : 'Standard';
+    await NotificationService.notifyMerchant(merchant, 'fee_change', {
+      merchantName: merchant.name,
+      scopeLabel,
+      description: this.describe(schedules),
+      effectiveFrom: schedules[0].effectiveFrom,
+      reason: schedules[0].reason
+    });
+  }
+
+  // Process every schedule that has taken effect since the last run
+  static async applyDue(): Promise<{ applied: number; notified: number }> {
+    // Skip overlapping runs
+    if (this.isRunning) {
+      console.log('Fee schedule run already in progress, skipping');
+      return { applied: 0, notified: 0 };
+    }
+
+    this.isRunning = true;
+    let notified = 0;
+
+    try {
+      const now = new Date();
+      const due = await storage.getDueFeeSchedules(now);
+
+      // Tier sets are scheduled together, so notify once per change rather than per row
+      const changes = new Map<string, FeeSchedule[]>();
+      for (const schedule of due) {
+        const key = `${schedule.scope}:${schedule.merchantId ?? ''}:${schedule.effectiveFrom.toISOString()}`;
+        changes.set(key, [...(changes.get(key) ?? []), schedule]);
+      }
+
+      const merchants = await storage.getAllMerchants();
+
+      for (const schedules of Array.from(changes.values())) {
+        const { scope, merchantId } = schedules[0];
+
+        if (scope === 'merchant') {
+          await FeeService.syncMerchantColumns(merchantId!);
+          const merchant = merchants.find(m => m.id === merchantId);
+          if (merchant) {
+            await this.notifyMerchant(merchant, schedules);
+            notified++;
+          }
+        } else {
+          // Only merchants actually priced by the changed scope are affected
+          for (const merchant of merchants) {
+            const fee = await FeeService.resolveFee(merchant, now);
+            if (fee.source === scope) {
+              await this.notifyMerchant(merchant, schedules);
+              notified++;
+            }
+          }
+        }
+
+        // Marked as soon as its notices are out, so a later failure in this run can't send them twice
+        await storage.markFeeSchedulesApplied(schedules.map(schedule => schedule.id));
+      }
+
+      // Overrides that simply ended (no replacement row) also need the legacy columns cleared
+      for (const merchant of merchants.filter(m => m.customFeeEnabled)) {
+        await FeeService.syncMerchantColumns(merchant.id);
+      }
+
+      if (due.length > 0) {
+        console.log(`💲 Applied ${changes.size} fee changes (${due.length} schedules), ${notified} merchant notices`);
+      }
+      return { applied: due.length, notified };
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
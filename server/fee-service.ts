@@ -0,0 +1,159 @@
+import { storage } from './storage';
+import type { Merchant, FeeSchedule, UpdateMerchantFee } from '@shared/schema';
+
+export interface ResolvedFee {
+  source: 'merchant' | 'tier' | 'global' | 'default';
+  scheduleId: string | null;
+  tierName: string | null;
+  percentage: number;
+  flatFee: number;
+  currency: string;
+  monthlyVolume: number | null; // Only computed when volume tiers are configured
+}
+
+export interface FeeAmount {
+  percentageFee: number;
+  flatFee: number;
+  totalFee: number;
+}
+
+// Resolves which platform fee applies to a merchant and calculates fee amounts.
+// Precedence: merchant override > volume tier > global default > built-in default.
+export class FeeService {
+  private static readonly DEFAULT_PERCENTAGE = parseFloat(process.env.DEFAULT_PLATFORM_FEE_PERCENTAGE || '2.5');
+  private static readonly DEFAULT_FLAT_FEE = parseFloat(process.env.DEFAULT_PLATFORM_FLAT_FEE || '0.30');
+  private static readonly VOLUME_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+  private static fromSchedule(schedule: FeeSchedule, source: ResolvedFee['source'], monthlyVolume: number | null = null): ResolvedFee {
+    return {
+      source,
+      scheduleId: schedule.id,
+      tierName: schedule.tierName,
+      percentage: Number(schedule.percentage),
+      flatFee: Number(schedule.flatFee),
+      currency: schedule.currency,
+      monthlyVolume
+    };
+  }
+
+  // Fee in force for a merchant at a point in time (defaults to now)
+  static async resolveFee(merchant: Merchant, at: Date = new Date()): Promise<ResolvedFee> {
+    const override = await storage.getMerchantFeeScheduleInForce(merchant.id, at);
+    if (override) {
+      return this.fromSchedule(override, 'merchant');
+    }
+
+    // Merchants configured before fee schedules existed only have the legacy columns
+    if (merchant.customFeeEnabled && merchant.customFeePercentage
+      && (await storage.getFeeSchedules('merchant', merchant.id)).length === 0) {
+      return {
+        source: 'merchant',
+        scheduleId: null,
+        tierName: null,
+        percentage: Number(merchant.customFeePercentage),
+        flatFee: Number(merchant.customFlatFee || 0),
+        currency: 'USD',
+        monthlyVolume: null
+      };
+    }
+
+    const schedules = await storage.getFeeSchedulesInForce(at);
+
+    const tiers = schedules
+      .filter(schedule => schedule.scope === 'tier')
+      .sort((a, b) => Number(b.minMonthlyVolume) - Number(a.minMonthlyVolume));
+    // Each tier's threshold is measured against volume in its own currency; sandbox orders never count
+    const volumes = new Map<string, number>();
+    for (const tier of tiers) {
+      let monthlyVolume = volumes.get(tier.currency);
+      if (monthlyVolume === undefined) {
+        monthlyVolume = await storage.getMerchantCompletedVolume(merchant.id, 'live', tier.currency, new Date(at.getTime() - this.VOLUME_WINDOW_MS), at);
+        volumes.set(tier.currency, monthlyVolume);
+      }
+      if (monthlyVolume >= Number(tier.minMonthlyVolume)) {
+        return this.fromSchedule(tier, 'tier', monthlyVolume);
+      }
+    }
+
+    const global = schedules.find(schedule => schedule.scope === 'global');
+    if (global) {
+      return this.fromSchedule(global, 'global');
+    }
+
+    return this.defaultFee();
+  }
+
+  // Built-in fee used until an admin configures a global default
+  static defaultFee(): ResolvedFee {
+    return {
+      source: 'default',
+      scheduleId: null,
+      tierName: null,
+      percentage: this.DEFAULT_PERCENTAGE,
+      flatFee: this.DEFAULT_FLAT_FEE,
+      currency: 'USD',
+      monthlyVolume: null
+    };
+  }
+
+  // Fee charged on a fiat amount, rounded to cents. The flat fee is in the fee's currency, so it is
+  // only charged on amounts in that currency; other currencies pay the percentage alone.
+  static calculate(fee: Pick<ResolvedFee, 'percentage' | 'flatFee' | 'currency'>, amount: number, currency: string): FeeAmount {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const percentageFee = round(amount * fee.percentage / 100);
+    const flatFee = amount > 0 && currency.toUpperCase() === fee.currency.toUpperCase() ? round(fee.flatFee) : 0;
+    return { percentageFee, flatFee, totalFee: round(percentageFee + flatFee) };
+  }
+
+  // Transak only accepts a percentage partner fee, so fold the flat fee in when the amount is known
+  static toPartnerFeePercentage(fee: ResolvedFee, amount: number | undefined, currency: string): number {
+    if (!amount || amount <= 0) {
+      return fee.percentage;
+    }
+    const { totalFee } = this.calculate(fee, amount, currency);
+    return Math.round((totalFee / amount) * 100 * 10000) / 10000;
+  }
+
+  // Set or clear a merchant's fee override, keeping the legacy merchant columns in sync
+  static async setMerchantOverride(merchantId: string, update: UpdateMerchantFee, adminId?: string): Promise<FeeSchedule | undefined> {
+    const effectiveFrom = update.effectiveFrom ?? new Date();
+
+    const [schedule] = await storage.replaceFeeSchedules('merchant', merchantId, update.enabled ? [{
+      scope: 'merchant',
+      merchantId,
+      percentage: update.percentage!.toString(),
+      flatFee: update.flatFee.toString(),
+      reason: update.reason ?? null,
+      createdBy: adminId ?? null
+    }] : [], effectiveFrom);
+
+    // Future-dated changes are mirrored by the fee schedule job once they take effect
+    if (effectiveFrom <= new Date()) {
+      await this.syncMerchantColumns(merchantId);
+    }
+
+    return schedule;
+  }
+
+  // Mirror the override currently in force onto the legacy merchant fee columns
+  static async syncMerchantColumns(merchantId: string): Promise<void> {
+    const merchant = await storage.getMerchant(merchantId);
+    if (!merchant) {
+      return;
+    }
+
+    const override = await storage.getMerchantFeeScheduleInForce(merchantId, new Date());
+    if (override) {
+      if (!merchant.customFeeEnabled || merchant.customFeePercentage !== override.percentage || merchant.customFlatFee !== override.flatFee) {
+        await storage.updateMerchant(merchantId, {
+          customFeeEnabled: true,
+          customFeePercentage: override.percentage,
+          customFlatFee: override.flatFee
+        });
+      }
+    } else if (merchant.customFeeEnabled && (await storage.getFeeSchedules('merchant', merchantId)).length > 0) {
+      // The override has ended; legacy-only merchants (no schedules) keep their columns
+      await storage.updateMerchant(merchantId, { customFeeEnabled: false });
+    }
+  }
+}
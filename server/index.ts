@@ -1,6 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { BalanceSnapshotService } from "./balance-snapshot-service";
+import { FeeScheduleService } from "./fee-schedule-service";
+import { WebhookDeliveryService } from "./webhook-delivery-service";
+import { JobQueueService } from "./job-queue-service";
+import { ReconciliationService } from "./reconciliation-service";
+import { CredentialHealthService } from "./credential-health-service";
+import { BackfillService } from "./backfill-service";
 
 const app = express();
 
@@ -41,6 +48,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await BackfillService.run();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -71,5 +80,11 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    BalanceSnapshotService.start();
+    FeeScheduleService.start();
+    WebhookDeliveryService.start();
+    JobQueueService.start();
+    ReconciliationService.start();
+    CredentialHealthService.start();
   });
 })();
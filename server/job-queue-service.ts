@@ -0,0 +1,168 @@
+import { storage } from './storage';
+import { CybridService } from './cybrid-service';
+import { supportedCryptoAssets, type Job, type JobType, type JobPayload, type SupportedCryptoAsset } from '@shared/schema';
+
+// Postgres-backed background job queue. Failed jobs are retried with exponential backoff and
+// marked dead once they run out of attempts; handlers must be safe to run more than once.
+export class JobQueueService {
+  private static readonly INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_SECONDS || '10', 10) * 1000;
+  private static readonly BASE_RETRY_DELAY_MS = 30 * 1000;
+  private static readonly MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+  private static readonly LEASE_MS = 10 * 60 * 1000; // Longer than any single job
+  private static readonly BATCH_SIZE = 20;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+
+  // Start the worker loop (no-op if already started)
+  static start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`🧵 Job queue polled every ${this.INTERVAL_MS / 1000} seconds`);
+    this.timer = setInterval(() => this.kick(), this.INTERVAL_MS);
+  }
+
+  // Run due jobs now instead of waiting for the next tick
+  private static kick(): void {
+    this.processDue().catch(error => {
+      console.error('Job queue run failed:', error);
+    });
+  }
+
+  static async enqueue(type: JobType, payload: JobPayload, options: { dedupeKey?: string; runAt?: Date; maxAttempts?: number } = {}): Promise<Job> {
+    const job = await storage.enqueueJob({
+      type,
+      payload,
+      merchantId: payload.merchantId,
+      dedupeKey: options.dedupeKey ?? null,
+      runAt: options.runAt ?? new Date(),
+      ...(options.maxAttempts && { maxAttempts: options.maxAttempts })
+    });
+
+    this.kick();
+    return job;
+  }
+
+  // Queue one provisioning job per asset; assets that already have a job in flight are not queued twice
+  static async enqueueMerchantProvisioning(
+    merchantId: string,
+    customerGuid: string,
+    assets: SupportedCryptoAsset[] = CybridService.getProvisionedAssets()
+  ): Promise<Job[]> {
+    const merchant = await storage.getMerchant(merchantId);
+    if (merchant && merchant.tradeAccountStatus !== 'created') {
+      await storage.updateMerchant(merchantId, {
+        tradeAccountStatus: 'pending',
+        cybridLastAttemptAt: new Date()
+      });
+    }
+
+    const queued: Job[] = [];
+    for (const asset of assets) {
+      queued.push(await this.enqueue('provision_merchant_asset', { merchantId, customerGuid, asset }, {
+        dedupeKey: `provision_merchant_asset:${merchantId}:${asset}`
+      }));
+    }
+
+    console.log(`🧵 Queued provisioning for merchant ${merchantId}: ${assets.join(', ')}`);
+    return queued;
+  }
+
+  // Put a dead or waiting job back at the front of the queue with a fresh attempt budget.
+  // A dead job whose work has since been queued again is left alone and the active job returned.
+  static async retry(job: Job): Promise<Job | undefined> {
+    if (job.dedupeKey && job.status === 'dead') {
+      const active = await storage.getActiveJobByDedupeKey(job.dedupeKey);
+      if (active) {
+        return active;
+      }
+    }
+
+    const updated = await storage.updateJob(job.id, {
+      status: 'pending',
+      attempts: 0,
+      runAt: new Date(),
+      lockedUntil: null,
+      completedAt: null
+    });
+
+    this.kick();
+    return updated;
+  }
+
+  private static async handle(job: Job): Promise<void> {
+    switch (job.type as JobType) {
+      case 'provision_merchant_asset': {
+        const { merchantId, customerGuid, asset } = job.payload;
+        if (!customerGuid || !asset || !(supportedCryptoAssets as readonly string[]).includes(asset)) {
+          throw new Error(`Invalid provisioning payload: ${JSON.stringify(job.payload)}`);
+        }
+
+        try {
+          await CybridService.provisionMerchantAsset(merchantId, customerGuid, asset as SupportedCryptoAsset);
+        } finally {
+          await CybridService.syncMerchantAccountSummary(merchantId);
+        }
+        return;
+      }
+      default:
+        throw new Error(`No handler for job type ${job.type}`);
+    }
+  }
+
+  // Claim a due job, run it and record the outcome
+  static async run(jobId: string): Promise<Job | undefined> {
+    const job = await storage.claimJob(jobId, new Date(Date.now() + this.LEASE_MS));
+    if (!job) {
+      return storage.getJob(jobId);
+    }
+
+    try {
+      await this.handle(job);
+      return await storage.updateJob(job.id, {
+        status: 'succeeded',
+        lockedUntil: null,
+        lastError: null,
+        completedAt: new Date()
+      });
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const exhausted = job.attempts >= job.maxAttempts;
+      const retryDelay = Math.min(this.BASE_RETRY_DELAY_MS * 2 ** (job.attempts - 1), this.MAX_RETRY_DELAY_MS);
+
+      if (exhausted) {
+        console.error(`💀 Job ${job.type} ${job.id} dead after ${job.attempts} attempts: ${lastError}`);
+      } else {
+        console.warn(`🧵 Job ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${retryDelay / 1000}s: ${lastError}`);
+      }
+
+      return await storage.updateJob(job.id, {
+        status: exhausted ? 'dead' : 'pending',
+        lockedUntil: null,
+        lastError,
+        runAt: exhausted ? job.runAt : new Date(Date.now() + retryDelay)
+      });
+    }
+  }
+
+  // Run every job that is due
+  static async processDue(): Promise<number> {
+    // Skip overlapping runs
+    if (this.isRunning) {
+      return 0;
+    }
+
+    this.isRunning = true;
+    try {
+      const due = await storage.getDueJobs(new Date(), this.BATCH_SIZE);
+      for (const job of due) {
+        await this.run(job.id);
+      }
+      return due.length;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { storage } from './storage';
+import { CredentialEncryption } from './transak-service';
+import { SecretStoreService } from './secret-store';
+import { encryptedFields, type EncryptedField, type KeyRotationError, type KeyRotationRun } from '@shared/schema';
+
+// Re-wraps every encrypted value in the database under the current credential encryption key, so
+// retired keys can be dropped from CREDENTIAL_ENCRYPTION_KEYS once a run completes without errors.
+export class KeyRotationService {
+  private static readonly PROGRESS_EVERY = 25;
+
+  // merchant_credentials values that point at a secret store instead of holding ciphertext
+  private static readonly PLACEHOLDERS = new Set([SecretStoreService.CREDENTIALS_PLACEHOLDER, 'STORED_IN_SECRET_MANAGER_JSON']);
+
+  private static isRunning = false;
+
+  static isInProgress(): boolean {
+    return this.isRunning;
+  }
+
+  // Record a new run and re-encrypt in the background; returns null if a run is already in progress
+  static async trigger(triggeredBy: string | null): Promise<KeyRotationRun | null> {
+    if (this.isRunning) {
+      return null;
+    }
+
+    this.isRunning = true;
+    let run: KeyRotationRun;
+    try {
+      run = await storage.createKeyRotationRun({ targetKeyId: CredentialEncryption.currentKeyId(), triggeredBy, status: 'running' });
+    } catch (error) {
+      this.isRunning = false;
+      throw error;
+    }
+
+    this.execute(run)
+      .catch(error => {
+        console.error(`Key rotation run ${run.id} failed:`, error);
+      })
+      .finally(() => {
+        this.isRunning = false;
+      });
+
+    return run;
+  }
+
+  private static async execute(run: KeyRotationRun): Promise<void> {
+    const errors: KeyRotationError[] = [];
+    const counts = { totalCount: 0, processedCount: 0, rewrappedCount: 0, alreadyCurrentCount: 0, skippedCount: 0 };
+    const progress = () => ({ ...counts, errors, errorCount: errors.length });
+
+    try {
+      // Scan first so the run can report progress against a known total
+      const values: { field: EncryptedField; id: string; value: string }[] = [];
+      for (const field of encryptedFields) {
+        for (const { id, value } of await storage.getEncryptedValues(field)) {
+          if (value) {
+            values.push({ field, id, value });
+          }
+        }
+      }
+      counts.totalCount = values.length;
+      await storage.updateKeyRotationRun(run.id, progress());
+      console.log(`🔑 Re-encrypting ${values.length} stored values under key ${run.targetKeyId}`);
+
+      for (const { field, id, value } of values) {
+        try {
+          if (this.PLACEHOLDERS.has(value)) {
+            counts.skippedCount++;
+          } else if (CredentialEncryption.keyIdOf(value) === run.targetKeyId) {
+            counts.alreadyCurrentCount++;
+          } else if (await storage.replaceEncryptedValue(field, id, value, CredentialEncryption.reencrypt(value))) {
+            counts.rewrappedCount++;
+          } else {
+            // Changed or removed since the scan; anything written meanwhile already uses the current key
+            counts.skippedCount++;
+          }
+        } catch (error) {
+          errors.push({ field, recordId: id, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+
+        counts.processedCount++;
+        if (counts.processedCount % this.PROGRESS_EVERY === 0) {
+          await storage.updateKeyRotationRun(run.id, progress());
+        }
+      }
+
+      await storage.updateKeyRotationRun(run.id, { ...progress(), status: 'completed', completedAt: new Date() });
+      console.log(`🔑 Key rotation complete: ${counts.rewrappedCount} re-encrypted, ${counts.alreadyCurrentCount} already current, ${counts.skippedCount} skipped, ${errors.length} errors`);
+    } catch (error) {
+      await storage.updateKeyRotationRun(run.id, {
+        ...progress(),
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: new Date()
+      });
+      throw error;
+    }
+  }
+}
@@ -1,10 +1,15 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { Express, type Response } from "express";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
+import rateLimit from "express-rate-limit";
+import { ZodError } from "zod";
 import { storage } from "./storage";
+import { merchantChangePasswordSchema, merchantPasswordResetRequestSchema, merchantPasswordResetSchema, type Merchant } from "@shared/schema";
 import { requireMerchant, requireMerchantAuthenticated } from "./auth-core";
+import { AuditService } from "./audit-service";
+import { NotificationService } from "./notification-service";
 
 const scryptAsync = promisify(scrypt);
 
@@ -50,24 +55,30 @@ export function setupMerchantAuth(app: Express) {
   // Utility function to sanitize merchant data (remove password)
   const sanitizeMerchant = (merchant: any) => {
     if (!merchant) return null;
-    const { password, ...sanitized } = merchant;
+    const { password, resetToken, resetTokenExpiry, ...sanitized } = merchant;
     return sanitized;
   };
 
   // Merchant authentication routes
   app.post("/api/merchant/login", (req, res, next) => {
-    passport.authenticate("merchant-local", (err: any, user: any, info: any) => {
+    passport.authenticate("merchant-local", async (err: any, user: any, info: any) => {
       if (err) {
         return res.status(500).json({ error: "Authentication error" });
       }
       if (!user) {
+        await AuditService.record(req, {
+          action: 'merchant.login_failed',
+          actor: { type: 'anonymous' },
+          metadata: { username: req.body?.username ?? null, reason: info?.message ?? null }
+        });
         return res.status(401).json({ error: info?.message || "Invalid credentials" });
       }
       
-      req.logIn(user, (err: any) => {
+      req.logIn(user, async (err: any) => {
         if (err) {
           return res.status(500).json({ error: "Login failed" });
         }
+        await AuditService.record(req, { action: 'merchant.login', targetType: 'merchant', targetId: user.id });
         return res.status(200).json({
           success: true,
           merchant: sanitizeMerchant(user)
@@ -76,7 +87,10 @@ export function setupMerchantAuth(app: Express) {
     })(req, res, next);
   });
 
-  app.post("/api/merchant/logout", (req, res, next) => {
+  app.post("/api/merchant/logout", async (req, res, next) => {
+    if (req.user) {
+      await AuditService.record(req, { action: 'merchant.logout', targetType: 'merchant', targetId: req.user.id });
+    }
     req.logout((err) => {
       if (err) return next(err);
       req.session.destroy((err) => {
@@ -91,6 +105,142 @@ export function setupMerchantAuth(app: Express) {
     res.json(sanitizeMerchant(req.user));
   });
 
+  const handlePasswordError = (res: Response, error: unknown, fallback: string) => {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Invalid request data", details: error.issues });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.post("/api/merchant/change-password", requireMerchantAuthenticated, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = merchantChangePasswordSchema.parse(req.body);
+      const merchant = await storage.getMerchant(req.user!.id);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+      if (!(await comparePasswords(currentPassword, merchant.password))) {
+        return res.status(400).json({ error: "Current password is incorrect" });
+      }
+
+      const updated = await storage.updateMerchantPassword(merchant.id, await hashPassword(newPassword));
+      console.log(`🔑 Merchant ${merchant.username} changed their password`);
+      await AuditService.record(req, { action: 'merchant.password_change', targetType: 'merchant', targetId: merchant.id });
+
+      // The change signs out every other session; log this one in again so it stays valid
+      req.login(updated!, (err) => {
+        if (err) {
+          return handlePasswordError(res, err, "Failed to change password");
+        }
+        res.json({ success: true });
+      });
+    } catch (error) {
+      handlePasswordError(res, error, "Failed to change password");
+    }
+  });
+
+  // Rate limiting for password reset endpoints (same limits as the admin portal)
+  const passwordResetRequestLimit = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 3, // Limit each IP to 3 password reset requests per windowMs
+    message: {
+      error: "Too many password reset attempts. Please try again later."
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
+  const passwordResetLimit = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 5, // Limit each IP to 5 password reset attempts per windowMs
+    message: {
+      error: "Too many password reset attempts. Please try again later."
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
+  const RESET_TOKEN_TTL_MS = 15 * 60 * 1000;
+  const resetRequestedMessage = "If a merchant account with that username or email exists, a password reset link has been sent.";
+
+  // Merchants that can't sign in get no reset token either
+  const canResetPassword = (merchant: Merchant | undefined): merchant is Merchant =>
+    !!merchant && merchant.status !== 'rejected' && merchant.status !== 'deactivated';
+
+  // Password reset endpoints (no authentication required); only the SHA-256 of the token is stored
+  app.post("/api/merchant/request-password-reset", passwordResetRequestLimit, async (req, res) => {
+    try {
+      const { identifier } = merchantPasswordResetRequestSchema.parse(req.body);
+      const merchant = await storage.getMerchantByUsername(identifier) ?? await storage.getMerchantByEmail(identifier);
+
+      // Same response whether or not the account exists to prevent username/email enumeration
+      if (!canResetPassword(merchant)) {
+        return res.status(200).json({ success: true, message: resetRequestedMessage });
+      }
+
+      const resetToken = randomBytes(32).toString('hex');
+      const resetTokenHash = createHash('sha256').update(resetToken).digest('hex');
+      await storage.updateMerchantResetToken(merchant.id, resetTokenHash, new Date(Date.now() + RESET_TOKEN_TTL_MS));
+      await AuditService.record(req, {
+        action: 'merchant.password_reset_requested',
+        targetType: 'merchant',
+        targetId: merchant.id,
+        actor: { type: 'anonymous' }
+      });
+
+      await NotificationService.notifyMerchant(merchant, 'password_reset', {
+        name: merchant.name,
+        portal: 'merchant',
+        resetUrl: NotificationService.appUrl(`/merchant/reset-password?token=${resetToken}`),
+        expiresInMinutes: RESET_TOKEN_TTL_MS / 60000
+      });
+
+      res.status(200).json({
+        success: true,
+        message: resetRequestedMessage,
+        // Development only, so the flow can be exercised without email
+        resetToken: process.env.NODE_ENV === 'development' ? resetToken : undefined
+      });
+    } catch (error) {
+      handlePasswordError(res, error, "Failed to process password reset request");
+    }
+  });
+
+  app.post("/api/merchant/reset-password", passwordResetLimit, async (req, res) => {
+    try {
+      const { token, newPassword } = merchantPasswordResetSchema.parse(req.body);
+
+      // Lookup includes the expiry check
+      const tokenHash = createHash('sha256').update(token).digest('hex');
+      const merchant = await storage.getMerchantByResetTokenHash(tokenHash);
+      if (!merchant) {
+        return res.status(400).json({ error: "Invalid or expired reset token" });
+      }
+      if (!canResetPassword(merchant)) {
+        return res.status(403).json({ error: "Account access denied" });
+      }
+
+      // Also clears the token so it can't be used twice
+      await storage.updateMerchantPassword(merchant.id, await hashPassword(newPassword));
+
+      console.log(`Password reset successful for merchant: ${merchant.username}`);
+      await AuditService.record(req, {
+        action: 'merchant.password_reset',
+        targetType: 'merchant',
+        targetId: merchant.id,
+        actor: { type: 'merchant', id: merchant.id, name: merchant.username }
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Password has been reset successfully. You can now log in with your new password."
+      });
+    } catch (error) {
+      handlePasswordError(res, error, "Failed to reset password");
+    }
+  });
+
   // Merchant routes protected by requireMerchant middleware are handled individually
   // No global middleware needed here as each route now has specific protection
 }
\ No newline at end of file
@@ -0,0 +1,424 @@
+import { connect as netConnect, type Socket } from 'net';
+import { connect as tlsConnect } from 'tls';
+import { hostname } from 'os';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { storage } from './storage';
+import type { Merchant, Notification, NotificationTemplate, NotificationRecipientType } from '@shared/schema';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Where messages actually go. SMTP for real delivery (or a local catcher such as Mailpit on port 1025),
+// file for inspecting .eml output, console for development.
+export interface NotificationTransport {
+  readonly name: 'smtp' | 'file' | 'console';
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+export interface NotificationRecipient {
+  email: string;
+  type: NotificationRecipientType;
+  id?: string | null;
+}
+
+// Inputs for each template. Fields named in SECRET_FIELDS are rendered but never stored.
+export interface NotificationTemplateData {
+  signup_invite: { signupUrl: string; expiresAt: Date };
+  credentials_reset: { merchantName: string; username: string; temporaryPassword: string };
+  password_reset: { name: string; portal: 'admin' | 'merchant'; resetUrl: string; expiresInMinutes: number };
+  kyc_approved: { merchantName: string };
+  kyc_rejected: { merchantName: string; reason: string | null };
+  deposit_address_ready: { merchantName: string; asset: string; network: string; address: string };
+  payment_received: {
+    merchantName: string;
+    partnerOrderId: string;
+    fiatAmount: string | null;
+    fiatCurrency: string | null;
+    cryptoAmount: string | null;
+    cryptoCurrency: string | null;
+  };
+  fee_change: { merchantName: string; scopeLabel: string; description: string; effectiveFrom: Date; reason: string | null };
+  credentials_failed: { merchantName: string; provider: string; status: 'invalid' | 'expired'; reason: string | null };
+}
+
+type RenderedTemplate = { subject: string; text: string };
+
+// Header values come partly from merchant input, so line breaks are removed to prevent header injection
+const headerValue = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const base64Body = (content: string) =>
+  (Buffer.from(content, 'utf8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+
+// RFC 5322 message with text and HTML alternatives, used by the SMTP and file transports
+function buildMime(message: EmailMessage, messageId: string): string {
+  const boundary = `ruupay_${randomBytes(12).toString('hex')}`;
+  return [
+    `From: ${headerValue(message.from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(headerValue(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+function newMessageId(from: string): string {
+  const domain = addressOf(from).split('@')[1] || 'ruupay.local';
+  return `<${Date.now()}.${randomBytes(8).toString('hex')}@${domain}>`;
+}
+
+export class ConsoleTransport implements NotificationTransport {
+  readonly name = 'console' as const;
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    const messageId = newMessageId(message.from);
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+    return { messageId };
+  }
+}
+
+// Writes each message as an .eml file that any mail client can open
+export class FileTransport implements NotificationTransport {
+  readonly name = 'file' as const;
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    const messageId = newMessageId(message.from);
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = path.join(this.directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(4).toString('hex')}.eml`);
+    await fs.writeFile(file, buildMime(message, messageId));
+    console.log(`📧 Email to ${message.to} written to ${file}`);
+    return { messageId };
+  }
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  user?: string;
+  password?: string;
+  timeoutMs: number;
+}
+
+// Line-oriented SMTP reply reader over a plain or TLS socket
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private failure: Error | null = null;
+  private waiter: (() => void) | null = null;
+
+  private constructor(private socket: Socket, private readonly timeoutMs: number) {
+    this.attach();
+  }
+
+  static open(config: SmtpConfig): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket: Socket = config.secure
+        ? tlsConnect({ host: config.host, port: config.port, servername: config.host })
+        : netConnect({ host: config.host, port: config.port });
+      socket.setTimeout(config.timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+      socket.once('error', reject);
+      socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new SmtpConnection(socket, config.timeoutMs));
+      });
+    });
+  }
+
+  // Expects the reply code (or one of them); the label keeps credentials and message bodies out of errors
+  async command(line: string | null, expected: number | number[], label?: string): Promise<string> {
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`);
+    }
+    const reply = await this.readReply();
+    if (!([] as number[]).concat(expected).includes(reply.code)) {
+      throw new Error(`SMTP ${label ?? line?.split(' ')[0] ?? 'greeting'} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply.text;
+  }
+
+  // STARTTLS: the TLS socket takes over the existing connection
+  upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    return new Promise((resolve, reject) => {
+      const secure = tlsConnect({ socket: plain, servername: host }, () => {
+        secure.off('error', reject);
+        secure.setTimeout(this.timeoutMs, () => secure.destroy(new Error('SMTP connection timed out')));
+        this.socket = secure;
+        this.attach();
+        resolve();
+      });
+      secure.once('error', reject);
+    });
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(): void {
+    this.socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.waiter?.();
+    });
+    this.socket.on('error', (error: Error) => {
+      this.failure = error;
+      this.waiter?.();
+    });
+    this.socket.on('close', () => {
+      this.failure = this.failure ?? new Error('SMTP connection closed');
+      this.waiter?.();
+    });
+  }
+
+  // Multi-line replies use "250-" on every line but the last
+  private async readReply(): Promise<{ code: number; text: string }> {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await this.nextLine();
+      lines.push(line);
+      if (line.charAt(3) !== '-') {
+        return { code: parseInt(line.slice(0, 3), 10), text: lines.map(l => l.slice(4)).join('\n') };
+      }
+    }
+  }
+
+  private nextLine(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        if (this.lines.length > 0) {
+          this.waiter = null;
+          resolve(this.lines.shift()!);
+        } else if (this.failure) {
+          this.waiter = null;
+          reject(this.failure);
+        } else {
+          this.waiter = check;
+        }
+      };
+      check();
+    });
+  }
+}
+
+// An address with a line break would let its owner append SMTP commands after MAIL FROM / RCPT TO
+const envelopeAddress = (mailbox: string) => {
+  const address = addressOf(mailbox);
+  if (/[\r\n<>]/.test(address)) {
+    throw new Error('Invalid email address');
+  }
+  return address;
+};
+
+// Minimal SMTP client: EHLO, optional STARTTLS, AUTH PLAIN (only over TLS), one recipient per message
+export class SmtpTransport implements NotificationTransport {
+  readonly name = 'smtp' as const;
+
+  constructor(private readonly config: SmtpConfig) {}
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    const from = envelopeAddress(message.from);
+    const to = envelopeAddress(message.to);
+    const messageId = newMessageId(message.from);
+    const connection = await SmtpConnection.open(this.config);
+    const helo = `EHLO ${hostname() || 'localhost'}`;
+
+    try {
+      await connection.command(null, 220);
+      let capabilities = await connection.command(helo, 250);
+      let encrypted = this.config.secure;
+
+      if (!encrypted && /^STARTTLS$/m.test(capabilities)) {
+        await connection.command('STARTTLS', 220);
+        await connection.upgrade(this.config.host);
+        capabilities = await connection.command(helo, 250);
+        encrypted = true;
+      }
+
+      if (this.config.user) {
+        // AUTH PLAIN is just base64, so never send it where a network observer could read it
+        if (!encrypted) {
+          throw new Error('SMTP server does not offer TLS; refusing to send credentials in plain text');
+        }
+        const credentials = Buffer.from(`\u0000${this.config.user}\u0000${this.config.password ?? ''}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, 235, 'AUTH');
+      }
+
+      await connection.command(`MAIL FROM:<${from}>`, 250, 'MAIL FROM');
+      await connection.command(`RCPT TO:<${to}>`, [250, 251], 'RCPT TO');
+      await connection.command('DATA', 354);
+      // Dot-stuffing so a line starting with "." isn't read as the end of the message
+      await connection.command(`${buildMime(message, messageId).replace(/^\./gm, '..')}\r\n.`, 250, 'message');
+      await connection.command('QUIT', 221).catch(() => undefined);
+      return { messageId };
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+// Templated outbound email. Every message is recorded in the notifications table with its delivery outcome.
+// Transport: NOTIFICATION_TRANSPORT=smtp|file|console (default smtp when SMTP_HOST is set, else console).
+export class NotificationService {
+  private static readonly FROM = process.env.NOTIFICATION_FROM || 'Ruupay <no-reply@ruupay.local>';
+  private static readonly OUTBOX_DIR = process.env.NOTIFICATION_OUTBOX_DIR || '.outbox';
+  private static readonly SECRET_FIELDS = new Set(['temporaryPassword', 'resetUrl', 'signupUrl']);
+
+  private static selectedTransport: NotificationTransport | null = null;
+
+  private static readonly TEMPLATES: { [T in NotificationTemplate]: (data: NotificationTemplateData[T]) => RenderedTemplate } = {
+    signup_invite: data => ({
+      subject: 'You are invited to open a Ruupay merchant account',
+      text: `You have been invited to create a Ruupay merchant account and start accepting crypto payments.\n\nRegister here: ${data.signupUrl}\n\nThis link can be used once and expires on ${data.expiresAt.toUTCString()}.`
+    }),
+    credentials_reset: data => ({
+      subject: 'Your Ruupay login has been reset',
+      text: `Hello ${data.merchantName},\n\nAn administrator reset the login for your merchant account.\n\nUsername: ${data.username}\nTemporary password: ${data.temporaryPassword}\n\nSign in at ${NotificationService.appUrl('/merchant/login')} and change this password from the Security page.`
+    }),
+    password_reset: data => ({
+      subject: 'Reset your Ruupay password',
+      text: `Hello ${data.name},\n\nWe received a request to reset the password for your Ruupay ${data.portal} account.\n\nChoose a new password here: ${data.resetUrl}\n\nThe link expires in ${data.expiresInMinutes} minutes. If you didn't ask for this, you can ignore this email.`
+    }),
+    kyc_approved: data => ({
+      subject: 'Your Ruupay verification is approved',
+      text: `Hello ${data.merchantName},\n\nYour business verification has been approved. We are setting up your accounts and deposit addresses now, and will email you when they are ready.\n\n${NotificationService.appUrl('/merchant/account-status')}`
+    }),
+    kyc_rejected: data => ({
+      subject: 'Your Ruupay verification needs attention',
+      text: `Hello ${data.merchantName},\n\nWe couldn't approve your business verification.${data.reason ? `\n\nReason: ${data.reason}` : ''}\n\nYou can review the details and try again from your dashboard: ${NotificationService.appUrl('/merchant/onboarding')}`
+    }),
+    deposit_address_ready: data => ({
+      subject: `Your ${data.asset} deposit address is ready`,
+      text: `Hello ${data.merchantName},\n\nYour ${data.asset} deposit address on ${data.network} is ready:\n\n${data.address}\n\nOnly send ${data.asset} on the ${data.network} network to this address.`
+    }),
+    payment_received: data => ({
+      subject: `Payment received: ${data.cryptoAmount ?? data.fiatAmount ?? ''} ${data.cryptoCurrency ?? data.fiatCurrency ?? ''}`.trim(),
+      text: `Hello ${data.merchantName},\n\nA payment has completed.\n\nOrder: ${data.partnerOrderId}${data.fiatAmount ? `\nAmount: ${data.fiatAmount} ${data.fiatCurrency ?? ''}` : ''}${data.cryptoAmount ? `\nCrypto: ${data.cryptoAmount} ${data.cryptoCurrency ?? ''}` : ''}\n\nDetails: ${NotificationService.appUrl('/merchant')}`
+    }),
+    fee_change: data => ({
+      subject: 'Your Ruupay platform fee has changed',
+      text: `Hello ${data.merchantName},\n\n${data.scopeLabel} platform fee is now ${data.description}, effective ${data.effectiveFrom.toUTCString()}.${data.reason ? `\n\n${data.reason}` : ''}`
+    }),
+    credentials_failed: data => ({
+      subject: `Your ${data.provider} credentials need attention`,
+      text: `Hello ${data.merchantName},\n\n${data.provider} no longer accepts the API credentials saved for your account (${data.status}).${data.reason ? `\n\nDetails: ${data.reason}` : ''}\n\nWe have stopped using them. Update them here: ${NotificationService.appUrl('/merchant/account-status')}`
+    })
+  };
+
+  static transport(): NotificationTransport {
+    if (!this.selectedTransport) {
+      const configured = process.env.NOTIFICATION_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+      if (configured === 'smtp') {
+        if (!process.env.SMTP_HOST) {
+          throw new Error('NOTIFICATION_TRANSPORT=smtp requires SMTP_HOST');
+        }
+        const secure = process.env.SMTP_SECURE === 'true';
+        this.selectedTransport = new SmtpTransport({
+          host: process.env.SMTP_HOST,
+          port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+          secure,
+          user: process.env.SMTP_USER,
+          password: process.env.SMTP_PASS,
+          timeoutMs: parseInt(process.env.SMTP_TIMEOUT_SECONDS || '10', 10) * 1000
+        });
+      } else if (configured === 'file') {
+        this.selectedTransport = new FileTransport(this.OUTBOX_DIR);
+      } else {
+        this.selectedTransport = new ConsoleTransport();
+      }
+      console.log(`📧 Notifications sent via ${this.selectedTransport.name} transport`);
+    }
+    return this.selectedTransport;
+  }
+
+  // Absolute link into the app for email bodies
+  static appUrl(pathname: string): string {
+    return `${(process.env.BASE_URL || 'http://localhost:5000').replace(/\/$/, '')}${pathname}`;
+  }
+
+  static render<T extends NotificationTemplate>(template: T, data: NotificationTemplateData[T]): RenderedTemplate & { html: string } {
+    const rendered = (this.TEMPLATES[template] as (data: NotificationTemplateData[T]) => RenderedTemplate)(data);
+    return { ...rendered, html: this.toHtml(rendered.text) };
+  }
+
+  // Render, send and record one email. Never throws: a notification problem must not break the flow that triggered it.
+  static async send<T extends NotificationTemplate>(template: T, recipient: NotificationRecipient, data: NotificationTemplateData[T]): Promise<Notification | null> {
+    let notification: Notification | null = null;
+    try {
+      const transport = this.transport();
+      const { subject, text, html } = this.render(template, data);
+      notification = await storage.createNotification({
+        template,
+        channel: 'email',
+        recipient: recipient.email,
+        recipientType: recipient.type,
+        recipientId: recipient.id ?? null,
+        subject,
+        status: 'pending',
+        transport: transport.name,
+        metadata: this.metadataOf(data)
+      });
+
+      const { messageId } = await transport.send({ from: this.FROM, to: recipient.email, subject, text, html });
+      return await storage.updateNotification(notification.id, { status: 'sent', providerMessageId: messageId, sentAt: new Date() }) ?? notification;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Failed to send ${template} email to ${recipient.email}:`, message);
+      if (notification) {
+        await storage.updateNotification(notification.id, { status: 'failed', error: message }).catch(() => undefined);
+      }
+      return notification;
+    }
+  }
+
+  static notifyMerchant<T extends NotificationTemplate>(merchant: Pick<Merchant, 'id' | 'email'>, template: T, data: NotificationTemplateData[T]): Promise<Notification | null> {
+    return this.send(template, { email: merchant.email, type: 'merchant', id: merchant.id }, data);
+  }
+
+  private static metadataOf(data: object): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(data).filter(([key]) => !this.SECRET_FIELDS.has(key)));
+  }
+
+  private static toHtml(text: string): string {
+    const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    const linked = escaped.replace(/https?:\/\/[^\s<]+/g, url => `<a href="${url}">${url}</a>`);
+    const paragraphs = linked.split('\n\n').map(paragraph => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`).join('\n');
+    return `<!doctype html><html><body style="font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: #111827;">\n${paragraphs}\n</body></html>`;
+  }
+}
@@ -0,0 +1,243 @@
+import { storage } from './storage';
+import { WebhookDeliveryService } from './webhook-delivery-service';
+import { NotificationService } from './notification-service';
+import type { Merchant, InsertMerchant, OnboardingState, OnboardingTrigger } from '@shared/schema';
+
+export interface OnboardingTransitionOptions {
+  trigger: OnboardingTrigger;
+  actorId?: string | null;
+  reason?: string | null;
+  updates?: Partial<InsertMerchant>; // Other merchant columns written with the change (applied even when the state does not move)
+  force?: boolean; // Admin override of the transition table
+}
+
+export interface OnboardingTransitionResult {
+  merchant: Merchant;
+  from: OnboardingState;
+  to: OnboardingState;
+  changed: boolean;
+}
+
+// Merchant onboarding state machine. onboardingState is the source of truth; status, kybStatus and
+// cybridIntegrationStatus are mirrored from it so existing readers keep working.
+export class OnboardingService {
+  private static readonly TRANSITIONS: Record<OnboardingState, OnboardingState[]> = {
+    registered: ['customer_created', 'customer_error', 'deactivated'],
+    customer_error: ['customer_created', 'deactivated'],
+    customer_created: ['kyc_in_review', 'kyc_rejected', 'provisioning', 'deactivated'],
+    kyc_in_review: ['kyc_rejected', 'provisioning', 'deactivated'],
+    kyc_rejected: ['kyc_in_review', 'provisioning', 'deactivated'],
+    provisioning: ['active', 'provisioning_failed', 'deactivated'],
+    provisioning_failed: ['provisioning', 'active', 'deactivated'],
+    active: ['provisioning', 'deactivated'],
+    deactivated: [] // Left through reactivate(), which restores the state before deactivation
+  };
+
+  private static readonly KYC_APPROVED_STATES: OnboardingState[] = ['provisioning', 'provisioning_failed', 'active'];
+
+  // Current state; merchants created before the state machine are derived from the legacy columns
+  static stateOf(merchant: Merchant): OnboardingState {
+    if (merchant.onboardingState) {
+      return merchant.onboardingState as OnboardingState;
+    }
+    if (merchant.status === 'deactivated' || merchant.status === 'rejected') {
+      return 'deactivated';
+    }
+    if (merchant.kybStatus === 'approved' || merchant.kybStatus === 'verified') {
+      if (merchant.tradeAccountStatus === 'created' && merchant.depositAddressStatus === 'created') {
+        return 'active';
+      }
+      return merchant.tradeAccountStatus === 'error' ? 'provisioning_failed' : 'provisioning';
+    }
+    if (merchant.kybStatus === 'rejected' || merchant.kybStatus === 'failed') {
+      return 'kyc_rejected';
+    }
+    if (merchant.kybStatus === 'in_review' || merchant.kybStatus === 'review') {
+      return 'kyc_in_review';
+    }
+    if (merchant.cybridCustomerGuid) {
+      return 'customer_created';
+    }
+    return merchant.cybridIntegrationStatus === 'error' ? 'customer_error' : 'registered';
+  }
+
+  static canTransition(from: OnboardingState, to: OnboardingState): boolean {
+    return this.TRANSITIONS[from].includes(to);
+  }
+
+  static allowedTransitions(state: OnboardingState): OnboardingState[] {
+    return this.TRANSITIONS[state];
+  }
+
+  static isKycApproved(merchant: Merchant): boolean {
+    return this.KYC_APPROVED_STATES.includes(this.stateOf(merchant));
+  }
+
+  // Onboarding state implied by a Cybrid KYC status (pending tells us nothing new)
+  static stateForKycStatus(kycStatus: string): OnboardingState | null {
+    switch (kycStatus) {
+      case 'approved':
+      case 'verified':
+        return 'provisioning';
+      case 'rejected':
+      case 'failed':
+        return 'kyc_rejected';
+      case 'in_review':
+        return 'kyc_in_review';
+      default:
+        return null;
+    }
+  }
+
+  // Legacy column values for a state
+  private static mirror(state: OnboardingState): Partial<InsertMerchant> {
+    switch (state) {
+      case 'registered':
+        return { status: 'approved', kybStatus: 'pending', cybridIntegrationStatus: 'pending' };
+      case 'customer_created':
+        return { status: 'approved', kybStatus: 'pending', cybridIntegrationStatus: 'active' };
+      case 'customer_error':
+        return { status: 'approved', kybStatus: 'pending', cybridIntegrationStatus: 'error' };
+      case 'kyc_in_review':
+        return { status: 'approved', kybStatus: 'in_review', cybridIntegrationStatus: 'active' };
+      case 'kyc_rejected':
+        return { status: 'approved', kybStatus: 'rejected', cybridIntegrationStatus: 'error' };
+      case 'provisioning':
+      case 'provisioning_failed':
+      case 'active':
+        return { status: 'approved', kybStatus: 'approved', cybridIntegrationStatus: 'active' };
+      case 'deactivated':
+        return { status: 'deactivated' };
+    }
+  }
+
+  // Move a merchant to a new state; throws on a transition the table does not allow unless forced
+  static async transition(merchantId: string, to: OnboardingState, options: OnboardingTransitionOptions): Promise<OnboardingTransitionResult> {
+    const merchant = await storage.getMerchant(merchantId);
+    if (!merchant) {
+      throw new Error(`Merchant ${merchantId} not found`);
+    }
+
+    const from = this.stateOf(merchant);
+    if (from !== to && !options.force && !this.canTransition(from, to)) {
+      throw new Error(`Invalid onboarding transition ${from} → ${to}`);
+    }
+
+    return this.apply(merchant, from, to, options);
+  }
+
+  // Like transition(), but a transition the table does not allow is skipped instead of rejected.
+  // Used for signals from Cybrid and background jobs, which can arrive late or out of order.
+  static async advance(merchantId: string, to: OnboardingState, options: OnboardingTransitionOptions): Promise<OnboardingTransitionResult> {
+    const merchant = await storage.getMerchant(merchantId);
+    if (!merchant) {
+      throw new Error(`Merchant ${merchantId} not found`);
+    }
+
+    const from = this.stateOf(merchant);
+    // A repeated KYC approval must not send an already approved merchant back into provisioning
+    const repeatedApproval = to === 'provisioning' && this.KYC_APPROVED_STATES.includes(from);
+    if (from !== to && (repeatedApproval || !this.canTransition(from, to))) {
+      console.log(`🧭 Merchant ${merchantId} onboarding: ignoring ${from} → ${to} from ${options.trigger}`);
+      return this.apply(merchant, from, from, options);
+    }
+
+    return this.apply(merchant, from, to, options);
+  }
+
+  static async deactivate(merchantId: string, actorId: string, reason: string): Promise<OnboardingTransitionResult> {
+    return this.transition(merchantId, 'deactivated', { trigger: 'admin', actorId, reason });
+  }
+
+  // Return a deactivated merchant to the state it was in before deactivation
+  static async reactivate(merchantId: string, actorId: string, reason: string): Promise<OnboardingTransitionResult> {
+    const merchant = await storage.getMerchant(merchantId);
+    if (!merchant) {
+      throw new Error(`Merchant ${merchantId} not found`);
+    }
+    if (this.stateOf(merchant) !== 'deactivated') {
+      throw new Error('Merchant is not deactivated');
+    }
+
+    const history = await storage.getMerchantStateTransitions(merchantId);
+    const deactivation = history.find(transition => transition.toState === 'deactivated');
+    const previous = deactivation
+      ? deactivation.fromState as OnboardingState
+      : this.stateOf({ ...merchant, onboardingState: null, status: 'approved' });
+
+    return this.apply(merchant, 'deactivated', previous, { trigger: 'admin', actorId, reason });
+  }
+
+  // Settle a provisioning merchant once the account summary shows the outcome
+  static async syncProvisioning(merchantId: string): Promise<void> {
+    const merchant = await storage.getMerchant(merchantId);
+    if (!merchant) {
+      return;
+    }
+
+    const state = this.stateOf(merchant);
+    if (state !== 'provisioning' && state !== 'provisioning_failed') {
+      return;
+    }
+
+    if (merchant.tradeAccountStatus === 'created' && merchant.depositAddressStatus === 'created') {
+      await this.advance(merchantId, 'active', { trigger: 'provisioning' });
+    } else if (merchant.tradeAccountStatus === 'error' && state === 'provisioning') {
+      await this.advance(merchantId, 'provisioning_failed', { trigger: 'provisioning', reason: merchant.cybridLastError });
+    }
+  }
+
+  private static async apply(merchant: Merchant, from: OnboardingState, to: OnboardingState, options: OnboardingTransitionOptions): Promise<OnboardingTransitionResult> {
+    if (from === to) {
+      // Nothing to record, but persist accompanying updates and pin the state of legacy rows
+      if (!options.updates && merchant.onboardingState) {
+        return { merchant, from, to, changed: false };
+      }
+      const updated = await storage.updateMerchant(merchant.id, { ...options.updates, onboardingState: to });
+      return { merchant: updated ?? merchant, from, to, changed: false };
+    }
+
+    const updated = await storage.applyMerchantTransition(merchant.id, {
+      ...options.updates,
+      ...this.mirror(to),
+      onboardingState: to
+    }, {
+      merchantId: merchant.id,
+      fromState: from,
+      toState: to,
+      trigger: options.trigger,
+      actorId: options.actorId ?? null,
+      reason: options.reason ?? null,
+      forced: !!options.force && !this.canTransition(from, to)
+    });
+    if (!updated) {
+      throw new Error(`Merchant ${merchant.id} not found`);
+    }
+
+    console.log(`🧭 Merchant ${merchant.id} onboarding: ${from} → ${to} (${options.trigger}${options.reason ? `: ${options.reason}` : ''})`);
+    await this.notify(updated, from, to, options.reason ?? null);
+    return { merchant: updated, from, to, changed: true };
+  }
+
+  // KYB outcome webhooks and emails for merchants, sent once when the state first reflects the decision
+  private static async notify(merchant: Merchant, from: OnboardingState, to: OnboardingState, reason: string | null): Promise<void> {
+    const wasApproved = this.KYC_APPROVED_STATES.includes(from);
+
+    if (to === 'provisioning' && !wasApproved) {
+      await WebhookDeliveryService.emit(merchant.id, 'kyb.approved', {
+        merchantId: merchant.id,
+        kybStatus: 'approved',
+        verificationGuid: merchant.cybridVerificationGuid
+      });
+      await NotificationService.notifyMerchant(merchant, 'kyc_approved', { merchantName: merchant.name });
+    } else if (to === 'kyc_rejected') {
+      await WebhookDeliveryService.emit(merchant.id, 'kyb.rejected', {
+        merchantId: merchant.id,
+        kybStatus: 'rejected',
+        verificationGuid: merchant.cybridVerificationGuid,
+        failureReason: reason
+      });
+      await NotificationService.notifyMerchant(merchant, 'kyc_rejected', { merchantName: merchant.name, reason });
+    }
+  }
+}
@@ -0,0 +1,319 @@
+import { storage } from './storage';
+import { CybridService, type CybridCustomer } from './cybrid-service';
+import { OnboardingService } from './onboarding-service';
+import { JobQueueService } from './job-queue-service';
+import type { Job, Merchant, OnboardingState, ReconciliationDiscrepancy, ReconciliationMerchantError, ReconciliationRun, ReconciliationRunTrigger, SupportedCryptoAsset } from '@shared/schema';
+
+type DiscrepancyInput = Omit<ReconciliationDiscrepancy, 'merchantId' | 'merchantName'>;
+
+// Periodically compares every merchant with Cybrid (customer, latest verification, trade accounts,
+// deposit addresses) and repairs local drift that webhooks missed. Drift that can't be repaired
+// safely (e.g. a record Cybrid no longer has) is only reported, for an admin to resolve.
+export class ReconciliationService {
+  private static readonly INTERVAL_MS = parseInt(process.env.RECONCILIATION_INTERVAL_MINUTES || '360', 10) * 60 * 1000;
+
+  // Summary columns rebuilt from the per-asset records on every run
+  private static readonly SUMMARY_FIELDS = ['cybridTradeAccountGuid', 'tradeAccountStatus', 'depositAddress', 'depositAddressStatus'] as const;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+
+  // Start the reconciliation timer (no-op if already started)
+  static start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`🔎 Cybrid reconciliation scheduled every ${this.INTERVAL_MS / 60000} minutes`);
+    this.timer = setInterval(() => {
+      this.trigger('scheduled').catch(error => {
+        console.error('Reconciliation run failed to start:', error);
+      });
+    }, this.INTERVAL_MS);
+  }
+
+  static isInProgress(): boolean {
+    return this.isRunning;
+  }
+
+  // Record a new run and reconcile in the background; returns null if a run is already in progress
+  static async trigger(trigger: ReconciliationRunTrigger, triggeredBy: string | null = null): Promise<ReconciliationRun | null> {
+    // Skip overlapping runs if Cybrid is slow
+    if (this.isRunning) {
+      console.log('Reconciliation run already in progress, skipping');
+      return null;
+    }
+
+    this.isRunning = true;
+    let run: ReconciliationRun;
+    try {
+      run = await storage.createReconciliationRun({ trigger, triggeredBy, status: 'running' });
+    } catch (error) {
+      this.isRunning = false;
+      throw error;
+    }
+
+    this.execute(run)
+      .catch(error => {
+        console.error(`Reconciliation run ${run.id} failed:`, error);
+      })
+      .finally(() => {
+        this.isRunning = false;
+      });
+
+    return run;
+  }
+
+  private static async execute(run: ReconciliationRun): Promise<void> {
+    const discrepancies: ReconciliationDiscrepancy[] = [];
+    const merchantErrors: ReconciliationMerchantError[] = [];
+    const totals = () => ({
+      discrepancies,
+      merchantErrors,
+      discrepancyCount: discrepancies.length,
+      repairedCount: discrepancies.filter(discrepancy => discrepancy.repaired).length,
+      errorCount: merchantErrors.length,
+      completedAt: new Date()
+    });
+
+    try {
+      const merchants = await storage.getAllMerchants();
+
+      // One customer listing serves the customer checks for every merchant
+      const customers = await CybridService.getAllCustomers();
+      const customersByGuid = new Map(customers.map(customer => [customer.guid, customer]));
+      const customersByExternalId = new Map(customers
+        .filter(customer => customer.external_customer_id)
+        .map(customer => [customer.external_customer_id, customer]));
+
+      console.log(`🔎 Reconciling ${merchants.length} merchants against ${customers.length} Cybrid customers`);
+
+      for (const merchant of merchants) {
+        try {
+          discrepancies.push(...await this.reconcileMerchant(merchant, customersByGuid, customersByExternalId));
+        } catch (error) {
+          console.error(`Failed to reconcile merchant ${merchant.id}:`, error);
+          merchantErrors.push({
+            merchantId: merchant.id,
+            merchantName: merchant.name,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      const result = totals();
+      await storage.updateReconciliationRun(run.id, { ...result, status: 'completed', merchantsChecked: merchants.length });
+      console.log(`🔎 Reconciliation complete: ${result.discrepancyCount} discrepancies (${result.repairedCount} repaired), ${result.errorCount} errors across ${merchants.length} merchants`);
+    } catch (error) {
+      await storage.updateReconciliationRun(run.id, {
+        ...totals(),
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Compare one merchant with Cybrid, repairing what can be repaired, and return what was found
+  private static async reconcileMerchant(
+    initial: Merchant,
+    customersByGuid: Map<string, CybridCustomer>,
+    customersByExternalId: Map<string, CybridCustomer>
+  ): Promise<ReconciliationDiscrepancy[]> {
+    const found: ReconciliationDiscrepancy[] = [];
+    const report = (discrepancy: DiscrepancyInput) => {
+      found.push({ merchantId: initial.id, merchantName: initial.name, ...discrepancy });
+    };
+    let merchant = initial;
+
+    // Customer: link a Cybrid customer created for us but never recorded (e.g. a lost API response)
+    if (!merchant.cybridCustomerGuid) {
+      const customer = customersByExternalId.get(merchant.id);
+      if (!customer) {
+        return found;
+      }
+
+      const result = await OnboardingService.advance(merchant.id, 'customer_created', {
+        trigger: 'reconciliation',
+        reason: 'Cybrid customer found by external id',
+        updates: { cybridCustomerGuid: customer.guid, cybridLastSyncedAt: new Date() }
+      });
+      merchant = result.merchant;
+      report({ check: 'customer', field: 'cybridCustomerGuid', localValue: null, remoteValue: customer.guid, repaired: true, detail: 'Linked existing Cybrid customer' });
+    }
+
+    const customerGuid = merchant.cybridCustomerGuid!;
+    const customer = customersByGuid.get(customerGuid);
+    if (!customer) {
+      // Seeded test customers only exist locally
+      if (!customerGuid.includes('test')) {
+        report({ check: 'customer', field: 'cybridCustomerGuid', localValue: customerGuid, remoteValue: null, repaired: false, detail: 'Customer not found in Cybrid' });
+      }
+      return found;
+    }
+
+    if (OnboardingService.stateOf(merchant) === 'customer_error') {
+      const result = await OnboardingService.advance(merchant.id, 'customer_created', {
+        trigger: 'reconciliation',
+        reason: 'Cybrid customer exists'
+      });
+      merchant = result.merchant;
+      report({ check: 'customer', field: 'onboardingState', localValue: 'customer_error', remoteValue: customer.state, repaired: result.changed, detail: 'Cleared customer creation error' });
+    }
+
+    if (merchant.cybridCustomerType !== customer.type) {
+      merchant = await storage.updateMerchant(merchant.id, { cybridCustomerType: customer.type }) ?? merchant;
+      report({ check: 'customer_type', field: 'cybridCustomerType', localValue: initial.cybridCustomerType, remoteValue: customer.type, repaired: true });
+    }
+
+    // KYC: apply the latest verification outcome (pending carries no signal, so it is never drift)
+    const kyc = await CybridService.getLatestKycStatus(customerGuid);
+    const state = OnboardingService.stateOf(merchant);
+    const targetState = OnboardingService.stateForKycStatus(kyc.status);
+    const localKyc = this.kycStatusOf(state);
+    if (targetState && localKyc && kyc.status !== localKyc) {
+      const result = await OnboardingService.advance(merchant.id, targetState, {
+        trigger: 'reconciliation',
+        reason: kyc.verificationGuid ? `Cybrid verification ${kyc.verificationGuid} is ${kyc.status}` : `Cybrid KYC status is ${kyc.status}`,
+        updates: { cybridVerificationGuid: kyc.verificationGuid, cybridLastSyncedAt: new Date() }
+      });
+      merchant = result.merchant;
+      report({
+        check: 'kyc',
+        field: 'kybStatus',
+        localValue: localKyc,
+        remoteValue: kyc.status,
+        repaired: result.changed,
+        detail: result.changed ? `${result.from} → ${result.to}` : `${result.from} → ${targetState} is not an allowed transition`
+      });
+    }
+
+    if (OnboardingService.isKycApproved(merchant)) {
+      (await this.reconcileProvisioning(merchant, customerGuid)).forEach(report);
+    }
+
+    return found;
+  }
+
+  // Trade accounts and deposit addresses for each provisioned asset, then the merchant summary columns
+  private static async reconcileProvisioning(merchant: Merchant, customerGuid: string): Promise<DiscrepancyInput[]> {
+    const found: DiscrepancyInput[] = [];
+    const [remoteAccounts, localAccounts, jobs] = await Promise.all([
+      CybridService.listTradeAccounts(customerGuid),
+      storage.getMerchantTradeAccounts(merchant.id),
+      storage.getJobs({ merchantId: merchant.id, type: 'provision_merchant_asset', limit: 50 })
+    ]);
+    const inFlight = jobs.filter(job => job.status === 'pending' || job.status === 'running');
+    const toProvision: SupportedCryptoAsset[] = [];
+
+    // Jobs are newest first. An asset whose last job died is left for an admin to retry rather than queued again,
+    // which would only repeat the same failure
+    const deadJobFor = (asset: SupportedCryptoAsset) => {
+      const latest = jobs.find(job => job.payload.asset === asset);
+      return latest?.status === 'dead' ? latest : undefined;
+    };
+    const deadJobDetail = (job: Job) => `Provisioning job ${job.id} is dead${job.lastError ? ` (${job.lastError})` : ''}; retry it from the job queue`;
+
+    for (const asset of CybridService.getProvisionedAssets()) {
+      if (inFlight.some(job => job.payload.asset === asset)) {
+        continue;
+      }
+
+      const local = localAccounts.find(account => account.asset === asset);
+      const remote = remoteAccounts.find(account => account.type === 'trading' && account.asset === asset);
+
+      const deadJob = deadJobFor(asset);
+
+      if (local?.status !== 'created' || !local.cybridAccountGuid) {
+        // Provisioning adopts an account Cybrid already has, so queueing covers both cases
+        if (!deadJob) {
+          toProvision.push(asset);
+        }
+        found.push({
+          check: 'trade_account',
+          asset,
+          field: 'status',
+          localValue: local?.status ?? null,
+          remoteValue: remote?.guid ?? null,
+          repaired: !deadJob,
+          detail: deadJob
+            ? deadJobDetail(deadJob)
+            : remote ? 'Queued provisioning to record the existing Cybrid account' : 'Queued provisioning'
+        });
+        continue;
+      }
+
+      if (!remoteAccounts.some(account => account.guid === local.cybridAccountGuid)) {
+        found.push({ check: 'trade_account', asset, field: 'cybridAccountGuid', localValue: local.cybridAccountGuid, remoteValue: remote?.guid ?? null, repaired: false, detail: 'Trade account not found in Cybrid' });
+        continue;
+      }
+
+      const [remoteAddresses, localAddress] = await Promise.all([
+        CybridService.listDepositAddresses(local.cybridAccountGuid),
+        storage.getDepositAddressByAccount(local.cybridAccountGuid)
+      ]);
+      const remoteAddress = remoteAddresses.find(address => address.address);
+
+      if (!localAddress) {
+        if (remoteAddress) {
+          await CybridService.ensureMerchantDepositAddress(local);
+        } else if (!deadJob) {
+          toProvision.push(asset);
+        }
+        found.push({
+          check: 'deposit_address',
+          asset,
+          field: 'address',
+          localValue: null,
+          remoteValue: remoteAddress?.address ?? null,
+          repaired: !!remoteAddress || !deadJob,
+          detail: remoteAddress
+            ? 'Recorded deposit address from Cybrid'
+            : deadJob ? deadJobDetail(deadJob) : 'Queued provisioning'
+        });
+      } else if (!remoteAddresses.some(address => address.guid === localAddress.cybridDepositAddressGuid || address.address === localAddress.address)) {
+        found.push({ check: 'deposit_address', asset, field: 'address', localValue: localAddress.address, remoteValue: remoteAddress?.address ?? null, repaired: false, detail: 'Deposit address not found in Cybrid' });
+      }
+    }
+
+    // Summary columns and the provisioning → active step are derived from the per-asset records
+    await CybridService.syncMerchantAccountSummary(merchant.id);
+    const synced = await storage.getMerchant(merchant.id);
+    if (synced) {
+      for (const field of this.SUMMARY_FIELDS) {
+        if ((merchant[field] ?? null) !== (synced[field] ?? null)) {
+          found.push({ check: 'account_summary', field, localValue: merchant[field] ?? null, remoteValue: synced[field] ?? null, repaired: true });
+        }
+      }
+      const before = OnboardingService.stateOf(merchant);
+      const after = OnboardingService.stateOf(synced);
+      if (before !== after) {
+        found.push({ check: 'account_summary', field: 'onboardingState', localValue: before, remoteValue: after, repaired: true, detail: `${before} → ${after}` });
+      }
+    }
+
+    if (toProvision.length > 0) {
+      await JobQueueService.enqueueMerchantProvisioning(merchant.id, customerGuid, toProvision);
+    }
+
+    return found;
+  }
+
+  // KYC status a local onboarding state implies; null when KYC is not meaningful (deactivated or no customer)
+  private static kycStatusOf(state: OnboardingState): string | null {
+    switch (state) {
+      case 'provisioning':
+      case 'provisioning_failed':
+      case 'active':
+        return 'approved';
+      case 'kyc_rejected':
+        return 'rejected';
+      case 'kyc_in_review':
+        return 'in_review';
+      case 'customer_created':
+        return 'pending';
+      default:
+        return null;
+    }
+  }
+}
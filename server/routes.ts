@@ -1,25 +1,37 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { initAuthCore, requireAdmin, requireMerchant, requireMerchantAuthenticated, requireMerchantKycVerified } from "./auth-core";
+import { initAuthCore, requireAdmin, requirePermission, hasAdminPermission, getAdminPermissions, isSuperAdmin, requireMerchant, requireMerchantAuthenticated, requireMerchantKycVerified } from "./auth-core";
 import { setupMerchantAuth, hashPassword, generateMerchantCredentials } from "./merchant-auth";
 import { setupAdminAuth, hashPassword as hashAdminPassword, generateAdminCredentials } from "./admin-auth";
-import { adminCreateMerchantSchema, insertAdminSchema, transakCredentialsSchema, createTransakSessionSchema, cybridCustomerParamsSchema, cybridCustomerCreateSchema, cybridDepositAddressSchema, insertMerchantDepositAddressSchema, createTradeAccountSchema, createSignupTokenSchema, publicMerchantRegistrationSchema } from "@shared/schema";
+import { adminCreateMerchantSchema, adminUpdateMerchantSchema, insertAdminSchema, transakCredentialsSchema, createTransakSessionSchema, cybridCustomerParamsSchema, cybridCustomerCreateSchema, cybridDepositAddressSchema, insertMerchantDepositAddressSchema, createTradeAccountSchema, createSignupTokenSchema, publicMerchantRegistrationSchema, createSellQuoteSchema, reissuePaymentLinkSchema, createInvoiceSchema, updateInvoiceSchema, updateGlobalFeeSchema, updateFeeTiersSchema, updateMerchantFeeSchema, scheduleFeeChangeSchema, feeScopes, webhookEndpointInputSchema, updateWebhookEndpointSchema, webhookEventFiltersSchema, adminOnboardingTransitionSchema, auditLogFiltersSchema, notificationFiltersSchema, createAdminUserSchema, updateAdminUserSchema, adminTwoFactorResetSchema, adminSecuritySettingsSchema, updateTransakCredentialPolicySchema, updateMerchantModeSchema, merchantModes, merchantModeEnvironments, type AdminSecuritySettings, type TransakCredentialPolicy, type AdminPermission, type Admin, type WebhookEvent, type Job, type MerchantWebhookEndpoint, type WebhookDelivery, type FeeScope, type Trade, type Invoice, type CreateTransakSession, type PaymentLink, type TransakCredentialSource, type Merchant, type MerchantCredentials, type MerchantMode } from "@shared/schema";
 import { randomBytes, createHmac, timingSafeEqual, createHash } from "crypto";
-import { TransakService, CredentialEncryption, PublicTransakService } from "./transak-service";
-import { CybridService } from "./cybrid-service";
-import { SecretManagerService } from "./secret-manager-service";
+import { TransakService, CredentialEncryption, PublicTransakService, type TransakOrderWebhook, type TransakCredentials } from "./transak-service";
+import { CybridService, type CybridAccountBalance, type CybridTrade } from "./cybrid-service";
+import { SecretStoreService } from "./secret-store";
+import { BalanceSnapshotService } from "./balance-snapshot-service";
+import { FeeService, type ResolvedFee } from "./fee-service";
+import { WebhookDeliveryService } from "./webhook-delivery-service";
+import { JobQueueService } from "./job-queue-service";
+import { OnboardingService } from "./onboarding-service";
+import { ReconciliationService } from "./reconciliation-service";
+import { AuditService } from "./audit-service";
+import { TwoFactorService } from "./two-factor-service";
+import { NotificationService } from "./notification-service";
+import { KeyRotationService } from "./key-rotation-service";
+import { TransakCredentialService } from "./transak-credential-service";
+import { CredentialHealthService } from "./credential-health-service";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Utility functions to sanitize data (remove passwords)
   const sanitizeMerchant = (merchant: any) => {
-    const { password, ...sanitized } = merchant;
+    const { password, resetToken, resetTokenExpiry, ...sanitized } = merchant;
     return sanitized;
   };
 
   const sanitizeAdmin = (admin: any) => {
-    const { password, ...sanitized } = admin;
+    const { password, resetToken, totpSecret, totpLastUsedStep, recoveryCodeHashes, ...sanitized } = admin;
     return sanitized;
   };
 
@@ -34,11 +46,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const adminData = insertAdminSchema.parse(req.body);
       const hashedPassword = await hashAdminPassword(adminData.password);
 
+      // The first admin manages everyone else, so it is always a super admin
       const admin = await storage.createAdmin({
         ...adminData,
+        role: "super_admin",
+        permissions: null,
         password: hashedPassword
       });
 
+      await AuditService.record(req, {
+        action: 'admin_user.bootstrap',
+        targetType: 'admin',
+        targetId: admin.id,
+        after: sanitizeAdmin(admin),
+        actor: { type: 'anonymous' }
+      });
       res.status(201).json({
         success: true,
         admin: sanitizeAdmin(admin)
@@ -88,8 +110,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Email already registered" });
       }
 
-      // Generate merchant credentials
-      const credentials = generateMerchantCredentials();
+      // Merchants may choose their own username and password; anything left out is generated
+      if (registrationData.username && await storage.getMerchantByUsername(registrationData.username)) {
+        return res.status(400).json({ error: "Username is already taken" });
+      }
+      const generated = generateMerchantCredentials();
+      const credentials = {
+        username: registrationData.username ?? generated.username,
+        password: registrationData.password ?? generated.password
+      };
       const hashedPassword = await hashPassword(credentials.password);
 
       // Create merchant with self-registration data
@@ -105,6 +134,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         description: registrationData.description || null,
         status: "approved",
         kybStatus: "pending",
+        onboardingState: "registered",
         cybridCustomerType: signupToken.cybridCustomerType, // Use customer type from signup token
         // Set defaults for other fields
         customFeeEnabled: false,
@@ -138,6 +168,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.markSignupTokenUsed(registrationData.token, merchant.id);
 
       console.log(`✅ Merchant self-registered successfully: ${merchant.name} (${merchant.email})`);
+      await AuditService.record(req, {
+        action: 'merchant.register',
+        targetType: 'merchant',
+        targetId: merchant.id,
+        after: sanitizeMerchant(merchant),
+        actor: { type: 'merchant', id: merchant.id, name: merchant.username },
+        metadata: { signupTokenId: signupToken.id }
+      });
 
       // 🚀 NEW: Automatically create Cybrid customer without admin approval
       let cybridResult = null;
@@ -152,11 +190,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           email: merchant.email
         }, customerType);
 
-        // 🔧 CRITICAL FIX: Persist Cybrid customer GUID and status to merchant record
+        // createCustomer moves the merchant to customer_created; record when we tried
         await storage.updateMerchant(merchant.id, {
-          cybridCustomerGuid: cybridCustomer.guid,
-          cybridIntegrationStatus: 'active',
-          cybridLastSyncedAt: new Date(),
           cybridLastAttemptAt: new Date()
         });
 
@@ -172,13 +207,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } catch (cybridError) {
         console.error(`❌ Failed to auto-create Cybrid customer for self-registered merchant ${merchant.id}:`, cybridError);
         
-        // 🔧 CRITICAL FIX: Persist error state to merchant record  
-        await storage.updateMerchant(merchant.id, {
-          cybridIntegrationStatus: 'error',
-          cybridLastError: cybridError instanceof Error ? cybridError.message : 'Unknown Cybrid error',
-          cybridLastAttemptAt: new Date()
-        });
-        
+        // createCustomer has already moved the merchant to customer_error with the message
         cybridResult = {
           success: false,
           customerGuid: null,
@@ -187,13 +216,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
       }
 
-      // Return the credentials for the user to save
+      // Return the credentials for the user to save (a password they chose is never echoed back)
       const response: any = {
         success: true,
         message: "Registration successful! Please save your login credentials:",
         credentials: {
           username: credentials.username,
-          password: credentials.password
+          password: registrationData.password ? undefined : credentials.password
         },
         merchant: sanitizeMerchant(merchant)
       };
@@ -261,10 +290,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const merchantId = req.user.id;
-      console.log(`Fetching deposit addresses for merchant: ${merchantId}`);
+      const mode = req.user.mode as MerchantMode;
+      console.log(`Fetching ${mode} deposit addresses for merchant: ${merchantId}`);
+
+      // Cybrid accounts only exist in the platform's Cybrid environment
+      if (mode !== CybridService.mode()) {
+        return res.json({
+          success: true,
+          addresses: [],
+          message: `Deposit addresses are only available in ${CybridService.mode()} mode`
+        });
+      }
       
-      // Fetch deposit addresses using Cybrid service (KYC already verified by middleware)
-      const addresses = await CybridService.getCustomerDepositAddresses(req.user.cybridCustomerGuid);
+      // Serve the per-asset addresses we provisioned; fall back to Cybrid for merchants provisioned before they were recorded
+      const recorded = (await storage.getMerchantDepositAddresses(merchantId, mode)).filter(a => a.isActive && a.address);
+      const addresses = recorded.length > 0
+        ? recorded.map(address => ({
+            guid: address.cybridDepositAddressGuid ?? address.id,
+            account_guid: address.cybridAccountGuid,
+            customer_guid: address.cybridCustomerGuid,
+            asset: address.asset,
+            network: address.network,
+            address: address.address,
+            state: 'created',
+            created_at: address.createdAt
+          }))
+        : await CybridService.getCustomerDepositAddresses(req.user.cybridCustomerGuid);
       
       res.json({
         success: true,
@@ -320,7 +371,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           email: "bob.admin@example.com",
           firstName: "Bob",
           lastName: "Manager",
-          role: "admin",
+          role: "support_agent",
           status: "active"
         }
       ];
@@ -359,7 +410,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           name: "Delta Tech",
           businessType: "Technology",
           status: "approved",
-          kybStatus: "verified"
+          kybStatus: "approved"
         },
         {
           username: "merchant.echo",
@@ -368,7 +419,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           name: "Echo Commerce",
           businessType: "E-commerce",
           status: "approved",
-          kybStatus: "verified"
+          kybStatus: "approved"
         }
       ];
 
@@ -405,8 +456,315 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin user management
+  const serializeAdminUser = ({ password, resetToken, resetTokenExpiry, totpSecret, totpLastUsedStep, recoveryCodeHashes, ...admin }: Admin) => ({
+    ...admin,
+    effectivePermissions: getAdminPermissions(admin)
+  });
+
+  // Permissions a role/override would grant that the acting admin does not hold (no self-escalation via other accounts)
+  const ungrantablePermissions = (actor: Express.User, role: string, permissions: AdminPermission[] | null | undefined) => {
+    const actorPermissions = getAdminPermissions(actor);
+    return getAdminPermissions({ role, permissions: permissions ?? null })
+      .filter(permission => !actorPermissions.includes(permission));
+  };
+
+  const countActiveSuperAdmins = async () =>
+    (await storage.getAllAdmins()).filter(admin => isSuperAdmin(admin) && admin.status === 'active').length;
+
+  const handleAdminUserError = (res: any, error: unknown, fallback: string) => {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return res.status(400).json({ error: "Invalid request data", details: (error as any).issues });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/admin/users", requirePermission('user_management'), async (req, res) => {
+    try {
+      const admins = await storage.getAllAdmins();
+      res.json(admins.map(serializeAdminUser));
+    } catch (error) {
+      handleAdminUserError(res, error, "Failed to fetch admin users");
+    }
+  });
+
+  // Create an admin with a generated password, returned once
+  app.post("/api/admin/users", requirePermission('user_management'), async (req, res) => {
+    try {
+      const data = createAdminUserSchema.parse(req.body);
+
+      if (data.role === 'super_admin' && !isSuperAdmin(req.user!)) {
+        return res.status(403).json({ error: "Only super admins can create super admins" });
+      }
+      const ungrantable = ungrantablePermissions(req.user!, data.role, data.permissions);
+      if (ungrantable.length > 0) {
+        return res.status(403).json({ error: "You cannot grant permissions you do not have", permissions: ungrantable });
+      }
+
+      if (await storage.getAdminByEmail(data.email)) {
+        return res.status(409).json({ error: "An admin with this email already exists" });
+      }
+
+      const credentials = generateAdminCredentials();
+      const username = data.username ?? credentials.username;
+      if (await storage.getAdminByUsername(username)) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+
+      const admin = await storage.createAdmin({
+        username,
+        password: await hashAdminPassword(credentials.password),
+        email: data.email,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        role: data.role,
+        permissions: data.permissions,
+        status: 'active'
+      });
+
+      console.log(`👤 Admin ${req.user!.id} created admin ${admin.id} (${admin.role})`);
+      await AuditService.record(req, { action: 'admin_user.create', targetType: 'admin', targetId: admin.id, after: serializeAdminUser(admin) });
+      res.status(201).json({
+        admin: serializeAdminUser(admin),
+        credentials: { username, password: credentials.password }
+      });
+    } catch (error) {
+      handleAdminUserError(res, error, "Failed to create admin user");
+    }
+  });
+
+  app.patch("/api/admin/users/:id", requirePermission('user_management'), async (req, res) => {
+    try {
+      const updates = updateAdminUserSchema.parse(req.body);
+      const target = await storage.getAdmin(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "Admin user not found" });
+      }
+
+      const roleChanged = updates.role !== undefined && updates.role !== target.role;
+      const accessChanged = roleChanged || updates.permissions !== undefined || updates.status !== undefined;
+
+      // Admins can't lock themselves out (or widen their own access)
+      if (target.id === req.user!.id && accessChanged) {
+        return res.status(400).json({ error: "You cannot change your own role, permissions or status" });
+      }
+      if (!isSuperAdmin(req.user!) && (isSuperAdmin(target) || updates.role === 'super_admin')) {
+        return res.status(403).json({ error: "Only super admins can manage super admins" });
+      }
+      if (updates.role !== undefined || updates.permissions !== undefined) {
+        const ungrantable = ungrantablePermissions(
+          req.user!,
+          updates.role ?? target.role,
+          updates.permissions !== undefined ? updates.permissions : target.permissions as AdminPermission[] | null
+        );
+        if (ungrantable.length > 0) {
+          return res.status(403).json({ error: "You cannot grant permissions you do not have", permissions: ungrantable });
+        }
+      }
+
+      const losesSuperAdmin = isSuperAdmin(target) && target.status === 'active'
+        && ((roleChanged && updates.role !== 'super_admin') || updates.status === 'suspended');
+      if (losesSuperAdmin && await countActiveSuperAdmins() <= 1) {
+        return res.status(409).json({ error: "At least one active super admin is required" });
+      }
+
+      if (updates.email && updates.email !== target.email && await storage.getAdminByEmail(updates.email)) {
+        return res.status(409).json({ error: "An admin with this email already exists" });
+      }
+
+      const admin = await storage.updateAdmin(target.id, updates);
+      if (!admin) {
+        return res.status(404).json({ error: "Admin user not found" });
+      }
+
+      if (accessChanged) {
+        console.log(`👤 Admin ${req.user!.id} changed access for admin ${admin.id}: role ${admin.role}, status ${admin.status}`);
+      }
+      await AuditService.record(req, {
+        action: 'admin_user.update',
+        targetType: 'admin',
+        targetId: admin.id,
+        before: serializeAdminUser(target),
+        after: serializeAdminUser(admin)
+      });
+      res.json(serializeAdminUser(admin));
+    } catch (error) {
+      handleAdminUserError(res, error, "Failed to update admin user");
+    }
+  });
+
+  app.delete("/api/admin/users/:id", requirePermission('user_management'), async (req, res) => {
+    try {
+      const target = await storage.getAdmin(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "Admin user not found" });
+      }
+      if (target.id === req.user!.id) {
+        return res.status(400).json({ error: "You cannot delete your own account" });
+      }
+      if (isSuperAdmin(target)) {
+        if (!isSuperAdmin(req.user!)) {
+          return res.status(403).json({ error: "Only super admins can manage super admins" });
+        }
+        if (target.status === 'active' && await countActiveSuperAdmins() <= 1) {
+          return res.status(409).json({ error: "At least one active super admin is required" });
+        }
+      }
+
+      await storage.deleteAdmin(target.id);
+      console.log(`👤 Admin ${req.user!.id} deleted admin ${target.id}`);
+      await AuditService.record(req, { action: 'admin_user.delete', targetType: 'admin', targetId: target.id, before: serializeAdminUser(target) });
+      res.json({ success: true });
+    } catch (error) {
+      handleAdminUserError(res, error, "Failed to delete admin user");
+    }
+  });
+
+  // Issue a new generated password (returned once) and invalidate any pending reset token
+  app.post("/api/admin/users/:id/reset-password", requirePermission('user_management'), async (req, res) => {
+    try {
+      const target = await storage.getAdmin(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "Admin user not found" });
+      }
+      if (isSuperAdmin(target) && !isSuperAdmin(req.user!)) {
+        return res.status(403).json({ error: "Only super admins can manage super admins" });
+      }
+
+      const { password } = generateAdminCredentials();
+      await storage.updateAdmin(target.id, { password: await hashAdminPassword(password) });
+      await storage.clearAdminResetToken(target.id);
+
+      console.log(`👤 Admin ${req.user!.id} reset the password of admin ${target.id}`);
+      await AuditService.record(req, { action: 'admin_user.reset_password', targetType: 'admin', targetId: target.id });
+      res.json({ credentials: { username: target.username, password } });
+    } catch (error) {
+      handleAdminUserError(res, error, "Failed to reset admin password");
+    }
+  });
+
+  // Recovery path for an admin who lost both their authenticator and recovery codes; they re-enroll on next sign-in
+  app.post("/api/admin/users/:id/reset-2fa", requirePermission('user_management'), async (req, res) => {
+    try {
+      const { reason } = adminTwoFactorResetSchema.parse(req.body);
+      const target = await storage.getAdmin(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "Admin user not found" });
+      }
+      if (target.id === req.user!.id) {
+        return res.status(403).json({ error: "You cannot reset your own two-factor authentication" });
+      }
+      if (isSuperAdmin(target) && !isSuperAdmin(req.user!)) {
+        return res.status(403).json({ error: "Only super admins can manage super admins" });
+      }
+      if (!target.totpEnabled && !target.totpSecret) {
+        return res.status(409).json({ error: "Two-factor authentication is not set up for this admin" });
+      }
+
+      await TwoFactorService.disable(target.id);
+      console.log(`🔐 Admin ${req.user!.id} reset two-factor authentication for admin ${target.id}`);
+      await AuditService.record(req, { action: 'admin_user.reset_2fa', targetType: 'admin', targetId: target.id, metadata: { reason } });
+      res.json({ success: true });
+    } catch (error) {
+      handleAdminUserError(res, error, "Failed to reset two-factor authentication");
+    }
+  });
+
+  // Platform-wide admin security policy
+  app.get("/api/admin/security/settings", async (req, res) => {
+    try {
+      const settings: AdminSecuritySettings = { requireAdmin2fa: await TwoFactorService.isRequiredForAll() };
+      res.json(settings);
+    } catch (error) {
+      handleAdminUserError(res, error, "Failed to fetch security settings");
+    }
+  });
+
+  app.put("/api/admin/security/settings", async (req, res) => {
+    try {
+      if (!isSuperAdmin(req.user!)) {
+        return res.status(403).json({ error: "Only super admins can change security settings" });
+      }
+      const { requireAdmin2fa } = adminSecuritySettingsSchema.parse(req.body);
+      // Requiring 2FA before enrolling would lock the acting admin out of everything but enrollment
+      if (requireAdmin2fa && !req.user!.totpEnabled) {
+        return res.status(409).json({ error: "Enable two-factor authentication on your own account first" });
+      }
+
+      const previous = await TwoFactorService.isRequiredForAll();
+      await TwoFactorService.setRequiredForAll(requireAdmin2fa, req.user!.id);
+      await AuditService.record(req, {
+        action: 'security.require_admin_2fa',
+        targetType: 'platform_setting',
+        targetId: 'require_admin_2fa',
+        before: { requireAdmin2fa: previous },
+        after: { requireAdmin2fa }
+      });
+      res.json({ requireAdmin2fa });
+    } catch (error) {
+      handleAdminUserError(res, error, "Failed to update security settings");
+    }
+  });
+
+  // Credential encryption keys and re-encryption runs (key material is never returned)
+  app.get("/api/admin/security/encryption", async (req, res) => {
+    try {
+      if (!isSuperAdmin(req.user!)) {
+        return res.status(403).json({ error: "Only super admins can manage encryption keys" });
+      }
+      const runs = await storage.getKeyRotationRuns(10);
+      res.json({
+        currentKeyId: CredentialEncryption.currentKeyId(),
+        keyIds: CredentialEncryption.keyIds(),
+        running: KeyRotationService.isInProgress(),
+        runs
+      });
+    } catch (error) {
+      handleAdminUserError(res, error, "Failed to fetch encryption key status");
+    }
+  });
+
+  app.get("/api/admin/security/encryption/runs/:id", async (req, res) => {
+    try {
+      if (!isSuperAdmin(req.user!)) {
+        return res.status(403).json({ error: "Only super admins can manage encryption keys" });
+      }
+      const run = await storage.getKeyRotationRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Key rotation run not found" });
+      }
+      res.json(run);
+    } catch (error) {
+      handleAdminUserError(res, error, "Failed to fetch key rotation run");
+    }
+  });
+
+  // Re-encrypt every stored secret under the current key; continues in the background
+  app.post("/api/admin/security/encryption/runs", async (req, res) => {
+    try {
+      if (!isSuperAdmin(req.user!)) {
+        return res.status(403).json({ error: "Only super admins can manage encryption keys" });
+      }
+      const run = await KeyRotationService.trigger(req.user!.id);
+      if (!run) {
+        return res.status(409).json({ error: "A key rotation run is already in progress" });
+      }
+      console.log(`🔑 Admin ${req.user!.id} started key rotation run ${run.id} to key ${run.targetKeyId}`);
+      await AuditService.record(req, {
+        action: 'security.rotate_encryption_key',
+        targetType: 'key_rotation_run',
+        targetId: run.id,
+        metadata: { targetKeyId: run.targetKeyId }
+      });
+      res.status(202).json(run);
+    } catch (error) {
+      handleAdminUserError(res, error, "Failed to start key rotation");
+    }
+  });
+
   // Admin routes for merchant management (require admin authentication)
-  app.get("/api/admin/merchants", requireAdmin, async (req, res) => {
+  app.get("/api/admin/merchants", requirePermission('merchant_view'), async (req, res) => {
     try {
       const merchants = await storage.getAllMerchants();
       // Remove password hashes from response
@@ -417,7 +775,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/merchants", requireAdmin, async (req, res) => {
+  app.post("/api/admin/merchants", requirePermission('merchant_create'), async (req, res) => {
     try {
       // Use admin-specific schema that doesn't require username/password
       const merchantData = adminCreateMerchantSchema.parse(req.body);
@@ -432,7 +790,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         username: credentials.username,
         password: hashedPassword,
         status: "approved",
-        kybStatus: "pending"
+        kybStatus: "pending",
+        onboardingState: "registered"
       });
 
       // Prepare response object
@@ -450,6 +809,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       console.log(`✅ Merchant created successfully: ${merchant.name} (${merchant.id}). Ready for Cybrid integration.`);
+      await AuditService.record(req, { action: 'merchant.create', targetType: 'merchant', targetId: merchant.id, after: sanitizeMerchant(merchant) });
 
       // Always return success - merchant creation succeeded
       res.status(201).json(response);
@@ -460,18 +820,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/admin/merchants/:id", requireAdmin, async (req, res) => {
+  app.put("/api/admin/merchants/:id", requirePermission('merchant_edit'), async (req, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
+      const { customFeeEnabled, customFeePercentage, customFlatFee, status, kybStatus, ...updates } = adminUpdateMerchantSchema.parse(req.body);
       
       // Get current merchant state before update
       const currentMerchant = await storage.getMerchant(id);
       if (!currentMerchant) {
         return res.status(404).json({ error: "Merchant not found" });
       }
+
+      // Custom fee edits go through the fee engine so they are recorded as a fee schedule
+      const feeChanged = (customFeeEnabled !== undefined && customFeeEnabled !== currentMerchant.customFeeEnabled)
+        || (customFeePercentage !== undefined && String(customFeePercentage) !== currentMerchant.customFeePercentage)
+        || (customFlatFee !== undefined && String(customFlatFee) !== currentMerchant.customFlatFee);
+      const currentState = OnboardingService.stateOf(currentMerchant);
+      const statusChanged = status !== undefined && (status === 'deactivated') !== (currentState === 'deactivated');
+      const kybChanged = kybStatus !== undefined && kybStatus !== currentMerchant.kybStatus;
+
+      // The profile form can touch fees, status and KYB; each needs its own permission, checked before anything is written
+      const required = [
+        feeChanged && 'fee_management',
+        statusChanged && 'merchant_deactivate',
+        kybChanged && 'merchant_approve'
+      ].filter((permission): permission is AdminPermission => !!permission);
+      const missing = required.filter(permission => !hasAdminPermission(req.user!, permission));
+      if (missing.length > 0) {
+        return res.status(403).json({ error: "Insufficient permissions", required: missing });
+      }
+
+      if (feeChanged) {
+        await FeeService.setMerchantOverride(id, updateMerchantFeeSchema.parse({
+          enabled: customFeeEnabled ?? currentMerchant.customFeeEnabled ?? false,
+          percentage: customFeePercentage ?? currentMerchant.customFeePercentage ?? undefined,
+          flatFee: customFlatFee ?? currentMerchant.customFlatFee ?? 0,
+          reason: "Updated from merchant profile"
+        }), req.user!.id);
+      }
       
-      const merchant = await storage.updateMerchant(id, updates);
+      // Status and KYB changes from the profile form go through the onboarding state machine
+      if (status === 'deactivated' && currentState !== 'deactivated') {
+        await OnboardingService.deactivate(id, req.user!.id, "Deactivated from merchant profile");
+      } else if (status === 'approved' && currentState === 'deactivated') {
+        await OnboardingService.reactivate(id, req.user!.id, "Reactivated from merchant profile");
+      }
+
+      if (kybChanged) {
+        const targetState = OnboardingService.stateForKycStatus(kybStatus)
+          ?? (currentMerchant.cybridCustomerGuid ? 'customer_created' : 'registered');
+        // Re-approving an approved merchant (e.g. legacy "verified" → "approved") is not a state change
+        const reapproval = targetState === 'provisioning' && OnboardingService.isKycApproved(currentMerchant);
+        const result = reapproval ? null : await OnboardingService.transition(id, targetState, {
+          trigger: 'admin',
+          actorId: req.user!.id,
+          reason: `KYB status set to ${kybStatus} from merchant profile`,
+          force: true
+        });
+        if (result?.changed && targetState === 'provisioning' && currentMerchant.cybridCustomerGuid) {
+          await JobQueueService.enqueueMerchantProvisioning(id, currentMerchant.cybridCustomerGuid);
+        }
+      }
+
+      const merchant = Object.keys(updates).length > 0
+        ? await storage.updateMerchant(id, updates)
+        : await storage.getMerchant(id);
       if (!merchant) {
         return res.status(404).json({ error: "Merchant not found" });
       }
@@ -488,16 +901,283 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (cybridResult) {
         response.cybrid = cybridResult;
       }
-      
+
+      await AuditService.record(req, {
+        action: 'merchant.update',
+        targetType: 'merchant',
+        targetId: id,
+        before: sanitizeMerchant(currentMerchant),
+        after: sanitizeMerchant(merchant)
+      });
       res.json(response);
     } catch (error) {
       console.error("Error updating merchant:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid request data", details: (error as any).issues });
+      }
       res.status(400).json({ error: "Failed to update merchant" });
     }
   });
 
+  // Admin fee configuration (global default, volume tiers and merchant overrides)
+  const handleFeeError = (res: any, error: unknown, fallback: string) => {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return res.status(400).json({
+        error: "Invalid request data",
+        details: (error as any).issues
+      });
+    }
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/admin/fees", requirePermission('fee_management'), async (req, res) => {
+    try {
+      const now = new Date();
+      const [schedules, merchants] = await Promise.all([
+        storage.getFeeSchedulesInForce(now),
+        storage.getAllMerchants()
+      ]);
+
+      const merchantFees = await Promise.all(merchants.map(async merchant => ({
+        merchantId: merchant.id,
+        name: merchant.name,
+        customFeeEnabled: merchant.customFeeEnabled ?? false,
+        override: schedules.find(schedule => schedule.scope === 'merchant' && schedule.merchantId === merchant.id) ?? null,
+        effective: await FeeService.resolveFee(merchant, now)
+      })));
+
+      res.json({
+        default: FeeService.defaultFee(),
+        global: schedules.find(schedule => schedule.scope === 'global') ?? null,
+        tiers: schedules.filter(schedule => schedule.scope === 'tier'),
+        merchants: merchantFees
+      });
+    } catch (error) {
+      console.error("Error fetching fee configuration:", error);
+      res.status(500).json({ error: "Failed to fetch fee configuration" });
+    }
+  });
+
+  // Full history for one scope, so past transactions can be reconciled against the fee in force
+  app.get("/api/admin/fees/history", requirePermission('fee_management'), async (req, res) => {
+    try {
+      const scope = req.query.scope as FeeScope;
+      if (!feeScopes.includes(scope)) {
+        return res.status(400).json({ error: `scope must be one of: ${feeScopes.join(', ')}` });
+      }
+      const merchantId = typeof req.query.merchantId === 'string' ? req.query.merchantId : undefined;
+
+      res.json(await storage.getFeeSchedules(scope, merchantId));
+    } catch (error) {
+      console.error("Error fetching fee history:", error);
+      res.status(500).json({ error: "Failed to fetch fee history" });
+    }
+  });
+
+  app.put("/api/admin/fees/global", requirePermission('fee_management'), async (req, res) => {
+    try {
+      const { effectiveFrom, ...fee } = updateGlobalFeeSchema.parse(req.body);
+
+      const [schedule] = await storage.replaceFeeSchedules('global', null, [{
+        scope: 'global',
+        percentage: fee.percentage.toString(),
+        flatFee: fee.flatFee.toString(),
+        currency: fee.currency,
+        reason: fee.reason ?? null,
+        createdBy: req.user!.id
+      }], effectiveFrom ?? new Date());
+
+      console.log(`💲 Global fee set to ${fee.percentage}% + ${fee.flatFee} ${fee.currency} by admin ${req.user!.id}`);
+      await AuditService.record(req, { action: 'fee.global.update', targetType: 'fee_schedule', targetId: schedule.id, after: schedule });
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error updating global fee:", error);
+      handleFeeError(res, error, "Failed to update global fee");
+    }
+  });
+
+  // Volume tiers are replaced as a set; an empty list removes tiered pricing
+  app.put("/api/admin/fees/tiers", requirePermission('fee_management'), async (req, res) => {
+    try {
+      const { tiers, reason, effectiveFrom } = updateFeeTiersSchema.parse(req.body);
+
+      const tierNames = new Set(tiers.map(tier => tier.tierName));
+      if (tierNames.size !== tiers.length) {
+        return res.status(400).json({ error: "Tier names must be unique" });
+      }
+
+      const schedules = await storage.replaceFeeSchedules('tier', null, tiers.map(tier => ({
+        scope: 'tier',
+        tierName: tier.tierName,
+        minMonthlyVolume: tier.minMonthlyVolume.toString(),
+        percentage: tier.percentage.toString(),
+        flatFee: tier.flatFee.toString(),
+        reason: reason ?? null,
+        createdBy: req.user!.id
+      })), effectiveFrom ?? new Date());
+
+      console.log(`💲 ${schedules.length} volume tiers configured by admin ${req.user!.id}`);
+      await AuditService.record(req, { action: 'fee.tiers.update', targetType: 'fee_schedule', metadata: { tiers, reason, effectiveFrom } });
+      res.json(schedules);
+    } catch (error) {
+      console.error("Error updating fee tiers:", error);
+      handleFeeError(res, error, "Failed to update fee tiers");
+    }
+  });
+
+  app.put("/api/admin/fees/merchants/:id", requirePermission('fee_management'), async (req, res) => {
+    try {
+      const { id } = cybridCustomerParamsSchema.parse(req.params);
+      const update = updateMerchantFeeSchema.parse(req.body);
+
+      const merchant = await storage.getMerchant(id);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+
+      const schedule = await FeeService.setMerchantOverride(id, update, req.user!.id);
+      const updatedMerchant = await storage.getMerchant(id);
+
+      console.log(`💲 Custom fees ${update.enabled ? 'enabled' : 'disabled'} for merchant ${id} by admin ${req.user!.id}`);
+      await AuditService.record(req, {
+        action: 'fee.merchant.update',
+        targetType: 'merchant',
+        targetId: id,
+        before: { customFeeEnabled: merchant.customFeeEnabled, customFeePercentage: merchant.customFeePercentage, customFlatFee: merchant.customFlatFee },
+        after: { customFeeEnabled: updatedMerchant?.customFeeEnabled, customFeePercentage: updatedMerchant?.customFeePercentage, customFlatFee: updatedMerchant?.customFlatFee },
+        metadata: { reason: update.reason ?? null }
+      });
+      res.json({
+        override: schedule ?? null,
+        effective: await FeeService.resolveFee(updatedMerchant!)
+      });
+    } catch (error) {
+      console.error("Error updating merchant fee:", error);
+      handleFeeError(res, error, "Failed to update merchant fee");
+    }
+  });
+
+  // Upcoming fee changes, each shown next to the fee it will replace
+  app.get("/api/admin/fees/scheduled", requirePermission('fee_management'), async (req, res) => {
+    try {
+      const now = new Date();
+      const [upcoming, inForce, merchants] = await Promise.all([
+        storage.getUpcomingFeeSchedules(now),
+        storage.getFeeSchedulesInForce(now),
+        storage.getAllMerchants()
+      ]);
+
+      const currentGlobal = inForce.find(schedule => schedule.scope === 'global');
+      const scheduled = await Promise.all(upcoming.map(async schedule => {
+        const merchant = schedule.merchantId ? merchants.find(m => m.id === schedule.merchantId) : undefined;
+        const currentFee = merchant
+          ? await FeeService.resolveFee(merchant, now)
+          : schedule.scope === 'global' && currentGlobal
+            ? { percentage: Number(currentGlobal.percentage), flatFee: Number(currentGlobal.flatFee) }
+            : schedule.scope === 'global' ? FeeService.defaultFee() : null;
+
+        return {
+          ...schedule,
+          merchantName: merchant?.name ?? null,
+          currentFee: currentFee && { percentage: currentFee.percentage, flatFee: currentFee.flatFee }
+        };
+      }));
+
+      res.json(scheduled);
+    } catch (error) {
+      console.error("Error fetching scheduled fee changes:", error);
+      res.status(500).json({ error: "Failed to fetch scheduled fee changes" });
+    }
+  });
+
+  app.post("/api/admin/fees/scheduled", requirePermission('fee_management'), async (req, res) => {
+    try {
+      const change = scheduleFeeChangeSchema.parse(req.body);
+
+      let schedule;
+      if (change.scope === 'merchant') {
+        const merchant = await storage.getMerchant(change.merchantId!);
+        if (!merchant) {
+          return res.status(404).json({ error: "Merchant not found" });
+        }
+        schedule = await FeeService.setMerchantOverride(merchant.id, {
+          enabled: true,
+          percentage: change.percentage,
+          flatFee: change.flatFee,
+          reason: change.reason,
+          effectiveFrom: change.effectiveFrom
+        }, req.user!.id);
+      } else {
+        [schedule] = await storage.replaceFeeSchedules('global', null, [{
+          scope: 'global',
+          percentage: change.percentage.toString(),
+          flatFee: change.flatFee.toString(),
+          reason: change.reason,
+          createdBy: req.user!.id
+        }], change.effectiveFrom);
+      }
+
+      console.log(`💲 Fee change scheduled for ${change.scope === 'merchant' ? `merchant ${change.merchantId}` : 'global default'} on ${change.effectiveFrom.toISOString()} by admin ${req.user!.id}`);
+      await AuditService.record(req, { action: 'fee.schedule', targetType: 'fee_schedule', targetId: schedule?.id ?? null, after: change });
+      res.status(201).json(schedule);
+    } catch (error) {
+      console.error("Error scheduling fee change:", error);
+      handleFeeError(res, error, "Failed to schedule fee change");
+    }
+  });
+
+  app.delete("/api/admin/fees/scheduled/:id", requirePermission('fee_management'), async (req, res) => {
+    try {
+      const schedule = await storage.getFeeSchedule(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ error: "Fee schedule not found" });
+      }
+
+      const cancelled = await storage.cancelFeeSchedule(schedule.id, req.user!.id);
+      if (cancelled.length === 0) {
+        return res.status(409).json({ error: "Only fee changes that have not taken effect can be cancelled" });
+      }
+
+      console.log(`💲 Scheduled ${schedule.scope} fee change ${schedule.id} cancelled by admin ${req.user!.id}`);
+      await AuditService.record(req, { action: 'fee.schedule.cancel', targetType: 'fee_schedule', targetId: schedule.id, before: schedule });
+      res.json({ success: true, cancelled });
+    } catch (error) {
+      console.error("Error cancelling fee change:", error);
+      res.status(500).json({ error: "Failed to cancel fee change" });
+    }
+  });
+
+  // Fee in force on a past (or future) date, for reconciling historical transactions
+  app.get("/api/admin/fees/as-of", requirePermission('fee_management'), async (req, res) => {
+    try {
+      const at = new Date(String(req.query.date));
+      if (isNaN(at.getTime())) {
+        return res.status(400).json({ error: "A valid date query parameter is required" });
+      }
+
+      if (typeof req.query.merchantId === 'string') {
+        const merchant = await storage.getMerchant(req.query.merchantId);
+        if (!merchant) {
+          return res.status(404).json({ error: "Merchant not found" });
+        }
+        return res.json({ at, merchantId: merchant.id, fee: await FeeService.resolveFee(merchant, at) });
+      }
+
+      const schedules = await storage.getFeeSchedulesInForce(at);
+      res.json({
+        at,
+        global: schedules.find(schedule => schedule.scope === 'global') ?? null,
+        tiers: schedules.filter(schedule => schedule.scope === 'tier'),
+        merchantOverrides: schedules.filter(schedule => schedule.scope === 'merchant')
+      });
+    } catch (error) {
+      console.error("Error fetching historical fees:", error);
+      res.status(500).json({ error: "Failed to fetch historical fees" });
+    }
+  });
+
   // Generate signup link for merchant self-registration
-  app.post("/api/admin/signup-links", requireAdmin, async (req, res) => {
+  app.post("/api/admin/signup-links", requirePermission('merchant_create'), async (req, res) => {
     try {
       const tokenData = createSignupTokenSchema.parse(req.body);
       
@@ -516,14 +1196,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Generate the signup URL
-      const baseUrl = process.env.BASE_URL || `http://localhost:5000`;
-      const signupUrl = `${baseUrl}/signup/${token}`;
-
+      const signupUrl = NotificationService.appUrl(`/signup/${token}`);
+
+      // Invites are emailed when the admin gives an address; the link is returned either way
+      const invite = tokenData.email
+        ? await NotificationService.send('signup_invite', { email: tokenData.email, type: 'prospect' }, { signupUrl, expiresAt })
+        : null;
+
+      await AuditService.record(req, {
+        action: 'signup_link.create',
+        targetType: 'signup_token',
+        targetId: signupToken.id,
+        after: signupToken,
+        ...(tokenData.email && { metadata: { invitedEmail: tokenData.email, notificationStatus: invite?.status ?? 'failed' } })
+      });
       res.status(201).json({
         success: true,
         token: signupToken,
         signupUrl,
-        expiresAt: signupToken.expiresAt
+        expiresAt: signupToken.expiresAt,
+        inviteStatus: invite?.status ?? null
       });
     } catch (error) {
       console.error("Error creating signup token:", error);
@@ -532,7 +1224,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all signup tokens for admin
-  app.get("/api/admin/signup-links", requireAdmin, async (req, res) => {
+  app.get("/api/admin/signup-links", requirePermission('merchant_create'), async (req, res) => {
     try {
       const tokens = await storage.getAllSignupTokens();
       res.json(tokens);
@@ -543,7 +1235,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reset merchant credentials endpoint
-  app.post("/api/admin/merchants/:id/reset-credentials", requireAdmin, async (req, res) => {
+  app.post("/api/admin/merchants/:id/reset-credentials", requirePermission('merchant_credentials'), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -557,22 +1249,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const newCredentials = generateMerchantCredentials();
       const hashedPassword = await hashPassword(newCredentials.password);
 
-      // Update merchant with new credentials
-      const updatedMerchant = await storage.updateMerchant(id, {
-        username: newCredentials.username,
-        password: hashedPassword
-      });
+      // Update merchant with new credentials (also invalidates any pending password reset)
+      const updatedMerchant = await storage.updateMerchantPassword(id, hashedPassword, newCredentials.username);
 
       if (!updatedMerchant) {
         return res.status(404).json({ error: "Merchant not found" });
       }
 
       console.log(`🔑 Credentials reset for merchant: ${merchant.name} (${merchant.id})`);
+      await AuditService.record(req, {
+        action: 'merchant.reset_credentials',
+        targetType: 'merchant',
+        targetId: id,
+        before: { username: merchant.username, password: merchant.password },
+        after: { username: updatedMerchant.username, password: updatedMerchant.password }
+      });
+
+      const notice = await NotificationService.notifyMerchant(updatedMerchant, 'credentials_reset', {
+        merchantName: merchant.name,
+        username: newCredentials.username,
+        temporaryPassword: newCredentials.password
+      });
 
-      // Return the new credentials (plaintext for admin to share)
+      // Return the new credentials (plaintext for admin to share if the email doesn't arrive)
       res.json({
         success: true,
         merchantName: merchant.name,
+        emailStatus: notice?.status ?? null,
         credentials: {
           username: newCredentials.username,
           password: newCredentials.password // Plain text password for admin to share
@@ -586,12 +1289,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Bulk sync KYC status for all merchants
-  app.post("/api/admin/merchants/sync-kyc", requireAdmin, async (req, res) => {
+  app.post("/api/admin/merchants/sync-kyc", requirePermission('integration_management'), async (req, res) => {
     try {
       console.log('🔄 Admin triggered bulk KYC sync');
       
       const syncResults = await CybridService.bulkSyncKycStatus();
-      
+
+      // Newly approved merchants need their accounts provisioned
+      for (const result of syncResults.results) {
+        if (!result.error && result.newStatus === 'approved' && result.oldStatus !== 'approved') {
+          await JobQueueService.enqueueMerchantProvisioning(result.merchantId, result.cybridCustomerGuid);
+        }
+      }
+
+      await AuditService.record(req, { action: 'merchant.sync_kyc', metadata: { updated: syncResults.updated, errors: syncResults.errors } });
       res.json({
         success: true,
         message: `KYC sync completed: ${syncResults.updated} merchants updated, ${syncResults.errors} errors`,
@@ -609,12 +1320,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Sync customer types from Cybrid to merchant records
-  app.post("/api/admin/merchants/sync-customer-types", requireAdmin, async (req, res) => {
+  app.post("/api/admin/merchants/sync-customer-types", requirePermission('integration_management'), async (req, res) => {
     try {
       console.log('🔄 Admin triggered customer type sync from Cybrid');
       
       const syncResults = await CybridService.syncCustomerTypes();
-      
+
+      await AuditService.record(req, { action: 'merchant.sync_customer_types', metadata: { updated: syncResults.updated, errors: syncResults.errors } });
       res.json({
         success: true,
         message: `Customer type sync completed: ${syncResults.updated} merchants updated, ${syncResults.errors} errors out of ${syncResults.totalCustomers} Cybrid customers`,
@@ -631,15 +1343,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/admin/merchants/:id", requireAdmin, async (req, res) => {
+  app.delete("/api/admin/merchants/:id", requirePermission('merchant_delete'), async (req, res) => {
     try {
       const { id } = req.params;
-      const success = await storage.deleteMerchant(id);
+      const merchant = await storage.getMerchant(id);
+      const success = merchant ? await storage.deleteMerchant(id) : false;
       
       if (!success) {
         return res.status(404).json({ error: "Merchant not found" });
       }
       
+      console.log(`🗑️ Merchant deleted: ${merchant!.name} (${id}) by admin ${req.user!.id}`);
+      await AuditService.record(req, { action: 'merchant.delete', targetType: 'merchant', targetId: id, before: sanitizeMerchant(merchant) });
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting merchant:", error);
@@ -648,7 +1363,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Cybrid customer management routes for admins
-  app.post("/api/admin/merchants/:id/cybrid-customer", requireAdmin, async (req, res) => {
+  app.post("/api/admin/merchants/:id/cybrid-customer", requirePermission('integration_management'), async (req, res) => {
     try {
       const { id } = cybridCustomerParamsSchema.parse(req.params);
       const { type } = cybridCustomerCreateSchema.parse(req.body);
@@ -687,6 +1402,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: type
       });
 
+      await AuditService.record(req, {
+        action: 'merchant.cybrid_customer.create',
+        targetType: 'merchant',
+        targetId: merchant.id,
+        metadata: { customerGuid: cybridCustomer.guid, type }
+      });
       res.json({
         success: true,
         customer: {
@@ -703,7 +1424,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/merchants/:id/cybrid-status", requireAdmin, async (req, res) => {
+  app.get("/api/admin/merchants/:id/cybrid-status", requirePermission('merchant_view'), async (req, res) => {
     try {
       const { id } = cybridCustomerParamsSchema.parse(req.params);
       const merchant = await storage.getMerchant(id);
@@ -750,10 +1471,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/merchants/:id/deposit-addresses", requireAdmin, async (req, res) => {
+  // Which Transak keys the merchant's sessions use in their current mode, and whether each option is actually available
+  const getTransakCredentialStatus = async (merchant: Merchant) => {
+    const mode = merchant.mode as MerchantMode;
+    const record = await storage.getMerchantCredentials(merchant.id, 'transak', merchantModeEnvironments[mode]);
+    const merchantCredentials = await TransakCredentialService.merchantCredentials(merchant.id, mode);
+    let platformConfigured = true;
+    try {
+      TransakCredentialService.platformCredentials(mode);
+    } catch {
+      platformConfigured = false;
+    }
+
+    const policy = merchant.transakCredentialPolicy as TransakCredentialPolicy;
+    const effectiveSource = policy === 'platform'
+      ? (platformConfigured ? 'platform' : null)
+      : merchantCredentials ? 'merchant' : (policy === 'merchant_with_fallback' && platformConfigured ? 'platform' : null);
+
+    return {
+      policy,
+      mode,
+      effectiveSource, // null: sessions will fail until credentials are configured
+      merchantCredentials: {
+        configured: !!merchantCredentials,
+        environment: merchantCredentials?.environment ?? record?.environment ?? null,
+        isActive: record?.isActive ?? false,
+        verificationStatus: record?.verificationStatus ?? null,
+        lastVerifiedAt: record?.lastVerifiedAt ?? null,
+        verificationError: record?.verificationError ?? null
+      },
+      platformConfigured
+    };
+  };
+
+  app.get("/api/admin/merchants/:id/transak-credentials", requirePermission('merchant_view'), async (req, res) => {
+    try {
+      const merchant = await storage.getMerchant(req.params.id);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+      res.json(await getTransakCredentialStatus(merchant));
+    } catch (error) {
+      console.error("Error fetching Transak credential status:", error);
+      res.status(500).json({ error: "Failed to fetch Transak credential status" });
+    }
+  });
+
+  app.put("/api/admin/merchants/:id/transak-credentials/policy", requirePermission('integration_management'), async (req, res) => {
+    try {
+      const { policy } = updateTransakCredentialPolicySchema.parse(req.body);
+      const current = await storage.getMerchant(req.params.id);
+      if (!current) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+
+      const merchant = await storage.updateMerchantTransakCredentialPolicy(current.id, policy);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+
+      console.log(`💳 Admin ${req.user!.id} set Transak credential policy for merchant ${merchant.id} to ${policy}`);
+      await AuditService.record(req, {
+        action: 'merchant.transak_credential_policy',
+        targetType: 'merchant',
+        targetId: merchant.id,
+        before: { transakCredentialPolicy: current.transakCredentialPolicy },
+        after: { transakCredentialPolicy: policy }
+      });
+      res.json(await getTransakCredentialStatus(merchant));
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid request data", details: (error as any).issues });
+      }
+      console.error("Error updating Transak credential policy:", error);
+      res.status(500).json({ error: "Failed to update Transak credential policy" });
+    }
+  });
+
+  app.get("/api/admin/merchants/:id/deposit-addresses", requirePermission('merchant_view'), async (req, res) => {
     try {
       const { id } = cybridCustomerParamsSchema.parse(req.params);
-      const addresses = await storage.getMerchantDepositAddresses(id);
+      const addresses = await storage.getMerchantDepositAddresses(id, CybridService.mode());
       res.json(addresses);
     } catch (error) {
       console.error("Error fetching deposit addresses:", error);
@@ -761,11 +1559,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/admin/merchants/:id/trade-accounts", requirePermission('merchant_view'), async (req, res) => {
+    try {
+      const { id } = cybridCustomerParamsSchema.parse(req.params);
+      const tradeAccounts = await storage.getMerchantTradeAccounts(id);
+      res.json(tradeAccounts);
+    } catch (error) {
+      console.error("Error fetching trade accounts:", error);
+      res.status(500).json({ error: "Failed to fetch trade accounts" });
+    }
+  });
+
+  app.get("/api/admin/merchants/:id/balances", requirePermission('merchant_view'), async (req, res) => {
+    try {
+      const { id } = cybridCustomerParamsSchema.parse(req.params);
+      const merchant = await storage.getMerchant(id);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+
+      res.json(await getMerchantBalances(merchant, CybridService.mode(), req.query.days));
+    } catch (error) {
+      console.error("Error fetching merchant balances:", error);
+      res.status(500).json({ error: "Failed to fetch balances" });
+    }
+  });
+
+  // Take a balance snapshot for a merchant immediately instead of waiting for the scheduler
+  app.post("/api/admin/merchants/:id/balances/snapshot", requirePermission('integration_management'), async (req, res) => {
+    try {
+      const { id } = cybridCustomerParamsSchema.parse(req.params);
+      const merchant = await storage.getMerchant(id);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+      if (!merchant.cybridCustomerGuid) {
+        return res.status(400).json({ error: "Merchant has no Cybrid customer" });
+      }
+
+      const snapshots = await BalanceSnapshotService.captureMerchant(merchant.id, merchant.cybridCustomerGuid);
+      await AuditService.record(req, { action: 'merchant.balance_snapshot', targetType: 'merchant', targetId: merchant.id });
+      res.json({ success: true, snapshots });
+    } catch (error) {
+      console.error("Error capturing balance snapshot:", error);
+      res.status(500).json({ error: "Failed to capture balance snapshot" });
+    }
+  });
+
   // Create trade account for KYC-completed merchant
-  app.post("/api/admin/merchants/:id/create-trade-account", requireAdmin, async (req, res) => {
+  app.post("/api/admin/merchants/:id/create-trade-account", requirePermission('integration_management'), async (req, res) => {
     try {
       const { id } = cybridCustomerParamsSchema.parse(req.params);
-      const { asset } = createTradeAccountSchema.parse(req.body);
+      const { asset, assets: requestedAssets } = createTradeAccountSchema.parse(req.body);
+      const assets = requestedAssets ?? (asset ? [asset] : CybridService.getProvisionedAssets());
       
       // Get merchant and validate requirements
       const merchant = await storage.getMerchant(id);
@@ -805,65 +1651,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Check for existing trade account
-      if (merchant.cybridTradeAccountGuid && merchant.tradeAccountAsset === asset) {
-        return res.status(400).json({
-          error: "Trade account already exists for this asset",
-          existingAccount: {
-            guid: merchant.cybridTradeAccountGuid,
-            asset: merchant.tradeAccountAsset,
-            status: merchant.tradeAccountStatus
-          }
-        });
+      // Create (or adopt existing) trading accounts one asset at a time
+      const customerGuid = merchant.cybridCustomerGuid;
+      const tradeAccounts = [];
+      const errors = [];
+      for (const tradeAsset of assets) {
+        try {
+          tradeAccounts.push(await CybridService.ensureMerchantTradeAccount(id, customerGuid, tradeAsset));
+        } catch (cybridError) {
+          console.error(`Failed to create ${tradeAsset} trade account for merchant ${merchant.name}:`, cybridError);
+          errors.push({ asset: tradeAsset, error: cybridError instanceof Error ? cybridError.message : 'Unknown error' });
+        }
       }
 
-      // Update status to pending
-      await storage.updateMerchant(id, {
-        tradeAccountStatus: 'pending'
-      });
+      await CybridService.syncMerchantAccountSummary(id);
 
-      try {
-        // Create trade account via Cybrid
-        const tradeAccount = await CybridService.createTradeAccount(merchant.cybridCustomerGuid, asset);
-        
-        // Update merchant with successful trade account creation
-        await storage.updateMerchant(id, {
-          cybridTradeAccountGuid: tradeAccount.guid,
-          tradeAccountStatus: 'created',
-          tradeAccountAsset: asset,
-          tradeAccountCreatedAt: new Date()
+      if (tradeAccounts.length === 0) {
+        return res.status(500).json({
+          error: "Failed to create trade account",
+          details: errors.map(e => `${e.asset}: ${e.error}`).join('; '),
+          errors
         });
+      }
 
-        console.log(`✅ Successfully created ${asset} trade account for merchant ${merchant.name}: ${tradeAccount.guid}`);
+      console.log(`✅ Trade accounts ready for merchant ${merchant.name}: ${tradeAccounts.map(a => a.asset).join(', ')}`);
+      await AuditService.record(req, {
+        action: 'merchant.trade_account.create',
+        targetType: 'merchant',
+        targetId: id,
+        metadata: { assets: tradeAccounts.map(account => account.asset), errors }
+      });
 
-        res.json({
-          success: true,
-          tradeAccount: {
-            guid: tradeAccount.guid,
-            asset: asset,
-            name: tradeAccount.name,
-            status: 'created',
-            createdAt: new Date().toISOString()
-          }
-        });
+      res.json({
+        success: errors.length === 0,
+        tradeAccounts: tradeAccounts.map(account => ({
+          guid: account.cybridAccountGuid,
+          asset: account.asset,
+          status: account.status,
+          createdAt: account.createdAt
+        })),
+        errors
+      });
 
-      } catch (cybridError) {
-        // Update status to error
-        await storage.updateMerchant(id, {
-          tradeAccountStatus: 'error',
-          cybridLastError: cybridError instanceof Error ? cybridError.message : 'Unknown error'
-        });
+    } catch (error) {
+      console.error("Error in trade account creation:", error);
 
-        console.error(`Failed to create trade account for merchant ${merchant.name}:`, cybridError);
-        
-        res.status(500).json({
-          error: "Failed to create trade account",
-          details: cybridError instanceof Error ? cybridError.message : 'Unknown error'
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: (error as any).issues
         });
       }
 
-    } catch (error) {
-      console.error("Error in trade account creation:", error);
       res.status(500).json({ error: "Failed to create trade account" });
     }
   });
@@ -931,12 +1770,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = await CybridService.createManualKycVerification(merchant.cybridCustomerGuid);
       
       // Update merchant with verification GUID for tracking
-      await storage.updateMerchant(merchant.id, {
-        cybridVerificationGuid: result.verificationGuid,
-        kybStatus: 'in_review',
-        cybridLastSyncedAt: new Date()
+      await OnboardingService.advance(merchant.id, 'kyc_in_review', {
+        trigger: 'merchant',
+        actorId: merchant.id,
+        updates: {
+          cybridVerificationGuid: result.verificationGuid,
+          cybridLastSyncedAt: new Date()
+        }
+      });
+
+      await AuditService.record(req, {
+        action: 'merchant.kyc.start',
+        targetType: 'merchant',
+        targetId: merchant.id,
+        metadata: { verificationGuid: result.verificationGuid }
       });
-      
       res.json({
         success: true,
         verificationGuid: result.verificationGuid,
@@ -965,71 +1813,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Use list endpoint approach to get latest KYC status for customer
       const statusResult = await CybridService.getLatestKycStatus(merchant.cybridCustomerGuid);
       
-      // Check if this is a new status change to approved that should trigger automation
-      const wasNotApproved = merchant.kybStatus !== 'approved';
-      const isNowApproved = statusResult.status === 'approved';
-      const shouldTriggerAutomation = wasNotApproved && isNowApproved;
-      
-      // Initialize automation flag
+      // Move the onboarding state along; provisioning is queued the first time KYC shows as approved
       let needsAutomation = false;
-      
-      // Update merchant record if status changed
-      if (statusResult.status !== merchant.kybStatus) {
-        const updateData: any = {
-          kybStatus: statusResult.status,
-          cybridLastSyncedAt: new Date()
-        };
-        
-        // Update verification GUID if available
-        if (statusResult.verificationGuid) {
-          updateData.cybridVerificationGuid = statusResult.verificationGuid;
-        }
-        
-        await storage.updateMerchant(merchant.id, updateData);
-        
-        // TRIGGER AUTOMATION: Create trade account and deposit wallet when KYC gets approved
-        // Only trigger if we don't already have trade accounts to prevent duplicates
-        needsAutomation = shouldTriggerAutomation && 
-                         !merchant.cybridTradeAccountGuid && 
-                         merchant.tradeAccountStatus !== 'pending' &&
-                         merchant.tradeAccountStatus !== 'created';
-                               
+      const targetState = OnboardingService.stateForKycStatus(statusResult.status);
+      if (targetState) {
+        const result = await OnboardingService.advance(merchant.id, targetState, {
+          trigger: 'kyc_polling',
+          updates: {
+            cybridLastSyncedAt: new Date(),
+            ...(statusResult.verificationGuid && { cybridVerificationGuid: statusResult.verificationGuid })
+          }
+        });
+
+        needsAutomation = result.changed && result.to === 'provisioning';
         if (needsAutomation) {
-          console.log(`🎯 POLLING TRIGGER: KYC approved for merchant ${merchant.name} (${merchant.id}), starting automation...`);
-          
-          // Mark automation as pending immediately to prevent duplicates
-          await storage.updateMerchant(merchant.id, {
-            tradeAccountStatus: 'pending',
-            cybridLastAttemptAt: new Date()
-          });
-          
-          // Run automation in background - don't block the API response
-          setImmediate(async () => {
-            try {
-              // Create verification data for the automation handler
-              const verificationData = {
-                customer_guid: merchant.cybridCustomerGuid,
-                guid: statusResult.verificationGuid || `polling-trigger-${Date.now()}`,
-                outcome: 'passed',
-                state: 'completed'
-              };
-              
-              // Use the same handler that processes webhooks
-              await handleIdentityVerificationCompleted(verificationData);
-              
-            } catch (automationError) {
-              console.error(`❌ POLLING AUTOMATION FAILED for merchant ${merchant.id}:`, automationError);
-              
-              // Update merchant record with error status
-              await storage.updateMerchant(merchant.id, {
-                tradeAccountStatus: 'error',
-                cybridLastError: automationError instanceof Error ? automationError.message : 'Automation failed during polling',
-                cybridLastAttemptAt: new Date()
-              }).catch(updateError => {
-                console.error('Failed to update error status:', updateError);
-              });
-            }
-          });
+          console.log(`🎯 POLLING TRIGGER: KYC approved for merchant ${merchant.name} (${merchant.id}), queueing provisioning...`);
+          await JobQueueService.enqueueMerchantProvisioning(merchant.id, merchant.cybridCustomerGuid);
         }
       }
       
@@ -1111,31 +1910,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Store webhook event for idempotency
-      await storage.createWebhookEvent({
+      const storedEvent = await storage.createWebhookEvent({
         eventId: eventId,
+        source: 'cybrid',
         eventType: payload.event_type,
+        objectGuid: payload.object_guid ?? null,
         payload: payload
       });
 
-      // Handle different webhook event types
-      switch (payload.event_type) {
-        case 'identity_verification.completed':
-        case 'identity_verification.passed':
-          await handleIdentityVerificationCompleted(payload);
-          break;
-        case 'identity_verification.failed':
-        case 'identity_verification.rejected':
-          await handleIdentityVerificationFailed(payload);
-          break;
-        case 'customer.storing':
-          await handleCustomerStoring(payload);
-          break;
-        default:
-          console.log(`Unhandled Cybrid webhook event type: ${payload.event_type}`);
-      }
+      // Handler errors are recorded on the stored event for replay; Cybrid still gets a 200
+      const processed = await processCybridEvent(storedEvent);
 
       // Return success response to Cybrid
-      res.status(200).json({ received: true, event_type: payload.event_type });
+      res.status(200).json({ received: true, event_type: payload.event_type, outcome: processed?.outcome });
 
     } catch (error) {
       console.error('Error processing Cybrid webhook:', error);
@@ -1143,216 +1930,1732 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // What a Cybrid event handler did with an event; thrown errors are recorded as failed
+  interface CybridEventResult {
+    outcome: 'handled' | 'ignored' | 'failed';
+    merchantId?: string;
+    detail?: string;
+  }
+
+  async function dispatchCybridEvent(payload: any): Promise<CybridEventResult> {
+    switch (payload.event_type) {
+      case 'identity_verification.completed':
+      case 'identity_verification.passed':
+        return handleIdentityVerificationCompleted(payload);
+      case 'identity_verification.failed':
+      case 'identity_verification.rejected':
+        return handleIdentityVerificationFailed(payload);
+      case 'customer.storing':
+        return handleCustomerStoring(payload);
+      case 'trade.settling':
+      case 'trade.completed':
+      case 'trade.failed':
+      case 'trade.cancelled':
+        return handleTradeUpdated(payload);
+      default:
+        console.log(`Unhandled Cybrid webhook event type: ${payload.event_type}`);
+        return { outcome: 'ignored', detail: `No handler for event type ${payload.event_type}` };
+    }
+  }
+
+  // Run a stored event through the handlers and record the outcome (used on receipt and for admin replays)
+  async function processCybridEvent(event: WebhookEvent): Promise<WebhookEvent | undefined> {
+    try {
+      const result = await dispatchCybridEvent(event.payload);
+      if (result.outcome === 'failed') {
+        console.warn(`⚠️ Cybrid event ${event.eventId} (${event.eventType}) failed: ${result.detail}`);
+      }
+      return await storage.recordWebhookEventOutcome(event.id, result.outcome, result.detail ?? null, result.merchantId);
+    } catch (error) {
+      console.error(`❌ Cybrid event ${event.eventId} (${event.eventType}) failed:`, error);
+      return await storage.recordWebhookEventOutcome(event.id, 'failed', error instanceof Error ? error.message : String(error));
+    }
+  }
+
   // Webhook handler functions for Cybrid events
-  async function handleIdentityVerificationCompleted(webhookPayload: any) {
+  async function handleTradeUpdated(webhookPayload: any): Promise<CybridEventResult> {
+    const trade = await storage.getTradeByCybridGuid(webhookPayload.object_guid);
+    if (!trade) {
+      console.log(`Ignoring Cybrid trade webhook for unknown trade: ${webhookPayload.object_guid}`);
+      return { outcome: 'ignored', detail: `Unknown trade ${webhookPayload.object_guid}` };
+    }
+
+    const cybridTrade = await CybridService.getTrade(trade.cybridTradeGuid!);
+    await storage.updateTrade(trade.id, tradeUpdatesFromCybrid(cybridTrade, trade));
+    console.log(`💱 Trade ${trade.id} updated to ${cybridTrade.state}`);
+    return { outcome: 'handled', merchantId: trade.merchantId };
+  }
+
+  async function handleIdentityVerificationCompleted(webhookPayload: any): Promise<CybridEventResult> {
+    // Extract object_guid from Cybrid webhook payload
+    const verificationGuid = webhookPayload.object_guid;
+
+    console.log(`Identity verification completed for: ${verificationGuid}`);
+
+    // Fetch the full identity verification details from Cybrid API
+    const verificationDetails = await CybridService.getIdentityVerification(verificationGuid);
+    if (!verificationDetails) {
+      throw new Error(`Failed to fetch identity verification details for ${verificationGuid}`);
+    }
+
+    const customerGuid = verificationDetails.customer_guid;
+    const outcome = verificationDetails.outcome;
+
+    console.log(`Identity verification completed: ${verificationGuid} with outcome: ${outcome}`);
+
+    // Find merchant by Cybrid customer GUID
+    const merchant = await storage.getMerchantByCybridGuid(customerGuid);
+    if (!merchant) {
+      console.error(`No merchant found for Cybrid customer GUID: ${customerGuid}`);
+      return { outcome: 'ignored', detail: `No merchant for Cybrid customer ${customerGuid}` };
+    }
+
+    const targetState = outcome === 'passed' ? 'provisioning' : outcome === 'failed' ? 'kyc_rejected' : 'kyc_in_review';
+    const result = await OnboardingService.advance(merchant.id, targetState, {
+      trigger: 'cybrid_webhook',
+      actorId: webhookPayload.guid ?? null,
+      reason: `Identity verification ${verificationGuid} outcome: ${outcome}`,
+      updates: {
+        cybridVerificationGuid: verificationGuid,
+        cybridLastSyncedAt: new Date()
+      }
+    });
+
+    // Trade accounts and deposit wallets are provisioned by retryable background jobs
+    // (queued again on replay; jobs already in flight are not duplicated)
+    let provisioningJobs: Job[] = [];
+    if (result.to === 'provisioning' || result.to === 'provisioning_failed') {
+      provisioningJobs = await JobQueueService.enqueueMerchantProvisioning(merchant.id, customerGuid);
+    }
+
+    console.log(`Merchant ${merchant.id} onboarding state after verification: ${result.to}`);
+
+    return {
+      outcome: 'handled',
+      merchantId: merchant.id,
+      detail: `${result.changed ? `${result.from} → ${result.to}` : `Stayed ${result.to}`} (verification outcome: ${outcome})${provisioningJobs.length > 0 ? `, queued ${provisioningJobs.length} provisioning jobs` : ''}`
+    };
+  }
+
+  async function handleIdentityVerificationFailed(verificationData: any): Promise<CybridEventResult> {
+    const customerGuid = verificationData.customer_guid;
+    const verificationGuid = verificationData.guid;
+
+    console.log(`Identity verification failed: ${verificationGuid}`);
+
+    // Find merchant by Cybrid customer GUID
+    const merchant = await storage.getMerchantByCybridGuid(customerGuid);
+    if (!merchant) {
+      console.error(`No merchant found for Cybrid customer GUID: ${customerGuid}`);
+      return { outcome: 'ignored', detail: `No merchant for Cybrid customer ${customerGuid}` };
+    }
+
+    const failureReason = verificationData.failure_reason || 'Verification failed';
+    const result = await OnboardingService.advance(merchant.id, 'kyc_rejected', {
+      trigger: 'cybrid_webhook',
+      actorId: verificationData.guid ?? null,
+      reason: failureReason,
+      updates: {
+        cybridVerificationGuid: verificationGuid,
+        cybridLastError: failureReason,
+        cybridLastSyncedAt: new Date()
+      }
+    });
+
+    console.log(`Merchant ${merchant.id} onboarding state after failed verification: ${result.to}`);
+    return { outcome: 'handled', merchantId: merchant.id, detail: result.changed ? `${result.from} → ${result.to}` : `Stayed ${result.to}` };
+  }
+
+  async function handleCustomerStoring(customerData: any): Promise<CybridEventResult> {
+    const customerGuid = customerData.guid;
+    
+    console.log(`Customer storing state reached: ${customerGuid}`);
+
+    // Find merchant by Cybrid customer GUID
+    const merchant = await storage.getMerchantByCybridGuid(customerGuid);
+    if (!merchant) {
+      console.error(`No merchant found for Cybrid customer GUID: ${customerGuid}`);
+      return { outcome: 'ignored', detail: `No merchant for Cybrid customer ${customerGuid}` };
+    }
+
+    // A customer in the storing state is usable, which clears an earlier creation error
+    const result = await OnboardingService.advance(merchant.id, 'customer_created', {
+      trigger: 'cybrid_webhook',
+      actorId: customerData.guid ?? null,
+      updates: { cybridLastSyncedAt: new Date() }
+    });
+
+    console.log(`Merchant ${merchant.id} onboarding state after customer storing: ${result.to}`);
+    return { outcome: 'handled', merchantId: merchant.id, detail: result.changed ? `${result.from} → ${result.to}` : `Stayed ${result.to}` };
+  }
+
+  // Inbound Cybrid webhook event inspector
+  app.get("/api/admin/webhooks/cybrid/events", requirePermission('webhook_management'), async (req, res) => {
     try {
-      // Extract object_guid from Cybrid webhook payload
-      const verificationGuid = webhookPayload.object_guid;
-      
-      console.log(`Identity verification completed for: ${verificationGuid}`);
+      const filters = webhookEventFiltersSchema.parse(req.query);
+      const [events, eventTypes, merchants] = await Promise.all([
+        storage.getWebhookEvents('cybrid', filters),
+        storage.getWebhookEventTypes('cybrid'),
+        storage.getAllMerchants()
+      ]);
+      const merchantNames = new Map(merchants.map(merchant => [merchant.id, merchant.name]));
+
+      // Payloads can be large, so the list omits them; fetch a single event to see the raw body
+      res.json({
+        events: events.map(({ payload, ...event }) => ({
+          ...event,
+          merchantName: event.merchantId ? merchantNames.get(event.merchantId) ?? null : null
+        })),
+        eventTypes
+      });
+    } catch (error) {
+      console.error("Error fetching Cybrid webhook events:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: (error as any).issues
+        });
+      }
+      res.status(500).json({ error: "Failed to fetch webhook events" });
+    }
+  });
 
-      // Fetch the full identity verification details from Cybrid API
-      const verificationDetails = await CybridService.getIdentityVerification(verificationGuid);
-      if (!verificationDetails) {
-        console.error(`Failed to fetch identity verification details for: ${verificationGuid}`);
-        return;
+  app.get("/api/admin/webhooks/cybrid/events/:id", requirePermission('webhook_management'), async (req, res) => {
+    try {
+      const event = await storage.getWebhookEventById(Number(req.params.id));
+      if (!event || event.source !== 'cybrid') {
+        return res.status(404).json({ error: "Webhook event not found" });
       }
 
-      const customerGuid = verificationDetails.customer_guid;
-      const outcome = verificationDetails.outcome;
+      const merchant = event.merchantId ? await storage.getMerchant(event.merchantId) : undefined;
+      res.json({ ...event, merchantName: merchant?.name ?? null });
+    } catch (error) {
+      console.error("Error fetching Cybrid webhook event:", error);
+      res.status(500).json({ error: "Failed to fetch webhook event" });
+    }
+  });
 
-      console.log(`Identity verification completed: ${verificationGuid} with outcome: ${outcome}`);
+  // Re-dispatch a stored event through the handler switch, bypassing the idempotency check
+  app.post("/api/admin/webhooks/cybrid/events/:id/replay", requirePermission('webhook_management'), async (req, res) => {
+    try {
+      const event = await storage.getWebhookEventById(Number(req.params.id));
+      if (!event) {
+        return res.status(404).json({ error: "Webhook event not found" });
+      }
+      // Only Cybrid events can go through the Cybrid handlers
+      if (event.source !== 'cybrid') {
+        return res.status(409).json({ error: `Only Cybrid events can be replayed (this is a ${event.source} event)` });
+      }
 
-      // Find merchant by Cybrid customer GUID
-      const merchant = await storage.getMerchantByCybridGuid(customerGuid);
-      if (!merchant) {
-        console.error(`No merchant found for Cybrid customer GUID: ${customerGuid}`);
-        return;
+      console.log(`🔁 Admin ${req.user!.id} replaying Cybrid event ${event.eventId} (${event.eventType})`);
+      const result = await processCybridEvent(event);
+      await AuditService.record(req, {
+        action: 'cybrid_event.replay',
+        targetType: 'webhook_event',
+        targetId: String(event.id),
+        metadata: { eventId: event.eventId, eventType: event.eventType }
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error replaying Cybrid webhook event:", error);
+      res.status(500).json({ error: "Failed to replay webhook event" });
+    }
+  });
+
+  const TRANSAK_WEBHOOK_TOKEN_REFRESH_SECONDS = parseInt(process.env.TRANSAK_WEBHOOK_TOKEN_REFRESH_SECONDS || '60', 10);
+
+  // Transak webhook endpoint for receiving order status updates
+  app.post("/api/webhooks/transak", async (req, res) => {
+    try {
+      // Transak posts { data: <JWT> } signed with the partner access token
+      const token = req.body?.data;
+      if (!token || typeof token !== 'string') {
+        console.warn('Transak webhook missing data token');
+        return res.status(400).json({ error: 'Missing webhook data' });
       }
 
-      // Update merchant verification status based on outcome
-      let kybStatus = 'pending';
-      let cybridIntegrationStatus = 'active';
-      
-      if (outcome === 'passed') {
-        kybStatus = 'approved';
-        
-        // AUTOMATED SEQUENCE: Create trade account first, then deposit wallet
-        console.log(`🚀 Starting automated account creation for verified merchant ${merchant.id}`);
-        
+      // Orders created with a merchant's own keys are signed with that merchant's access token
+      const claimedOrderId = TransakService.decodeWebhookToken(token)?.webhookData?.partnerOrderId;
+      const claimedTransaction = claimedOrderId ? await storage.getTransactionByPartnerOrderId(claimedOrderId) : undefined;
+      const transak = claimedTransaction?.credentialSource === 'merchant'
+        ? await TransakCredentialService.forSource(claimedTransaction.merchantId, 'merchant', claimedTransaction.mode as MerchantMode)
+        : TransakCredentialService.forPlatform();
+      let webhook: TransakOrderWebhook;
+      try {
+        webhook = TransakService.verifyWebhookToken(token, await transak.getCachedAccessToken());
+      } catch (verifyError) {
+        // The access token may have rotated since the webhook was signed - retry once with a fresh one.
+        // Unsigned requests can trigger this, so the token is refetched at most once per window.
+        if (!transak.invalidateStaleCachedToken(TRANSAK_WEBHOOK_TOKEN_REFRESH_SECONDS)) {
+          console.warn('Transak webhook signature verification failed:', verifyError);
+          return res.status(403).json({ error: 'Invalid signature' });
+        }
         try {
-          // Step 1: Create or get existing USDC trade account
-          console.log(`Step 1: Creating USDC trade account for customer ${customerGuid}`);
-          let tradeAccount;
-          
-          try {
-            tradeAccount = await CybridService.createTradeAccount(customerGuid, 'USDC');
-            console.log(`✅ Step 1a: USDC trade account created: ${tradeAccount.guid}`);
-          } catch (createError: any) {
-            // Handle "already exists" error gracefully
-            if (createError.message && createError.message.includes('already exists')) {
-              console.log(`ℹ️ Trade account already exists, fetching existing account...`);
-              
-              // Fetch existing trade accounts for this customer
-              const existingAccounts = await CybridService.listTradeAccounts(customerGuid);
-              const usdcAccount = existingAccounts.find((acc: any) => acc.asset === 'USDC');
-              
-              if (usdcAccount) {
-                tradeAccount = usdcAccount;
-                console.log(`✅ Step 1b: Using existing USDC trade account: ${tradeAccount.guid}`);
-              } else {
-                throw new Error('USDC trade account should exist but was not found');
-              }
-            } else {
-              // Re-throw other errors
-              throw createError;
-            }
-          }
-          
-          // Update merchant with trade account details
-          await storage.updateMerchant(merchant.id, {
-            cybridTradeAccountGuid: tradeAccount.guid,
-            tradeAccountAsset: 'USDC',
-            tradeAccountStatus: 'created',
-            cybridLastSyncedAt: new Date()
-          });
-          
-          // Step 2: Create deposit address for the trade account
-          console.log(`Step 2: Creating deposit address for trade account ${tradeAccount.guid}`);
-          let depositAddress;
-          
-          try {
-            depositAddress = await CybridService.createDepositAddress(tradeAccount.guid, 'USDC');
-            console.log(`✅ Step 2a: Deposit address created: ${depositAddress.address}`);
-          } catch (depositError: any) {
-            // Check if deposit address already exists
-            if (depositError.message && depositError.message.includes('already exists')) {
-              console.log(`ℹ️ Deposit address already exists, fetching existing address...`);
-              
-              // Fetch existing deposit addresses for this account
-              const existingAddresses = await CybridService.listDepositAddresses(tradeAccount.guid);
-              const usdcAddress = existingAddresses.find((addr: any) => addr.asset === 'USDC');
-              
-              if (usdcAddress) {
-                depositAddress = usdcAddress;
-                console.log(`✅ Step 2b: Using existing deposit address: ${depositAddress.address}`);
-              } else {
-                throw new Error('USDC deposit address should exist but was not found');
-              }
-            } else {
-              // Re-throw other errors
-              throw depositError;
-            }
-          }
-          
-          // Update merchant with deposit address details
-          await storage.updateMerchant(merchant.id, {
-            depositAddressGuid: depositAddress.guid,
-            depositAddress: depositAddress.address,
-            depositAddressAsset: 'USDC',
-            depositAddressStatus: 'created',
-            cybridLastSyncedAt: new Date()
-          });
-          
-          console.log(`✅ Step 2 complete: Deposit address ready: ${depositAddress.address}`);
-          console.log(`🎉 AUTOMATION SUCCESS: Trade account and deposit wallet ready for merchant ${merchant.id}`);
-          
-        } catch (automationError) {
-          console.error(`❌ AUTOMATION FAILED for merchant ${merchant.id}:`, automationError);
-          
-          // Update merchant record to indicate automation failure
-          await storage.updateMerchant(merchant.id, {
-            tradeAccountStatus: 'error',
-            depositAddressStatus: 'error',
-            cybridLastError: automationError instanceof Error ? automationError.message : 'Account creation failed',
-            cybridLastSyncedAt: new Date()
+          webhook = TransakService.verifyWebhookToken(token, await transak.getCachedAccessToken());
+        } catch (retryError) {
+          console.warn('Transak webhook signature verification failed:', retryError);
+          return res.status(403).json({ error: 'Invalid signature' });
+        }
+      }
+
+      const order = webhook.webhookData;
+      if (!order?.id || !order.status) {
+        return res.status(400).json({ error: 'Invalid webhook payload' });
+      }
+
+      console.log(`Received Transak webhook: ${webhook.eventID} for order ${order.id} (${order.partnerOrderId}) - ${order.status}`);
+
+      // One event per order status keeps retries from Transak idempotent
+      const eventId = `transak:${order.id}:${order.status}`;
+      const existingEvent = await storage.getWebhookEvent(eventId);
+      if (existingEvent) {
+        console.log(`Webhook event ${eventId} already processed, returning success`);
+        return res.status(200).json({ received: true, event_type: webhook.eventID, status: 'duplicate' });
+      }
+
+      // Recorded only once the event has been processed, so a failure leaves Transak's retry free to process it again
+      const recordProcessed = () => storage.createWebhookEvent({
+        eventId,
+        source: 'transak',
+        eventType: webhook.eventID,
+        payload: webhook
+      });
+
+      if (!order.partnerOrderId) {
+        console.log(`Transak order ${order.id} has no partnerOrderId, ignoring`);
+        await recordProcessed();
+        return res.status(200).json({ received: true, event_type: webhook.eventID, status: 'ignored' });
+      }
+
+      const transaction = await storage.updateTransactionStatus(order.partnerOrderId, order.status, 'webhook', {
+        transakOrderId: order.id,
+        ...(order.fiatAmount !== undefined && { fiatAmount: order.fiatAmount.toString() }),
+        ...(order.cryptoAmount !== undefined && { cryptoAmount: order.cryptoAmount.toString() }),
+        ...(order.walletAddress && { walletAddress: order.walletAddress })
+      });
+
+      if (!transaction) {
+        console.error(`No transaction found for Transak partnerOrderId: ${order.partnerOrderId}`);
+        await recordProcessed();
+        return res.status(200).json({ received: true, event_type: webhook.eventID, status: 'unknown_order' });
+      }
+
+      // A completed or refunded order never moves back to an earlier status
+      if (transaction.status !== order.status) {
+        console.warn(`Ignoring Transak status ${order.status} for ${transaction.partnerOrderId}, already ${transaction.status}`);
+        await recordProcessed();
+        return res.status(200).json({ received: true, event_type: webhook.eventID, status: 'stale' });
+      }
+
+      console.log(`Updated transaction ${transaction.partnerOrderId} for merchant ${transaction.merchantId} to ${transaction.status}`);
+
+      // Link the Transak order to its payment link; single-use links are spent once the order completes
+      const paymentLink = await storage.getPaymentLinkByPartnerOrderId(transaction.partnerOrderId);
+      if (paymentLink) {
+        await storage.updatePaymentLink(paymentLink.id, {
+          transakOrderId: order.id,
+          ...(paymentLink.singleUse && transaction.status === 'COMPLETED' && paymentLink.status === 'active' && { status: 'used' })
+        });
+      }
+
+      // Invoices are paid once the order started from them completes
+      if (transaction.status === 'COMPLETED') {
+        const invoice = await storage.getInvoiceByPartnerOrderId(transaction.partnerOrderId);
+        if (invoice && invoice.status === 'open') {
+          await storage.updateInvoice(invoice.id, { status: 'paid', paidAt: transaction.completedAt ?? new Date() });
+          console.log(`Invoice ${invoice.invoiceNumber} paid by order ${order.id}`);
+        }
+
+        const merchant = await storage.getMerchant(transaction.merchantId);
+        if (merchant) {
+          await NotificationService.notifyMerchant(merchant, 'payment_received', {
+            merchantName: merchant.name,
+            partnerOrderId: transaction.partnerOrderId,
+            fiatAmount: transaction.fiatAmount,
+            fiatCurrency: transaction.fiatCurrency,
+            cryptoAmount: transaction.cryptoAmount,
+            cryptoCurrency: transaction.cryptoCurrency
           });
         }
-        
-      } else if (outcome === 'failed') {
-        kybStatus = 'rejected';
-        cybridIntegrationStatus = 'error';
       }
 
-      // Update merchant record with verification results
-      await storage.updateMerchant(merchant.id, {
-        kybStatus: kybStatus,
-        cybridIntegrationStatus: cybridIntegrationStatus,
-        cybridVerificationGuid: verificationGuid,
-        cybridLastSyncedAt: new Date()
+      await WebhookDeliveryService.emit(
+        transaction.merchantId,
+        WebhookDeliveryService.paymentEventFor(transaction.status),
+        WebhookDeliveryService.paymentEventData(transaction)
+      );
+
+      await recordProcessed();
+      res.status(200).json({ received: true, event_type: webhook.eventID });
+
+    } catch (error) {
+      console.error('Error processing Transak webhook:', error);
+      res.status(500).json({ error: 'Webhook processing failed' });
+    }
+  });
+
+  // Merchant portal routes (require merchant authentication)
+  app.get("/api/merchant/dashboard", requireMerchant, async (req, res) => {
+    try {
+      const merchant = req.user!;
+      const mode = merchant.mode as MerchantMode;
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 90);
+
+      const now = new Date();
+      const windowStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1)));
+      const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+      const since = windowStart < monthStart ? windowStart : monthStart;
+
+      const [dailyVolume, statusCounts, recentOrders] = await Promise.all([
+        storage.getMerchantDailyVolume(merchant.id, mode, since),
+        storage.getMerchantTransactionStatusCounts(merchant.id, mode),
+        storage.getRecentMerchantTransactions(merchant.id, mode, 10)
+      ]);
+
+      // Orders settle in different fiat currencies, so volume is only ever summed within one currency
+      const monthKey = monthStart.toISOString().slice(0, 10);
+      const windowKey = windowStart.toISOString().slice(0, 10);
+      const currencyTotals = new Map<string, { currency: string; monthVolume: number; windowVolume: number; windowCompleted: number }>();
+      const dayTotals = new Map<string, { transactions: number; volumes: Record<string, number> }>();
+      for (const row of dailyVolume) {
+        const day = dayTotals.get(row.date) ?? { transactions: 0, volumes: {} };
+        day.transactions += row.transactions;
+        dayTotals.set(row.date, day);
+        // Orders without a currency yet (e.g. sessions never paid) have no volume to report
+        if (!row.currency) continue;
+
+        day.volumes[row.currency] = (day.volumes[row.currency] ?? 0) + row.volume;
+        const totals = currencyTotals.get(row.currency) ?? { currency: row.currency, monthVolume: 0, windowVolume: 0, windowCompleted: 0 };
+        if (row.date >= monthKey) {
+          totals.monthVolume += row.volume;
+        }
+        if (row.date >= windowKey) {
+          totals.windowVolume += row.volume;
+          totals.windowCompleted += row.completed;
+        }
+        currencyTotals.set(row.currency, totals);
+      }
+
+      // Fill in days without orders so the chart has a continuous axis
+      const volumeByDay = Array.from({ length: days }, (_, i) => {
+        const date = new Date(windowStart.getTime() + i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        const day = dayTotals.get(date);
+        return { date, volumes: day?.volumes ?? {}, transactions: day?.transactions ?? 0 };
+      });
+
+      // Largest currency first
+      const volumeByCurrency = Array.from(currencyTotals.values())
+        .sort((a, b) => b.monthVolume - a.monthVolume || b.windowVolume - a.windowVolume)
+        .map(totals => ({
+          currency: totals.currency,
+          monthVolume: totals.monthVolume,
+          averageTransaction: totals.windowCompleted > 0 ? totals.windowVolume / totals.windowCompleted : null
+        }));
+
+      // Success rate only counts orders that reached a final state
+      const failedStatuses = ['FAILED', 'CANCELLED', 'EXPIRED', 'REFUNDED'];
+      const completedCount = statusCounts['COMPLETED'] || 0;
+      const failedCount = failedStatuses.reduce((sum, status) => sum + (statusCounts[status] || 0), 0);
+      const totalCount = Object.values(statusCounts).reduce((sum, count) => sum + count, 0);
+
+      // Live balances from Cybrid - the dashboard still renders if Cybrid is unavailable
+      let balances: CybridAccountBalance[] = [];
+      let balancesError: string | null = null;
+      if (mode !== CybridService.mode()) {
+        balancesError = `Balances are only available in ${CybridService.mode()} mode`;
+      } else if (merchant.cybridCustomerGuid) {
+        try {
+          balances = await CybridService.getCustomerBalances(merchant.cybridCustomerGuid);
+        } catch (balanceError) {
+          console.error(`Failed to fetch balances for merchant ${merchant.id}:`, balanceError);
+          balancesError = 'Failed to fetch account balances';
+        }
+      }
+
+      res.json({
+        totals: {
+          volumeByCurrency,
+          transactionCount: totalCount,
+          successRate: completedCount + failedCount > 0 ? (completedCount / (completedCount + failedCount)) * 100 : null
+        },
+        volumeByDay,
+        statusCounts,
+        recentOrders,
+        balances,
+        balancesError,
+        mode,
+        integrations: merchant.integrations || []
+      });
+    } catch (error) {
+      console.error("Error fetching merchant dashboard:", error);
+      res.status(500).json({ error: "Failed to fetch dashboard data" });
+    }
+  });
+
+  // Sandbox/live mode: which credentials, deposit addresses, transactions, payment links and invoices the portal works with
+  const getMerchantModeStatus = async (merchant: Merchant) => {
+    const credentials = await Promise.all(merchantModes.map(mode =>
+      TransakCredentialService.merchantCredentials(merchant.id, mode)
+    ));
+
+    return {
+      mode: merchant.mode as MerchantMode,
+      modes: merchantModes.map((mode, i) => ({
+        mode,
+        environment: merchantModeEnvironments[mode],
+        transakCredentialsConfigured: !!credentials[i],
+        platformTransakAvailable: TransakCredentialService.platformMode() === mode,
+        cybridAvailable: CybridService.mode() === mode
+      })),
+      liveAvailable: OnboardingService.isKycApproved(merchant)
+    };
+  };
+
+  app.get("/api/merchant/mode", requireMerchant, async (req, res) => {
+    try {
+      const merchant = await storage.getMerchant(req.user!.id);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+      res.json(await getMerchantModeStatus(merchant));
+    } catch (error) {
+      console.error("Error fetching merchant mode:", error);
+      res.status(500).json({ error: "Failed to fetch mode" });
+    }
+  });
+
+  app.put("/api/merchant/mode", requireMerchant, async (req, res) => {
+    try {
+      const { mode } = updateMerchantModeSchema.parse(req.body);
+      const current = await storage.getMerchant(req.user!.id);
+      if (!current) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+      if (mode === 'live' && !OnboardingService.isKycApproved(current)) {
+        return res.status(409).json({ error: "Live mode is available once your KYC verification is approved" });
+      }
+
+      const merchant = current.mode === mode ? current : await storage.updateMerchantMode(current.id, mode);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+
+      if (current.mode !== mode) {
+        console.log(`🔀 Merchant ${merchant.id} switched from ${current.mode} to ${mode} mode`);
+        await AuditService.record(req, {
+          action: 'merchant.mode',
+          targetType: 'merchant',
+          targetId: merchant.id,
+          before: { mode: current.mode },
+          after: { mode }
+        });
+      }
+      res.json(await getMerchantModeStatus(merchant));
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid request data", details: (error as any).issues });
+      }
+      console.error("Error switching merchant mode:", error);
+      res.status(500).json({ error: "Failed to switch mode" });
+    }
+  });
+
+  // Live Cybrid balances plus snapshot history for a merchant in one mode (shared by merchant and admin routes)
+  const getMerchantBalances = async (merchant: { id: string; cybridCustomerGuid?: string | null }, mode: MerchantMode, daysParam: unknown) => {
+    // Cybrid accounts only exist in the platform's Cybrid environment
+    if (mode !== CybridService.mode()) {
+      return { balances: [], history: [], balancesError: `Balances are only available in ${CybridService.mode()} mode` };
+    }
+
+    const days = Math.min(Math.max(parseInt(daysParam as string) || 30, 1), 365);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const balances = merchant.cybridCustomerGuid
+      ? await CybridService.getCustomerBalances(merchant.cybridCustomerGuid)
+      : [];
+    const history = await storage.getMerchantBalanceSnapshots(merchant.id, mode, since);
+
+    return {
+      balancesError: null,
+      balances,
+      history: history.map(snapshot => ({
+        accountGuid: snapshot.cybridAccountGuid,
+        accountType: snapshot.accountType,
+        asset: snapshot.asset,
+        platformBalance: Number(snapshot.platformBalance),
+        platformAvailable: Number(snapshot.platformAvailable),
+        capturedAt: snapshot.capturedAt
+      }))
+    };
+  };
+
+  app.get("/api/merchant/balances", requireMerchant, requireMerchantKycVerified, async (req, res) => {
+    try {
+      res.json(await getMerchantBalances(req.user!, req.user!.mode as MerchantMode, req.query.days));
+    } catch (error) {
+      console.error("Error fetching merchant balances:", error);
+      res.status(500).json({
+        error: "Failed to fetch balances",
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Merchant transactions (Transak orders created from payment sessions)
+  app.get("/api/merchant/transactions", requireMerchant, async (req, res) => {
+    try {
+      const transactions = await storage.getMerchantTransactions(req.user!.id, req.user!.mode as MerchantMode);
+      res.json(transactions);
+    } catch (error) {
+      console.error("Error fetching merchant transactions:", error);
+      res.status(500).json({ error: "Failed to fetch transactions" });
+    }
+  });
+
+  app.get("/api/merchant/transactions/:partnerOrderId", requireMerchant, async (req, res) => {
+    try {
+      const transaction = await storage.getTransactionByPartnerOrderId(req.params.partnerOrderId);
+      if (!transaction || transaction.merchantId !== req.user!.id) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+      res.json(transaction);
+    } catch (error) {
+      console.error("Error fetching merchant transaction:", error);
+      res.status(500).json({ error: "Failed to fetch transaction" });
+    }
+  });
+
+  // Merchant payment link management
+  const serializePaymentLink = (req: Request, link: PaymentLink) => {
+    const { sessionUrl, ...rest } = link;
+    // Report links past their expiry as expired even before the cleanup job marks them
+    const status = link.status === 'active' && link.expiresAt < new Date() ? 'expired' : link.status;
+    return { ...rest, status, url: getPaymentLinkUrl(req, link.id) };
+  };
+
+  app.get("/api/merchant/payment-links", requireMerchant, async (req, res) => {
+    try {
+      const links = await storage.getMerchantPaymentLinks(req.user!.id, req.user!.mode as MerchantMode);
+      res.json(links.map(link => serializePaymentLink(req, link)));
+    } catch (error) {
+      console.error("Error fetching payment links:", error);
+      res.status(500).json({ error: "Failed to fetch payment links" });
+    }
+  });
+
+  app.post("/api/merchant/payment-links/:id/revoke", requireMerchant, async (req, res) => {
+    try {
+      const link = await storage.getPaymentLink(req.params.id);
+      if (!link || link.merchantId !== req.user!.id) {
+        return res.status(404).json({ error: "Payment link not found" });
+      }
+      if (link.status !== 'active') {
+        return res.status(409).json({ error: `Payment link is already ${link.status}` });
+      }
+
+      const revoked = await storage.updatePaymentLink(link.id, { status: 'revoked', revokedAt: new Date() });
+      console.log(`Merchant ${req.user!.id} revoked payment link ${link.id}`);
+      await AuditService.record(req, { action: 'payment_link.revoke', targetType: 'payment_link', targetId: link.id, before: link, after: revoked });
+      res.json(serializePaymentLink(req, revoked!));
+    } catch (error) {
+      console.error("Error revoking payment link:", error);
+      res.status(500).json({ error: "Failed to revoke payment link" });
+    }
+  });
+
+  // Re-issue a link with a fresh Transak session for the same order details; the old link is revoked
+  app.post("/api/merchant/payment-links/:id/reissue", requireMerchant, requireMerchantKycVerified, async (req, res) => {
+    try {
+      const { expiresInHours } = reissuePaymentLinkSchema.parse(req.body ?? {});
+      const link = await storage.getPaymentLink(req.params.id);
+      if (!link || link.merchantId !== req.user!.id) {
+        return res.status(404).json({ error: "Payment link not found" });
+      }
+      if (link.status === 'used') {
+        return res.status(409).json({ error: "Payment link has already been used" });
+      }
+
+      const transaction = link.partnerOrderId ? await storage.getTransactionByPartnerOrderId(link.partnerOrderId) : undefined;
+      if (!transaction || !transaction.cryptoCurrency || !transaction.fiatCurrency || !transaction.network ||
+          !transaction.paymentMethod || !transaction.walletAddress || !transaction.customerEmail) {
+        return res.status(400).json({ error: "Payment link does not have enough order details to be re-issued" });
+      }
+
+      const sessionData = createTransakSessionSchema.parse({
+        quoteData: {
+          fiatAmount: transaction.fiatAmount ? Number(transaction.fiatAmount) : undefined,
+          cryptoAmount: transaction.fiatAmount ? undefined : Number(transaction.cryptoAmount),
+          cryptoCurrency: transaction.cryptoCurrency,
+          fiatCurrency: transaction.fiatCurrency,
+          network: transaction.network,
+          paymentMethod: transaction.paymentMethod
+        },
+        walletAddress: transaction.walletAddress,
+        customerEmail: transaction.customerEmail,
+        description: link.description ?? undefined,
+        singleUse: link.singleUse,
+        expiresInHours
+      });
+
+      const { paymentLink, partnerOrderId, credentialSource } = await createPaymentSession(
+        req.user!.id,
+        link.mode as MerchantMode,
+        link.direction === 'SELL' ? 'SELL' : 'BUY',
+        sessionData,
+        link.id
+      );
+
+      if (link.status === 'active') {
+        await storage.updatePaymentLink(link.id, { status: 'revoked', revokedAt: new Date() });
+      }
+
+      console.log(`Merchant ${req.user!.id} re-issued payment link ${link.id} as ${paymentLink.id}`);
+      await AuditService.record(req, {
+        action: 'payment_link.reissue',
+        targetType: 'payment_link',
+        targetId: link.id,
+        metadata: { newPaymentLinkId: paymentLink.id, partnerOrderId }
+      });
+      res.json({ ...serializePaymentLink(req, paymentLink), partnerOrderId, credentialSource });
+    } catch (error) {
+      console.error("Error re-issuing payment link:", error);
+
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: (error as any).issues
+        });
+      }
+
+      if (error instanceof Error && error.message.includes('Transak')) {
+        return res.status(502).json({
+          error: "Payment provider error",
+          details: error.message
+        });
+      }
+
+      res.status(500).json({ error: "Failed to re-issue payment link" });
+    }
+  });
+
+  // Background jobs and merchant provisioning recovery
+  app.get("/api/admin/jobs", requirePermission('integration_management'), async (req, res) => {
+    try {
+      const [jobs, merchants] = await Promise.all([
+        storage.getJobs({
+          merchantId: typeof req.query.merchantId === 'string' ? req.query.merchantId : undefined,
+          status: typeof req.query.status === 'string' ? req.query.status : undefined,
+          type: typeof req.query.type === 'string' ? req.query.type : undefined,
+          limit: 200
+        }),
+        storage.getAllMerchants()
+      ]);
+      const merchantNames = new Map(merchants.map(merchant => [merchant.id, merchant.name]));
+
+      res.json(jobs.map(job => ({
+        ...job,
+        merchantName: job.merchantId ? merchantNames.get(job.merchantId) ?? null : null
+      })));
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ error: "Failed to fetch jobs" });
+    }
+  });
+
+  app.post("/api/admin/jobs/:id/retry", requirePermission('integration_management'), async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (job.status === 'running' || job.status === 'succeeded') {
+        return res.status(409).json({ error: `Job is already ${job.status}` });
+      }
+
+      console.log(`🧵 Admin ${req.user!.id} retried job ${job.type} ${job.id}`);
+      const retried = await JobQueueService.retry(job);
+      await AuditService.record(req, { action: 'job.retry', targetType: 'job', targetId: job.id, metadata: { type: job.type, status: job.status } });
+      res.json(retried);
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      res.status(500).json({ error: "Failed to retry job" });
+    }
+  });
+
+  // Per-asset provisioning state for a merchant, with the jobs that drive it
+  app.get("/api/admin/merchants/:id/provisioning", requirePermission('merchant_view'), async (req, res) => {
+    try {
+      const { id } = cybridCustomerParamsSchema.parse(req.params);
+      const merchant = await storage.getMerchant(id);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+
+      const [tradeAccounts, depositAddresses, jobs] = await Promise.all([
+        storage.getMerchantTradeAccounts(id),
+        storage.getMerchantDepositAddresses(id, CybridService.mode()),
+        storage.getJobs({ merchantId: id, type: 'provision_merchant_asset', limit: 50 })
+      ]);
+
+      const assets = CybridService.getProvisionedAssets().map(asset => {
+        const tradeAccount = tradeAccounts.find(account => account.asset === asset);
+        const depositAddress = depositAddresses.find(address => address.asset === asset && address.isActive);
+        const latestJob = jobs.find(job => job.payload.asset === asset);
+        return {
+          asset,
+          tradeAccountStatus: tradeAccount?.status ?? null,
+          tradeAccountError: tradeAccount?.lastError ?? null,
+          depositAddress: depositAddress?.address ?? null,
+          ready: tradeAccount?.status === 'created' && !!depositAddress,
+          latestJob: latestJob ?? null
+        };
+      });
+
+      res.json({
+        merchantId: id,
+        kybStatus: merchant.kybStatus,
+        onboardingState: OnboardingService.stateOf(merchant),
+        tradeAccountStatus: merchant.tradeAccountStatus,
+        cybridLastError: merchant.cybridLastError,
+        assets,
+        jobs
+      });
+    } catch (error) {
+      console.error("Error fetching merchant provisioning:", error);
+      res.status(500).json({ error: "Failed to fetch provisioning status" });
+    }
+  });
+
+  // Queue provisioning again for every asset that is not fully set up
+  app.post("/api/admin/merchants/:id/provisioning/retry", requirePermission('integration_management'), async (req, res) => {
+    try {
+      const { id } = cybridCustomerParamsSchema.parse(req.params);
+      const merchant = await storage.getMerchant(id);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+      if (!merchant.cybridCustomerGuid) {
+        return res.status(400).json({ error: "Merchant must have a Cybrid customer account" });
+      }
+      if (!OnboardingService.isKycApproved(merchant)) {
+        return res.status(400).json({ error: "Merchant KYC must be approved before provisioning", onboardingState: OnboardingService.stateOf(merchant) });
+      }
+
+      const [tradeAccounts, depositAddresses] = await Promise.all([
+        storage.getMerchantTradeAccounts(id),
+        storage.getMerchantDepositAddresses(id, CybridService.mode())
+      ]);
+      const incomplete = CybridService.getProvisionedAssets().filter(asset =>
+        tradeAccounts.find(account => account.asset === asset)?.status !== 'created'
+        || !depositAddresses.some(address => address.asset === asset && address.isActive)
+      );
+
+      if (incomplete.length === 0) {
+        return res.json({ queued: [], message: "All assets are already provisioned" });
+      }
+
+      console.log(`🧵 Admin ${req.user!.id} retried provisioning for merchant ${id}`);
+      if (OnboardingService.stateOf(merchant) === 'provisioning_failed') {
+        await OnboardingService.transition(id, 'provisioning', { trigger: 'admin', actorId: req.user!.id, reason: 'Provisioning retried' });
+      }
+      const queued = await JobQueueService.enqueueMerchantProvisioning(id, merchant.cybridCustomerGuid, incomplete);
+      await AuditService.record(req, { action: 'merchant.provisioning.retry', targetType: 'merchant', targetId: id, metadata: { assets: incomplete } });
+      res.json({ queued });
+    } catch (error) {
+      console.error("Error retrying merchant provisioning:", error);
+      res.status(500).json({ error: "Failed to queue provisioning" });
+    }
+  });
+
+  // Onboarding state, the moves an admin can make from it, and the transition history
+  app.get("/api/admin/merchants/:id/onboarding", requirePermission('merchant_view'), async (req, res) => {
+    try {
+      const { id } = cybridCustomerParamsSchema.parse(req.params);
+      const merchant = await storage.getMerchant(id);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+
+      const state = OnboardingService.stateOf(merchant);
+      const transitions = await storage.getMerchantStateTransitions(id);
+      res.json({
+        merchantId: id,
+        state,
+        allowedTransitions: OnboardingService.allowedTransitions(state),
+        transitions
+      });
+    } catch (error) {
+      console.error("Error fetching merchant onboarding state:", error);
+      res.status(500).json({ error: "Failed to fetch onboarding state" });
+    }
+  });
+
+  // Move a merchant to another onboarding state; transitions outside the table need force
+  app.post("/api/admin/merchants/:id/onboarding/transition", requirePermission('merchant_approve'), async (req, res) => {
+    try {
+      const { id } = cybridCustomerParamsSchema.parse(req.params);
+      const { state, reason, force } = adminOnboardingTransitionSchema.parse(req.body);
+      const merchant = await storage.getMerchant(id);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+
+      const from = OnboardingService.stateOf(merchant);
+      if (from === state) {
+        return res.status(409).json({ error: `Merchant is already ${state}` });
+      }
+      if (from === 'deactivated' && !force) {
+        return res.status(409).json({ error: "Reactivate the merchant instead of transitioning out of deactivated", allowedTransitions: [] });
+      }
+      if (!force && !OnboardingService.canTransition(from, state)) {
+        return res.status(409).json({
+          error: `Transition ${from} → ${state} is not allowed`,
+          allowedTransitions: OnboardingService.allowedTransitions(from)
+        });
+      }
+
+      const result = await OnboardingService.transition(id, state, { trigger: 'admin', actorId: req.user!.id, reason, force });
+
+      let queued: Job[] = [];
+      if (state === 'provisioning' && result.merchant.cybridCustomerGuid) {
+        queued = await JobQueueService.enqueueMerchantProvisioning(id, result.merchant.cybridCustomerGuid);
+      }
+
+      await AuditService.record(req, {
+        action: 'merchant.onboarding.transition',
+        targetType: 'merchant',
+        targetId: id,
+        before: { onboardingState: result.from },
+        after: { onboardingState: result.to },
+        metadata: { reason, force }
+      });
+      res.json({ merchant: result.merchant, from: result.from, to: result.to, queued });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ error: "Invalid request data", details: (error as any).issues });
+      }
+      console.error("Error transitioning merchant onboarding state:", error);
+      res.status(500).json({ error: "Failed to transition onboarding state" });
+    }
+  });
+
+  // Scheduled Cybrid reconciliation reports
+  app.get("/api/admin/reconciliation/runs", requirePermission('integration_management'), async (req, res) => {
+    try {
+      const runs = await storage.getReconciliationRuns(20);
+      // Reports can be large; the list only carries the counts
+      res.json({
+        running: ReconciliationService.isInProgress(),
+        runs: runs.map(({ discrepancies, merchantErrors, ...run }) => run)
+      });
+    } catch (error) {
+      console.error("Error fetching reconciliation runs:", error);
+      res.status(500).json({ error: "Failed to fetch reconciliation runs" });
+    }
+  });
+
+  // Discrepancies from the most recent completed run
+  app.get("/api/admin/reconciliation/runs/latest", requirePermission('integration_management'), async (req, res) => {
+    try {
+      const run = await storage.getLatestReconciliationRun('completed');
+      res.json({ running: ReconciliationService.isInProgress(), run: run ?? null });
+    } catch (error) {
+      console.error("Error fetching latest reconciliation run:", error);
+      res.status(500).json({ error: "Failed to fetch latest reconciliation run" });
+    }
+  });
+
+  app.get("/api/admin/reconciliation/runs/:id", requirePermission('integration_management'), async (req, res) => {
+    try {
+      const run = await storage.getReconciliationRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Reconciliation run not found" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Error fetching reconciliation run:", error);
+      res.status(500).json({ error: "Failed to fetch reconciliation run" });
+    }
+  });
+
+  // Start a run now instead of waiting for the schedule; it continues in the background
+  app.post("/api/admin/reconciliation/runs", requirePermission('integration_management'), async (req, res) => {
+    try {
+      const run = await ReconciliationService.trigger('manual', req.user!.id);
+      if (!run) {
+        return res.status(409).json({ error: "A reconciliation run is already in progress" });
+      }
+      console.log(`🔎 Admin ${req.user!.id} started reconciliation run ${run.id}`);
+      await AuditService.record(req, { action: 'reconciliation.run', targetType: 'reconciliation_run', targetId: run.id });
+      res.status(202).json(run);
+    } catch (error) {
+      console.error("Error starting reconciliation run:", error);
+      res.status(500).json({ error: "Failed to start reconciliation run" });
+    }
+  });
+
+  // Audit log for compliance reviews (read-only; entries are written by AuditService)
+  const handleAuditLogError = (res: any, error: unknown, fallback: string) => {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return res.status(400).json({ error: "Invalid request data", details: (error as any).issues });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/admin/audit-log", requirePermission('audit_logs'), async (req, res) => {
+    try {
+      const filters = auditLogFiltersSchema.parse(req.query);
+      const [entries, actions] = await Promise.all([
+        storage.getAuditLogEntries(filters),
+        storage.getAuditLogActions()
+      ]);
+      res.json({ entries, actions });
+    } catch (error) {
+      handleAuditLogError(res, error, "Failed to fetch audit log");
+    }
+  });
+
+  // Same filters as the list; cells starting with a formula character are quoted so spreadsheets don't evaluate them
+  app.get("/api/admin/audit-log/export", requirePermission('audit_logs'), async (req, res) => {
+    try {
+      const filters = auditLogFiltersSchema.parse(req.query);
+      const entries = await storage.getAuditLogEntries(filters);
+
+      const csvCell = (value: unknown) => {
+        if (value === null || value === undefined) return '';
+        let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+        if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      };
+      const columns = ['createdAt', 'actorType', 'actorId', 'actorName', 'action', 'targetType', 'targetId', 'changes', 'metadata', 'ipAddress', 'userAgent'] as const;
+      const csv = [
+        columns.join(','),
+        ...entries.map(entry => columns.map(column => csvCell(entry[column])).join(','))
+      ].join('\r\n');
+
+      await AuditService.record(req, { action: 'audit_log.export', metadata: { filters, rows: entries.length } });
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      handleAuditLogError(res, error, "Failed to export audit log");
+    }
+  });
+
+  // Record of outbound emails: what was sent to whom and whether delivery succeeded
+  app.get("/api/admin/notifications", requirePermission('audit_logs'), async (req, res) => {
+    try {
+      const filters = notificationFiltersSchema.parse(req.query);
+      res.json(await storage.getNotifications(filters));
+    } catch (error) {
+      handleAuditLogError(res, error, "Failed to fetch notifications");
+    }
+  });
+
+  // Outbound merchant webhooks
+  const serializeWebhookEndpoint = ({ encryptedSecret, ...endpoint }: MerchantWebhookEndpoint) => endpoint;
+
+  const summarizeDeliveries = (deliveries: WebhookDelivery[]) => {
+    const attempted = deliveries.filter(delivery => delivery.responseTimeMs !== null);
+    const finished = deliveries.filter(delivery => delivery.status !== 'pending');
+    return {
+      total: deliveries.length,
+      success: deliveries.filter(delivery => delivery.status === 'success').length,
+      failed: deliveries.filter(delivery => delivery.status === 'failed').length,
+      pending: deliveries.filter(delivery => delivery.status === 'pending').length,
+      successRate: finished.length > 0
+        ? Math.round(finished.filter(delivery => delivery.status === 'success').length / finished.length * 100)
+        : null,
+      avgResponseTimeMs: attempted.length > 0
+        ? Math.round(attempted.reduce((sum, delivery) => sum + delivery.responseTimeMs!, 0) / attempted.length)
+        : null
+    };
+  };
+
+  const handleWebhookError = (res: any, error: unknown, fallback: string) => {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return res.status(400).json({
+        error: "Invalid request data",
+        details: (error as any).issues
+      });
+    }
+    res.status(500).json({ error: fallback });
+  };
+
+  const getOwnWebhookEndpoint = async (req: Request) => {
+    const endpoint = await storage.getWebhookEndpoint(req.params.id);
+    return endpoint && endpoint.merchantId === req.user!.id ? endpoint : undefined;
+  };
+
+  app.get("/api/merchant/webhooks/endpoints", requireMerchant, async (req, res) => {
+    try {
+      const endpoints = await storage.getMerchantWebhookEndpoints(req.user!.id);
+      res.json(endpoints.map(serializeWebhookEndpoint));
+    } catch (error) {
+      console.error("Error fetching webhook endpoints:", error);
+      res.status(500).json({ error: "Failed to fetch webhook endpoints" });
+    }
+  });
+
+  // The signing secret is only returned here and on rotation
+  app.post("/api/merchant/webhooks/endpoints", requireMerchant, async (req, res) => {
+    try {
+      const input = webhookEndpointInputSchema.parse(req.body);
+      const urlProblem = await WebhookDeliveryService.urlProblem(input.url);
+      if (urlProblem) {
+        return res.status(400).json({ error: urlProblem });
+      }
+
+      const { secret, encryptedSecret } = WebhookDeliveryService.generateSecret();
+      const endpoint = await storage.createWebhookEndpoint({
+        ...input,
+        merchantId: req.user!.id,
+        encryptedSecret
+      });
+
+      console.log(`📨 Merchant ${req.user!.id} added webhook endpoint ${endpoint.url}`);
+      await AuditService.record(req, { action: 'webhook_endpoint.create', targetType: 'webhook_endpoint', targetId: endpoint.id, after: serializeWebhookEndpoint(endpoint) });
+      res.status(201).json({ endpoint: serializeWebhookEndpoint(endpoint), secret });
+    } catch (error) {
+      console.error("Error creating webhook endpoint:", error);
+      handleWebhookError(res, error, "Failed to create webhook endpoint");
+    }
+  });
+
+  app.patch("/api/merchant/webhooks/endpoints/:id", requireMerchant, async (req, res) => {
+    try {
+      const endpoint = await getOwnWebhookEndpoint(req);
+      if (!endpoint) {
+        return res.status(404).json({ error: "Webhook endpoint not found" });
+      }
+
+      const updates = updateWebhookEndpointSchema.parse(req.body);
+      const urlProblem = updates.url ? await WebhookDeliveryService.urlProblem(updates.url) : null;
+      if (urlProblem) {
+        return res.status(400).json({ error: urlProblem });
+      }
+
+      const updated = await storage.updateWebhookEndpoint(endpoint.id, updates);
+      await AuditService.record(req, {
+        action: 'webhook_endpoint.update',
+        targetType: 'webhook_endpoint',
+        targetId: endpoint.id,
+        before: serializeWebhookEndpoint(endpoint),
+        after: serializeWebhookEndpoint(updated!)
+      });
+      res.json(serializeWebhookEndpoint(updated!));
+    } catch (error) {
+      console.error("Error updating webhook endpoint:", error);
+      handleWebhookError(res, error, "Failed to update webhook endpoint");
+    }
+  });
+
+  app.delete("/api/merchant/webhooks/endpoints/:id", requireMerchant, async (req, res) => {
+    try {
+      const endpoint = await getOwnWebhookEndpoint(req);
+      if (!endpoint) {
+        return res.status(404).json({ error: "Webhook endpoint not found" });
+      }
+
+      await storage.deleteWebhookEndpoint(endpoint.id);
+      await AuditService.record(req, { action: 'webhook_endpoint.delete', targetType: 'webhook_endpoint', targetId: endpoint.id, before: serializeWebhookEndpoint(endpoint) });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting webhook endpoint:", error);
+      res.status(500).json({ error: "Failed to delete webhook endpoint" });
+    }
+  });
+
+  app.post("/api/merchant/webhooks/endpoints/:id/rotate-secret", requireMerchant, async (req, res) => {
+    try {
+      const endpoint = await getOwnWebhookEndpoint(req);
+      if (!endpoint) {
+        return res.status(404).json({ error: "Webhook endpoint not found" });
+      }
+
+      const { secret, encryptedSecret } = WebhookDeliveryService.generateSecret();
+      await storage.updateWebhookEndpoint(endpoint.id, { encryptedSecret });
+
+      console.log(`📨 Webhook secret rotated for endpoint ${endpoint.id}`);
+      await AuditService.record(req, { action: 'webhook_endpoint.rotate_secret', targetType: 'webhook_endpoint', targetId: endpoint.id });
+      res.json({ secret });
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      res.status(500).json({ error: "Failed to rotate webhook secret" });
+    }
+  });
+
+  // Send a webhook.test event to one endpoint and report the outcome of the first attempt
+  app.post("/api/merchant/webhooks/endpoints/:id/test", requireMerchant, async (req, res) => {
+    try {
+      const endpoint = await getOwnWebhookEndpoint(req);
+      if (!endpoint) {
+        return res.status(404).json({ error: "Webhook endpoint not found" });
+      }
+      if (!endpoint.enabled) {
+        return res.status(409).json({ error: "Enable the endpoint before sending a test event" });
+      }
+
+      const delivery = await WebhookDeliveryService.sendTest(endpoint);
+      await AuditService.record(req, { action: 'webhook_endpoint.test', targetType: 'webhook_endpoint', targetId: endpoint.id, metadata: { deliveryId: delivery?.id } });
+      res.json(delivery);
+    } catch (error) {
+      console.error("Error sending test webhook:", error);
+      res.status(500).json({ error: "Failed to send test webhook" });
+    }
+  });
+
+  app.get("/api/merchant/webhooks/deliveries", requireMerchant, async (req, res) => {
+    try {
+      const deliveries = await storage.getWebhookDeliveries({
+        merchantId: req.user!.id,
+        endpointId: typeof req.query.endpointId === 'string' ? req.query.endpointId : undefined,
+        status: typeof req.query.status === 'string' ? req.query.status : undefined,
+        limit: 200
+      });
+      res.json({ deliveries, stats: summarizeDeliveries(deliveries) });
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  app.post("/api/merchant/webhooks/deliveries/:id/replay", requireMerchant, async (req, res) => {
+    try {
+      const delivery = await storage.getWebhookDelivery(req.params.id);
+      if (!delivery || delivery.merchantId !== req.user!.id) {
+        return res.status(404).json({ error: "Webhook delivery not found" });
+      }
+      if (delivery.status === 'pending') {
+        return res.status(409).json({ error: "Delivery is still being retried" });
+      }
+
+      const replayed = await WebhookDeliveryService.replay(delivery);
+      await AuditService.record(req, { action: 'webhook_delivery.replay', targetType: 'webhook_delivery', targetId: delivery.id });
+      res.json(replayed);
+    } catch (error) {
+      console.error("Error replaying webhook delivery:", error);
+      res.status(500).json({ error: "Failed to replay webhook delivery" });
+    }
+  });
+
+  app.get("/api/admin/webhooks/endpoints", requirePermission('webhook_management'), async (req, res) => {
+    try {
+      const [endpoints, merchants] = await Promise.all([
+        storage.getAllWebhookEndpoints(),
+        storage.getAllMerchants()
+      ]);
+      const merchantNames = new Map(merchants.map(merchant => [merchant.id, merchant.name]));
+
+      res.json(endpoints.map(endpoint => ({
+        ...serializeWebhookEndpoint(endpoint),
+        merchantName: merchantNames.get(endpoint.merchantId) ?? null
+      })));
+    } catch (error) {
+      console.error("Error fetching webhook endpoints:", error);
+      res.status(500).json({ error: "Failed to fetch webhook endpoints" });
+    }
+  });
+
+  // Admins can pause an endpoint or change its retry budget, but not its URL or secret
+  app.patch("/api/admin/webhooks/endpoints/:id", requirePermission('webhook_management'), async (req, res) => {
+    try {
+      const updates = updateWebhookEndpointSchema.pick({ enabled: true, maxAttempts: true }).parse(req.body);
+      const existing = await storage.getWebhookEndpoint(req.params.id);
+      const endpoint = existing && await storage.updateWebhookEndpoint(existing.id, updates);
+      if (!existing || !endpoint) {
+        return res.status(404).json({ error: "Webhook endpoint not found" });
+      }
+
+      console.log(`📨 Admin ${req.user!.id} updated webhook endpoint ${endpoint.id}: ${JSON.stringify(updates)}`);
+      await AuditService.record(req, {
+        action: 'webhook_endpoint.update',
+        targetType: 'webhook_endpoint',
+        targetId: endpoint.id,
+        before: serializeWebhookEndpoint(existing),
+        after: serializeWebhookEndpoint(endpoint)
+      });
+      res.json(serializeWebhookEndpoint(endpoint));
+    } catch (error) {
+      console.error("Error updating webhook endpoint:", error);
+      handleWebhookError(res, error, "Failed to update webhook endpoint");
+    }
+  });
+
+  app.get("/api/admin/webhooks/deliveries", requirePermission('webhook_management'), async (req, res) => {
+    try {
+      const [deliveries, endpoints, merchants] = await Promise.all([
+        storage.getWebhookDeliveries({
+          merchantId: typeof req.query.merchantId === 'string' ? req.query.merchantId : undefined,
+          status: typeof req.query.status === 'string' ? req.query.status : undefined,
+          limit: 200
+        }),
+        storage.getAllWebhookEndpoints(),
+        storage.getAllMerchants()
+      ]);
+      const merchantNames = new Map(merchants.map(merchant => [merchant.id, merchant.name]));
+      const endpointUrls = new Map(endpoints.map(endpoint => [endpoint.id, endpoint.url]));
+
+      res.json({
+        deliveries: deliveries.map(delivery => ({
+          ...delivery,
+          merchantName: merchantNames.get(delivery.merchantId) ?? null,
+          url: endpointUrls.get(delivery.endpointId) ?? null
+        })),
+        stats: summarizeDeliveries(deliveries)
+      });
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  app.post("/api/admin/webhooks/deliveries/:id/replay", requirePermission('webhook_management'), async (req, res) => {
+    try {
+      const delivery = await storage.getWebhookDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ error: "Webhook delivery not found" });
+      }
+      if (delivery.status === 'pending') {
+        return res.status(409).json({ error: "Delivery is still being retried" });
+      }
+
+      console.log(`📨 Admin ${req.user!.id} replayed webhook delivery ${delivery.id}`);
+      const replayed = await WebhookDeliveryService.replay(delivery);
+      await AuditService.record(req, { action: 'webhook_delivery.replay', targetType: 'webhook_delivery', targetId: delivery.id });
+      res.json(replayed);
+    } catch (error) {
+      console.error("Error replaying webhook delivery:", error);
+      res.status(500).json({ error: "Failed to replay webhook delivery" });
+    }
+  });
+
+  // Merchant invoices
+  const buildInvoiceItems = (items: Array<{ description: string; quantity: number; unitPrice: number }>) => {
+    const rows = items.map((item, position) => ({
+      position,
+      description: item.description,
+      quantity: item.quantity.toString(),
+      unitPrice: item.unitPrice.toFixed(2),
+      amount: (Math.round(item.quantity * item.unitPrice * 100) / 100).toFixed(2)
+    }));
+    const total = rows.reduce((sum, row) => sum + Number(row.amount), 0).toFixed(2);
+    return { rows, total };
+  };
+
+  const serializeInvoice = <T extends Invoice>(req: Request, invoice: T) => {
+    const protocol = req.secure ? 'https' : 'http';
+    return {
+      ...invoice,
+      isOverdue: invoice.status === 'open' && !!invoice.dueDate && invoice.dueDate < new Date(),
+      publicUrl: `${protocol}://${req.get('host')}/invoice/${invoice.id}`
+    };
+  };
+
+  const handleInvoiceError = (res: any, error: unknown, fallback: string) => {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return res.status(400).json({
+        error: "Invalid request data",
+        details: (error as any).issues
+      });
+    }
+    res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/merchant/invoices", requireMerchant, async (req, res) => {
+    try {
+      const invoices = await storage.getMerchantInvoices(req.user!.id, req.user!.mode as MerchantMode);
+      res.json(invoices.map(invoice => serializeInvoice(req, invoice)));
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ error: "Failed to fetch invoices" });
+    }
+  });
+
+  app.post("/api/merchant/invoices", requireMerchant, async (req, res) => {
+    try {
+      const { items, issue, ...data } = createInvoiceSchema.parse(req.body);
+      const { rows, total } = buildInvoiceItems(items);
+
+      const invoice = await storage.createInvoice({
+        ...data,
+        merchantId: req.user!.id,
+        mode: req.user!.mode,
+        total,
+        status: issue ? 'open' : 'draft',
+        issuedAt: issue ? new Date() : null
+      }, rows);
+
+      console.log(`Merchant ${req.user!.id} created invoice ${invoice.invoiceNumber} (${invoice.status})`);
+      await AuditService.record(req, { action: 'invoice.create', targetType: 'invoice', targetId: invoice.id, after: invoice });
+      res.status(201).json(serializeInvoice(req, invoice));
+    } catch (error) {
+      console.error("Error creating invoice:", error);
+      handleInvoiceError(res, error, "Failed to create invoice");
+    }
+  });
+
+  app.get("/api/merchant/invoices/:id", requireMerchant, async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || invoice.merchantId !== req.user!.id) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      res.json(serializeInvoice(req, invoice));
+    } catch (error) {
+      console.error("Error fetching invoice:", error);
+      res.status(500).json({ error: "Failed to fetch invoice" });
+    }
+  });
+
+  app.patch("/api/merchant/invoices/:id", requireMerchant, async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || invoice.merchantId !== req.user!.id) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      if (invoice.status !== 'draft' && invoice.status !== 'open') {
+        return res.status(409).json({ error: `A ${invoice.status} invoice cannot be edited` });
+      }
+
+      const { items, ...updates } = updateInvoiceSchema.parse(req.body);
+      const built = items ? buildInvoiceItems(items) : undefined;
+
+      // A checkout already started carries the old amount and recipient; revoke it so the next payment starts a fresh one
+      const checkoutChanged = (built && Number(built.total) !== Number(invoice.total))
+        || (updates.currency !== undefined && updates.currency !== invoice.currency)
+        || (updates.cryptoCurrency !== undefined && updates.cryptoCurrency !== invoice.cryptoCurrency)
+        || (updates.paymentMethod !== undefined && updates.paymentMethod !== invoice.paymentMethod)
+        || (updates.customerEmail !== undefined && updates.customerEmail !== invoice.customerEmail);
+      const staleLinkId = checkoutChanged ? invoice.paymentLinkId : null;
+      if (staleLinkId) {
+        const link = await storage.getPaymentLink(staleLinkId);
+        if (link?.status === 'active') {
+          await storage.updatePaymentLink(link.id, { status: 'revoked', revokedAt: new Date() });
+        }
+      }
+
+      const updated = await storage.updateInvoice(invoice.id, {
+        ...updates,
+        ...(built && { total: built.total }),
+        ...(staleLinkId && { paymentLinkId: null, partnerOrderId: null })
+      }, built?.rows);
+
+      await AuditService.record(req, { action: 'invoice.update', targetType: 'invoice', targetId: invoice.id, before: invoice, after: updated });
+      res.json(serializeInvoice(req, updated!));
+    } catch (error) {
+      console.error("Error updating invoice:", error);
+      handleInvoiceError(res, error, "Failed to update invoice");
+    }
+  });
+
+  // Issue a draft so the customer can view and pay it
+  app.post("/api/merchant/invoices/:id/issue", requireMerchant, async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || invoice.merchantId !== req.user!.id) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      if (invoice.status !== 'draft') {
+        return res.status(409).json({ error: "Only draft invoices can be issued" });
+      }
+
+      const updated = await storage.updateInvoice(invoice.id, { status: 'open', issuedAt: new Date() });
+      await AuditService.record(req, { action: 'invoice.issue', targetType: 'invoice', targetId: invoice.id, before: { status: invoice.status }, after: { status: 'open' } });
+      res.json(serializeInvoice(req, updated!));
+    } catch (error) {
+      console.error("Error issuing invoice:", error);
+      res.status(500).json({ error: "Failed to issue invoice" });
+    }
+  });
+
+  app.post("/api/merchant/invoices/:id/void", requireMerchant, async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || invoice.merchantId !== req.user!.id) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      if (invoice.status !== 'open') {
+        return res.status(409).json({ error: "Only open invoices can be voided" });
+      }
+
+      // Stop any outstanding payment link from being used
+      if (invoice.paymentLinkId) {
+        const link = await storage.getPaymentLink(invoice.paymentLinkId);
+        if (link?.status === 'active') {
+          await storage.updatePaymentLink(link.id, { status: 'revoked', revokedAt: new Date() });
+        }
+      }
+
+      const updated = await storage.updateInvoice(invoice.id, { status: 'void' });
+      await AuditService.record(req, { action: 'invoice.void', targetType: 'invoice', targetId: invoice.id, before: { status: invoice.status }, after: { status: 'void' } });
+      res.json(serializeInvoice(req, updated!));
+    } catch (error) {
+      console.error("Error voiding invoice:", error);
+      res.status(500).json({ error: "Failed to void invoice" });
+    }
+  });
+
+  app.delete("/api/merchant/invoices/:id", requireMerchant, async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || invoice.merchantId !== req.user!.id) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      if (invoice.status !== 'draft') {
+        return res.status(409).json({ error: "Only draft invoices can be deleted; void it instead" });
+      }
+
+      await storage.deleteInvoice(invoice.id);
+      await AuditService.record(req, { action: 'invoice.delete', targetType: 'invoice', targetId: invoice.id, before: invoice });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting invoice:", error);
+      res.status(500).json({ error: "Failed to delete invoice" });
+    }
+  });
+
+  // Public invoice view (drafts stay private to the merchant)
+  app.get("/api/public/invoices/:id", async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || invoice.status === 'draft') {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const merchant = await storage.getMerchant(invoice.merchantId);
+      const { merchantId, partnerOrderId, paymentLinkId, ...publicInvoice } = serializeInvoice(req, invoice);
+      res.json({ ...publicInvoice, merchantName: merchant?.name ?? 'Merchant' });
+    } catch (error) {
+      console.error("Error fetching public invoice:", error);
+      res.status(500).json({ error: "Failed to fetch invoice" });
+    }
+  });
+
+  // Start paying an invoice: creates (or reuses) a Transak session and returns its checkout URL
+  app.post("/api/public/invoices/:id/pay", async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || invoice.status === 'draft') {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      if (invoice.status !== 'open') {
+        return res.status(409).json({ error: `Invoice is ${invoice.status}` });
+      }
+
+      // Reuse the checkout already started for this invoice while it is still valid
+      if (invoice.paymentLinkId) {
+        const existingLink = await storage.getPaymentLink(invoice.paymentLinkId);
+        if (existingLink?.status === 'active' && existingLink.expiresAt > new Date()) {
+          return res.json({ url: getPaymentLinkUrl(req, existingLink.id), paymentLinkId: existingLink.id });
+        }
+      }
+
+      const depositAddress = (await storage.getMerchantDepositAddresses(invoice.merchantId, invoice.mode as MerchantMode))
+        .find(address => address.asset === invoice.cryptoCurrency && address.isActive && address.address);
+      if (!depositAddress) {
+        return res.status(409).json({ error: `Merchant cannot currently accept ${invoice.cryptoCurrency} payments` });
+      }
+
+      const { paymentLink, partnerOrderId, credentialSource } = await createPaymentSession(invoice.merchantId, invoice.mode as MerchantMode, 'BUY', {
+        quoteData: {
+          fiatAmount: Number(invoice.total),
+          fiatCurrency: invoice.currency,
+          cryptoCurrency: invoice.cryptoCurrency,
+          network: depositAddress.network,
+          paymentMethod: invoice.paymentMethod
+        },
+        walletAddress: depositAddress.address,
+        customerEmail: invoice.customerEmail,
+        description: `Invoice ${invoice.invoiceNumber}`,
+        singleUse: true
       });
 
-      console.log(`Updated merchant ${merchant.id} with verification status: ${kybStatus}`);
+      await storage.updateInvoice(invoice.id, { partnerOrderId, paymentLinkId: paymentLink.id });
 
+      console.log(`Started payment for invoice ${invoice.invoiceNumber} (${partnerOrderId}) with ${credentialSource} Transak credentials`);
+      res.json({ url: getPaymentLinkUrl(req, paymentLink.id), paymentLinkId: paymentLink.id });
     } catch (error) {
-      console.error('Error handling identity verification completed:', error);
+      console.error("Error starting invoice payment:", error);
+
+      if (error instanceof Error && error.message.includes('Transak')) {
+        return res.status(502).json({
+          error: "Payment provider error",
+          details: error.message
+        });
+      }
+
+      res.status(500).json({ error: "Failed to start payment" });
     }
-  }
+  });
+
+  // Merchant crypto-to-fiat conversion via Cybrid quotes and trades
+  const TERMINAL_TRADE_STATES = ['completed', 'failed', 'cancelled', 'expired'];
+
+  const tradeUpdatesFromCybrid = (cybridTrade: CybridTrade, trade: Trade) => {
+    const [baseAsset, counterAsset] = trade.symbol.split('-');
+    const deliverAsset = trade.side === 'sell' ? baseAsset : counterAsset;
+    const receiveAsset = trade.side === 'sell' ? counterAsset : baseAsset;
+    return {
+      cybridTradeGuid: cybridTrade.guid,
+      state: cybridTrade.state,
+      deliverAmount: CybridService.fromBaseUnits(deliverAsset, cybridTrade.deliver_amount).toString(),
+      receiveAmount: CybridService.fromBaseUnits(receiveAsset, cybridTrade.receive_amount).toString(),
+      fee: CybridService.fromBaseUnits(counterAsset, cybridTrade.fee).toString(),
+      failureCode: cybridTrade.failure_code ?? null
+    };
+  };
+
+  // Trades go through the platform's Cybrid environment, so merchants can only trade in its mode
+  const tradingModeError = (merchant: Express.User): string | null =>
+    merchant.mode !== CybridService.mode() ? `Trading is only available in ${CybridService.mode()} mode` : null;
 
-  async function handleIdentityVerificationFailed(verificationData: any) {
+  // Request a sell quote for the merchant's crypto balance (defaults to the full available amount)
+  app.post("/api/merchant/trades/quote", requireMerchant, requireMerchantKycVerified, async (req, res) => {
     try {
-      const customerGuid = verificationData.customer_guid;
-      const verificationGuid = verificationData.guid;
+      const modeError = tradingModeError(req.user!);
+      if (modeError) {
+        return res.status(400).json({ error: modeError });
+      }
 
-      console.log(`Identity verification failed: ${verificationGuid}`);
+      const { asset, amount } = createSellQuoteSchema.parse(req.body);
+      const customerGuid = req.user!.cybridCustomerGuid;
+      if (!customerGuid) {
+        return res.status(400).json({ error: "Merchant has no Cybrid customer" });
+      }
 
-      // Find merchant by Cybrid customer GUID
-      const merchant = await storage.getMerchantByCybridGuid(customerGuid);
-      if (!merchant) {
-        console.error(`No merchant found for Cybrid customer GUID: ${customerGuid}`);
-        return;
+      const balances = await CybridService.getCustomerBalances(customerGuid);
+      const tradingAccount = balances.find(b => b.type === 'trading' && b.asset === asset);
+      if (!tradingAccount) {
+        return res.status(400).json({ error: `No ${asset} trading account found` });
       }
 
-      // Update merchant record with failure status
-      await storage.updateMerchant(merchant.id, {
-        kybStatus: 'rejected',
-        cybridIntegrationStatus: 'error',
-        cybridVerificationGuid: verificationGuid,
-        cybridLastError: verificationData.failure_reason || 'Verification failed',
-        cybridLastSyncedAt: new Date()
-      });
+      const deliverAmount = amount ?? tradingAccount.platformAvailable;
+      if (deliverAmount <= 0) {
+        return res.status(400).json({ error: `No available ${asset} balance to convert` });
+      }
+      if (deliverAmount > tradingAccount.platformAvailable) {
+        return res.status(400).json({
+          error: "Insufficient balance",
+          available: tradingAccount.platformAvailable
+        });
+      }
+
+      // Sell proceeds settle into the customer's USD fiat account, so make sure one exists
+      if (!balances.some(b => b.type === 'fiat' && b.asset === 'USD')) {
+        await CybridService.createFiatAccount(customerGuid, 'USD');
+      }
 
-      console.log(`Updated merchant ${merchant.id} with failed verification status`);
+      const symbol = `${asset}-USD`;
+      const quote = await CybridService.createQuote({ customerGuid, symbol, side: 'sell', deliverAmount });
+
+      const trade = await storage.createTrade({
+        merchantId: req.user!.id,
+        cybridQuoteGuid: quote.guid,
+        symbol,
+        side: 'sell',
+        deliverAmount: CybridService.fromBaseUnits(asset, quote.deliver_amount).toString(),
+        receiveAmount: CybridService.fromBaseUnits('USD', quote.receive_amount).toString(),
+        fee: CybridService.fromBaseUnits('USD', quote.fee).toString(),
+        mode: CybridService.mode(),
+        quoteExpiresAt: new Date(quote.expires_at)
+      });
 
+      res.json(trade);
     } catch (error) {
-      console.error('Error handling identity verification failed:', error);
+      console.error("Error creating sell quote:", error);
+
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: (error as any).issues
+        });
+      }
+
+      if (error instanceof Error && error.message.includes('Cybrid')) {
+        return res.status(502).json({
+          error: "Trading provider error",
+          details: error.message
+        });
+      }
+
+      res.status(500).json({ error: "Failed to create quote" });
     }
-  }
+  });
 
-  async function handleCustomerStoring(customerData: any) {
+  // Execute a quote before it expires
+  app.post("/api/merchant/trades/:id/execute", requireMerchant, requireMerchantKycVerified, async (req, res) => {
     try {
-      const customerGuid = customerData.guid;
-      
-      console.log(`Customer storing state reached: ${customerGuid}`);
+      const modeError = tradingModeError(req.user!);
+      if (modeError) {
+        return res.status(400).json({ error: modeError });
+      }
 
-      // Find merchant by Cybrid customer GUID
-      const merchant = await storage.getMerchantByCybridGuid(customerGuid);
-      if (!merchant) {
-        console.error(`No merchant found for Cybrid customer GUID: ${customerGuid}`);
-        return;
+      const trade = await storage.getTrade(req.params.id);
+      if (!trade || trade.merchantId !== req.user!.id || trade.mode !== req.user!.mode) {
+        return res.status(404).json({ error: "Trade not found" });
+      }
+      if (trade.state !== 'quoted') {
+        return res.status(409).json({ error: `Trade has already been ${trade.state === 'expired' ? 'expired' : 'executed'}` });
+      }
+      if (trade.quoteExpiresAt.getTime() <= Date.now()) {
+        await storage.updateTrade(trade.id, { state: 'expired' });
+        return res.status(410).json({ error: "Quote has expired, please request a new quote" });
       }
 
-      // Update merchant integration status to active when customer reaches storing state
-      await storage.updateMerchant(merchant.id, {
-        cybridIntegrationStatus: 'active',
-        cybridLastSyncedAt: new Date()
-      });
+      const cybridTrade = await CybridService.createTrade(trade.cybridQuoteGuid);
+      const updated = await storage.updateTrade(trade.id, tradeUpdatesFromCybrid(cybridTrade, trade));
 
-      console.log(`Updated merchant ${merchant.id} integration status to active`);
+      console.log(`💱 Merchant ${req.user!.id} executed trade ${cybridTrade.guid} (${trade.symbol} ${trade.side})`);
+      await AuditService.record(req, { action: 'trade.execute', targetType: 'trade', targetId: trade.id, before: trade, after: updated });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error executing trade:", error);
+
+      if (error instanceof Error && error.message.includes('Cybrid')) {
+        return res.status(502).json({
+          error: "Trading provider error",
+          details: error.message
+        });
+      }
 
+      res.status(500).json({ error: "Failed to execute trade" });
+    }
+  });
+
+  app.get("/api/merchant/trades", requireMerchant, async (req, res) => {
+    try {
+      const trades = await storage.getMerchantTrades(req.user!.id, req.user!.mode as MerchantMode);
+      res.json(trades);
     } catch (error) {
-      console.error('Error handling customer storing:', error);
+      console.error("Error fetching merchant trades:", error);
+      res.status(500).json({ error: "Failed to fetch trades" });
     }
-  }
+  });
 
-  // Merchant portal routes (require merchant authentication)
-  app.get("/api/merchant/dashboard", requireMerchant, async (req, res) => {
-    // Return merchant-specific dashboard data
-    res.json({
-      transactions: [],
-      balance: "$0.00",
-      integrations: req.user?.integrations || []
-    });
+  // Fetch a single trade, refreshing in-flight trades from Cybrid
+  app.get("/api/merchant/trades/:id", requireMerchant, async (req, res) => {
+    try {
+      let trade = await storage.getTrade(req.params.id);
+      if (!trade || trade.merchantId !== req.user!.id || trade.mode !== req.user!.mode) {
+        return res.status(404).json({ error: "Trade not found" });
+      }
+
+      if (trade.cybridTradeGuid && !TERMINAL_TRADE_STATES.includes(trade.state)) {
+        try {
+          const cybridTrade = await CybridService.getTrade(trade.cybridTradeGuid);
+          trade = await storage.updateTrade(trade.id, tradeUpdatesFromCybrid(cybridTrade, trade)) ?? trade;
+        } catch (error) {
+          console.warn(`Could not refresh trade ${trade.id} from Cybrid:`, error);
+        }
+      }
+
+      res.json(trade);
+    } catch (error) {
+      console.error("Error fetching merchant trade:", error);
+      res.status(500).json({ error: "Failed to fetch trade" });
+    }
   });
 
   // Merchant credential management routes
@@ -1370,7 +3673,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isActive: cred.isActive,
         createdAt: cred.createdAt,
         hasApiKey: !!cred.encryptedApiKey,
-        hasApiSecret: !!cred.encryptedApiSecret
+        hasApiSecret: !!cred.encryptedApiSecret,
+        ...credentialVerificationOf(cred)
       }));
       
       res.json(safeCreds);
@@ -1380,16 +3684,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Merchant credential routes work on the keys for the merchant's current mode
+  const credentialEnvironmentOf = (merchant: Express.User) => merchantModeEnvironments[merchant.mode as MerchantMode];
+
+  // Only keys for the current mode that Transak accepts are stored; returns false after sending the error response
+  const verifyTransakCredentialsBeforeSave = async (req: Request, res: any, credentials: TransakCredentials): Promise<boolean> => {
+    const modeEnvironment = credentialEnvironmentOf(req.user!);
+    if (credentials.environment !== modeEnvironment) {
+      res.status(400).json({
+        error: `${req.user!.mode} mode uses ${modeEnvironment} keys. Switch modes to save ${credentials.environment} keys.`
+      });
+      return false;
+    }
+
+    const verification = await TransakCredentialService.verify(credentials);
+    if (verification.status === 'valid') {
+      return true;
+    }
+    if (verification.status === 'unreachable') {
+      res.status(502).json({ error: "Couldn't reach Transak to verify these credentials. Please try again.", reason: verification.error });
+    } else {
+      res.status(400).json({
+        error: `Transak rejected these credentials for the ${credentials.environment} environment`,
+        verificationStatus: verification.status,
+        reason: verification.error
+      });
+    }
+    return false;
+  };
+
+  // Shared by the v1 and v2 save endpoints: validate, verify with Transak, save and audit.
+  // Returns undefined once an error response has been sent.
+  const saveTransakCredentials = async (req: Request, res: any) => {
+    const merchantId = req.user!.id;
+    const credentials = transakCredentialsSchema.parse(req.body);
+    if (!(await verifyTransakCredentialsBeforeSave(req, res, credentials))) {
+      return undefined;
+    }
+
+    const result = await TransakCredentialService.saveVerifiedCredentials(merchantId, credentials);
+    const { previous, saved, secretName } = result;
+
+    // The key and secret are always replaced; only the secret store location is logged
+    await AuditService.record(req, {
+      action: 'credentials.save',
+      targetType: 'merchant_credentials',
+      targetId: saved.id,
+      before: previous && { environment: previous.environment, isActive: previous.isActive },
+      after: { environment: saved.environment, isActive: true },
+      metadata: { provider: 'transak', storage: SecretStoreService.store().name, secretName }
+    });
+    return result;
+  };
+
+  // Health check fields shown next to saved credentials
+  const credentialVerificationOf = (credentials: MerchantCredentials) => ({
+    verificationStatus: credentials.verificationStatus,
+    lastVerifiedAt: credentials.lastVerifiedAt,
+    lastCheckedAt: credentials.lastCheckedAt,
+    verificationError: credentials.verificationError
+  });
+
   // Get specific Transak credentials for a merchant (for form pre-population)
   app.get("/api/merchant/credentials/transak", requireMerchant, async (req, res) => {
     try {
       const merchantId = req.user!.id;
-      const credentials = await storage.getMerchantCredentials(merchantId, 'transak');
+      const environment = credentialEnvironmentOf(req.user!);
+      const credentials = await storage.getMerchantCredentials(merchantId, 'transak', environment);
       
       if (!credentials) {
         return res.json({
           provider: 'transak',
-          environment: 'staging',
+          environment,
           hasApiKey: false,
           hasApiSecret: false,
           isActive: false
@@ -1403,7 +3769,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         hasApiKey: !!credentials.encryptedApiKey,
         hasApiSecret: !!credentials.encryptedApiSecret,
         isActive: credentials.isActive,
-        createdAt: credentials.createdAt
+        createdAt: credentials.createdAt,
+        ...credentialVerificationOf(credentials)
       });
     } catch (error) {
       console.error("Error fetching Transak credentials:", error);
@@ -1414,41 +3781,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Save/update Transak credentials
   app.post("/api/merchant/credentials/transak", requireMerchant, async (req, res) => {
     try {
-      const merchantId = req.user!.id;
-      const { apiKey, apiSecret, environment } = transakCredentialsSchema.parse(req.body);
-
-      // Encrypt credentials
-      const encryptedApiKey = CredentialEncryption.encrypt(apiKey);
-      const encryptedApiSecret = CredentialEncryption.encrypt(apiSecret);
-
-      // Check if credentials already exist
-      const existing = await storage.getMerchantCredentials(merchantId, 'transak');
-      
-      let result;
-      if (existing) {
-        // Update existing credentials
-        result = await storage.updateMerchantCredentials(merchantId, 'transak', {
-          encryptedApiKey,
-          encryptedApiSecret,
-          environment,
-          isActive: true
-        });
-      } else {
-        // Create new credentials
-        result = await storage.createMerchantCredentials({
-          merchantId,
-          provider: 'transak',
-          encryptedApiKey,
-          encryptedApiSecret,
-          environment,
-          isActive: true
-        });
+      const result = await saveTransakCredentials(req, res);
+      if (!result) {
+        return;
       }
 
       res.json({
         success: true,
         provider: 'transak',
-        environment: result?.environment,
+        environment: result.saved.environment,
         hasApiKey: true,
         hasApiSecret: true
       });
@@ -1463,13 +3804,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const merchantId = req.user!.id;
       const { provider } = req.params;
+      const environment = credentialEnvironmentOf(req.user!);
       
-      const success = await storage.deleteMerchantCredentials(merchantId, provider);
+      const success = await storage.deleteMerchantCredentials(merchantId, provider, environment);
       
       if (!success) {
         return res.status(404).json({ error: "Credentials not found" });
       }
+
+      if (provider === 'transak') {
+        await TransakCredentialService.deleteStoredCredentials(merchantId, environment);
+      }
       
+      await AuditService.record(req, { action: 'credentials.delete', targetType: 'merchant_credentials', metadata: { provider, environment } });
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting credentials:", error);
@@ -1478,198 +3825,210 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ==========================================
-  // V2 Credentials Endpoints (Google Secret Manager)
+  // V2 Credentials Endpoints (secret store: GCP Secret Manager, encrypted Postgres or memory)
   // ==========================================
 
-  // POST /api/merchant/credentials-v2/transak - Store credentials in Google Secret Manager as JSON
+  // POST /api/merchant/credentials-v2/transak - Store credentials in the secret store as JSON
   app.post("/api/merchant/credentials-v2/transak", requireMerchant, async (req, res) => {
     try {
-      const merchantId = req.user!.id;
-      const { apiKey, apiSecret, environment } = transakCredentialsSchema.parse(req.body);
-
-      // Initialize Secret Manager service
-      const secretManager = new SecretManagerService();
-      
-      // Generate secret name for this merchant's credentials
-      const secretName = SecretManagerService.getMerchantCredentialsSecretName(merchantId);
-      
-      // Build credentials JSON structure
-      const credentialsJson = {
-        transak: {
-          apiKey,
-          apiSecret,
-          environment
-        }
-      };
-      
-      // Store credentials as JSON in Google Secret Manager
-      await secretManager.storeJsonCredentials(secretName, credentialsJson);
-
-      // Store metadata in database (no sensitive data)
-      const existing = await storage.getMerchantCredentials(merchantId, 'transak');
-      
-      if (existing) {
-        await storage.updateMerchantCredentials(merchantId, 'transak', {
-          encryptedApiKey: 'STORED_IN_SECRET_MANAGER_JSON',
-          encryptedApiSecret: 'STORED_IN_SECRET_MANAGER_JSON',
-          environment,
-          isActive: true
-        });
-      } else {
-        await storage.createMerchantCredentials({
-          merchantId,
-          provider: 'transak',
-          encryptedApiKey: 'STORED_IN_SECRET_MANAGER_JSON',
-          encryptedApiSecret: 'STORED_IN_SECRET_MANAGER_JSON',
-          environment,
-          isActive: true
-        });
+      const result = await saveTransakCredentials(req, res);
+      if (!result) {
+        return;
       }
 
       res.json({
         success: true,
         provider: 'transak',
-        environment,
+        environment: result.saved.environment,
         hasApiKey: true,
         hasApiSecret: true,
-        storage: 'secret_manager_json'
+        storage: SecretStoreService.store().name
+      });
+    } catch (error) {
+      console.error("Error saving credentials to secret store:", error);
+      res.status(400).json({ error: "Failed to save credentials" });
+    }
+  });
+
+  // POST /api/merchant/credentials-v2/transak/verify - Re-check the saved credentials with Transak now
+  app.post("/api/merchant/credentials-v2/transak/verify", requireMerchant, async (req, res) => {
+    try {
+      const credentials = await storage.getMerchantCredentials(req.user!.id, 'transak', credentialEnvironmentOf(req.user!));
+      if (!credentials) {
+        return res.status(404).json({ error: `No Transak credentials saved for ${req.user!.mode} mode` });
+      }
+
+      const { verification, credentials: updated } = await CredentialHealthService.check(credentials);
+      res.json({
+        status: verification.status,
+        error: verification.error,
+        ...credentialVerificationOf(updated)
       });
     } catch (error) {
-      console.error("Error saving credentials to Secret Manager:", error);
-      res.status(400).json({ error: "Failed to save credentials to Secret Manager" });
+      console.error("Error verifying Transak credentials:", error);
+      res.status(500).json({ error: "Failed to verify credentials" });
     }
   });
 
-  // GET /api/merchant/credentials-v2/transak - Get metadata from database and check Secret Manager JSON
+  // GET /api/merchant/credentials-v2/transak - Get metadata from database and check the stored JSON
   app.get("/api/merchant/credentials-v2/transak", requireMerchant, async (req, res) => {
     try {
       const merchantId = req.user!.id;
-      const credentials = await storage.getMerchantCredentials(merchantId, 'transak');
+      const mode = req.user!.mode as MerchantMode;
+      const environment = merchantModeEnvironments[mode];
+      const credentials = await storage.getMerchantCredentials(merchantId, 'transak', environment);
+      const secretStore = SecretStoreService.store();
+      // Set by admins; tells the merchant whether their keys are used
+      const credentialPolicy: TransakCredentialPolicy = req.user!.transakCredentialPolicy;
       
       if (!credentials) {
         return res.json({
           provider: 'transak',
-          environment: 'staging',
+          mode,
+          environment,
           hasApiKey: false,
           hasApiSecret: false,
           isActive: false,
-          storage: 'secret_manager_json'
+          storage: secretStore.name,
+          credentialPolicy
         });
       }
 
-      // Initialize Secret Manager to check if JSON secret exists
-      const secretManager = new SecretManagerService();
-      const secretName = SecretManagerService.getMerchantCredentialsSecretName(merchantId);
-      
-      const secretExists = await secretManager.secretExists(secretName);
-      
       let hasApiKey = false;
       let hasApiSecret = false;
       
-      if (secretExists) {
-        try {
-          const credentialsJson = await secretManager.getJsonCredentials<{
-            transak?: { apiKey?: string; apiSecret?: string; environment?: string }
-          }>(secretName);
-          
-          hasApiKey = !!credentialsJson.transak?.apiKey;
-          hasApiSecret = !!credentialsJson.transak?.apiSecret;
-        } catch (error) {
-          console.error("Error parsing credentials JSON:", error);
-        }
+      try {
+        const stored = await TransakCredentialService.storedCredentials(merchantId, environment);
+        hasApiKey = !!stored?.apiKey;
+        hasApiSecret = !!stored?.apiSecret;
+      } catch (error) {
+        console.error("Error reading credentials JSON:", error);
       }
       
       res.json({
         provider: 'transak',
+        mode,
         environment: credentials.environment,
         hasApiKey,
         hasApiSecret,
         isActive: credentials.isActive,
         createdAt: credentials.createdAt,
-        storage: 'secret_manager_json'
+        storage: secretStore.name,
+        credentialPolicy,
+        ...credentialVerificationOf(credentials)
       });
     } catch (error) {
-      console.error("Error fetching credentials from Secret Manager:", error);
+      console.error("Error fetching credentials from secret store:", error);
       res.status(500).json({ error: "Failed to fetch credentials" });
     }
   });
 
-  // DELETE /api/merchant/credentials-v2/:provider - Delete from both Secret Manager JSON and database
+  // DELETE /api/merchant/credentials-v2/:provider - Delete from both the secret store and database
   app.delete("/api/merchant/credentials-v2/:provider", requireMerchant, async (req, res) => {
     try {
       const merchantId = req.user!.id;
       const { provider } = req.params;
+      const environment = credentialEnvironmentOf(req.user!);
+      const secretStore = SecretStoreService.store();
       
-      // Initialize Secret Manager
-      const secretManager = new SecretManagerService();
-      const secretName = SecretManagerService.getMerchantCredentialsSecretName(merchantId);
-      
-      // Delete JSON secret from Secret Manager (won't fail if doesn't exist)
-      await secretManager.deleteSecret(secretName);
+      // Delete JSON secret (won't fail if doesn't exist)
+      await TransakCredentialService.deleteStoredCredentials(merchantId, environment);
       
       // Delete from database
-      const success = await storage.deleteMerchantCredentials(merchantId, provider);
+      const success = await storage.deleteMerchantCredentials(merchantId, provider, environment);
       
       if (!success) {
         return res.status(404).json({ error: "Credentials not found" });
       }
       
-      res.json({ success: true, storage: 'secret_manager_json' });
+      await AuditService.record(req, { action: 'credentials.delete', targetType: 'merchant_credentials', metadata: { provider, environment, storage: secretStore.name } });
+      res.json({ success: true, storage: secretStore.name });
     } catch (error) {
-      console.error("Error deleting credentials from Secret Manager:", error);
+      console.error("Error deleting credentials from secret store:", error);
       res.status(500).json({ error: "Failed to delete credentials" });
     }
   });
 
-  // Helper function to get Transak service using merchant-specific credentials from Secret Manager
-  const getTransakServiceFromSecretManager = async (merchantId: string): Promise<TransakService> => {
-    try {
-      const secretManager = new SecretManagerService();
-      const secretName = SecretManagerService.getMerchantCredentialsSecretName(merchantId);
-      
-      // Retrieve merchant credentials JSON from Secret Manager
-      const credentialsJson = await secretManager.getJsonCredentials<{
-        transak: { apiKey: string; apiSecret: string; environment: 'staging' | 'production' }
-      }>(secretName);
-      
-      if (!credentialsJson.transak) {
-        throw new Error('Transak credentials not found in Secret Manager');
-      }
-      
-      const { apiKey, apiSecret, environment } = credentialsJson.transak;
-      
-      return new TransakService({
-        apiKey,
-        apiSecret,
-        environment
-      }, merchantId);
-    } catch (error: any) {
-      if (error.message.includes('not found')) {
-        throw new Error('Merchant Transak credentials not configured. Please add your credentials in Manage Integrations.');
-      }
-      throw error;
-    }
+  // Generate our own order reference, passed to Transak as partnerOrderId and echoed back in webhooks
+  const generatePartnerOrderId = (): string => `ord_${randomBytes(12).toString('hex')}`;
+
+  const PAYMENT_LINK_EXPIRY_HOURS = parseInt(process.env.PAYMENT_LINK_EXPIRY_HOURS || '24', 10);
+  // Bounds the per-session list of payment links whose visit has been counted
+  const MAX_VIEWED_PAYMENT_LINKS = 50;
+
+  const getPaymentLinkUrl = (req: Request, linkId: string): string => {
+    const protocol = req.secure ? 'https' : 'http';
+    return `${protocol}://${req.get('host')}/pay/${linkId}`;
   };
 
-  // Helper function to get Transak service using platform-level credentials (deprecated)
-  const getTransakService = async (merchantId: string): Promise<TransakService> => {
-    const apiKey = process.env.TRANSAK_API_KEY;
-    const apiSecret = process.env.TRANSAK_API_SECRET;
-    const environment = (process.env.TRANSAK_ENVIRONMENT || 'staging') as 'staging' | 'production';
-    
-    if (!apiKey) {
-      throw new Error('Platform Transak credentials not configured: TRANSAK_API_KEY environment variable is required');
+  // Create a Transak session, record it as a transaction and wrap it in a masked /pay link
+  const createPaymentSession = async (
+    merchantId: string,
+    mode: MerchantMode,
+    direction: 'BUY' | 'SELL',
+    sessionData: CreateTransakSession,
+    reissuedFromId?: string
+  ): Promise<{ paymentLink: PaymentLink; partnerOrderId: string; widgetUrl: string; credentialSource: TransakCredentialSource }> => {
+    const { description, singleUse, expiresInHours, ...sessionParams } = sessionData;
+    const { quoteData } = sessionParams;
+    const { transak, source: credentialSource } = await TransakCredentialService.resolve(merchantId, mode);
+    const partnerOrderId = generatePartnerOrderId();
+
+    // Charge the platform fee in force for this merchant through Transak's partner fee
+    const merchant = await storage.getMerchant(merchantId);
+    const fee = merchant ? await FeeService.resolveFee(merchant) : FeeService.defaultFee();
+    const partnerFee = FeeService.toPartnerFeePercentage(fee, quoteData.fiatAmount, quoteData.fiatCurrency);
+
+    let sessionResponse: { widgetUrl: string };
+    if (direction === 'SELL') {
+      // Override isBuyOrSell to SELL for offramp operations
+      const offrampSessionData = {
+        ...sessionParams,
+        quoteData: {
+          ...quoteData,
+          isBuyOrSell: 'SELL' as const
+        }
+      };
+      sessionResponse = await transak.createOfframpSession({ ...offrampSessionData, partnerOrderId, partnerFee });
+    } else {
+      sessionResponse = await transak.createSession({ ...sessionParams, partnerOrderId, partnerFee });
     }
 
-    if (!apiSecret) {
-      throw new Error('Platform Transak credentials not configured: TRANSAK_API_SECRET environment variable is required');
-    }
+    // Record the order so Transak webhooks can track it to completion
+    await storage.createTransaction({
+      merchantId,
+      partnerOrderId,
+      direction,
+      mode,
+      fiatAmount: quoteData.fiatAmount?.toString() ?? null,
+      fiatCurrency: quoteData.fiatCurrency,
+      cryptoAmount: quoteData.cryptoAmount?.toString() ?? null,
+      cryptoCurrency: quoteData.cryptoCurrency,
+      network: quoteData.network,
+      walletAddress: sessionParams.walletAddress,
+      customerEmail: sessionParams.customerEmail,
+      paymentMethod: quoteData.paymentMethod,
+      platformFee: quoteData.fiatAmount ? FeeService.calculate(fee, quoteData.fiatAmount, quoteData.fiatCurrency).totalFee.toFixed(2) : null,
+      feeScheduleId: fee.scheduleId,
+      credentialSource
+    });
 
-    return new TransakService({
-      apiKey,
-      apiSecret,
-      environment
-    }, merchantId);
+    // Store the Transak session URL behind a masked payment link
+    const paymentLink = await storage.createPaymentLink({
+      merchantId,
+      sessionUrl: sessionResponse.widgetUrl,
+      partnerOrderId,
+      direction,
+      mode,
+      amount: (quoteData.fiatAmount ?? quoteData.cryptoAmount)?.toString() ?? null,
+      currency: quoteData.fiatAmount !== undefined ? quoteData.fiatCurrency : quoteData.cryptoCurrency,
+      description: description ?? null,
+      singleUse: singleUse ?? false,
+      reissuedFromId: reissuedFromId ?? null,
+      expiresAt: new Date(Date.now() + (expiresInHours ?? PAYMENT_LINK_EXPIRY_HOURS) * 60 * 60 * 1000)
+    });
+
+    return { paymentLink, partnerOrderId, widgetUrl: sessionResponse.widgetUrl, credentialSource };
   };
 
   // Transak API endpoints
@@ -1678,9 +4037,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // POST /pricing - Get real-time pricing
   app.post("/api/transak/pricing", requireMerchant, async (req, res) => {
     try {
-      const transak = await getTransakService(req.user!.id);
+      const { transak, source } = await TransakCredentialService.resolve(req.user!.id);
       const pricing = await transak.getPricing(req.body);
-      res.json(pricing);
+      res.json({ ...pricing, credentialSource: source });
     } catch (error) {
       console.error("Error fetching pricing:", error);
       res.status(500).json({ error: "Failed to fetch pricing" });
@@ -1690,9 +4049,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // POST /quote - Create transaction quote
   app.post("/api/transak/quote", requireMerchant, async (req, res) => {
     try {
-      const transak = await getTransakService(req.user!.id);
+      const { transak, source } = await TransakCredentialService.resolve(req.user!.id);
       const quote = await transak.createQuote(req.body);
-      res.json(quote);
+      res.json({ ...quote, credentialSource: source });
     } catch (error) {
       console.error("Error creating quote:", error);
       res.status(500).json({ error: "Failed to create quote" });
@@ -1702,31 +4061,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // POST /validate-wallet - Validate wallet addresses
   app.post("/api/transak/validate-wallet", requireMerchant, async (req, res) => {
     try {
-      const transak = await getTransakService(req.user!.id);
+      const { transak, source } = await TransakCredentialService.resolve(req.user!.id);
       const validation = await transak.validateWallet(req.body);
-      res.json(validation);
+      res.json({ ...validation, credentialSource: source });
     } catch (error) {
       console.error("Error validating wallet:", error);
       res.status(500).json({ error: "Failed to validate wallet" });
     }
   });
 
-  // POST /access-token - Generate access token for Transak API using stored credentials
-  app.post("/api/transak/access-token", requireMerchant, async (req, res) => {
+  // GET /api/merchant/fees - Platform fee currently applied to the merchant's payments
+  app.get("/api/merchant/fees", requireMerchant, async (req, res) => {
     try {
-      const transak = await getTransakService(req.user!.id);
-      const tokenData = await transak.generateAccessToken();
-      res.json({
-        success: true,
-        accessToken: tokenData.accessToken,
-        expiresIn: tokenData.expiresIn
-      });
+      const merchant = await storage.getMerchant(req.user!.id);
+      if (!merchant) {
+        return res.status(404).json({ error: "Merchant not found" });
+      }
+
+      const fee = await FeeService.resolveFee(merchant);
+
+      // Announced changes that will reach this merchant
+      const upcoming = (await storage.getUpcomingFeeSchedules(new Date()))
+        .filter(schedule => schedule.scope !== 'merchant' || schedule.merchantId === merchant.id)
+        .map(({ scope, tierName, minMonthlyVolume, percentage, flatFee, currency, effectiveFrom, reason }) =>
+          ({ scope, tierName, minMonthlyVolume, percentage, flatFee, currency, effectiveFrom, reason }));
+
+      res.json({ ...fee, example: { amount: 100, ...FeeService.calculate(fee, 100, fee.currency) }, upcoming });
     } catch (error) {
-      console.error("Error generating access token:", error);
-      res.status(500).json({ error: "Failed to generate access token" });
+      console.error("Error fetching merchant fees:", error);
+      res.status(500).json({ error: "Failed to fetch fees" });
     }
   });
 
+  // Quote with the same partner fee createPaymentSession will charge (flat fee folded into the percentage).
+  // That percentage depends on the fiat amount, which only a quote tells us, so a flat fee costs a second quote.
+  const quoteWithPartnerFee = async (fee: ResolvedFee, fiatCurrency: string, getQuote: (partnerFee: number) => Promise<any>) => {
+    const first = await getQuote(fee.percentage);
+    const partnerFee = FeeService.toPartnerFeePercentage(fee, Number(first?.response?.fiatAmount) || undefined, fiatCurrency);
+    return partnerFee === fee.percentage ? first : getQuote(partnerFee);
+  };
 
   // POST /pricing-quote - Get pricing quote using platform-wide credentials
   app.post("/api/merchant/transak/pricing-quote", requireMerchant, requireMerchantKycVerified, async (req, res) => {
@@ -1759,14 +4132,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         paymentMethod
       }, null, 2));
 
+      // Quote with our platform fee so the customer sees the full price
+      const merchant = await storage.getMerchant(req.user!.id);
+      const fee = merchant ? await FeeService.resolveFee(merchant) : FeeService.defaultFee();
+
       // Call Transak pricing API using platform-wide credentials
-      const transakResponse = await PublicTransakService.getPricingQuote({
+      const transakResponse = await quoteWithPartnerFee(fee, fiatCurrency, partnerFee => PublicTransakService.getPricingQuote({
         cryptoAmount,
         cryptoCurrency,
         fiatCurrency,
         network,
-        paymentMethod
-      });
+        paymentMethod,
+        partnerFee
+      }));
 
       // Extract the actual quote data from Transak's nested response structure
       const quote = transakResponse.response;
@@ -1790,6 +4168,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         slippage: quote.slippage,
         totalFee: quote.totalFee,
         feeBreakdown: quote.feeBreakdown || [],
+        platformFee: {
+          ...FeeService.calculate(fee, Number(quote.fiatAmount) || 0, fiatCurrency),
+          percentage: fee.percentage,
+          source: fee.source,
+          tierName: fee.tierName
+        },
         validUntil: new Date(Date.now() + 15 * 60 * 1000).toISOString(), // 15 min from now
         isBuyOrSell: quote.isBuyOrSell,
         nonce: quote.nonce
@@ -1808,27 +4192,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate request body using Zod schema
       const validatedData = createTransakSessionSchema.parse(req.body);
 
-      // Get Transak service instance for the merchant
-      const transak = await getTransakService(req.user!.id);
-      
-      // Create session using the Transak service (now returns normalized { widgetUrl } response)
-      const sessionResponse = await transak.createSession(validatedData);
-
-      // Store the Transak session URL and create a masked payment link
-      const paymentLink = await storage.createPaymentLink({
-        sessionUrl: sessionResponse.widgetUrl,
-        merchantId: req.user!.id
-      });
-
-      // Create the masked URL - use the request's host to create a proper URL
-      const protocol = req.secure ? 'https' : 'http';
-      const host = req.get('host');
-      const maskedUrl = `${protocol}://${host}/pay/${paymentLink.id}`;
+      // Create the Transak session, its transaction record and masked payment link
+      const { paymentLink, partnerOrderId, credentialSource } = await createPaymentSession(req.user!.id, req.user!.mode as MerchantMode, 'BUY', validatedData);
+      const maskedUrl = getPaymentLinkUrl(req, paymentLink.id);
+      await AuditService.record(req, { action: 'payment_link.create', targetType: 'payment_link', targetId: paymentLink.id, metadata: { direction: 'BUY', partnerOrderId } });
 
       // Return normalized response format with masked URL
       res.json({
         success: true,
-        widgetUrl: maskedUrl
+        widgetUrl: maskedUrl,
+        partnerOrderId,
+        paymentLinkId: paymentLink.id,
+        expiresAt: paymentLink.expiresAt,
+        credentialSource
       });
     } catch (error) {
       console.error("Error creating Transak session:", error);
@@ -1886,14 +4262,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         walletAddress
       }, null, 2));
 
+      // Quote with our platform fee so the customer sees the full price
+      const merchant = await storage.getMerchant(req.user!.id);
+      const fee = merchant ? await FeeService.resolveFee(merchant) : FeeService.defaultFee();
+
       // Call Transak pricing API for SELL operations using platform-wide credentials
-      const transakResponse = await PublicTransakService.getOfframpPricingQuote({
+      const transakResponse = await quoteWithPartnerFee(fee, fiatCurrency, partnerFee => PublicTransakService.getOfframpPricingQuote({
         cryptoAmount,
         cryptoCurrency,
         fiatCurrency,
         network,
-        paymentMethod: payoutMethod
-      });
+        paymentMethod: payoutMethod,
+        partnerFee
+      }));
 
       // Extract the actual quote data from Transak's nested response structure
       const quote = transakResponse.response;
@@ -1916,6 +4297,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         slippage: quote.slippage,
         totalFee: quote.totalFee,
         feeBreakdown: quote.feeBreakdown || [],
+        platformFee: {
+          ...FeeService.calculate(fee, Number(quote.fiatAmount) || 0, fiatCurrency),
+          percentage: fee.percentage,
+          source: fee.source,
+          tierName: fee.tierName
+        },
         validUntil: new Date(Date.now() + 15 * 60 * 1000).toISOString(), // 15 min from now
         isBuyOrSell: 'SELL',
         nonce: quote.nonce
@@ -2009,7 +4396,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       // Get Transak service instance for the merchant
-      const transak = await getTransakService(req.user!.id);
+      const { transak, source } = await TransakCredentialService.resolve(req.user!.id);
       
       // Create test offramp session
       const sessionResponse = await transak.createOfframpSession(testSessionData);
@@ -2020,7 +4407,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         success: true,
         widgetUrl: sessionResponse.widgetUrl,
-        testData: testSessionData
+        testData: testSessionData,
+        credentialSource: source
       });
     } catch (error) {
       console.error("[DEBUG] Error creating test offramp session:", error);
@@ -2039,37 +4427,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validatedData = createTransakSessionSchema.parse(req.body);
       console.log('[DEBUG] Validated data:', JSON.stringify(validatedData, null, 2));
 
-      // Override isBuyOrSell to SELL for offramp operations
-      const offrampSessionData = {
-        ...validatedData,
-        quoteData: {
-          ...validatedData.quoteData,
-          isBuyOrSell: 'SELL' as const
-        }
-      };
-
-      // Get Transak service instance for the merchant
-      const transak = await getTransakService(req.user!.id);
-      
-      // Create offramp session using the Transak service
-      const sessionResponse = await transak.createOfframpSession(offrampSessionData);
-
-      // Store the Transak session URL and create a masked payment link
-      const paymentLink = await storage.createPaymentLink({
-        sessionUrl: sessionResponse.widgetUrl,
-        merchantId: req.user!.id
-      });
-
-      // Create the masked URL - use the request's host to create a proper URL
-      const protocol = req.secure ? 'https' : 'http';
-      const host = req.get('host');
-      const maskedUrl = `${protocol}://${host}/pay/${paymentLink.id}`;
+      // Create the Transak offramp session, its transaction record and masked payment link
+      const { paymentLink, partnerOrderId, widgetUrl, credentialSource } = await createPaymentSession(req.user!.id, req.user!.mode as MerchantMode, 'SELL', validatedData);
+      const maskedUrl = getPaymentLinkUrl(req, paymentLink.id);
+      await AuditService.record(req, { action: 'payment_link.create', targetType: 'payment_link', targetId: paymentLink.id, metadata: { direction: 'SELL', partnerOrderId } });
 
       // Return both masked URL and direct Transak URL for flexibility
       res.json({
         success: true,
         widgetUrl: maskedUrl, // Masked payment link for security
-        directTransakUrl: sessionResponse.widgetUrl // Direct unmasked Transak URL
+        directTransakUrl: widgetUrl, // Direct unmasked Transak URL
+        partnerOrderId,
+        paymentLinkId: paymentLink.id,
+        expiresAt: paymentLink.expiresAt,
+        credentialSource
       });
     } catch (error) {
       console.error("Error creating Transak offramp session:", error);
@@ -2159,42 +4530,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Payment link redirect endpoint - redirects masked payment URLs to actual Transak sessions
-  app.get("/pay/:linkId", async (req, res) => {
+  // Hosted checkout endpoints backing the /pay/:linkId page (public, addressed by the unguessable link ID)
+  const getCheckoutOrderStatus = async (link: PaymentLink) => {
+    const transaction = link.partnerOrderId ? await storage.getTransactionByPartnerOrderId(link.partnerOrderId) : undefined;
+    const status = link.status === 'active' && link.expiresAt < new Date() ? 'expired' : link.status;
+    return {
+      linkStatus: status,
+      orderStatus: transaction?.status ?? null,
+      statusHistory: (transaction?.statusHistory ?? []).map(({ status, at }) => ({ status, at })),
+      fiatAmount: transaction?.fiatAmount ?? null,
+      fiatCurrency: transaction?.fiatCurrency ?? null,
+      cryptoAmount: transaction?.cryptoAmount ?? null,
+      cryptoCurrency: transaction?.cryptoCurrency ?? null,
+      network: transaction?.network ?? null,
+      completedAt: transaction?.completedAt ?? null
+    };
+  };
+
+  app.get("/api/public/payment-links/:linkId", async (req, res) => {
     try {
-      const { linkId } = req.params;
-      
-      if (!linkId) {
-        return res.status(400).json({ error: "Link ID is required" });
-      }
-      
-      // Retrieve the payment link from storage
-      const paymentLink = await storage.getPaymentLink(linkId);
-      
-      if (!paymentLink) {
+      const link = await storage.getPaymentLink(req.params.linkId);
+      if (!link) {
         return res.status(404).json({ 
-          error: "Payment link not found or expired",
-          message: "This payment link is either invalid or has expired. Please request a new payment link."
+          error: "Payment link not found",
+          message: "This payment link is invalid. Please request a new payment link."
         });
       }
-      
-      // Redirect to the actual Transak session URL
-      res.redirect(302, paymentLink.sessionUrl);
-      
+
+      const merchant = await storage.getMerchant(link.merchantId);
+
+      // Count each visitor once per session, not every reload or refetch; only active, unexpired links expose the Transak widget
+      const viewed = req.session.viewedPaymentLinks ?? [];
+      let clicked: PaymentLink | undefined;
+      if (viewed.includes(link.id)) {
+        clicked = link.status === 'active' && link.expiresAt >= new Date() ? link : undefined;
+      } else {
+        clicked = await storage.recordPaymentLinkClick(link.id);
+        req.session.viewedPaymentLinks = [...viewed, link.id].slice(-MAX_VIEWED_PAYMENT_LINKS);
+      }
+      if (!clicked && link.status === 'active') {
+        await storage.updatePaymentLink(link.id, { status: 'expired' });
+      }
+
+      res.json({
+        id: link.id,
+        merchantName: merchant?.name ?? 'Merchant',
+        direction: link.direction,
+        amount: link.amount,
+        currency: link.currency,
+        description: link.description,
+        expiresAt: link.expiresAt,
+        widgetUrl: clicked ? clicked.sessionUrl : null,
+        ...(await getCheckoutOrderStatus(clicked ?? link))
+      });
     } catch (error) {
-      console.error("Error redirecting payment link:", error);
-      res.status(500).json({ error: "Failed to process payment link" });
+      console.error("Error loading payment link:", error);
+      res.status(500).json({ error: "Failed to load payment link" });
     }
   });
 
-  // Create deposit address for a merchant's trade account (admin only)
-  app.post('/api/admin/merchants/:id/create-deposit-address', requireAdmin, async (req, res) => {
+  // Polled by the checkout page until the order reaches a final status
+  app.get("/api/public/payment-links/:linkId/status", async (req, res) => {
     try {
-      const { id } = req.params;
-      const { asset = 'USDC' } = req.body;
+      const link = await storage.getPaymentLink(req.params.linkId);
+      if (!link) {
+        return res.status(404).json({ error: "Payment link not found" });
+      }
+
+      res.json(await getCheckoutOrderStatus(link));
+    } catch (error) {
+      console.error("Error fetching payment link status:", error);
+      res.status(500).json({ error: "Failed to fetch payment status" });
+    }
+  });
 
-      // Validate request body
-      const validatedBody = createTradeAccountSchema.parse({ asset });
+  // Create deposit addresses for a merchant's trade accounts (admin only)
+  app.post('/api/admin/merchants/:id/create-deposit-address', requirePermission('integration_management'), async (req, res) => {
+    try {
+      const { id } = cybridCustomerParamsSchema.parse(req.params);
+      const { asset, assets: requestedAssets } = createTradeAccountSchema.parse(req.body);
 
       // Get merchant details
       const merchant = await storage.getMerchant(id);
@@ -2218,71 +4632,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Check if merchant has active trade account for this asset
-      if (!merchant.cybridTradeAccountGuid || merchant.tradeAccountAsset !== asset || merchant.tradeAccountStatus !== 'created') {
+      // Default to every trade account the merchant already has; explicitly requested assets need one first
+      const tradeAccounts = await storage.getMerchantTradeAccounts(id);
+      const assets: string[] = requestedAssets ?? (asset ? [asset] : tradeAccounts.filter(t => t.status === 'created').map(t => t.asset));
+      if (assets.length === 0) {
         return res.status(400).json({
           error: "Merchant must have an active trade account for this asset",
-          message: `Create a ${asset} trade account first`,
-          tradeAccountStatus: merchant.tradeAccountStatus
+          message: "Create a trade account first"
         });
       }
 
-      // Check for existing deposit address for this asset
-      if (merchant.depositAddressGuid && merchant.depositAddressAsset === asset) {
+      const missing = assets.filter(a => !tradeAccounts.some(t => t.asset === a && t.status === 'created'));
+      if (missing.length > 0) {
         return res.status(400).json({
-          error: "Deposit address already exists for this asset",
-          existingAddress: {
-            guid: merchant.depositAddressGuid,
-            address: merchant.depositAddress,
-            asset: merchant.depositAddressAsset,
-            status: merchant.depositAddressStatus
-          }
+          error: "Merchant must have an active trade account for this asset",
+          message: `Create ${missing.join(', ')} trade account${missing.length > 1 ? 's' : ''} first`,
+          missingAssets: missing
         });
       }
 
-      // Update status to pending
-      await storage.updateMerchant(id, {
-        depositAddressStatus: 'pending'
-      });
-
-      try {
-        // Create deposit address via Cybrid
-        const depositAddress = await CybridService.createDepositAddress(merchant.cybridTradeAccountGuid, asset);
-        
-        // Update merchant with successful deposit address creation
-        await storage.updateMerchant(id, {
-          depositAddressGuid: depositAddress.guid,
-          depositAddress: depositAddress.address,
-          depositAddressStatus: 'created',
-          depositAddressAsset: asset,
-          depositAddressCreatedAt: new Date()
-        });
-
-        console.log(`✅ Successfully created ${asset} deposit address for merchant ${merchant.name}: ${depositAddress.address}`);
+      const depositAddresses = [];
+      const errors = [];
+      for (const tradeAccount of tradeAccounts.filter(t => assets.includes(t.asset))) {
+        try {
+          depositAddresses.push(await CybridService.ensureMerchantDepositAddress(tradeAccount));
+        } catch (cybridError) {
+          console.error(`Failed to create ${tradeAccount.asset} deposit address for merchant ${merchant.name}:`, cybridError);
+          errors.push({ asset: tradeAccount.asset, error: cybridError instanceof Error ? cybridError.message : 'Unknown error' });
+        }
+      }
 
-        res.json({
-          success: true,
-          depositAddress: {
-            guid: depositAddress.guid,
-            address: depositAddress.address,
-            asset: asset,
-            status: 'created',
-            createdAt: new Date().toISOString()
-          }
-        });
+      await CybridService.syncMerchantAccountSummary(id);
 
-      } catch (cybridError) {
-        // Update status to error
-        await storage.updateMerchant(id, {
-          depositAddressStatus: 'error',
-          cybridLastError: cybridError instanceof Error ? cybridError.message : 'Unknown error'
-        });
+      if (depositAddresses.length === 0) {
+        const errorMessage = errors.map(e => `${e.asset}: ${e.error}`).join('; ');
 
-        console.error(`Failed to create deposit address for merchant ${merchant.name}:`, cybridError);
-        
-        // Parse Cybrid error for specific error handling
-        const errorMessage = cybridError instanceof Error ? cybridError.message : 'Unknown error';
-        
         // Check for specific Cybrid error conditions
         if (errorMessage.includes('unverified_customer') || errorMessage.includes('Customer has not been verified')) {
           return res.status(400).json({
@@ -2300,14 +4684,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
         
-        res.status(500).json({
+        return res.status(500).json({
           error: "Failed to create deposit address",
-          details: errorMessage
+          details: errorMessage,
+          errors
         });
       }
 
+      console.log(`✅ Deposit addresses ready for merchant ${merchant.name}: ${depositAddresses.map(a => a.asset).join(', ')}`);
+      await AuditService.record(req, {
+        action: 'merchant.deposit_address.create',
+        targetType: 'merchant',
+        targetId: merchant.id,
+        metadata: { assets: depositAddresses.map(address => address.asset), errors }
+      });
+
+      res.json({
+        success: errors.length === 0,
+        depositAddresses: depositAddresses.map(address => ({
+          guid: address.cybridDepositAddressGuid,
+          address: address.address,
+          asset: address.asset,
+          network: address.network,
+          createdAt: address.createdAt
+        })),
+        errors
+      });
+
     } catch (error) {
       console.error("Error in deposit address creation:", error);
+
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: (error as any).issues
+        });
+      }
+
       res.status(500).json({ error: "Failed to create deposit address" });
     }
   });
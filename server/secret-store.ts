@@ -0,0 +1,153 @@
+import { storage } from './storage';
+import { CredentialEncryption } from './transak-service';
+import { SecretManagerService } from './secret-manager-service';
+
+export interface SecretStore {
+  readonly name: string;
+  // Returns null when the secret doesn't exist
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string): Promise<void>;
+  // Deleting a missing secret is not an error
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+}
+
+export type SecretStoreBackend = 'gcp' | 'postgres' | 'memory';
+
+// JSON layout of the per-merchant credentials secret
+export interface MerchantCredentialsSecret {
+  transak?: { apiKey: string; apiSecret: string; environment: 'staging' | 'production' };
+}
+
+// Google Cloud Secret Manager; every put adds a new secret version
+export class GcpSecretStore implements SecretStore {
+  readonly name = 'gcp_secret_manager';
+  private client = new SecretManagerService();
+
+  async get(key: string): Promise<string | null> {
+    if (!(await this.client.secretExists(key))) {
+      return null;
+    }
+    return this.client.getSecret(key);
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    await this.client.storeSecret(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.deleteSecret(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.client.secretExists(key);
+  }
+}
+
+// stored_secrets table, values encrypted with CredentialEncryption
+export class PostgresSecretStore implements SecretStore {
+  readonly name = 'postgres_encrypted';
+
+  async get(key: string): Promise<string | null> {
+    const secret = await storage.getStoredSecret(key);
+    return secret ? CredentialEncryption.decrypt(secret.encryptedValue) : null;
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    await storage.upsertStoredSecret(key, CredentialEncryption.encrypt(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    await storage.deleteStoredSecret(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return !!(await storage.getStoredSecret(key));
+  }
+}
+
+// Process memory only: secrets are lost on restart. For local development and tests.
+export class MemorySecretStore implements SecretStore {
+  readonly name = 'memory';
+  private secrets = new Map<string, string>();
+
+  async get(key: string): Promise<string | null> {
+    return this.secrets.get(key) ?? null;
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    this.secrets.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.secrets.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.secrets.has(key);
+  }
+}
+
+// All merchant credential reads and writes go through here.
+// Backend: SECRET_STORE_BACKEND=gcp|postgres|memory (default gcp when GOOGLE_CLOUD_CREDENTIALS is set,
+// else postgres when a credential encryption key is set or in production, else memory).
+export class SecretStoreService {
+  // Written to merchant_credentials in place of the key and secret, which live in the store
+  static readonly CREDENTIALS_PLACEHOLDER = 'STORED_IN_SECRET_STORE';
+
+  private static selectedStore: SecretStore | null = null;
+
+  static store(): SecretStore {
+    if (!this.selectedStore) {
+      const backend = this.configuredBackend();
+      if (backend === 'gcp') {
+        this.selectedStore = new GcpSecretStore();
+      } else if (backend === 'postgres') {
+        this.selectedStore = new PostgresSecretStore();
+      } else {
+        this.selectedStore = new MemorySecretStore();
+        console.warn('⚠️ Secrets are kept in memory and will be lost on restart. Set SECRET_STORE_BACKEND for persistent storage.');
+      }
+      console.log(`🔐 Secrets stored in ${this.selectedStore.name}`);
+    }
+    return this.selectedStore;
+  }
+
+  // Swap the backend, e.g. a MemorySecretStore in tests
+  static use(store: SecretStore): void {
+    this.selectedStore = store;
+  }
+
+  static async getJson<T>(key: string): Promise<T | null> {
+    const value = await this.store().get(key);
+    return value === null ? null : JSON.parse(value) as T;
+  }
+
+  static async putJson(key: string, value: unknown): Promise<void> {
+    await this.store().put(key, JSON.stringify(value));
+  }
+
+  // One secret per environment. Production keeps the original Secret Manager name; secrets written there before
+  // environments were split may still hold staging keys, so readers must check the environment inside.
+  static merchantCredentialsKey(merchantId: string, environment: string): string {
+    const name = SecretManagerService.getMerchantCredentialsSecretName(merchantId);
+    return environment === 'production' ? name : `${name}-${environment}`;
+  }
+
+  private static configuredBackend(): SecretStoreBackend {
+    const configured = process.env.SECRET_STORE_BACKEND;
+    if (configured) {
+      if (configured !== 'gcp' && configured !== 'postgres' && configured !== 'memory') {
+        throw new Error(`Unknown SECRET_STORE_BACKEND "${configured}" (expected gcp, postgres or memory)`);
+      }
+      return configured;
+    }
+    if (process.env.GOOGLE_CLOUD_CREDENTIALS) {
+      return 'gcp';
+    }
+    if (process.env.CREDENTIAL_ENCRYPTION_KEYS || process.env.CREDENTIAL_ENCRYPTION_KEY || process.env.NODE_ENV === 'production') {
+      return 'postgres';
+    }
+    return 'memory';
+  }
+}
@@ -1,7 +1,7 @@
-import { type User, type InsertUser, type Merchant, type InsertMerchant, type Admin, type InsertAdmin, type MerchantCredentials, type InsertMerchantCredentials, type MerchantDepositAddress, type InsertMerchantDepositAddress, type PaymentLink, type InsertPaymentLink, type WebhookEvent, type SignupToken, type InsertSignupToken, users, merchants, admins, merchantCredentials, merchantDepositAddresses, webhookEvents, signupTokens } from "@shared/schema";
+import { type User, type InsertUser, type Merchant, type InsertMerchant, type Admin, type InsertAdmin, type MerchantCredentials, type InsertMerchantCredentials, type MerchantDepositAddress, type InsertMerchantDepositAddress, type PaymentLink, type InsertPaymentLink, type WebhookEvent, type WebhookEventFilters, type WebhookEventOutcome, type WebhookEventSource, type SignupToken, type InsertSignupToken, type Transaction, type InsertTransaction, type TransactionStatusChange, type BalanceSnapshot, type InsertBalanceSnapshot, type Trade, type InsertTrade, type MerchantTradeAccount, type InsertMerchantTradeAccount, type Invoice, type InsertInvoice, type InsertInvoiceItem, type InvoiceWithItems, type FeeSchedule, type InsertFeeSchedule, type FeeScope, type MerchantWebhookEndpoint, type InsertMerchantWebhookEndpoint, type WebhookDelivery, type InsertWebhookDelivery, type Job, type InsertJob, type MerchantStateTransition, type InsertMerchantStateTransition, type ReconciliationRun, type InsertReconciliationRun, type AuditLogEntry, type InsertAuditLog, type AuditLogFilters, type PlatformSetting, type PlatformSettingKey, type Notification, type InsertNotification, type NotificationFilters, type StoredSecret, type EncryptedField, type KeyRotationRun, type InsertKeyRotationRun, type TransakCredentialPolicy, type MerchantMode, users, merchants, admins, merchantCredentials, merchantDepositAddresses, webhookEvents, signupTokens, transactions, balanceSnapshots, trades, merchantTradeAccounts, paymentLinks, invoices, invoiceItems, feeSchedules, merchantWebhookEndpoints, webhookDeliveries, jobs, merchantStateTransitions, reconciliationRuns, auditLog, platformSettings, notifications, storedSecrets, keyRotationRuns } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { db } from "./db";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, or, sql, desc, gte, gt, lt, lte, isNull, inArray, ilike, type SQL } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
@@ -22,7 +22,19 @@ export interface IStorage {
   getAllMerchants(): Promise<Merchant[]>;
   createMerchant(merchant: InsertMerchant): Promise<Merchant>;
   updateMerchant(id: string, updates: Partial<InsertMerchant>): Promise<Merchant | undefined>;
+  applyMerchantTransition(id: string, updates: Partial<InsertMerchant>, transition: InsertMerchantStateTransition): Promise<Merchant | undefined>;
+  getMerchantStateTransitions(merchantId: string): Promise<MerchantStateTransition[]>;
   deleteMerchant(id: string): Promise<boolean>;
+
+  // Merchant password methods
+  updateMerchantPassword(id: string, passwordHash: string, username?: string): Promise<Merchant | undefined>;
+  updateMerchantResetToken(id: string, resetTokenHash: string, resetTokenExpiry: Date): Promise<Merchant | undefined>;
+  getMerchantByResetTokenHash(resetTokenHash: string): Promise<Merchant | undefined>;
+  updateMerchantTransakCredentialPolicy(id: string, policy: TransakCredentialPolicy): Promise<Merchant | undefined>;
+  updateMerchantMode(id: string, mode: MerchantMode): Promise<Merchant | undefined>;
+  backfillMerchantMode(id: string, mode: MerchantMode, platformMode: MerchantMode): Promise<void>;
+  backfillDepositAddressModes(mode: MerchantMode): Promise<number>;
+  backfillCybridRecordModes(mode: MerchantMode): Promise<{ trades: number; balanceSnapshots: number }>;
   
   // Admin methods
   getAdmin(id: string): Promise<Admin | undefined>;
@@ -31,6 +43,8 @@ export interface IStorage {
   getAllAdmins(): Promise<Admin[]>;
   createAdmin(admin: InsertAdmin): Promise<Admin>;
   updateAdmin(id: string, updates: Partial<InsertAdmin>): Promise<Admin | undefined>;
+  claimAdminTotpStep(id: string, step: number): Promise<boolean>;
+  consumeAdminRecoveryCode(id: string, codeHash: string): Promise<string[] | null>;
   updateAdminLastLogin(id: string): Promise<void>;
   deleteAdmin(id: string): Promise<boolean>;
   
@@ -39,30 +53,146 @@ export interface IStorage {
   getAdminByResetTokenHash(resetTokenHash: string): Promise<Admin | undefined>;
   clearAdminResetToken(id: string): Promise<Admin | undefined>;
 
-  // Merchant credentials methods
-  getMerchantCredentials(merchantId: string, provider: string): Promise<MerchantCredentials | undefined>;
+  // Merchant credentials methods (one row per provider and environment)
+  getMerchantCredentials(merchantId: string, provider: string, environment: string): Promise<MerchantCredentials | undefined>;
   getAllMerchantCredentials(merchantId: string): Promise<MerchantCredentials[]>;
+  getMerchantCredentialsByProvider(provider: string): Promise<MerchantCredentials[]>;
   createMerchantCredentials(credentials: InsertMerchantCredentials): Promise<MerchantCredentials>;
-  updateMerchantCredentials(merchantId: string, provider: string, updates: Partial<InsertMerchantCredentials>): Promise<MerchantCredentials | undefined>;
-  deleteMerchantCredentials(merchantId: string, provider: string): Promise<boolean>;
+  updateMerchantCredentials(merchantId: string, provider: string, environment: string, updates: Partial<InsertMerchantCredentials>): Promise<MerchantCredentials | undefined>;
+  deleteMerchantCredentials(merchantId: string, provider: string, environment: string): Promise<boolean>;
 
   // Cybrid-specific merchant methods
   getMerchantByCybridGuid(cybridCustomerGuid: string): Promise<Merchant | undefined>;
 
-  // Merchant deposit address methods  
-  getMerchantDepositAddresses(merchantId: string): Promise<MerchantDepositAddress[]>;
+  // Merchant deposit address methods (per-merchant lists are always scoped to one mode)
+  getMerchantDepositAddresses(merchantId: string, mode: MerchantMode): Promise<MerchantDepositAddress[]>;
   createMerchantDepositAddress(address: InsertMerchantDepositAddress): Promise<MerchantDepositAddress>;
+  getDepositAddressByAccount(cybridAccountGuid: string): Promise<MerchantDepositAddress | undefined>;
+
+  // Merchant trade account methods
+  getMerchantTradeAccounts(merchantId: string): Promise<MerchantTradeAccount[]>;
+  getMerchantTradeAccountByAsset(merchantId: string, asset: string): Promise<MerchantTradeAccount | undefined>;
+  createMerchantTradeAccount(account: InsertMerchantTradeAccount): Promise<MerchantTradeAccount>;
+  updateMerchantTradeAccount(id: string, updates: Partial<InsertMerchantTradeAccount>): Promise<MerchantTradeAccount | undefined>;
 
   // Webhook event methods for idempotency
   getWebhookEvent(eventId: string): Promise<any | undefined>;
-  createWebhookEvent(event: { eventId: string; eventType: string; payload: any }): Promise<any>;
+  createWebhookEvent(event: { eventId: string; source: WebhookEventSource; eventType: string; objectGuid?: string | null; payload: any }): Promise<any>;
+  getWebhookEventById(id: number): Promise<WebhookEvent | undefined>;
+  getWebhookEvents(source: WebhookEventSource, filters: WebhookEventFilters): Promise<WebhookEvent[]>;
+  getWebhookEventTypes(source: WebhookEventSource): Promise<string[]>;
+  backfillWebhookEventSources(): Promise<number>;
+  recordWebhookEventOutcome(id: number, outcome: WebhookEventOutcome, detail: string | null, merchantId?: string | null): Promise<WebhookEvent | undefined>;
+
+  // Transaction methods (per-merchant lists and totals are always scoped to one mode)
+  createTransaction(transaction: InsertTransaction): Promise<Transaction>;
+  getTransactionByPartnerOrderId(partnerOrderId: string): Promise<Transaction | undefined>;
+  getMerchantTransactions(merchantId: string, mode: MerchantMode): Promise<Transaction[]>;
+  // Returns the transaction unchanged when it has already reached a final status the new one can't follow
+  updateTransactionStatus(partnerOrderId: string, status: string, source: string, updates?: Partial<InsertTransaction>): Promise<Transaction | undefined>;
+  getRecentMerchantTransactions(merchantId: string, mode: MerchantMode, limit: number): Promise<Transaction[]>;
+  getMerchantDailyVolume(merchantId: string, mode: MerchantMode, since: Date): Promise<Array<{ date: string; currency: string | null; volume: number; transactions: number; completed: number }>>;
+  getMerchantTransactionStatusCounts(merchantId: string, mode: MerchantMode): Promise<Record<string, number>>;
+
+  // Balance snapshot methods
+  createBalanceSnapshots(snapshots: InsertBalanceSnapshot[]): Promise<BalanceSnapshot[]>;
+  getMerchantBalanceSnapshots(merchantId: string, mode: MerchantMode, since: Date): Promise<BalanceSnapshot[]>;
+
+  // Trade methods
+  createTrade(trade: InsertTrade): Promise<Trade>;
+  getTrade(id: string): Promise<Trade | undefined>;
+  getTradeByCybridGuid(cybridTradeGuid: string): Promise<Trade | undefined>;
+  getMerchantTrades(merchantId: string, mode: MerchantMode): Promise<Trade[]>;
+  updateTrade(id: string, updates: Partial<InsertTrade>): Promise<Trade | undefined>;
   
   // Payment link methods
   createPaymentLink(paymentLink: InsertPaymentLink): Promise<PaymentLink>;
   getPaymentLink(id: string): Promise<PaymentLink | undefined>;
+  getMerchantPaymentLinks(merchantId: string, mode: MerchantMode): Promise<PaymentLink[]>;
+  updatePaymentLink(id: string, updates: Partial<PaymentLink>): Promise<PaymentLink | undefined>;
+  getPaymentLinkByPartnerOrderId(partnerOrderId: string): Promise<PaymentLink | undefined>;
+  recordPaymentLinkClick(id: string): Promise<PaymentLink | undefined>;
   deletePaymentLink(id: string): Promise<boolean>;
   cleanupExpiredPaymentLinks(): Promise<void>;
 
+  // Invoice methods
+  createInvoice(invoice: Omit<InsertInvoice, 'invoiceNumber'>, items: Omit<InsertInvoiceItem, 'invoiceId'>[]): Promise<InvoiceWithItems>;
+  getInvoice(id: string): Promise<InvoiceWithItems | undefined>;
+  getInvoiceByPartnerOrderId(partnerOrderId: string): Promise<Invoice | undefined>;
+  getMerchantInvoices(merchantId: string, mode: MerchantMode): Promise<Invoice[]>;
+  updateInvoice(id: string, updates: Partial<InsertInvoice>, items?: Omit<InsertInvoiceItem, 'invoiceId'>[]): Promise<InvoiceWithItems | undefined>;
+  deleteInvoice(id: string): Promise<boolean>;
+
+  // Fee schedule methods
+  getFeeSchedulesInForce(at: Date): Promise<FeeSchedule[]>;
+  getMerchantFeeScheduleInForce(merchantId: string, at: Date): Promise<FeeSchedule | undefined>;
+  getFeeSchedules(scope: FeeScope, merchantId?: string): Promise<FeeSchedule[]>;
+  replaceFeeSchedules(scope: FeeScope, merchantId: string | null, schedules: InsertFeeSchedule[], effectiveFrom: Date): Promise<FeeSchedule[]>;
+  getFeeSchedule(id: string): Promise<FeeSchedule | undefined>;
+  getUpcomingFeeSchedules(after: Date): Promise<FeeSchedule[]>;
+  getDueFeeSchedules(at: Date): Promise<FeeSchedule[]>;
+  markFeeSchedulesApplied(ids: string[]): Promise<void>;
+  cancelFeeSchedule(id: string, adminId: string): Promise<FeeSchedule[]>;
+  getMerchantCompletedVolume(merchantId: string, mode: MerchantMode, currency: string, since: Date, until: Date): Promise<number>;
+
+  // Outbound webhook methods
+  createWebhookEndpoint(endpoint: InsertMerchantWebhookEndpoint): Promise<MerchantWebhookEndpoint>;
+  getWebhookEndpoint(id: string): Promise<MerchantWebhookEndpoint | undefined>;
+  getMerchantWebhookEndpoints(merchantId: string): Promise<MerchantWebhookEndpoint[]>;
+  getAllWebhookEndpoints(): Promise<MerchantWebhookEndpoint[]>;
+  updateWebhookEndpoint(id: string, updates: Partial<InsertMerchantWebhookEndpoint>): Promise<MerchantWebhookEndpoint | undefined>;
+  deleteWebhookEndpoint(id: string): Promise<boolean>;
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(filter: { merchantId?: string; endpointId?: string; status?: string; limit?: number }): Promise<WebhookDelivery[]>;
+  getDueWebhookDeliveries(at: Date, limit: number): Promise<WebhookDelivery[]>;
+  claimWebhookDelivery(id: string, leaseUntil: Date): Promise<WebhookDelivery | undefined>;
+  updateWebhookDelivery(id: string, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+
+  // Job queue methods
+  enqueueJob(job: InsertJob): Promise<Job>;
+  getActiveJobByDedupeKey(dedupeKey: string): Promise<Job | undefined>;
+  getJob(id: string): Promise<Job | undefined>;
+  getJobs(filter: { merchantId?: string; status?: string; type?: string; limit?: number }): Promise<Job[]>;
+  getDueJobs(at: Date, limit: number): Promise<Job[]>;
+  claimJob(id: string, leaseUntil: Date): Promise<Job | undefined>;
+  updateJob(id: string, updates: Partial<InsertJob>): Promise<Job | undefined>;
+
+  // Cybrid reconciliation run methods
+  createReconciliationRun(run: InsertReconciliationRun): Promise<ReconciliationRun>;
+  updateReconciliationRun(id: string, updates: Partial<InsertReconciliationRun>): Promise<ReconciliationRun | undefined>;
+  getReconciliationRun(id: string): Promise<ReconciliationRun | undefined>;
+  getReconciliationRuns(limit: number): Promise<ReconciliationRun[]>;
+  getLatestReconciliationRun(status?: string): Promise<ReconciliationRun | undefined>;
+
+  // Audit log methods (append-only: there is deliberately no update or delete)
+  createAuditLogEntry(entry: InsertAuditLog): Promise<AuditLogEntry>;
+  getAuditLogEntries(filters: AuditLogFilters): Promise<AuditLogEntry[]>;
+  getAuditLogActions(): Promise<string[]>;
+
+  // Platform setting methods
+  getPlatformSetting(key: PlatformSettingKey): Promise<PlatformSetting | undefined>;
+  setPlatformSetting(key: PlatformSettingKey, value: unknown, updatedBy: string | null): Promise<PlatformSetting>;
+
+  // Notification methods
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  updateNotification(id: string, updates: Partial<InsertNotification>): Promise<Notification | undefined>;
+  getNotifications(filters: NotificationFilters): Promise<Notification[]>;
+
+  // Stored secret methods (Postgres secret store backend)
+  getStoredSecret(name: string): Promise<StoredSecret | undefined>;
+  upsertStoredSecret(name: string, encryptedValue: string): Promise<StoredSecret>;
+  deleteStoredSecret(name: string): Promise<boolean>;
+
+  // Credential key rotation methods
+  createKeyRotationRun(run: InsertKeyRotationRun): Promise<KeyRotationRun>;
+  updateKeyRotationRun(id: string, updates: Partial<InsertKeyRotationRun>): Promise<KeyRotationRun | undefined>;
+  getKeyRotationRun(id: string): Promise<KeyRotationRun | undefined>;
+  getKeyRotationRuns(limit: number): Promise<KeyRotationRun[]>;
+  getEncryptedValues(field: EncryptedField): Promise<{ id: string; value: string | null }[]>;
+  // Compare-and-set so a value changed since it was read is never overwritten with stale data
+  replaceEncryptedValue(field: EncryptedField, id: string, expected: string, value: string): Promise<boolean>;
+
   // Signup token methods
   createSignupToken(token: InsertSignupToken): Promise<SignupToken>;
   getSignupToken(token: string): Promise<SignupToken | undefined>;
@@ -75,9 +205,14 @@ export interface IStorage {
 
 const PostgresSessionStore = connectPg(session);
 
+// Statuses an order can still move to once it has reached a final one
+const TERMINAL_TRANSACTION_TRANSITIONS: Record<string, string[]> = {
+  COMPLETED: ['REFUNDED'],
+  REFUNDED: []
+};
+
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
-  private paymentLinks: Map<string, PaymentLink> = new Map();
   private cleanupInterval: NodeJS.Timeout;
 
   constructor() {
@@ -88,7 +223,9 @@ export class DatabaseStorage implements IStorage {
     
     // Run cleanup every 30 minutes
     this.cleanupInterval = setInterval(() => {
-      this.cleanupExpiredPaymentLinks();
+      this.cleanupExpiredPaymentLinks().catch(error => {
+        console.error('Failed to clean up expired payment links:', error);
+      });
     }, 30 * 60 * 1000);
   }
 
@@ -141,6 +278,28 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Update the merchant and record the state change together so history never disagrees with the row
+  async applyMerchantTransition(id: string, updates: Partial<InsertMerchant>, transition: InsertMerchantStateTransition): Promise<Merchant | undefined> {
+    return await db.transaction(async (tx) => {
+      const [merchant] = await tx.update(merchants)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(merchants.id, id))
+        .returning();
+      if (!merchant) {
+        return undefined;
+      }
+
+      await tx.insert(merchantStateTransitions).values(transition);
+      return merchant;
+    });
+  }
+
+  async getMerchantStateTransitions(merchantId: string): Promise<MerchantStateTransition[]> {
+    return await db.select().from(merchantStateTransitions)
+      .where(eq(merchantStateTransitions.merchantId, merchantId))
+      .orderBy(desc(merchantStateTransitions.createdAt));
+  }
+
   async deleteMerchant(id: string): Promise<boolean> {
     const result = await db.delete(merchants).where(eq(merchants.id, id));
     return (result.rowCount || 0) > 0;
@@ -179,6 +338,26 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Single conditional updates, so two requests with the same code can't both succeed
+  async claimAdminTotpStep(id: string, step: number): Promise<boolean> {
+    const result = await db.update(admins)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(admins.id, id),
+        or(isNull(admins.totpLastUsedStep), lt(admins.totpLastUsedStep, step))
+      ));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Remaining hashes, or null when the code was not (or no longer) unused
+  async consumeAdminRecoveryCode(id: string, codeHash: string): Promise<string[] | null> {
+    const result = await db.update(admins)
+      .set({ recoveryCodeHashes: sql`array_remove(${admins.recoveryCodeHashes}, ${codeHash})` })
+      .where(and(eq(admins.id, id), sql`${codeHash} = ANY(${admins.recoveryCodeHashes})`))
+      .returning({ recoveryCodeHashes: admins.recoveryCodeHashes });
+    return result[0] ? result[0].recoveryCodeHashes ?? [] : null;
+  }
+
   async updateAdminLastLogin(id: string): Promise<void> {
     await db.update(admins)
       .set({ lastLoginAt: new Date() })
@@ -190,6 +369,81 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  // Merchant password methods (a new password always invalidates any outstanding reset token)
+  async updateMerchantPassword(id: string, passwordHash: string, username?: string): Promise<Merchant | undefined> {
+    const result = await db.update(merchants)
+      .set({
+        ...(username && { username }),
+        password: passwordHash,
+        passwordChangedAt: new Date(),
+        resetToken: null,
+        resetTokenExpiry: null
+      })
+      .where(eq(merchants.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async updateMerchantTransakCredentialPolicy(id: string, policy: TransakCredentialPolicy): Promise<Merchant | undefined> {
+    const result = await db.update(merchants)
+      .set({ transakCredentialPolicy: policy, updatedAt: new Date() })
+      .where(eq(merchants.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async updateMerchantMode(id: string, mode: MerchantMode): Promise<Merchant | undefined> {
+    const result = await db.update(merchants)
+      .set({ mode, updatedAt: new Date() })
+      .where(eq(merchants.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // One-off labelling of records created before modes existed: the merchant and its payment links and invoices get the
+  // merchant's mode, transactions the mode of the keys that created them
+  async backfillMerchantMode(id: string, mode: MerchantMode, platformMode: MerchantMode): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(merchants).set({ mode }).where(eq(merchants.id, id));
+      await tx.update(transactions)
+        .set({ mode: sql`CASE WHEN ${transactions.credentialSource} = 'platform' THEN ${platformMode} ELSE ${mode} END` })
+        .where(eq(transactions.merchantId, id));
+      await tx.update(paymentLinks).set({ mode }).where(eq(paymentLinks.merchantId, id));
+      await tx.update(invoices).set({ mode }).where(eq(invoices.merchantId, id));
+    });
+  }
+
+  async backfillDepositAddressModes(mode: MerchantMode): Promise<number> {
+    const result = await db.update(merchantDepositAddresses).set({ mode });
+    return result.rowCount ?? 0;
+  }
+
+  async backfillCybridRecordModes(mode: MerchantMode): Promise<{ trades: number; balanceSnapshots: number }> {
+    const tradeResult = await db.update(trades).set({ mode });
+    const snapshotResult = await db.update(balanceSnapshots).set({ mode });
+    return { trades: tradeResult.rowCount ?? 0, balanceSnapshots: snapshotResult.rowCount ?? 0 };
+  }
+
+  async updateMerchantResetToken(id: string, resetTokenHash: string, resetTokenExpiry: Date): Promise<Merchant | undefined> {
+    const result = await db.update(merchants)
+      .set({
+        resetToken: resetTokenHash,
+        resetTokenExpiry: resetTokenExpiry
+      })
+      .where(eq(merchants.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getMerchantByResetTokenHash(resetTokenHash: string): Promise<Merchant | undefined> {
+    const result = await db.select().from(merchants)
+      .where(and(
+        eq(merchants.resetToken, resetTokenHash),
+        sql`${merchants.resetTokenExpiry} > NOW()`
+      ));
+    return result[0];
+  }
+
   // Admin password reset methods
   async updateAdminResetToken(id: string, resetTokenHash: string, resetTokenExpiry: Date): Promise<Admin | undefined> {
     const result = await db.update(admins)
@@ -223,11 +477,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Merchant credentials methods
-  async getMerchantCredentials(merchantId: string, provider: string): Promise<MerchantCredentials | undefined> {
+  async getMerchantCredentials(merchantId: string, provider: string, environment: string): Promise<MerchantCredentials | undefined> {
     const result = await db.select().from(merchantCredentials)
       .where(and(
         eq(merchantCredentials.merchantId, merchantId),
-        eq(merchantCredentials.provider, provider)
+        eq(merchantCredentials.provider, provider),
+        eq(merchantCredentials.environment, environment)
       ));
     return result[0];
   }
@@ -237,80 +492,101 @@ export class DatabaseStorage implements IStorage {
       .where(eq(merchantCredentials.merchantId, merchantId));
   }
 
+  async getMerchantCredentialsByProvider(provider: string): Promise<MerchantCredentials[]> {
+    return await db.select().from(merchantCredentials)
+      .where(eq(merchantCredentials.provider, provider));
+  }
+
   async createMerchantCredentials(credentials: InsertMerchantCredentials): Promise<MerchantCredentials> {
     const result = await db.insert(merchantCredentials).values(credentials).returning();
     return result[0];
   }
 
-  async updateMerchantCredentials(merchantId: string, provider: string, updates: Partial<InsertMerchantCredentials>): Promise<MerchantCredentials | undefined> {
+  async updateMerchantCredentials(merchantId: string, provider: string, environment: string, updates: Partial<InsertMerchantCredentials>): Promise<MerchantCredentials | undefined> {
     const result = await db.update(merchantCredentials)
       .set(updates)
       .where(and(
         eq(merchantCredentials.merchantId, merchantId),
-        eq(merchantCredentials.provider, provider)
+        eq(merchantCredentials.provider, provider),
+        eq(merchantCredentials.environment, environment)
       ))
       .returning();
     return result[0];
   }
 
-  async deleteMerchantCredentials(merchantId: string, provider: string): Promise<boolean> {
+  async deleteMerchantCredentials(merchantId: string, provider: string, environment: string): Promise<boolean> {
     const result = await db.delete(merchantCredentials)
       .where(and(
         eq(merchantCredentials.merchantId, merchantId),
-        eq(merchantCredentials.provider, provider)
+        eq(merchantCredentials.provider, provider),
+        eq(merchantCredentials.environment, environment)
       ));
     return (result.rowCount || 0) > 0;
   }
 
-  // Payment link methods - using in-memory storage as per guidelines
+  // Payment link methods
   async createPaymentLink(paymentLinkData: InsertPaymentLink): Promise<PaymentLink> {
-    const id = randomUUID();
-    const now = new Date();
-    const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000); // 24 hours
-    
-    const paymentLink: PaymentLink = {
-      id,
-      sessionUrl: paymentLinkData.sessionUrl,
-      merchantId: paymentLinkData.merchantId,
-      createdAt: now,
-      expiresAt
-    };
-    
-    this.paymentLinks.set(id, paymentLink);
-    return paymentLink;
+    const result = await db.insert(paymentLinks).values(paymentLinkData).returning();
+    return result[0];
   }
 
   async getPaymentLink(id: string): Promise<PaymentLink | undefined> {
-    const paymentLink = this.paymentLinks.get(id);
-    
-    // Check if expired
-    if (paymentLink && paymentLink.expiresAt < new Date()) {
-      this.paymentLinks.delete(id);
-      return undefined;
-    }
-    
-    return paymentLink;
+    const result = await db.select().from(paymentLinks).where(eq(paymentLinks.id, id));
+    return result[0];
+  }
+
+  async getMerchantPaymentLinks(merchantId: string, mode: MerchantMode): Promise<PaymentLink[]> {
+    return await db.select().from(paymentLinks)
+      .where(and(eq(paymentLinks.merchantId, merchantId), eq(paymentLinks.mode, mode)))
+      .orderBy(desc(paymentLinks.createdAt));
+  }
+
+  async updatePaymentLink(id: string, updates: Partial<PaymentLink>): Promise<PaymentLink | undefined> {
+    const result = await db.update(paymentLinks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(paymentLinks.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getPaymentLinkByPartnerOrderId(partnerOrderId: string): Promise<PaymentLink | undefined> {
+    const result = await db.select().from(paymentLinks).where(eq(paymentLinks.partnerOrderId, partnerOrderId));
+    return result[0];
+  }
+
+  // Count a visit; returns undefined if the link is no longer active or has expired
+  async recordPaymentLinkClick(id: string): Promise<PaymentLink | undefined> {
+    const now = new Date();
+    const result = await db.update(paymentLinks)
+      .set({
+        clickCount: sql`${paymentLinks.clickCount} + 1`,
+        lastClickedAt: now
+      })
+      .where(and(
+        eq(paymentLinks.id, id),
+        eq(paymentLinks.status, 'active'),
+        gte(paymentLinks.expiresAt, now)
+      ))
+      .returning();
+    return result[0];
   }
 
   async deletePaymentLink(id: string): Promise<boolean> {
-    return this.paymentLinks.delete(id);
+    const result = await db.delete(paymentLinks).where(eq(paymentLinks.id, id)).returning();
+    return result.length > 0;
   }
 
   async cleanupExpiredPaymentLinks(): Promise<void> {
-    const now = new Date();
-    let cleanedCount = 0;
-    
-    // Convert to array to avoid iterator issues
-    const entries = Array.from(this.paymentLinks.entries());
-    for (const [id, paymentLink] of entries) {
-      if (paymentLink.expiresAt < now) {
-        this.paymentLinks.delete(id);
-        cleanedCount++;
-      }
-    }
+    const result = await db.update(paymentLinks)
+      .set({ status: 'expired', updatedAt: new Date() })
+      .where(and(
+        eq(paymentLinks.status, 'active'),
+        lt(paymentLinks.expiresAt, new Date())
+      ))
+      .returning({ id: paymentLinks.id });
     
-    if (cleanedCount > 0) {
-      console.log(`Cleaned up ${cleanedCount} expired payment links`);
+    if (result.length > 0) {
+      console.log(`Marked ${result.length} payment links as expired`);
     }
   }
 
@@ -322,9 +598,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Merchant deposit address methods
-  async getMerchantDepositAddresses(merchantId: string): Promise<MerchantDepositAddress[]> {
+  async getMerchantDepositAddresses(merchantId: string, mode: MerchantMode): Promise<MerchantDepositAddress[]> {
     return await db.select().from(merchantDepositAddresses)
-      .where(eq(merchantDepositAddresses.merchantId, merchantId));
+      .where(and(eq(merchantDepositAddresses.merchantId, merchantId), eq(merchantDepositAddresses.mode, mode)));
   }
 
   async createMerchantDepositAddress(address: InsertMerchantDepositAddress): Promise<MerchantDepositAddress> {
@@ -332,6 +608,44 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getDepositAddressByAccount(cybridAccountGuid: string): Promise<MerchantDepositAddress | undefined> {
+    const result = await db.select().from(merchantDepositAddresses)
+      .where(and(
+        eq(merchantDepositAddresses.cybridAccountGuid, cybridAccountGuid),
+        eq(merchantDepositAddresses.isActive, true)
+      ));
+    return result[0];
+  }
+
+  // Merchant trade account methods
+  async getMerchantTradeAccounts(merchantId: string): Promise<MerchantTradeAccount[]> {
+    return await db.select().from(merchantTradeAccounts)
+      .where(eq(merchantTradeAccounts.merchantId, merchantId))
+      .orderBy(merchantTradeAccounts.createdAt);
+  }
+
+  async getMerchantTradeAccountByAsset(merchantId: string, asset: string): Promise<MerchantTradeAccount | undefined> {
+    const result = await db.select().from(merchantTradeAccounts)
+      .where(and(
+        eq(merchantTradeAccounts.merchantId, merchantId),
+        eq(merchantTradeAccounts.asset, asset)
+      ));
+    return result[0];
+  }
+
+  async createMerchantTradeAccount(account: InsertMerchantTradeAccount): Promise<MerchantTradeAccount> {
+    const result = await db.insert(merchantTradeAccounts).values(account).returning();
+    return result[0];
+  }
+
+  async updateMerchantTradeAccount(id: string, updates: Partial<InsertMerchantTradeAccount>): Promise<MerchantTradeAccount | undefined> {
+    const result = await db.update(merchantTradeAccounts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(merchantTradeAccounts.id, id))
+      .returning();
+    return result[0];
+  }
+
   // Webhook event methods for idempotency
   async getWebhookEvent(eventId: string): Promise<WebhookEvent | undefined> {
     const result = await db.select().from(webhookEvents)
@@ -340,15 +654,845 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async createWebhookEvent(event: { eventId: string; eventType: string; payload: any }): Promise<WebhookEvent> {
+  async createWebhookEvent(event: { eventId: string; source: WebhookEventSource; eventType: string; objectGuid?: string | null; payload: any }): Promise<WebhookEvent> {
     const result = await db.insert(webhookEvents).values({
       eventId: event.eventId,
+      source: event.source,
       eventType: event.eventType,
+      objectGuid: event.objectGuid ?? null,
       payload: event.payload
     }).returning();
     return result[0];
   }
 
+  async getWebhookEventById(id: number): Promise<WebhookEvent | undefined> {
+    const result = await db.select().from(webhookEvents)
+      .where(eq(webhookEvents.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  // Newest first; search matches the event id, object guid or anywhere in the raw payload
+  async getWebhookEvents(source: WebhookEventSource, filters: WebhookEventFilters): Promise<WebhookEvent[]> {
+    const conditions: (SQL | undefined)[] = [eq(webhookEvents.source, source)];
+    if (filters.type) {
+      conditions.push(eq(webhookEvents.eventType, filters.type));
+    }
+    if (filters.merchantId) {
+      conditions.push(eq(webhookEvents.merchantId, filters.merchantId));
+    }
+    if (filters.outcome) {
+      conditions.push(eq(webhookEvents.outcome, filters.outcome));
+    }
+    if (filters.from) {
+      conditions.push(gte(webhookEvents.processedAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(webhookEvents.processedAt, filters.to));
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(webhookEvents.eventId, pattern),
+        ilike(webhookEvents.objectGuid, pattern),
+        sql`${webhookEvents.payload}::text ILIKE ${pattern}`
+      ));
+    }
+
+    return await db.select().from(webhookEvents)
+      .where(and(...conditions))
+      .orderBy(desc(webhookEvents.processedAt))
+      .limit(filters.limit);
+  }
+
+  async getWebhookEventTypes(source: WebhookEventSource): Promise<string[]> {
+    const result = await db.selectDistinct({ eventType: webhookEvents.eventType })
+      .from(webhookEvents)
+      .where(eq(webhookEvents.source, source))
+      .orderBy(webhookEvents.eventType);
+    return result.map(row => row.eventType);
+  }
+
+  // One-off: events stored before the source column took its Cybrid default; Transak event ids are "transak:<order>:<status>"
+  async backfillWebhookEventSources(): Promise<number> {
+    const result = await db.update(webhookEvents)
+      .set({ source: 'transak' })
+      .where(and(eq(webhookEvents.source, 'cybrid'), ilike(webhookEvents.eventId, 'transak:%')));
+    return result.rowCount ?? 0;
+  }
+
+  // Merchant is only overwritten when the handler resolved one, so a failed replay keeps the earlier match
+  async recordWebhookEventOutcome(id: number, outcome: WebhookEventOutcome, detail: string | null, merchantId?: string | null): Promise<WebhookEvent | undefined> {
+    const result = await db.update(webhookEvents)
+      .set({
+        outcome,
+        outcomeDetail: detail,
+        ...(merchantId ? { merchantId } : {}),
+        dispatchCount: sql`${webhookEvents.dispatchCount} + 1`,
+        lastDispatchedAt: new Date()
+      })
+      .where(eq(webhookEvents.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Transaction methods
+  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
+    const initialStatus = transaction.status || 'SESSION_CREATED';
+    const result = await db.insert(transactions).values({
+      ...transaction,
+      status: initialStatus,
+      statusHistory: [{ status: initialStatus, source: 'session', at: new Date().toISOString() }]
+    }).returning();
+    return result[0];
+  }
+
+  async getTransactionByPartnerOrderId(partnerOrderId: string): Promise<Transaction | undefined> {
+    const result = await db.select().from(transactions)
+      .where(eq(transactions.partnerOrderId, partnerOrderId));
+    return result[0];
+  }
+
+  async getMerchantTransactions(merchantId: string, mode: MerchantMode): Promise<Transaction[]> {
+    return await db.select().from(transactions)
+      .where(and(eq(transactions.merchantId, merchantId), eq(transactions.mode, mode)))
+      .orderBy(desc(transactions.createdAt));
+  }
+
+  async updateTransactionStatus(partnerOrderId: string, status: string, source: string, updates: Partial<InsertTransaction> = {}): Promise<Transaction | undefined> {
+    const existing = await this.getTransactionByPartnerOrderId(partnerOrderId);
+    if (!existing) {
+      return undefined;
+    }
+
+    // Final statuses are kept: a completed order can still be refunded, a refunded one stays refunded
+    const allowedAfter = TERMINAL_TRANSACTION_TRANSITIONS[existing.status];
+    if (allowedAfter && existing.status !== status && !allowedAfter.includes(status)) {
+      return existing;
+    }
+
+    // Only append to the history when the status actually changes
+    const history: TransactionStatusChange[] = existing.statusHistory || [];
+    const statusChanged = existing.status !== status;
+    const statusHistory = statusChanged
+      ? [...history, { status, source, at: new Date().toISOString() }]
+      : history;
+
+    const result = await db.update(transactions)
+      .set({
+        ...updates,
+        status,
+        statusHistory,
+        updatedAt: new Date(),
+        ...(status === 'COMPLETED' && !existing.completedAt && { completedAt: new Date() })
+      })
+      // Only if nobody changed the status since it was read; otherwise check again against what they wrote
+      .where(and(eq(transactions.partnerOrderId, partnerOrderId), eq(transactions.status, existing.status)))
+      .returning();
+    return result[0] ?? this.updateTransactionStatus(partnerOrderId, status, source, updates);
+  }
+
+  async getRecentMerchantTransactions(merchantId: string, mode: MerchantMode, limit: number): Promise<Transaction[]> {
+    return await db.select().from(transactions)
+      .where(and(eq(transactions.merchantId, merchantId), eq(transactions.mode, mode)))
+      .orderBy(desc(transactions.createdAt))
+      .limit(limit);
+  }
+
+  // Completed fiat volume, order count and completed count per day and fiat currency (days without orders are omitted)
+  async getMerchantDailyVolume(merchantId: string, mode: MerchantMode, since: Date): Promise<Array<{ date: string; currency: string | null; volume: number; transactions: number; completed: number }>> {
+    const day = sql<string>`to_char(date_trunc('day', ${transactions.createdAt}), 'YYYY-MM-DD')`;
+    const result = await db.select({
+      date: day,
+      currency: transactions.fiatCurrency,
+      volume: sql<string>`coalesce(sum(${transactions.fiatAmount}::numeric) filter (where ${transactions.status} = 'COMPLETED'), 0)`,
+      transactions: sql<number>`count(*)::int`,
+      completed: sql<number>`(count(*) filter (where ${transactions.status} = 'COMPLETED'))::int`
+    })
+      .from(transactions)
+      .where(and(
+        eq(transactions.merchantId, merchantId),
+        eq(transactions.mode, mode),
+        gte(transactions.createdAt, since)
+      ))
+      .groupBy(day, transactions.fiatCurrency)
+      .orderBy(day, transactions.fiatCurrency);
+
+    return result.map(row => ({
+      date: row.date,
+      currency: row.currency,
+      volume: Number(row.volume),
+      transactions: row.transactions,
+      completed: row.completed
+    }));
+  }
+
+  async getMerchantTransactionStatusCounts(merchantId: string, mode: MerchantMode): Promise<Record<string, number>> {
+    const result = await db.select({
+      status: transactions.status,
+      count: sql<number>`count(*)::int`
+    })
+      .from(transactions)
+      .where(and(eq(transactions.merchantId, merchantId), eq(transactions.mode, mode)))
+      .groupBy(transactions.status);
+
+    return Object.fromEntries(result.map(row => [row.status, row.count]));
+  }
+
+  // Balance snapshot methods
+  async createBalanceSnapshots(snapshots: InsertBalanceSnapshot[]): Promise<BalanceSnapshot[]> {
+    if (snapshots.length === 0) {
+      return [];
+    }
+    return await db.insert(balanceSnapshots).values(snapshots).returning();
+  }
+
+  async getMerchantBalanceSnapshots(merchantId: string, mode: MerchantMode, since: Date): Promise<BalanceSnapshot[]> {
+    return await db.select().from(balanceSnapshots)
+      .where(and(
+        eq(balanceSnapshots.merchantId, merchantId),
+        eq(balanceSnapshots.mode, mode),
+        gte(balanceSnapshots.capturedAt, since)
+      ))
+      .orderBy(balanceSnapshots.capturedAt);
+  }
+
+  // Trade methods
+  async createTrade(insertTrade: InsertTrade): Promise<Trade> {
+    const result = await db.insert(trades).values(insertTrade).returning();
+    return result[0];
+  }
+
+  async getTrade(id: string): Promise<Trade | undefined> {
+    const result = await db.select().from(trades).where(eq(trades.id, id));
+    return result[0];
+  }
+
+  async getTradeByCybridGuid(cybridTradeGuid: string): Promise<Trade | undefined> {
+    const result = await db.select().from(trades).where(eq(trades.cybridTradeGuid, cybridTradeGuid));
+    return result[0];
+  }
+
+  async getMerchantTrades(merchantId: string, mode: MerchantMode): Promise<Trade[]> {
+    return await db.select().from(trades)
+      .where(and(eq(trades.merchantId, merchantId), eq(trades.mode, mode)))
+      .orderBy(desc(trades.createdAt));
+  }
+
+  async updateTrade(id: string, updates: Partial<InsertTrade>): Promise<Trade | undefined> {
+    const result = await db.update(trades)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(trades.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Invoice methods
+  async createInvoice(invoice: Omit<InsertInvoice, 'invoiceNumber'>, items: Omit<InsertInvoiceItem, 'invoiceId'>[]): Promise<InvoiceWithItems> {
+    return await db.transaction(async (tx) => {
+      // Atomically reserve the merchant's next invoice number
+      const [{ sequence }] = await tx.update(merchants)
+        .set({ invoiceSequence: sql`${merchants.invoiceSequence} + 1` })
+        .where(eq(merchants.id, invoice.merchantId))
+        .returning({ sequence: merchants.invoiceSequence });
+
+      const [created] = await tx.insert(invoices)
+        .values({ ...invoice, invoiceNumber: `INV-${String(sequence).padStart(5, '0')}` })
+        .returning();
+      const createdItems = await tx.insert(invoiceItems)
+        .values(items.map(item => ({ ...item, invoiceId: created.id })))
+        .returning();
+
+      return { ...created, items: createdItems };
+    });
+  }
+
+  async getInvoice(id: string): Promise<InvoiceWithItems | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    if (!invoice) {
+      return undefined;
+    }
+    const items = await db.select().from(invoiceItems)
+      .where(eq(invoiceItems.invoiceId, id))
+      .orderBy(invoiceItems.position);
+    return { ...invoice, items };
+  }
+
+  async getInvoiceByPartnerOrderId(partnerOrderId: string): Promise<Invoice | undefined> {
+    const result = await db.select().from(invoices).where(eq(invoices.partnerOrderId, partnerOrderId));
+    return result[0];
+  }
+
+  async getMerchantInvoices(merchantId: string, mode: MerchantMode): Promise<Invoice[]> {
+    return await db.select().from(invoices)
+      .where(and(eq(invoices.merchantId, merchantId), eq(invoices.mode, mode)))
+      .orderBy(desc(invoices.createdAt));
+  }
+
+  async updateInvoice(id: string, updates: Partial<InsertInvoice>, items?: Omit<InsertInvoiceItem, 'invoiceId'>[]): Promise<InvoiceWithItems | undefined> {
+    await db.transaction(async (tx) => {
+      await tx.update(invoices)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(invoices.id, id));
+
+      // Line items are replaced wholesale when provided
+      if (items) {
+        await tx.delete(invoiceItems).where(eq(invoiceItems.invoiceId, id));
+        await tx.insert(invoiceItems).values(items.map(item => ({ ...item, invoiceId: id })));
+      }
+    });
+    return this.getInvoice(id);
+  }
+
+  async deleteInvoice(id: string): Promise<boolean> {
+    const result = await db.delete(invoices).where(eq(invoices.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Fee schedule methods
+  private feeScheduleInForce(at: Date) {
+    return and(
+      isNull(feeSchedules.cancelledAt),
+      lte(feeSchedules.effectiveFrom, at),
+      or(isNull(feeSchedules.effectiveTo), gt(feeSchedules.effectiveTo, at))
+    );
+  }
+
+  private feeScheduleScope(scope: FeeScope, merchantId?: string | null) {
+    return merchantId
+      ? and(eq(feeSchedules.scope, scope), eq(feeSchedules.merchantId, merchantId))
+      : eq(feeSchedules.scope, scope);
+  }
+
+  async getFeeSchedulesInForce(at: Date): Promise<FeeSchedule[]> {
+    return await db.select().from(feeSchedules)
+      .where(this.feeScheduleInForce(at))
+      .orderBy(feeSchedules.scope, sql`CAST(${feeSchedules.minMonthlyVolume} AS numeric)`);
+  }
+
+  async getMerchantFeeScheduleInForce(merchantId: string, at: Date): Promise<FeeSchedule | undefined> {
+    const result = await db.select().from(feeSchedules)
+      .where(and(this.feeScheduleScope('merchant', merchantId), this.feeScheduleInForce(at)))
+      .orderBy(desc(feeSchedules.effectiveFrom))
+      .limit(1);
+    return result[0];
+  }
+
+  async getFeeSchedules(scope: FeeScope, merchantId?: string): Promise<FeeSchedule[]> {
+    return await db.select().from(feeSchedules)
+      .where(this.feeScheduleScope(scope, merchantId))
+      .orderBy(desc(feeSchedules.effectiveFrom), sql`CAST(${feeSchedules.minMonthlyVolume} AS numeric)`);
+  }
+
+  // Supersede the schedules of a scope from effectiveFrom onwards, keeping earlier rows as history
+  async replaceFeeSchedules(scope: FeeScope, merchantId: string | null, schedules: InsertFeeSchedule[], effectiveFrom: Date): Promise<FeeSchedule[]> {
+    return await db.transaction(async (tx) => {
+      const scopeCondition = this.feeScheduleScope(scope, merchantId);
+
+      // End whatever would still be in force at effectiveFrom
+      await tx.update(feeSchedules)
+        .set({ effectiveTo: effectiveFrom })
+        .where(and(
+          scopeCondition,
+          isNull(feeSchedules.cancelledAt),
+          lte(feeSchedules.effectiveFrom, effectiveFrom),
+          or(isNull(feeSchedules.effectiveTo), gt(feeSchedules.effectiveTo, effectiveFrom))
+        ));
+
+      // The new rows run until the next change already scheduled for this scope, if any
+      const [{ nextStart }] = await tx.select({ nextStart: sql<Date | null>`MIN(${feeSchedules.effectiveFrom})` })
+        .from(feeSchedules)
+        .where(and(scopeCondition, isNull(feeSchedules.cancelledAt), gt(feeSchedules.effectiveFrom, effectiveFrom)));
+
+      if (schedules.length === 0) {
+        return [];
+      }
+
+      return await tx.insert(feeSchedules)
+        .values(schedules.map(schedule => ({
+          ...schedule,
+          scope,
+          merchantId,
+          effectiveFrom,
+          effectiveTo: nextStart ? new Date(nextStart) : null
+        })))
+        .returning();
+    });
+  }
+
+  async getFeeSchedule(id: string): Promise<FeeSchedule | undefined> {
+    const result = await db.select().from(feeSchedules).where(eq(feeSchedules.id, id));
+    return result[0];
+  }
+
+  async getUpcomingFeeSchedules(after: Date): Promise<FeeSchedule[]> {
+    return await db.select().from(feeSchedules)
+      .where(and(isNull(feeSchedules.cancelledAt), gt(feeSchedules.effectiveFrom, after)))
+      .orderBy(feeSchedules.effectiveFrom, sql`CAST(${feeSchedules.minMonthlyVolume} AS numeric)`);
+  }
+
+  // Schedules that have taken effect (and are still in force) but not yet been processed by the fee schedule job
+  async getDueFeeSchedules(at: Date): Promise<FeeSchedule[]> {
+    return await db.select().from(feeSchedules)
+      .where(and(isNull(feeSchedules.appliedAt), this.feeScheduleInForce(at)))
+      .orderBy(feeSchedules.effectiveFrom);
+  }
+
+  async markFeeSchedulesApplied(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await db.update(feeSchedules)
+      .set({ appliedAt: new Date() })
+      .where(inArray(feeSchedules.id, ids));
+  }
+
+  // Cancel a change that has not taken effect yet; the schedule it would have replaced runs on instead.
+  // Tier rows are scheduled as a set, so the whole set is cancelled together.
+  async cancelFeeSchedule(id: string, adminId: string): Promise<FeeSchedule[]> {
+    return await db.transaction(async (tx) => {
+      const [schedule] = await tx.select().from(feeSchedules).where(eq(feeSchedules.id, id));
+      if (!schedule || schedule.cancelledAt || schedule.effectiveFrom <= new Date()) {
+        return [];
+      }
+
+      const scopeCondition = this.feeScheduleScope(schedule.scope as FeeScope, schedule.merchantId);
+      const cancelled = await tx.update(feeSchedules)
+        .set({ cancelledAt: new Date(), cancelledBy: adminId })
+        .where(and(
+          scopeCondition,
+          isNull(feeSchedules.cancelledAt),
+          eq(feeSchedules.effectiveFrom, schedule.effectiveFrom)
+        ))
+        .returning();
+
+      await tx.update(feeSchedules)
+        .set({ effectiveTo: schedule.effectiveTo })
+        .where(and(
+          scopeCondition,
+          isNull(feeSchedules.cancelledAt),
+          eq(feeSchedules.effectiveTo, schedule.effectiveFrom)
+        ));
+
+      return cancelled;
+    });
+  }
+
+  // Completed fiat volume in one currency; amounts in other currencies aren't comparable and are left out
+  async getMerchantCompletedVolume(merchantId: string, mode: MerchantMode, currency: string, since: Date, until: Date): Promise<number> {
+    const [{ volume }] = await db.select({
+      volume: sql<string>`COALESCE(SUM(CAST(${transactions.fiatAmount} AS numeric)), 0)`
+    })
+      .from(transactions)
+      .where(and(
+        eq(transactions.merchantId, merchantId),
+        eq(transactions.mode, mode),
+        eq(transactions.status, 'COMPLETED'),
+        sql`upper(${transactions.fiatCurrency}) = ${currency.toUpperCase()}`,
+        gte(transactions.completedAt, since),
+        lt(transactions.completedAt, until)
+      ));
+    return Number(volume);
+  }
+
+  // Outbound webhook methods
+  async createWebhookEndpoint(endpoint: InsertMerchantWebhookEndpoint): Promise<MerchantWebhookEndpoint> {
+    const result = await db.insert(merchantWebhookEndpoints).values(endpoint).returning();
+    return result[0];
+  }
+
+  async getWebhookEndpoint(id: string): Promise<MerchantWebhookEndpoint | undefined> {
+    const result = await db.select().from(merchantWebhookEndpoints).where(eq(merchantWebhookEndpoints.id, id));
+    return result[0];
+  }
+
+  async getMerchantWebhookEndpoints(merchantId: string): Promise<MerchantWebhookEndpoint[]> {
+    return await db.select().from(merchantWebhookEndpoints)
+      .where(eq(merchantWebhookEndpoints.merchantId, merchantId))
+      .orderBy(merchantWebhookEndpoints.createdAt);
+  }
+
+  async getAllWebhookEndpoints(): Promise<MerchantWebhookEndpoint[]> {
+    return await db.select().from(merchantWebhookEndpoints).orderBy(merchantWebhookEndpoints.createdAt);
+  }
+
+  async updateWebhookEndpoint(id: string, updates: Partial<InsertMerchantWebhookEndpoint>): Promise<MerchantWebhookEndpoint | undefined> {
+    const result = await db.update(merchantWebhookEndpoints)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(merchantWebhookEndpoints.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteWebhookEndpoint(id: string): Promise<boolean> {
+    const result = await db.delete(merchantWebhookEndpoints).where(eq(merchantWebhookEndpoints.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) {
+      return [];
+    }
+    return await db.insert(webhookDeliveries).values(deliveries).returning();
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const result = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return result[0];
+  }
+
+  async getWebhookDeliveries(filter: { merchantId?: string; endpointId?: string; status?: string; limit?: number }): Promise<WebhookDelivery[]> {
+    const conditions = [
+      filter.merchantId ? eq(webhookDeliveries.merchantId, filter.merchantId) : undefined,
+      filter.endpointId ? eq(webhookDeliveries.endpointId, filter.endpointId) : undefined,
+      filter.status ? eq(webhookDeliveries.status, filter.status) : undefined
+    ].filter(Boolean);
+
+    return await db.select().from(webhookDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async getDueWebhookDeliveries(at: Date, limit: number): Promise<WebhookDelivery[]> {
+    return await db.select().from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, 'pending'), lte(webhookDeliveries.nextAttemptAt, at)))
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(limit);
+  }
+
+  // Atomically take a due delivery so concurrent workers never send it twice
+  async claimWebhookDelivery(id: string, leaseUntil: Date): Promise<WebhookDelivery | undefined> {
+    const result = await db.update(webhookDeliveries)
+      .set({ nextAttemptAt: leaseUntil })
+      .where(and(
+        eq(webhookDeliveries.id, id),
+        eq(webhookDeliveries.status, 'pending'),
+        lte(webhookDeliveries.nextAttemptAt, new Date())
+      ))
+      .returning();
+    return result[0];
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const result = await db.update(webhookDeliveries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Job queue methods
+  // Jobs with a dedupe key are only added when no pending/running job shares it; the existing job is returned instead
+  // With a dedupe key, an already pending or running job with that key is returned instead (jobs_active_dedupe_key)
+  async enqueueJob(job: InsertJob): Promise<Job> {
+    if (!job.dedupeKey) {
+      const [created] = await db.insert(jobs).values(job).returning();
+      return created;
+    }
+
+    const [created] = await db.insert(jobs).values(job)
+      .onConflictDoNothing({ target: jobs.dedupeKey, where: sql`status IN ('pending', 'running')` })
+      .returning();
+    if (created) {
+      return created;
+    }
+
+    // The active job may finish between the conflict and this read; enqueue again in that case
+    return await this.getActiveJobByDedupeKey(job.dedupeKey) ?? this.enqueueJob(job);
+  }
+
+  async getActiveJobByDedupeKey(dedupeKey: string): Promise<Job | undefined> {
+    const result = await db.select().from(jobs)
+      .where(and(eq(jobs.dedupeKey, dedupeKey), inArray(jobs.status, ['pending', 'running'])))
+      .limit(1);
+    return result[0];
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const result = await db.select().from(jobs).where(eq(jobs.id, id));
+    return result[0];
+  }
+
+  async getJobs(filter: { merchantId?: string; status?: string; type?: string; limit?: number }): Promise<Job[]> {
+    const conditions = [
+      filter.merchantId ? eq(jobs.merchantId, filter.merchantId) : undefined,
+      filter.status ? eq(jobs.status, filter.status) : undefined,
+      filter.type ? eq(jobs.type, filter.type) : undefined
+    ].filter(Boolean);
+
+    return await db.select().from(jobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  // Pending jobs whose run time has come, plus running jobs whose worker lease expired (e.g. after a crash)
+  async getDueJobs(at: Date, limit: number): Promise<Job[]> {
+    return await db.select().from(jobs)
+      .where(or(
+        and(eq(jobs.status, 'pending'), lte(jobs.runAt, at)),
+        and(eq(jobs.status, 'running'), lt(jobs.lockedUntil, at))
+      ))
+      .orderBy(jobs.runAt)
+      .limit(limit);
+  }
+
+  // Atomically take a due job and count the attempt so concurrent workers never run it twice
+  async claimJob(id: string, leaseUntil: Date): Promise<Job | undefined> {
+    const now = new Date();
+    const result = await db.update(jobs)
+      .set({
+        status: 'running',
+        lockedUntil: leaseUntil,
+        attempts: sql`${jobs.attempts} + 1`,
+        updatedAt: now
+      })
+      .where(and(
+        eq(jobs.id, id),
+        or(
+          and(eq(jobs.status, 'pending'), lte(jobs.runAt, now)),
+          and(eq(jobs.status, 'running'), lt(jobs.lockedUntil, now))
+        )
+      ))
+      .returning();
+    return result[0];
+  }
+
+  async updateJob(id: string, updates: Partial<InsertJob>): Promise<Job | undefined> {
+    const result = await db.update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Cybrid reconciliation run methods
+  async createReconciliationRun(run: InsertReconciliationRun): Promise<ReconciliationRun> {
+    const result = await db.insert(reconciliationRuns).values(run).returning();
+    return result[0];
+  }
+
+  async updateReconciliationRun(id: string, updates: Partial<InsertReconciliationRun>): Promise<ReconciliationRun | undefined> {
+    const result = await db.update(reconciliationRuns)
+      .set(updates)
+      .where(eq(reconciliationRuns.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getReconciliationRun(id: string): Promise<ReconciliationRun | undefined> {
+    const result = await db.select().from(reconciliationRuns).where(eq(reconciliationRuns.id, id));
+    return result[0];
+  }
+
+  async getReconciliationRuns(limit: number): Promise<ReconciliationRun[]> {
+    return await db.select().from(reconciliationRuns)
+      .orderBy(desc(reconciliationRuns.startedAt))
+      .limit(limit);
+  }
+
+  async getLatestReconciliationRun(status?: string): Promise<ReconciliationRun | undefined> {
+    const result = await db.select().from(reconciliationRuns)
+      .where(status ? eq(reconciliationRuns.status, status) : undefined)
+      .orderBy(desc(reconciliationRuns.startedAt))
+      .limit(1);
+    return result[0];
+  }
+
+  // Audit log methods
+  async createAuditLogEntry(entry: InsertAuditLog): Promise<AuditLogEntry> {
+    const result = await db.insert(auditLog).values(entry).returning();
+    return result[0];
+  }
+
+  // Newest first; search matches the actor name, target id or anywhere in the recorded changes
+  async getAuditLogEntries(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+    const conditions = [];
+    if (filters.actorType) {
+      conditions.push(eq(auditLog.actorType, filters.actorType));
+    }
+    if (filters.actorId) {
+      conditions.push(eq(auditLog.actorId, filters.actorId));
+    }
+    if (filters.action) {
+      conditions.push(eq(auditLog.action, filters.action));
+    }
+    if (filters.targetType) {
+      conditions.push(eq(auditLog.targetType, filters.targetType));
+    }
+    if (filters.targetId) {
+      conditions.push(eq(auditLog.targetId, filters.targetId));
+    }
+    if (filters.from) {
+      conditions.push(gte(auditLog.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(auditLog.createdAt, filters.to));
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(auditLog.actorName, pattern),
+        ilike(auditLog.targetId, pattern),
+        sql`${auditLog.changes}::text ILIKE ${pattern}`
+      ));
+    }
+
+    return await db.select().from(auditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.createdAt))
+      .limit(filters.limit);
+  }
+
+  async getAuditLogActions(): Promise<string[]> {
+    const result = await db.selectDistinct({ action: auditLog.action })
+      .from(auditLog)
+      .orderBy(auditLog.action);
+    return result.map(row => row.action);
+  }
+
+  // Platform setting methods
+  async getPlatformSetting(key: PlatformSettingKey): Promise<PlatformSetting | undefined> {
+    const result = await db.select().from(platformSettings).where(eq(platformSettings.key, key));
+    return result[0];
+  }
+
+  async setPlatformSetting(key: PlatformSettingKey, value: unknown, updatedBy: string | null): Promise<PlatformSetting> {
+    const result = await db.insert(platformSettings)
+      .values({ key, value, updatedBy })
+      .onConflictDoUpdate({
+        target: platformSettings.key,
+        set: { value, updatedBy, updatedAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+
+  // Notification methods
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const result = await db.insert(notifications).values(notification).returning();
+    return result[0];
+  }
+
+  async updateNotification(id: string, updates: Partial<InsertNotification>): Promise<Notification | undefined> {
+    const result = await db.update(notifications)
+      .set(updates)
+      .where(eq(notifications.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getNotifications(filters: NotificationFilters): Promise<Notification[]> {
+    const conditions = [];
+    if (filters.template) {
+      conditions.push(eq(notifications.template, filters.template));
+    }
+    if (filters.status) {
+      conditions.push(eq(notifications.status, filters.status));
+    }
+    if (filters.recipientId) {
+      conditions.push(eq(notifications.recipientId, filters.recipientId));
+    }
+    if (filters.search) {
+      conditions.push(ilike(notifications.recipient, `%${filters.search}%`));
+    }
+
+    return await db.select().from(notifications)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(notifications.createdAt))
+      .limit(filters.limit);
+  }
+
+  // Stored secret methods
+  async getStoredSecret(name: string): Promise<StoredSecret | undefined> {
+    const result = await db.select().from(storedSecrets).where(eq(storedSecrets.name, name));
+    return result[0];
+  }
+
+  async upsertStoredSecret(name: string, encryptedValue: string): Promise<StoredSecret> {
+    const result = await db.insert(storedSecrets)
+      .values({ name, encryptedValue })
+      .onConflictDoUpdate({
+        target: storedSecrets.name,
+        set: { encryptedValue, updatedAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deleteStoredSecret(name: string): Promise<boolean> {
+    const result = await db.delete(storedSecrets).where(eq(storedSecrets.name, name));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Credential key rotation methods
+  async createKeyRotationRun(run: InsertKeyRotationRun): Promise<KeyRotationRun> {
+    const result = await db.insert(keyRotationRuns).values(run).returning();
+    return result[0];
+  }
+
+  async updateKeyRotationRun(id: string, updates: Partial<InsertKeyRotationRun>): Promise<KeyRotationRun | undefined> {
+    const result = await db.update(keyRotationRuns)
+      .set(updates)
+      .where(eq(keyRotationRuns.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getKeyRotationRun(id: string): Promise<KeyRotationRun | undefined> {
+    const result = await db.select().from(keyRotationRuns).where(eq(keyRotationRuns.id, id));
+    return result[0];
+  }
+
+  async getKeyRotationRuns(limit: number): Promise<KeyRotationRun[]> {
+    return await db.select().from(keyRotationRuns)
+      .orderBy(desc(keyRotationRuns.startedAt))
+      .limit(limit);
+  }
+
+  async getEncryptedValues(field: EncryptedField): Promise<{ id: string; value: string | null }[]> {
+    switch (field) {
+      case 'merchant_credentials.encrypted_api_key':
+        return await db.select({ id: merchantCredentials.id, value: merchantCredentials.encryptedApiKey }).from(merchantCredentials);
+      case 'merchant_credentials.encrypted_api_secret':
+        return await db.select({ id: merchantCredentials.id, value: merchantCredentials.encryptedApiSecret }).from(merchantCredentials);
+      case 'stored_secrets.encrypted_value':
+        return await db.select({ id: storedSecrets.name, value: storedSecrets.encryptedValue }).from(storedSecrets);
+      case 'merchant_webhook_endpoints.encrypted_secret':
+        return await db.select({ id: merchantWebhookEndpoints.id, value: merchantWebhookEndpoints.encryptedSecret }).from(merchantWebhookEndpoints);
+      case 'admins.totp_secret':
+        return await db.select({ id: admins.id, value: admins.totpSecret }).from(admins);
+    }
+  }
+
+  async replaceEncryptedValue(field: EncryptedField, id: string, expected: string, value: string): Promise<boolean> {
+    let result;
+    switch (field) {
+      case 'merchant_credentials.encrypted_api_key':
+        result = await db.update(merchantCredentials).set({ encryptedApiKey: value })
+          .where(and(eq(merchantCredentials.id, id), eq(merchantCredentials.encryptedApiKey, expected)));
+        break;
+      case 'merchant_credentials.encrypted_api_secret':
+        result = await db.update(merchantCredentials).set({ encryptedApiSecret: value })
+          .where(and(eq(merchantCredentials.id, id), eq(merchantCredentials.encryptedApiSecret, expected)));
+        break;
+      case 'stored_secrets.encrypted_value':
+        result = await db.update(storedSecrets).set({ encryptedValue: value })
+          .where(and(eq(storedSecrets.name, id), eq(storedSecrets.encryptedValue, expected)));
+        break;
+      case 'merchant_webhook_endpoints.encrypted_secret':
+        result = await db.update(merchantWebhookEndpoints).set({ encryptedSecret: value })
+          .where(and(eq(merchantWebhookEndpoints.id, id), eq(merchantWebhookEndpoints.encryptedSecret, expected)));
+        break;
+      case 'admins.totp_secret':
+        result = await db.update(admins).set({ totpSecret: value })
+          .where(and(eq(admins.id, id), eq(admins.totpSecret, expected)));
+        break;
+    }
+    return (result.rowCount || 0) > 0;
+  }
+
   // Signup token methods
   async createSignupToken(insertToken: InsertSignupToken): Promise<SignupToken> {
     const result = await db.insert(signupTokens).values(insertToken).returning();
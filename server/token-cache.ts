@@ -4,6 +4,7 @@
 export interface CachedToken {
   token: string;
   expiresAt: number; // Unix timestamp
+  fetchedAt: number; // Unix timestamp
   isRefreshing?: boolean;
 }
 
@@ -86,6 +87,7 @@ export class TokenCache {
       this.cache.set(key, {
         token: tokenData.accessToken,
         expiresAt,
+        fetchedAt: now,
         isRefreshing: false
       });
       
@@ -108,6 +110,21 @@ export class TokenCache {
     console.log(`Token invalidated for key: ${merchantId}|***|${environment}`);
   }
 
+  /**
+   * Invalidate token only if it was fetched at least minAgeSeconds ago, so callers
+   * reacting to untrusted input can't force a token fetch on every request.
+   * Returns whether the token was invalidated.
+   */
+  invalidateIfOlderThan(merchantId: string, provider: string, environment: string, minAgeSeconds: number): boolean {
+    const key = this.getCacheKey(merchantId, provider, environment);
+    const cached = this.cache.get(key);
+    if (cached && Math.floor(Date.now() / 1000) - cached.fetchedAt < minAgeSeconds) {
+      return false;
+    }
+    this.invalidate(merchantId, provider, environment);
+    return true;
+  }
+
   /**
    * Clean up expired tokens
    */
@@ -0,0 +1,199 @@
+import { storage } from './storage';
+import { tokenCache } from './token-cache';
+import { TransakService, type TransakCredentials } from './transak-service';
+import { SecretStoreService, type MerchantCredentialsSecret } from './secret-store';
+import { merchantModeEnvironments, modeForEnvironment, type CredentialVerificationStatus, type MerchantCredentials, type MerchantMode, type TransakCredentialPolicy, type TransakCredentialSource } from '@shared/schema';
+
+export interface ResolvedTransakService {
+  transak: TransakService;
+  source: TransakCredentialSource;
+  policy: TransakCredentialPolicy;
+  mode: MerchantMode;
+}
+
+// unreachable: Transak couldn't be asked (network error or 5xx), which says nothing about the keys
+export interface CredentialVerification {
+  status: Exclude<CredentialVerificationStatus, 'unverified'> | 'unreachable';
+  error: string | null;
+}
+
+// Picks the Transak keys for a merchant according to their credential policy and mode (sandbox = staging keys, live = production keys).
+// Platform-keyed services share one access token (cache owner "platform"); merchant-keyed ones cache per merchant.
+export class TransakCredentialService {
+  private static readonly PLATFORM_OWNER = 'platform';
+
+  // Platform keys only exist for TRANSAK_ENVIRONMENT, so they can serve a single mode
+  static platformMode(): MerchantMode {
+    return modeForEnvironment(process.env.TRANSAK_ENVIRONMENT || 'staging');
+  }
+
+  static platformCredentials(mode?: MerchantMode): TransakCredentials {
+    const apiKey = process.env.TRANSAK_API_KEY;
+    const apiSecret = process.env.TRANSAK_API_SECRET;
+    const environment = (process.env.TRANSAK_ENVIRONMENT || 'staging') as 'staging' | 'production';
+
+    if (!apiKey) {
+      throw new Error('Platform Transak credentials not configured: TRANSAK_API_KEY environment variable is required');
+    }
+
+    if (!apiSecret) {
+      throw new Error('Platform Transak credentials not configured: TRANSAK_API_SECRET environment variable is required');
+    }
+
+    if (mode && modeForEnvironment(environment) !== mode) {
+      throw new Error(`Platform Transak credentials are for ${environment} and cannot be used in ${mode} mode`);
+    }
+
+    return { apiKey, apiSecret, environment };
+  }
+
+  // The merchant's saved keys for a mode, or null when none are saved, they were deactivated or Transak rejected them
+  static async merchantCredentials(merchantId: string, mode: MerchantMode): Promise<TransakCredentials | null> {
+    const environment = merchantModeEnvironments[mode];
+    const record = await storage.getMerchantCredentials(merchantId, 'transak', environment);
+    if (!record || record.isActive === false || record.verificationStatus === 'invalid' || record.verificationStatus === 'expired') {
+      return null;
+    }
+    return this.storedCredentials(merchantId, environment);
+  }
+
+  // The keys in the secret store for an environment, whatever their status
+  static async storedCredentials(merchantId: string, environment: string): Promise<TransakCredentials | null> {
+    let secret = await SecretStoreService.getJson<MerchantCredentialsSecret>(SecretStoreService.merchantCredentialsKey(merchantId, environment));
+    if (!secret && environment !== 'production') {
+      // Saved before environments were split, under the name production now uses
+      secret = await SecretStoreService.getJson<MerchantCredentialsSecret>(SecretStoreService.merchantCredentialsKey(merchantId, 'production'));
+    }
+    // Never hand out keys for the other environment
+    return secret?.transak?.environment === environment ? secret.transak : null;
+  }
+
+  // Store keys under their environment's secret; returns the secret name
+  static async saveStoredCredentials(merchantId: string, credentials: TransakCredentials): Promise<string> {
+    const secretName = SecretStoreService.merchantCredentialsKey(merchantId, credentials.environment);
+    const existing = await SecretStoreService.getJson<MerchantCredentialsSecret>(secretName);
+    const displaced = existing?.transak;
+    if (displaced && displaced.environment !== credentials.environment) {
+      // Move keys saved before environments were split to their own secret instead of overwriting them
+      const displacedName = SecretStoreService.merchantCredentialsKey(merchantId, displaced.environment);
+      if (!(await SecretStoreService.store().exists(displacedName))) {
+        await SecretStoreService.putJson(displacedName, existing);
+      }
+    }
+
+    const secret: MerchantCredentialsSecret = { transak: credentials };
+    await SecretStoreService.putJson(secretName, secret);
+    this.invalidateMerchantTokens(merchantId);
+    return secretName;
+  }
+
+  // Save keys Transak has just accepted: secret store for the keys, a metadata row marked verified for the rest.
+  // Returns the row as it was before (if any) and after, plus the secret name.
+  static async saveVerifiedCredentials(merchantId: string, credentials: TransakCredentials): Promise<{ previous?: MerchantCredentials; saved: MerchantCredentials; secretName: string }> {
+    const { environment } = credentials;
+    const secretName = await this.saveStoredCredentials(merchantId, credentials);
+
+    const now = new Date();
+    const metadata = {
+      encryptedApiKey: SecretStoreService.CREDENTIALS_PLACEHOLDER,
+      encryptedApiSecret: SecretStoreService.CREDENTIALS_PLACEHOLDER,
+      environment,
+      isActive: true,
+      verificationStatus: 'valid',
+      lastVerifiedAt: now,
+      lastCheckedAt: now,
+      verificationError: null
+    };
+
+    const previous = await storage.getMerchantCredentials(merchantId, 'transak', environment);
+    const saved = previous
+      ? await storage.updateMerchantCredentials(merchantId, 'transak', environment, metadata)
+      : await storage.createMerchantCredentials({ merchantId, provider: 'transak', ...metadata });
+    return { previous, saved: saved!, secretName };
+  }
+
+  static async deleteStoredCredentials(merchantId: string, environment: string): Promise<void> {
+    const secretStore = SecretStoreService.store();
+    await secretStore.delete(SecretStoreService.merchantCredentialsKey(merchantId, environment));
+    if (environment !== 'production') {
+      const legacyName = SecretStoreService.merchantCredentialsKey(merchantId, 'production');
+      const legacy = await SecretStoreService.getJson<MerchantCredentialsSecret>(legacyName);
+      if (legacy?.transak?.environment === environment) {
+        await secretStore.delete(legacyName);
+      }
+    }
+    this.invalidateMerchantTokens(merchantId);
+  }
+
+  // Ask Transak for an access token with these keys, against their own environment
+  static async verify(credentials: TransakCredentials): Promise<CredentialVerification> {
+    try {
+      await new TransakService(credentials).generateAccessToken();
+      return { status: 'valid', error: null };
+    } catch (error) {
+      const message = (error instanceof Error ? error.message : 'Unknown error').slice(0, 500);
+      // generateAccessToken reports the HTTP status as "... failed <status>: <body>"
+      const httpStatus = Number(message.match(/failed (\d{3})/)?.[1]);
+      if (httpStatus >= 400 && httpStatus < 500) {
+        return { status: /expired|revoked|disabled/i.test(message) ? 'expired' : 'invalid', error: message };
+      }
+      return { status: 'unreachable', error: message };
+    }
+  }
+
+  static forPlatform(): TransakService {
+    return new TransakService(this.platformCredentials(), this.PLATFORM_OWNER);
+  }
+
+  // Transak service for a specific key source and mode, e.g. the ones recorded on a transaction
+  static async forSource(merchantId: string, source: TransakCredentialSource, mode: MerchantMode): Promise<TransakService> {
+    if (source === 'platform') {
+      return this.forPlatform();
+    }
+
+    // Stored keys regardless of verification status: orders already created with them still need their webhooks verified
+    const credentials = await this.storedCredentials(merchantId, merchantModeEnvironments[mode]);
+    if (!credentials) {
+      throw new Error('Merchant Transak credentials not configured. Please add your credentials in Manage Integrations.');
+    }
+    return new TransakService(credentials, merchantId);
+  }
+
+  // Defaults to the merchant's current mode; pass the mode of an existing record (e.g. an invoice) to stay in it
+  static async resolve(merchantId: string, mode?: MerchantMode): Promise<ResolvedTransakService> {
+    const merchant = await storage.getMerchant(merchantId);
+    if (!merchant) {
+      throw new Error(`Merchant ${merchantId} not found`);
+    }
+
+    const policy = merchant.transakCredentialPolicy as TransakCredentialPolicy;
+    const resolvedMode = mode ?? merchant.mode as MerchantMode;
+    let source: TransakCredentialSource;
+    let transak: TransakService;
+
+    if (policy === 'platform') {
+      source = 'platform';
+      transak = new TransakService(this.platformCredentials(resolvedMode), this.PLATFORM_OWNER);
+    } else {
+      const credentials = await this.merchantCredentials(merchantId, resolvedMode);
+      if (credentials) {
+        source = 'merchant';
+        transak = new TransakService(credentials, merchantId);
+      } else if (policy === 'merchant_with_fallback' && this.platformMode() === resolvedMode) {
+        source = 'platform';
+        transak = this.forPlatform();
+      } else {
+        throw new Error(`Merchant Transak credentials for ${resolvedMode} mode not configured or rejected by Transak. Please update your credentials in Manage Integrations.`);
+      }
+    }
+
+    console.log(`💳 Transak credentials for merchant ${merchantId}: ${source} (policy ${policy}, ${resolvedMode} mode)`);
+    return { transak, source, policy, mode: resolvedMode };
+  }
+
+  // Drop cached access tokens minted with keys the merchant has just replaced or removed
+  static invalidateMerchantTokens(merchantId: string): void {
+    tokenCache.invalidate(merchantId, 'transak', 'staging');
+    tokenCache.invalidate(merchantId, 'transak', 'production');
+  }
+}
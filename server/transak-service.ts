@@ -1,4 +1,4 @@
-import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { createCipheriv, createDecipheriv, createHmac, randomBytes, timingSafeEqual } from 'crypto';
 import { tokenCache, type TokenFetcher } from './token-cache';
 
 // Transak API integration service
@@ -21,11 +21,32 @@ export interface CreateSessionParams {
   };
   walletAddress: string;
   customerEmail: string;
+  partnerOrderId?: string;
+  partnerFee?: number; // Platform fee percentage added on top of Transak's own fees
   referrerDomain?: string;
   redirectURL?: string;
   themeColor?: string;
 }
 
+// Decoded Transak order webhook (the `data` field is a JWT signed with the partner access token)
+export interface TransakOrderWebhook {
+  eventID: string; // ORDER_CREATED, ORDER_PROCESSING, ORDER_COMPLETED, ORDER_FAILED, ...
+  webhookData: {
+    id: string;
+    partnerOrderId?: string;
+    status: string;
+    isBuyOrSell?: 'BUY' | 'SELL';
+    fiatAmount?: number;
+    fiatCurrency?: string;
+    cryptoAmount?: number;
+    cryptoCurrency?: string;
+    network?: string;
+    walletAddress?: string;
+    paymentOptionId?: string;
+    [key: string]: any;
+  };
+}
+
 // Transak API base URLs
 const TRANSAK_API_URLS = {
   staging: 'https://api-stg.transak.com/api/v2',
@@ -38,19 +59,66 @@ const TRANSAK_GATEWAY_URLS = {
   production: 'https://api-gateway.transak.com/api/v2/auth/session'
 };
 
-// Encryption utilities for storing credentials securely
+// Encryption utilities for storing credentials securely.
+// Keys: CREDENTIAL_ENCRYPTION_KEYS="<id>:<64 hex>,..." (the first key encrypts, every key decrypts),
+// plus the original single CREDENTIAL_ENCRYPTION_KEY, which decrypts as key id "v1" and encrypts when no list is set.
+// Envelope: keyId:iv:tag:ciphertext. Values written before key ids (iv:tag:ciphertext) are tried against every key.
 export class CredentialEncryption {
-  private static getEncryptionKey(): string {
-    const key = process.env.CREDENTIAL_ENCRYPTION_KEY;
-    if (!key || key.length !== 64) {
-      throw new Error('CREDENTIAL_ENCRYPTION_KEY must be a 64-character hex string');
+  static readonly LEGACY_KEY_ID = 'v1';
+
+  private static getKeys(): Map<string, Buffer> {
+    const keys = new Map<string, Buffer>();
+    const list = process.env.CREDENTIAL_ENCRYPTION_KEYS;
+    if (list) {
+      for (const entry of list.split(',').map(item => item.trim()).filter(Boolean)) {
+        const [id, hex, ...rest] = entry.split(':');
+        if (!id || !/^[A-Za-z0-9_-]+$/.test(id) || !hex || hex.length !== 64 || rest.length > 0) {
+          throw new Error('CREDENTIAL_ENCRYPTION_KEYS entries must look like <key id>:<64-character hex string>');
+        }
+        if (keys.has(id)) {
+          throw new Error(`Duplicate key id "${id}" in CREDENTIAL_ENCRYPTION_KEYS`);
+        }
+        keys.set(id, Buffer.from(hex, 'hex'));
+      }
+    }
+
+    const legacyKey = process.env.CREDENTIAL_ENCRYPTION_KEY;
+    if (legacyKey && !keys.has(this.LEGACY_KEY_ID)) {
+      if (legacyKey.length !== 64) {
+        throw new Error('CREDENTIAL_ENCRYPTION_KEY must be a 64-character hex string');
+      }
+      keys.set(this.LEGACY_KEY_ID, Buffer.from(legacyKey, 'hex'));
+    }
+
+    if (keys.size === 0) {
+      throw new Error('CREDENTIAL_ENCRYPTION_KEYS or CREDENTIAL_ENCRYPTION_KEY must be set');
     }
-    return key;
+    return keys;
+  }
+
+  // Id of the key new values are encrypted with
+  static currentKeyId(): string {
+    return Array.from(this.getKeys().keys())[0];
+  }
+
+  static keyIds(): string[] {
+    return Array.from(this.getKeys().keys());
+  }
+
+  // Key id of an envelope, or null for the original format without one
+  static keyIdOf(encryptedText: string): string | null {
+    const parts = encryptedText.split(':');
+    return parts.length === 4 ? parts[0] : null;
+  }
+
+  static isCurrent(encryptedText: string): boolean {
+    return this.keyIdOf(encryptedText) === this.currentKeyId();
   }
 
   static encrypt(text: string): string {
     const algorithm = 'aes-256-gcm';
-    const key = Buffer.from(this.getEncryptionKey(), 'hex');
+    const keyId = this.currentKeyId();
+    const key = this.getKeys().get(keyId)!;
     const iv = randomBytes(16);
     
     const cipher = createCipheriv(algorithm, key, iv);
@@ -59,24 +127,44 @@ export class CredentialEncryption {
     
     const authTag = cipher.getAuthTag();
     
-    return iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
+    return keyId + ':' + iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
   }
 
   static decrypt(encryptedText: string): string {
-    const algorithm = 'aes-256-gcm';
-    const key = Buffer.from(this.getEncryptionKey(), 'hex');
-    
+    const keys = this.getKeys();
     const parts = encryptedText.split(':');
+
+    if (parts.length === 4) {
+      const key = keys.get(parts[0]);
+      if (!key) {
+        throw new Error(`Credential encryption key "${parts[0]}" is not configured`);
+      }
+      return this.decryptWith(key, parts.slice(1));
+    }
+
     if (parts.length !== 3) {
       throw new Error('Invalid encrypted text format');
     }
-    
-    const iv = Buffer.from(parts[0], 'hex');
-    const authTag = Buffer.from(parts[1], 'hex');
-    const encrypted = parts[2];
-    
-    const decipher = createDecipheriv(algorithm, key, iv);
-    decipher.setAuthTag(authTag);
+
+    // No key id: the GCM tag only verifies under the key that wrote it
+    for (const key of Array.from(keys.values())) {
+      try {
+        return this.decryptWith(key, parts);
+      } catch {
+        // Try the next key
+      }
+    }
+    throw new Error('No configured credential encryption key can decrypt this value');
+  }
+
+  // Decrypt and encrypt again under the current key
+  static reencrypt(encryptedText: string): string {
+    return this.encrypt(this.decrypt(encryptedText));
+  }
+
+  private static decryptWith(key: Buffer, [ivHex, authTagHex, encrypted]: string[]): string {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(ivHex, 'hex'));
+    decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
     
     let decrypted = decipher.update(encrypted, 'hex', 'utf8');
     decrypted += decipher.final('utf8');
@@ -142,6 +230,7 @@ export class PublicTransakService {
     fiatCurrency: string;
     network: string;
     paymentMethod: string;
+    partnerFee?: number;
   }) {
     const apiKey = process.env.TRANSAK_API_KEY;
     const environment = process.env.TRANSAK_ENVIRONMENT || 'staging';
@@ -161,7 +250,8 @@ export class PublicTransakService {
       isBuyOrSell: 'BUY',
       network: params.network,
       paymentMethod: params.paymentMethod,
-      cryptoAmount: params.cryptoAmount
+      cryptoAmount: params.cryptoAmount,
+      ...(params.partnerFee !== undefined && { partnerFee: params.partnerFee.toString() })
     })}`;
     
     const response = await fetch(url, {
@@ -185,6 +275,7 @@ export class PublicTransakService {
     fiatCurrency: string;
     network: string;
     paymentMethod: string;
+    partnerFee?: number;
   }) {
     const apiKey = process.env.TRANSAK_API_KEY;
     const environment = process.env.TRANSAK_ENVIRONMENT || 'staging';
@@ -221,7 +312,8 @@ export class PublicTransakService {
       isBuyOrSell: 'SELL',
       network: params.network,
       paymentMethod: transakPaymentMethod,
-      cryptoAmount: params.cryptoAmount
+      cryptoAmount: params.cryptoAmount,
+      ...(params.partnerFee !== undefined && { partnerFee: params.partnerFee.toString() })
     })}`;
     
     const response = await fetch(url, {
@@ -389,6 +481,11 @@ export class TransakService {
     tokenCache.invalidate(this.merchantId, 'transak', this.environment);
   }
 
+  // Invalidate cached token unless it was fetched within minAgeSeconds; returns whether it was invalidated
+  invalidateStaleCachedToken(minAgeSeconds: number): boolean {
+    return tokenCache.invalidateIfOlderThan(this.merchantId, 'transak', this.environment, minAgeSeconds);
+  }
+
   // POST /api/v2/auth/session - Create widget session for payment processing
   async createSession(params: CreateSessionParams): Promise<{ widgetUrl: string }> {
     // Get cached access token (or refresh if needed)
@@ -420,7 +517,9 @@ export class TransakService {
       isAutoFillUserData: true,
       themeColor: params.themeColor || "1f4a8c",
       redirectURL: params.redirectURL || "https://cryptopay.replit.app/transaction-complete",
-      paymentMethod: params.quoteData.paymentMethod
+      paymentMethod: params.quoteData.paymentMethod,
+      ...(params.partnerOrderId && { partnerOrderId: params.partnerOrderId }),
+      ...(params.partnerFee !== undefined && { partnerFee: params.partnerFee })
     };
 
     // Use environment-based gateway URL instead of hard-coded staging
@@ -506,7 +605,7 @@ export class TransakService {
     const transakPaymentMethod = mapPaymentMethod(params.quoteData.paymentMethod);
     console.log(`[TransakService] Mapping payout method: ${params.quoteData.paymentMethod} → ${transakPaymentMethod}`);
     
-    // Construct widget parameters exactly matching your provided structure - NO additional params
+    // Construct widget parameters exactly matching your provided structure (plus our platform partner fee)
     const widgetParams = {
       apiKey: this.apiKey,
       referrerDomain: "google.com",
@@ -524,7 +623,9 @@ export class TransakService {
       isAutoFillUserData: true,
       themeColor: "1f4a8c",
       redirectURL: "https://ruupay.com/transaction-complete",
-      paymentMethod: transakPaymentMethod
+      paymentMethod: transakPaymentMethod,
+      ...(params.partnerOrderId && { partnerOrderId: params.partnerOrderId }),
+      ...(params.partnerFee !== undefined && { partnerFee: params.partnerFee })
     };
 
     console.log('[TransakService] Creating session with widgetParams:', JSON.stringify(widgetParams, null, 2));
@@ -590,6 +691,45 @@ export class TransakService {
     return this.parseSessionResponse(rawResponse);
   }
 
+  // Read a webhook JWT payload without checking the signature - only to decide whose access token verifies it
+  static decodeWebhookToken(token: string): TransakOrderWebhook | null {
+    const encodedPayload = token.split('.')[1];
+    if (!encodedPayload) {
+      return null;
+    }
+    try {
+      return JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  // Verify and decode a Transak webhook JWT (HS256, signed with the partner access token)
+  static verifyWebhookToken(token: string, accessToken: string): TransakOrderWebhook {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new Error('Invalid Transak webhook token format');
+    }
+
+    const [encodedHeader, encodedPayload, signature] = parts;
+    const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+    if (header.alg !== 'HS256') {
+      throw new Error(`Unsupported Transak webhook token algorithm: ${header.alg}`);
+    }
+
+    const expectedSignature = createHmac('sha256', accessToken)
+      .update(`${encodedHeader}.${encodedPayload}`)
+      .digest('base64url');
+
+    const signatureBuf = Buffer.from(signature);
+    const expectedBuf = Buffer.from(expectedSignature);
+    if (signatureBuf.length !== expectedBuf.length || !timingSafeEqual(signatureBuf, expectedBuf)) {
+      throw new Error('Invalid Transak webhook signature');
+    }
+
+    return JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  }
+
   // Helper method to parse session response and extract widget URL
   private parseSessionResponse(rawResponse: any): { widgetUrl: string } {
     // Normalize response format - extract widgetUrl from various possible response structures
@@ -0,0 +1,167 @@
+import { createHmac, createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { storage } from './storage';
+import { CredentialEncryption } from './transak-service';
+import type { Admin } from '@shared/schema';
+
+// RFC 6238 TOTP (SHA-1, 6 digits, 30-second steps) for admin accounts, plus single-use recovery codes
+export class TwoFactorService {
+  private static readonly ISSUER = process.env.TOTP_ISSUER || 'Ruupay';
+  private static readonly STEP_SECONDS = 30;
+  private static readonly DRIFT_STEPS = 1; // Accept the previous and next code to allow for clock skew
+  private static readonly RECOVERY_CODE_COUNT = 10;
+  private static readonly BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+  // Cached so the admin middleware doesn't read the setting on every request; updated by setRequiredForAll
+  private static requiredForAll: boolean | null = null;
+
+  // New secret for enrollment; the caller stores the encrypted form until the first code is confirmed
+  static generateSecret(): { secret: string; encryptedSecret: string } {
+    const secret = this.base32Encode(randomBytes(20));
+    return { secret, encryptedSecret: CredentialEncryption.encrypt(secret) };
+  }
+
+  // otpauth:// URI that authenticator apps import (directly on mobile, or rendered as a QR code)
+  static provisioningUri(admin: Pick<Admin, 'username'>, secret: string): string {
+    const label = encodeURIComponent(`${this.ISSUER}:${admin.username}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.ISSUER,
+      algorithm: 'SHA1',
+      digits: '6',
+      period: String(this.STEP_SECONDS)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  // Time step of the matching code, or null; steps at or before lastUsedStep are rejected as replays
+  static verifyCode(encryptedSecret: string, code: string, lastUsedStep?: number | null): number | null {
+    const secret = this.base32Decode(CredentialEncryption.decrypt(encryptedSecret));
+    const currentStep = Math.floor(Date.now() / 1000 / this.STEP_SECONDS);
+
+    for (let offset = -this.DRIFT_STEPS; offset <= this.DRIFT_STEPS; offset++) {
+      const step = currentStep + offset;
+      if (lastUsedStep != null && step <= lastUsedStep) continue;
+
+      const expected = Buffer.from(this.codeAt(secret, step));
+      const given = Buffer.from(code);
+      if (expected.length === given.length && timingSafeEqual(expected, given)) {
+        return step;
+      }
+    }
+    return null;
+  }
+
+  // Plain codes are shown to the admin once; only their hashes are stored
+  static generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const raw = this.base32Encode(randomBytes(5)).toLowerCase();
+      return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+    });
+    return { codes, hashes: codes.map(code => this.hashRecoveryCode(code)) };
+  }
+
+  // Verifies an authenticator code and spends its time step, so the same code can't be used twice even concurrently
+  static async useCode(admin: Admin, code: string): Promise<boolean> {
+    if (!admin.totpSecret) return false;
+    const step = this.verifyCode(admin.totpSecret, code, admin.totpLastUsedStep);
+    return step !== null && await storage.claimAdminTotpStep(admin.id, step);
+  }
+
+  // Remaining hashes once the code is spent, or null when it doesn't match an unused code
+  static async useRecoveryCode(admin: Admin, code: string): Promise<string[] | null> {
+    return storage.consumeAdminRecoveryCode(admin.id, this.hashRecoveryCode(code));
+  }
+
+  // Confirms enrollment against the pending secret and issues the first set of recovery codes
+  static async enable(admin: Admin, code: string): Promise<string[] | null> {
+    if (!admin.totpSecret) return null;
+    const step = this.verifyCode(admin.totpSecret, code);
+    if (step === null) return null;
+
+    const { codes, hashes } = this.generateRecoveryCodes();
+    await storage.updateAdmin(admin.id, {
+      totpEnabled: true,
+      totpEnabledAt: new Date(),
+      totpLastUsedStep: step,
+      recoveryCodeHashes: hashes
+    });
+    return codes;
+  }
+
+  static async disable(adminId: string): Promise<void> {
+    await storage.updateAdmin(adminId, {
+      totpSecret: null,
+      totpEnabled: false,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+      recoveryCodeHashes: null
+    });
+  }
+
+  static async isRequiredForAll(): Promise<boolean> {
+    if (this.requiredForAll === null) {
+      const setting = await storage.getPlatformSetting('require_admin_2fa');
+      this.requiredForAll = setting?.value === true;
+    }
+    return this.requiredForAll;
+  }
+
+  static async setRequiredForAll(required: boolean, adminId: string): Promise<void> {
+    await storage.setPlatformSetting('require_admin_2fa', required, adminId);
+    this.requiredForAll = required;
+  }
+
+  private static codeAt(secret: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+    counter.writeUInt32BE(step % 0x100000000, 4);
+
+    const hmac = createHmac('sha1', secret).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000;
+    return binary.toString().padStart(6, '0');
+  }
+
+  // Case and dashes are ignored so codes can be typed as printed or not
+  private static hashRecoveryCode(code: string): string {
+    return createHash('sha256').update(code.toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex');
+  }
+
+  private static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of Array.from(buffer)) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += this.BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += this.BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+  }
+
+  private static base32Decode(input: string): Buffer {
+    const clean = input.toUpperCase().replace(/=+$/, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of clean) {
+      const index = this.BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character in TOTP secret');
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+    return Buffer.from(bytes);
+  }
+}
@@ -9,7 +9,18 @@ declare global {
       username: string;
       email: string;
       status: string;
+      role?: string; // Admins only
+      permissions?: string[] | null; // Admins only
       [key: string]: any; // Allow any additional properties
     }
   }
-}
\ No newline at end of file
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Admin who passed the password step and still has to enter a TOTP or recovery code
+    pendingAdmin2fa?: { adminId: string; expiresAt: number; attempts: number };
+    // Payment links this visitor has already been counted for, most recent last
+    viewedPaymentLinks?: string[];
+  }
+}
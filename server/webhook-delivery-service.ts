@@ -0,0 +1,302 @@
+import { createHmac, randomBytes } from 'crypto';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { storage } from './storage';
+import { CredentialEncryption } from './transak-service';
+import type { MerchantWebhookEndpoint, MerchantWebhookEventType, WebhookDelivery, Transaction } from '@shared/schema';
+
+// Delivers platform events to merchant webhook endpoints with HMAC signatures and exponential-backoff retries.
+// Receivers verify `Ruupay-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">` with their whsec_ secret.
+export class WebhookDeliveryService {
+  private static readonly INTERVAL_MS = parseInt(process.env.WEBHOOK_RETRY_INTERVAL_SECONDS || '30', 10) * 1000;
+  private static readonly TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_SECONDS || '10', 10) * 1000;
+  private static readonly BASE_RETRY_DELAY_MS = 30 * 1000;
+  private static readonly MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+  private static readonly LEASE_MS = 5 * 60 * 1000; // Longer than any single attempt
+  private static readonly BATCH_SIZE = 50;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+
+  // Start the retry timer (no-op if already started)
+  static start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`📨 Webhook retries processed every ${this.INTERVAL_MS / 1000} seconds`);
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => {
+        console.error('Webhook retry run failed:', error);
+      });
+    }, this.INTERVAL_MS);
+  }
+
+  static generateSecret(): { secret: string; encryptedSecret: string } {
+    const secret = `whsec_${randomBytes(24).toString('hex')}`;
+    return { secret, encryptedSecret: CredentialEncryption.encrypt(secret) };
+  }
+
+  // Why a URL can't receive webhooks, or null if it can. Checked on registration and before every attempt, since DNS can change.
+  static async urlProblem(url: string): Promise<string | null> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return 'Webhook URL is invalid';
+    }
+
+    // Signed payloads go out over the network, so only local development may use plain HTTP or internal hosts
+    if (process.env.NODE_ENV === 'development') {
+      return null;
+    }
+    if (parsed.protocol !== 'https:') {
+      return 'Webhook URL must use HTTPS';
+    }
+
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+      return 'Webhook URL must not point to an internal address';
+    }
+
+    let addresses: string[];
+    try {
+      addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch {
+      return `Webhook host ${hostname} could not be resolved`;
+    }
+
+    if (addresses.length === 0 || addresses.some(address => this.isInternalAddress(address))) {
+      return 'Webhook URL must not point to an internal address';
+    }
+    return null;
+  }
+
+  // Loopback, private, link-local (incl. cloud metadata), CGNAT, unspecified, multicast and reserved ranges
+  private static isInternalAddress(address: string): boolean {
+    const version = isIP(address);
+    if (version === 6) {
+      const lower = address.toLowerCase();
+      // IPv4-mapped (::ffff:a.b.c.d) addresses are judged by their IPv4 part
+      const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+      if (mapped) {
+        return this.isInternalAddress(mapped[1]);
+      }
+      return lower === '::' || lower === '::1'
+        || /^f[cd]/.test(lower) // fc00::/7 unique local
+        || /^fe[89ab]/.test(lower) // fe80::/10 link-local
+        || /^ff/.test(lower) // multicast
+        || lower.startsWith('::ffff:') // mapped addresses in hex form
+        || lower.startsWith('64:ff9b:'); // NAT64
+    }
+    if (version !== 4) {
+      return true;
+    }
+
+    const [a, b] = address.split('.').map(Number);
+    return a === 0
+      || a === 10
+      || a === 127
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 192 && b === 0)
+      || (a === 198 && (b === 18 || b === 19))
+      || a >= 224;
+  }
+
+  static sign(secret: string, timestamp: number, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  // Transak order statuses collapse to three payment events; the exact status is in the payload
+  static paymentEventFor(status: string): MerchantWebhookEventType {
+    if (status === 'COMPLETED') {
+      return 'payment.completed';
+    }
+    return ['FAILED', 'CANCELLED', 'REFUNDED', 'EXPIRED'].includes(status) ? 'payment.failed' : 'payment.pending';
+  }
+
+  static paymentEventData(transaction: Transaction): Record<string, any> {
+    return {
+      partnerOrderId: transaction.partnerOrderId,
+      transakOrderId: transaction.transakOrderId,
+      direction: transaction.direction,
+      mode: transaction.mode,
+      status: transaction.status,
+      fiatAmount: transaction.fiatAmount,
+      fiatCurrency: transaction.fiatCurrency,
+      cryptoAmount: transaction.cryptoAmount,
+      cryptoCurrency: transaction.cryptoCurrency,
+      network: transaction.network,
+      walletAddress: transaction.walletAddress,
+      completedAt: transaction.completedAt
+    };
+  }
+
+  private static subscribes(endpoint: MerchantWebhookEndpoint, eventType: string): boolean {
+    return !endpoint.events || endpoint.events.length === 0 || endpoint.events.includes(eventType);
+  }
+
+  // Queue an event for every enabled endpoint of the merchant that subscribes to it.
+  // Never throws: webhook problems must not break the flow that raised the event.
+  static async emit(merchantId: string, eventType: MerchantWebhookEventType, data: Record<string, any>): Promise<WebhookDelivery[]> {
+    try {
+      const endpoints = (await storage.getMerchantWebhookEndpoints(merchantId))
+        .filter(endpoint => endpoint.enabled && this.subscribes(endpoint, eventType));
+      if (endpoints.length === 0) {
+        return [];
+      }
+
+      const eventId = `evt_${randomBytes(12).toString('hex')}`;
+      const payload = { id: eventId, type: eventType, created: new Date().toISOString(), data };
+
+      const deliveries = await storage.createWebhookDeliveries(endpoints.map(endpoint => ({
+        endpointId: endpoint.id,
+        merchantId,
+        eventId,
+        eventType,
+        payload
+      })));
+
+      // First attempt right away; failures are picked up by the retry timer
+      for (const delivery of deliveries) {
+        this.attempt(delivery.id).catch(error => {
+          console.error(`Webhook delivery ${delivery.id} failed:`, error);
+        });
+      }
+
+      return deliveries;
+    } catch (error) {
+      console.error(`Failed to queue ${eventType} webhook for merchant ${merchantId}:`, error);
+      return [];
+    }
+  }
+
+  // Send a webhook.test event to one endpoint, resolving with the outcome of its first attempt
+  static async sendTest(endpoint: MerchantWebhookEndpoint): Promise<WebhookDelivery | undefined> {
+    // Created without the immediate attempt emit() starts, so this is the only attempt in flight
+    const eventId = `evt_${randomBytes(12).toString('hex')}`;
+    const eventType: MerchantWebhookEventType = 'webhook.test';
+    const data: Record<string, any> = { message: 'Test event from Ruupay' };
+    const payload = { id: eventId, type: eventType, created: new Date().toISOString(), data };
+    const [delivery] = await storage.createWebhookDeliveries([{
+      endpointId: endpoint.id,
+      merchantId: endpoint.merchantId,
+      eventId,
+      eventType,
+      payload
+    }]);
+
+    return this.attempt(delivery.id);
+  }
+
+  // Re-send a delivery's event as a new delivery (same event id, so receivers can dedupe)
+  static async replay(delivery: WebhookDelivery): Promise<WebhookDelivery | undefined> {
+    const [replayed] = await storage.createWebhookDeliveries([{
+      endpointId: delivery.endpointId,
+      merchantId: delivery.merchantId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      payload: delivery.payload,
+      replayOfId: delivery.id
+    }]);
+
+    return this.attempt(replayed.id);
+  }
+
+  // Make one delivery attempt if the delivery is due, then record the outcome and schedule any retry
+  static async attempt(deliveryId: string): Promise<WebhookDelivery | undefined> {
+    const delivery = await storage.claimWebhookDelivery(deliveryId, new Date(Date.now() + this.LEASE_MS));
+    if (!delivery) {
+      return storage.getWebhookDelivery(deliveryId);
+    }
+
+    const endpoint = await storage.getWebhookEndpoint(delivery.endpointId);
+    if (!endpoint || !endpoint.enabled) {
+      return storage.updateWebhookDelivery(delivery.id, {
+        status: 'failed',
+        lastError: endpoint ? 'Endpoint disabled' : 'Endpoint deleted'
+      });
+    }
+
+    const attempts = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    let responseCode: number | null = null;
+    let lastError: string | null = null;
+
+    try {
+      const urlProblem = await this.urlProblem(endpoint.url);
+      if (urlProblem) {
+        throw new Error(urlProblem);
+      }
+
+      const signature = this.sign(CredentialEncryption.decrypt(endpoint.encryptedSecret), timestamp, body);
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Ruupay-Webhooks/1.0',
+          'Ruupay-Event-Id': delivery.eventId,
+          'Ruupay-Event-Type': delivery.eventType,
+          'Ruupay-Signature': `t=${timestamp},v1=${signature}`
+        },
+        body,
+        // A redirect could lead to an internal address, so it counts as a failed delivery
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.TIMEOUT_MS)
+      });
+
+      // Only the status is kept; receivers' response bodies are never stored
+      responseCode = response.status;
+      await response.body?.cancel();
+      if (!response.ok) {
+        lastError = `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? (error.name === 'TimeoutError' ? 'Timed out' : error.message) : 'Request failed';
+    }
+
+    const succeeded = lastError === null;
+    const exhausted = !succeeded && attempts >= endpoint.maxAttempts;
+    const retryDelay = Math.min(this.BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), this.MAX_RETRY_DELAY_MS);
+
+    const updated = await storage.updateWebhookDelivery(delivery.id, {
+      status: succeeded ? 'success' : exhausted ? 'failed' : 'pending',
+      attempts,
+      lastAttemptAt: new Date(),
+      nextAttemptAt: succeeded || exhausted ? null : new Date(Date.now() + retryDelay),
+      responseCode,
+      responseTimeMs: Date.now() - startedAt,
+      lastError
+    });
+
+    if (!succeeded) {
+      console.warn(`📨 Webhook ${delivery.eventType} to ${endpoint.url} failed (attempt ${attempts}/${endpoint.maxAttempts}): ${lastError}`);
+    }
+    return updated;
+  }
+
+  // Retry every delivery whose backoff has elapsed
+  static async processDue(): Promise<number> {
+    // Skip overlapping runs
+    if (this.isRunning) {
+      return 0;
+    }
+
+    this.isRunning = true;
+    try {
+      const due = await storage.getDueWebhookDeliveries(new Date(), this.BATCH_SIZE);
+      for (const delivery of due) {
+        await this.attempt(delivery.id);
+      }
+      return due.length;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
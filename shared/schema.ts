@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, serial, json } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, serial, json, integer, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -29,8 +29,9 @@ export const merchants = pgTable("merchants", {
   phone: text("phone"),
   address: text("address"),
   description: text("description"),
-  status: text("status").notNull().default("pending"), // pending, approved, suspended
-  kybStatus: text("kyb_status").notNull().default("pending"), // pending, review, verified, failed
+  status: text("status").notNull().default("pending"), // pending, approved, rejected, deactivated (mirrored from onboardingState)
+  kybStatus: text("kyb_status").notNull().default("pending"), // pending, in_review, approved, rejected (mirrored from onboardingState)
+  onboardingState: text("onboarding_state"), // See onboardingStates; null for rows created before the state machine
   customFeeEnabled: boolean("custom_fee_enabled").default(false),
   customFeePercentage: text("custom_fee_percentage").default("2.5"),
   customFlatFee: text("custom_flat_fee").default("0.30"),
@@ -40,6 +41,8 @@ export const merchants = pgTable("merchants", {
   notes: text("notes"),
   volume: text("volume").default("$0"),
   integrations: text("integrations").array().default([]),
+  transakCredentialPolicy: text("transak_credential_policy").notNull().default("merchant_with_fallback"), // See transakCredentialPolicies
+  mode: text("mode").notNull().default("sandbox"), // sandbox or live: which credentials and data the merchant portal works with
   // Cybrid customer mapping fields
   cybridCustomerGuid: text("cybrid_customer_guid"), // Maps to Cybrid customer GUID
   cybridCustomerType: text("cybrid_customer_type").default("business"), // business or individual
@@ -60,6 +63,10 @@ export const merchants = pgTable("merchants", {
   depositAddressStatus: text("deposit_address_status").default("no_address"), // no_address, pending, created, error
   depositAddressAsset: text("deposit_address_asset"), // USDC, BTC, etc.
   depositAddressCreatedAt: timestamp("deposit_address_created_at"), // When deposit address was created
+  invoiceSequence: integer("invoice_sequence").notNull().default(0), // Last issued invoice number
+  resetToken: text("reset_token"), // SHA-256 of the emailed reset token
+  resetTokenExpiry: timestamp("reset_token_expiry"),
+  passwordChangedAt: timestamp("password_changed_at"),
   dateOnboarded: timestamp("date_onboarded").default(sql`NOW()`),
   createdAt: timestamp("created_at").default(sql`NOW()`),
   updatedAt: timestamp("updated_at").default(sql`NOW()`)
@@ -69,7 +76,12 @@ export const insertMerchantSchema = createInsertSchema(merchants).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
-  dateOnboarded: true
+  dateOnboarded: true,
+  resetToken: true,
+  resetTokenExpiry: true,
+  passwordChangedAt: true,
+  transakCredentialPolicy: true,
+  mode: true
 });
 
 // Admin schema for creating merchants (excludes auto-generated fields)
@@ -77,7 +89,9 @@ export const adminCreateMerchantSchema = insertMerchantSchema.omit({
   username: true,
   password: true,
   status: true,
-  kybStatus: true
+  kybStatus: true,
+  onboardingState: true,
+  invoiceSequence: true
 }).extend({
   cybridCustomerType: z.enum(["business", "individual"], {
     required_error: "Customer type is required",
@@ -85,8 +99,76 @@ export const adminCreateMerchantSchema = insertMerchantSchema.omit({
   }).default("business")
 });
 
+// Admin edits from the merchant profile form. Only profile fields are written directly; fees, status and KYB
+// are routed through the fee engine and onboarding state machine, and everything else has its own endpoint
+export const adminUpdateMerchantSchema = insertMerchantSchema.pick({
+  name: true,
+  email: true,
+  businessType: true,
+  website: true,
+  phone: true,
+  address: true,
+  description: true,
+  payoutMethod: true,
+  bankAccountNumber: true,
+  bankRoutingNumber: true,
+  notes: true
+}).partial().extend({
+  status: z.string().optional(),
+  kybStatus: z.string().optional(),
+  customFeeEnabled: z.boolean().optional(),
+  customFeePercentage: z.union([z.string(), z.number()]).optional(),
+  customFlatFee: z.union([z.string(), z.number()]).optional()
+});
+
+// Merchant-chosen credentials (signup, password change and reset)
+export const merchantUsernameSchema = z.string().trim()
+  .min(3, "Username must be at least 3 characters")
+  .max(32, "Username must be at most 32 characters")
+  .regex(/^[a-zA-Z0-9_.-]+$/, "Username can only contain letters, numbers, dots, dashes and underscores");
+
+export const merchantPasswordSchema = z.string()
+  .min(8, "Password must be at least 8 characters long")
+  .max(128, "Password must be at most 128 characters");
+
+export const merchantChangePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: merchantPasswordSchema
+}).refine(data => data.currentPassword !== data.newPassword, {
+  message: "New password must be different from the current one",
+  path: ["newPassword"]
+});
+
+export const merchantPasswordResetRequestSchema = z.object({
+  identifier: z.string().trim().min(1, "Username or email is required")
+});
+
+export const merchantPasswordResetSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  newPassword: merchantPasswordSchema
+});
+
+// Sandbox works against Transak and Cybrid staging, live against production. Credentials, deposit addresses,
+// transactions, payment links and invoices each belong to one mode and are never listed or counted in the other.
+export const merchantModes = ["sandbox", "live"] as const;
+
+export const merchantModeEnvironments: Record<MerchantMode, "staging" | "production"> = {
+  sandbox: "staging",
+  live: "production"
+};
+
+export const modeForEnvironment = (environment: string): MerchantMode =>
+  environment === "production" ? "live" : "sandbox";
+
+export const updateMerchantModeSchema = z.object({
+  mode: z.enum(merchantModes)
+});
+
+export type MerchantMode = typeof merchantModes[number];
 export type InsertMerchant = z.infer<typeof insertMerchantSchema>;
+export type MerchantChangePassword = z.infer<typeof merchantChangePasswordSchema>;
 export type AdminCreateMerchant = z.infer<typeof adminCreateMerchantSchema>;
+export type AdminUpdateMerchant = z.infer<typeof adminUpdateMerchantSchema>;
 export type Merchant = typeof merchants.$inferSelect;
 
 // Admins table for admin portal authentication and management
@@ -97,12 +179,19 @@ export const admins = pgTable("admins", {
   email: text("email").notNull().unique(),
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
-  role: text("role").notNull().default("admin"), // admin, super_admin
+  role: text("role").notNull().default("viewer"), // See adminRoles; legacy "admin" rows predate roles and keep full access
+  permissions: text("permissions").array(), // Per-admin override of the role's default permissions (null = role defaults)
   status: text("status").notNull().default("active"), // active, suspended
   lastLoginAt: timestamp("last_login_at"),
   // Password reset fields
   resetToken: text("reset_token"),
   resetTokenExpiry: timestamp("reset_token_expiry"),
+  // TOTP two-factor fields (see server/two-factor-service.ts)
+  totpSecret: text("totp_secret"), // Encrypted base32 secret; set during enrollment before totpEnabled
+  totpEnabled: boolean("totp_enabled").notNull().default(false),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // Last accepted time step, so a code can't be replayed
+  recoveryCodeHashes: text("recovery_code_hashes").array(), // SHA-256 of unused recovery codes
   createdAt: timestamp("created_at").default(sql`NOW()`),
   updatedAt: timestamp("updated_at").default(sql`NOW()`)
 });
@@ -120,10 +209,126 @@ export const adminLoginSchema = insertAdminSchema.pick({
   password: true
 });
 
+// Second login step and 2FA management requests
+export const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app");
+
+export const adminTwoFactorLoginSchema = z.object({
+  code: totpCodeSchema.optional(),
+  recoveryCode: z.string().trim().min(1).optional()
+}).refine(data => !!data.code !== !!data.recoveryCode, "Provide either an authenticator code or a recovery code");
+
+export const adminTwoFactorCodeSchema = z.object({
+  code: totpCodeSchema
+});
+
+export const adminTwoFactorDisableSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+  code: totpCodeSchema
+});
+
+export const adminTwoFactorResetSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required")
+});
+
 export type InsertAdmin = z.infer<typeof insertAdminSchema>;
 export type AdminLogin = z.infer<typeof adminLoginSchema>;
+export type AdminTwoFactorLogin = z.infer<typeof adminTwoFactorLoginSchema>;
 export type Admin = typeof admins.$inferSelect;
 
+// Admin roles and permissions (enforced server-side by requirePermission in server/auth-core.ts)
+export const adminRoles = ["super_admin", "platform_admin", "financial_admin", "support_agent", "viewer"] as const;
+
+export const adminPermissions = [
+  "merchant_view",
+  "merchant_create",
+  "merchant_edit",
+  "merchant_approve",
+  "merchant_deactivate",
+  "merchant_delete",
+  "merchant_credentials",
+  "fee_management",
+  "revenue_tracking",
+  "financial_reports",
+  "settings_management",
+  "integration_management",
+  "user_management",
+  "transaction_view",
+  "webhook_management",
+  "audit_logs",
+  "customer_support"
+] as const;
+
+export const adminPermissionCatalog: Record<AdminPermission, { name: string; category: string; description: string }> = {
+  merchant_view: { name: "View Merchants", category: "Merchant Management", description: "View merchant data and profiles" },
+  merchant_create: { name: "Create Merchants", category: "Merchant Management", description: "Create merchant accounts and signup links" },
+  merchant_edit: { name: "Edit Merchants", category: "Merchant Management", description: "Edit merchant profile and settings" },
+  merchant_approve: { name: "Approve Merchants", category: "Merchant Management", description: "Change KYB status and onboarding state" },
+  merchant_deactivate: { name: "Deactivate Merchants", category: "Merchant Management", description: "Deactivate and reactivate merchant accounts" },
+  merchant_delete: { name: "Delete Merchants", category: "Merchant Management", description: "Permanently delete merchant accounts" },
+  merchant_credentials: { name: "Reset Merchant Credentials", category: "Merchant Management", description: "Issue new merchant login credentials" },
+  fee_management: { name: "Fee Management", category: "Financial", description: "Configure fees and pricing" },
+  revenue_tracking: { name: "Revenue Tracking", category: "Financial", description: "View revenue and partner earnings" },
+  financial_reports: { name: "Financial Reports", category: "Financial", description: "Generate financial reports" },
+  settings_management: { name: "Platform Settings", category: "Platform", description: "Configure platform settings" },
+  integration_management: { name: "Integration Management", category: "Platform", description: "Cybrid syncs, provisioning, jobs and reconciliation" },
+  user_management: { name: "User Management", category: "Platform", description: "Manage admin users and permissions" },
+  transaction_view: { name: "Transaction Monitoring", category: "System", description: "View transaction data and status" },
+  webhook_management: { name: "Webhook Management", category: "System", description: "Manage webhook configurations and replay events" },
+  audit_logs: { name: "Audit Logs", category: "System", description: "View system audit logs" },
+  customer_support: { name: "Customer Support", category: "System", description: "Access customer support tools" }
+};
+
+// Default permissions per role; super_admin always has every permission
+export const adminRoleDefinitions: Record<AdminRole, { name: string; description: string; permissions: readonly AdminPermission[] }> = {
+  super_admin: {
+    name: "Super Admin",
+    description: "Full access to all platform features",
+    permissions: adminPermissions
+  },
+  platform_admin: {
+    name: "Platform Admin",
+    description: "Manage merchants, settings, and integrations",
+    permissions: ["merchant_view", "merchant_create", "merchant_edit", "merchant_approve", "merchant_deactivate", "merchant_credentials", "settings_management", "integration_management", "webhook_management", "transaction_view"]
+  },
+  financial_admin: {
+    name: "Financial Admin",
+    description: "Manage fees, revenue tracking, and financial reports",
+    permissions: ["fee_management", "revenue_tracking", "financial_reports", "merchant_view", "transaction_view"]
+  },
+  support_agent: {
+    name: "Support Agent",
+    description: "View-only access with customer support capabilities",
+    permissions: ["merchant_view", "transaction_view", "customer_support"]
+  },
+  viewer: {
+    name: "Viewer",
+    description: "Read-only access to platform data",
+    permissions: ["merchant_view", "transaction_view"]
+  }
+};
+
+// Admin user management requests (passwords are generated, never chosen by the creating admin)
+export const createAdminUserSchema = z.object({
+  email: z.string().email("Valid email is required"),
+  firstName: z.string().trim().min(1, "First name is required"),
+  lastName: z.string().trim().min(1, "Last name is required"),
+  username: z.string().trim().min(3).max(50).optional(),
+  role: z.enum(adminRoles),
+  permissions: z.array(z.enum(adminPermissions)).nullable().default(null)
+});
+
+export const updateAdminUserSchema = createAdminUserSchema.omit({ username: true }).partial().extend({
+  status: z.enum(["active", "suspended"]).optional()
+});
+
+export type AdminRole = typeof adminRoles[number];
+export type AdminPermission = typeof adminPermissions[number];
+export type CreateAdminUser = z.infer<typeof createAdminUserSchema>;
+export type UpdateAdminUser = z.infer<typeof updateAdminUserSchema>;
+
+// Result of checking stored credentials against the provider: invalid = rejected, expired = revoked or expired key
+export const credentialVerificationStatuses = ["unverified", "valid", "invalid", "expired"] as const;
+
 // Merchant credentials table for storing encrypted API keys and secrets
 export const merchantCredentials = pgTable("merchant_credentials", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -133,9 +338,16 @@ export const merchantCredentials = pgTable("merchant_credentials", {
   encryptedApiSecret: text("encrypted_api_secret"),
   environment: text("environment").notNull().default("staging"), // 'staging', 'production'
   isActive: boolean("is_active").default(true),
+  verificationStatus: text("verification_status").notNull().default("unverified"), // See credentialVerificationStatuses
+  lastVerifiedAt: timestamp("last_verified_at"), // Last time the provider accepted the credentials
+  lastCheckedAt: timestamp("last_checked_at"), // Last check of any outcome, including provider outages
+  verificationError: text("verification_error"), // Why the last check failed; null after a successful one
   createdAt: timestamp("created_at").default(sql`NOW()`),
   updatedAt: timestamp("updated_at").default(sql`NOW()`)
-});
+}, (table) => ({
+  // One set of keys per environment, so sandbox and live keys can be held at once
+  merchantProviderEnvironment: unique().on(table.merchantId, table.provider, table.environment)
+}));
 
 export const insertMerchantCredentialsSchema = createInsertSchema(merchantCredentials).omit({
   id: true,
@@ -150,6 +362,18 @@ export const transakCredentialsSchema = z.object({
   environment: z.enum(["staging", "production"]).default("staging")
 });
 
+// Whose Transak keys a merchant's pricing, sessions and off-ramp calls use (set by admins):
+// merchant = the merchant's own keys only, platform = TRANSAK_API_KEY/SECRET, merchant_with_fallback = own keys when saved, else platform
+export const transakCredentialPolicies = ["merchant", "platform", "merchant_with_fallback"] as const;
+export const transakCredentialSources = ["merchant", "platform"] as const;
+
+export const updateTransakCredentialPolicySchema = z.object({
+  policy: z.enum(transakCredentialPolicies)
+});
+
+export type TransakCredentialPolicy = typeof transakCredentialPolicies[number];
+export type TransakCredentialSource = typeof transakCredentialSources[number];
+
 // Transak session creation request schema
 export const createTransakSessionSchema = z.object({
   quoteData: z.object({
@@ -166,27 +390,58 @@ export const createTransakSessionSchema = z.object({
   customerEmail: z.string().email("Valid customer email is required"),
   referrerDomain: z.string().optional(),
   redirectURL: z.string().url().optional(),
-  themeColor: z.string().regex(/^[0-9a-fA-F]{6}$/, "Theme color must be a valid hex color (6 characters)").optional()
+  themeColor: z.string().regex(/^[0-9a-fA-F]{6}$/, "Theme color must be a valid hex color (6 characters)").optional(),
+  // Payment link options
+  description: z.string().max(500).optional(),
+  singleUse: z.boolean().optional(),
+  expiresInHours: z.number().positive().max(24 * 30).optional() // Defaults to PAYMENT_LINK_EXPIRY_HOURS
 });
 
 export type InsertMerchantCredentials = z.infer<typeof insertMerchantCredentialsSchema>;
+export type CredentialVerificationStatus = typeof credentialVerificationStatuses[number];
 export type TransakCredentials = z.infer<typeof transakCredentialsSchema>;
 export type CreateTransakSession = z.infer<typeof createTransakSessionSchema>;
 export type MerchantCredentials = typeof merchantCredentials.$inferSelect;
 
-// Payment Link types for URL masking
-export interface PaymentLink {
-  id: string;
-  sessionUrl: string;
-  merchantId: string;
-  createdAt: Date;
-  expiresAt: Date;
-}
+// Payment links mask Transak session URLs behind /pay/:id
+export const paymentLinks = pgTable("payment_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id, { onDelete: "cascade" }),
+  sessionUrl: text("session_url").notNull(), // Underlying Transak widget URL
+  partnerOrderId: text("partner_order_id"), // Our transactions.partner_order_id for the session
+  transakOrderId: text("transak_order_id"), // Filled in from Transak webhooks
+  direction: text("direction").notNull().default("BUY"), // BUY (onramp) or SELL (offramp)
+  mode: text("mode").notNull().default("sandbox"), // See merchantModes
+  amount: text("amount"),
+  currency: text("currency"),
+  description: text("description"),
+  singleUse: boolean("single_use").notNull().default(false), // Marked used once its order completes
+  status: text("status").notNull().default("active"), // active, used, expired, revoked
+  clickCount: integer("click_count").notNull().default(0),
+  lastClickedAt: timestamp("last_clicked_at"),
+  reissuedFromId: varchar("reissued_from_id"), // Link this one replaced
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`)
+});
 
-export interface InsertPaymentLink {
-  sessionUrl: string;
-  merchantId: string;
-}
+export const insertPaymentLinkSchema = createInsertSchema(paymentLinks).omit({
+  id: true,
+  clickCount: true,
+  lastClickedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// Re-issuing a link optionally overrides its expiry
+export const reissuePaymentLinkSchema = z.object({
+  expiresInHours: z.number().positive().max(24 * 30).optional()
+});
+
+export type InsertPaymentLink = z.infer<typeof insertPaymentLinkSchema>;
+export type PaymentLink = typeof paymentLinks.$inferSelect;
 
 // Merchant deposit addresses table for storing crypto deposit addresses
 export const merchantDepositAddresses = pgTable("merchant_deposit_addresses", {
@@ -197,6 +452,8 @@ export const merchantDepositAddresses = pgTable("merchant_deposit_addresses", {
   asset: text("asset").notNull(), // BTC, ETH, USDC, USDT (aligned with Cybrid terminology)
   network: text("network").notNull(), // bitcoin, ethereum
   address: text("address").notNull(), // Deposit address
+  cybridDepositAddressGuid: text("cybrid_deposit_address_guid"), // Cybrid deposit address GUID
+  mode: text("mode").notNull().default("sandbox"), // Mode of the Cybrid environment the address was created in
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").default(sql`NOW()`)
 });
@@ -209,6 +466,40 @@ export const insertMerchantDepositAddressSchema = createInsertSchema(merchantDep
 export type InsertMerchantDepositAddress = z.infer<typeof insertMerchantDepositAddressSchema>;
 export type MerchantDepositAddress = typeof merchantDepositAddresses.$inferSelect;
 
+// Merchant trade accounts table, one row per Cybrid trading account (asset)
+export const merchantTradeAccounts = pgTable("merchant_trade_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id, { onDelete: "cascade" }),
+  cybridCustomerGuid: text("cybrid_customer_guid").notNull(),
+  cybridAccountGuid: text("cybrid_account_guid").unique(), // Null until Cybrid creates the account
+  asset: text("asset").notNull(), // BTC, ETH, USDC, USDT
+  status: text("status").notNull().default("pending"), // pending, created, error
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`)
+});
+
+export const insertMerchantTradeAccountSchema = createInsertSchema(merchantTradeAccounts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type InsertMerchantTradeAccount = z.infer<typeof insertMerchantTradeAccountSchema>;
+export type MerchantTradeAccount = typeof merchantTradeAccounts.$inferSelect;
+
+// Crypto assets the platform can provision Cybrid trade accounts and deposit addresses for
+export const supportedCryptoAssets = ["USDC", "USDT", "BTC", "ETH"] as const;
+export type SupportedCryptoAsset = typeof supportedCryptoAssets[number];
+
+// Network each asset's Cybrid deposit addresses live on
+export const cryptoAssetNetworks: Record<SupportedCryptoAsset, string> = {
+  USDC: "ethereum",
+  USDT: "ethereum",
+  BTC: "bitcoin",
+  ETH: "ethereum"
+};
+
 // Validation schemas for Cybrid admin routes
 export const cybridCustomerParamsSchema = z.object({
   id: z.string().min(1, "Merchant ID is required")
@@ -226,24 +517,89 @@ export const cybridDepositAddressSchema = z.object({
   network: z.string().optional()
 });
 
+// Admin trade account / deposit address provisioning; either a single asset or a list (defaults to the configured set)
 export const createTradeAccountSchema = z.object({
-  asset: z.enum(["USDC"], {
-    required_error: "Asset is required",
-    invalid_type_error: "Only USDC trading accounts are currently supported"
-  }).default("USDC")
+  asset: z.enum(supportedCryptoAssets, {
+    invalid_type_error: `Supported assets are ${supportedCryptoAssets.join(", ")}`
+  }).optional(),
+  assets: z.array(z.enum(supportedCryptoAssets)).min(1, "At least one asset is required").optional()
 });
 
-// Webhook events table for idempotency tracking
+// Webhook events table for idempotency tracking and the admin event inspector
+export const webhookEventOutcomes = ["received", "handled", "ignored", "failed"] as const;
+export const webhookEventSources = ["cybrid", "transak"] as const;
+
 export const webhookEvents = pgTable("webhook_events", {
   id: serial("id").primaryKey(),
   eventId: varchar("event_id").notNull().unique(),
+  source: text("source").notNull().default("cybrid"), // See webhookEventSources: the provider that sent the event
   eventType: varchar("event_type").notNull(),
+  objectGuid: varchar("object_guid"), // Cybrid object the event refers to
+  merchantId: varchar("merchant_id").references(() => merchants.id), // Set once a handler resolves the merchant
   payload: json("payload"),
-  processedAt: timestamp("processed_at").default(sql`NOW()`)
+  outcome: text("outcome").notNull().default("received"), // received, handled, ignored, failed
+  outcomeDetail: text("outcome_detail"), // Why it was ignored, or the handler error
+  dispatchCount: integer("dispatch_count").notNull().default(0),
+  lastDispatchedAt: timestamp("last_dispatched_at"),
+  processedAt: timestamp("processed_at").default(sql`NOW()`) // When the event was received
 });
 
+export const webhookEventFiltersSchema = z.object({
+  type: z.string().optional(),
+  merchantId: z.string().optional(),
+  outcome: z.enum(webhookEventOutcomes).optional(),
+  search: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+export type WebhookEventOutcome = typeof webhookEventOutcomes[number];
+export type WebhookEventSource = typeof webhookEventSources[number];
+export type WebhookEventFilters = z.infer<typeof webhookEventFiltersSchema>;
 export type WebhookEvent = typeof webhookEvents.$inferSelect;
 
+// Transactions table for tracking Transak orders created from merchant payment sessions
+export const transactions = pgTable("transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id, { onDelete: "cascade" }),
+  partnerOrderId: text("partner_order_id").notNull().unique(), // Our order reference passed to the Transak widget
+  transakOrderId: text("transak_order_id"), // Transak's own order ID, known once the first webhook arrives
+  direction: text("direction").notNull(), // BUY (onramp), SELL (offramp)
+  mode: text("mode").notNull().default("sandbox"), // See merchantModes; decides which Transak environment the order lives in
+  status: text("status").notNull().default("SESSION_CREATED"), // SESSION_CREATED, or Transak order status (PROCESSING, COMPLETED, FAILED, ...)
+  fiatAmount: text("fiat_amount"),
+  fiatCurrency: text("fiat_currency"),
+  cryptoAmount: text("crypto_amount"),
+  cryptoCurrency: text("crypto_currency"),
+  network: text("network"),
+  walletAddress: text("wallet_address"),
+  customerEmail: text("customer_email"),
+  paymentMethod: text("payment_method"),
+  platformFee: text("platform_fee"), // Platform fee (fiat) charged on this order, fixed when the session is created
+  feeScheduleId: varchar("fee_schedule_id"), // Fee schedule in force when the order was created (null = built-in default)
+  credentialSource: text("credential_source"), // merchant or platform: whose Transak keys created the session (webhooks are signed with them)
+  statusHistory: json("status_history").$type<TransactionStatusChange[]>().default([]),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`),
+  completedAt: timestamp("completed_at")
+});
+
+export interface TransactionStatusChange {
+  status: string;
+  source: string; // session, webhook
+  at: string; // ISO timestamp
+}
+
+export const insertTransactionSchema = createInsertSchema(transactions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type Transaction = typeof transactions.$inferSelect;
+
 // Signup tokens table for admin-generated merchant registration links
 export const signupTokens = pgTable("signup_tokens", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -271,7 +627,8 @@ export const createSignupTokenSchema = z.object({
     required_error: "Customer type is required",
     invalid_type_error: "Customer type must be either 'business' or 'individual'"
   }).default("individual"),
-  notes: z.string().optional()
+  notes: z.string().optional(),
+  email: z.string().email("Valid email is required").optional() // Emails the invite when given
 });
 
 // Public registration schema for merchants using signup tokens
@@ -284,6 +641,9 @@ export const publicMerchantRegistrationSchema = z.object({
   phone: z.string().optional(),
   address: z.string().optional(),
   description: z.string().optional(),
+  // Either can be left out to have one generated and shown once
+  username: merchantUsernameSchema.optional(),
+  password: merchantPasswordSchema.optional(),
   cybridCustomerType: z.enum(["business", "individual"], {
     required_error: "Customer type is required",
     invalid_type_error: "Customer type must be either 'business' or 'individual'"
@@ -294,3 +654,642 @@ export type InsertSignupToken = z.infer<typeof insertSignupTokenSchema>;
 export type CreateSignupToken = z.infer<typeof createSignupTokenSchema>;
 export type PublicMerchantRegistration = z.infer<typeof publicMerchantRegistrationSchema>;
 export type SignupToken = typeof signupTokens.$inferSelect;
+
+// Balance snapshots table for charting merchant Cybrid account balances over time
+export const balanceSnapshots = pgTable("balance_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id, { onDelete: "cascade" }),
+  cybridAccountGuid: text("cybrid_account_guid").notNull(),
+  accountType: text("account_type").notNull(), // trading, fiat
+  asset: text("asset").notNull(), // USDC, USD, ...
+  platformBalance: text("platform_balance").notNull(), // Decimal amount (converted from Cybrid base units)
+  platformAvailable: text("platform_available").notNull(),
+  mode: text("mode").notNull().default("sandbox"), // Mode of the Cybrid environment the balance was read from
+  capturedAt: timestamp("captured_at").default(sql`NOW()`)
+});
+
+export const insertBalanceSnapshotSchema = createInsertSchema(balanceSnapshots).omit({
+  id: true
+});
+
+export type InsertBalanceSnapshot = z.infer<typeof insertBalanceSnapshotSchema>;
+export type BalanceSnapshot = typeof balanceSnapshots.$inferSelect;
+
+// Cybrid trades (e.g. USDC -> USD conversions) requested by merchants
+export const trades = pgTable("trades", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id, { onDelete: "cascade" }),
+  cybridQuoteGuid: text("cybrid_quote_guid").notNull().unique(),
+  cybridTradeGuid: text("cybrid_trade_guid").unique(), // Set once the quote is executed
+  symbol: text("symbol").notNull(), // USDC-USD
+  side: text("side").notNull(), // buy, sell
+  state: text("state").notNull().default("quoted"), // quoted, expired, then Cybrid trade state (storing, pending, settling, completed, failed, cancelled)
+  deliverAmount: text("deliver_amount").notNull(), // Decimal amount the merchant gives up
+  receiveAmount: text("receive_amount").notNull(), // Decimal amount the merchant receives
+  fee: text("fee"),
+  failureCode: text("failure_code"),
+  mode: text("mode").notNull().default("sandbox"), // Mode of the Cybrid environment the trade was quoted in
+  quoteExpiresAt: timestamp("quote_expires_at").notNull(),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`)
+});
+
+export const insertTradeSchema = createInsertSchema(trades).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const createSellQuoteSchema = z.object({
+  asset: z.enum(["USDC"], {
+    invalid_type_error: "Only USDC can currently be converted"
+  }).default("USDC"),
+  amount: z.number().positive("Amount must be positive").optional() // Defaults to the full available balance
+});
+
+export type InsertTrade = z.infer<typeof insertTradeSchema>;
+export type CreateSellQuote = z.infer<typeof createSellQuoteSchema>;
+export type Trade = typeof trades.$inferSelect;
+
+// Merchant invoices; paying one creates a Transak session and payment link
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id, { onDelete: "cascade" }),
+  invoiceNumber: text("invoice_number").notNull(), // INV-00001, sequential per merchant
+  mode: text("mode").notNull().default("sandbox"), // See merchantModes; the invoice is paid in this mode whatever the merchant has switched to since
+  status: text("status").notNull().default("draft"), // draft, open, paid, void
+  customerName: text("customer_name"),
+  customerEmail: text("customer_email").notNull(),
+  currency: text("currency").notNull().default("USD"), // Fiat currency the customer pays in
+  cryptoCurrency: text("crypto_currency").notNull().default("USDC"), // Asset the merchant receives
+  network: text("network").notNull().default("ethereum"),
+  paymentMethod: text("payment_method").notNull().default("credit_debit_card"),
+  total: text("total").notNull(), // Sum of line item amounts
+  notes: text("notes"),
+  dueDate: timestamp("due_date"),
+  issuedAt: timestamp("issued_at"),
+  paidAt: timestamp("paid_at"),
+  partnerOrderId: text("partner_order_id"), // Latest Transak order started from this invoice
+  paymentLinkId: varchar("payment_link_id"),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`)
+}, (table) => ({
+  merchantInvoiceNumber: unique().on(table.merchantId, table.invoiceNumber)
+}));
+
+export const invoiceItems = pgTable("invoice_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  position: integer("position").notNull().default(0),
+  description: text("description").notNull(),
+  quantity: text("quantity").notNull(),
+  unitPrice: text("unit_price").notNull(),
+  amount: text("amount").notNull() // quantity * unitPrice
+});
+
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertInvoiceItemSchema = createInsertSchema(invoiceItems).omit({
+  id: true
+});
+
+export const invoiceItemInputSchema = z.object({
+  description: z.string().min(1, "Description is required").max(500),
+  quantity: z.number().positive("Quantity must be positive"),
+  unitPrice: z.number().nonnegative("Unit price cannot be negative")
+});
+
+// Merchant invoice create/update request
+export const createInvoiceSchema = z.object({
+  customerName: z.string().max(200).optional(),
+  customerEmail: z.string().email("Valid customer email is required"),
+  currency: z.string().length(3).toUpperCase().default("USD"),
+  cryptoCurrency: z.enum(supportedCryptoAssets).default("USDC"),
+  paymentMethod: z.string().min(1).default("credit_debit_card"),
+  notes: z.string().max(2000).optional(),
+  dueDate: z.coerce.date().optional(),
+  items: z.array(invoiceItemInputSchema).min(1, "At least one line item is required"),
+  issue: z.boolean().default(false) // Issue immediately instead of saving a draft
+});
+
+export const updateInvoiceSchema = createInvoiceSchema.partial().omit({ issue: true });
+
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type InsertInvoiceItem = z.infer<typeof insertInvoiceItemSchema>;
+export type CreateInvoice = z.infer<typeof createInvoiceSchema>;
+export type UpdateInvoice = z.infer<typeof updateInvoiceSchema>;
+export type Invoice = typeof invoices.$inferSelect;
+export type InvoiceItem = typeof invoiceItems.$inferSelect;
+export type InvoiceWithItems = Invoice & { items: InvoiceItem[] };
+
+// Fee schedules: effective-dated platform fees. Global default, volume tiers and per-merchant
+// overrides each keep their full history; a row is in force from effectiveFrom until effectiveTo.
+export const feeScopes = ["global", "tier", "merchant"] as const;
+
+export const feeSchedules = pgTable("fee_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(), // global, tier, merchant
+  merchantId: varchar("merchant_id").references(() => merchants.id, { onDelete: "cascade" }), // merchant scope only
+  tierName: text("tier_name"), // tier scope only
+  minMonthlyVolume: text("min_monthly_volume"), // tier scope only, trailing 30-day completed live volume in the schedule currency
+  percentage: text("percentage").notNull(),
+  flatFee: text("flat_fee").notNull().default("0"),
+  currency: text("currency").notNull().default("USD"),
+  effectiveFrom: timestamp("effective_from").notNull().default(sql`NOW()`),
+  effectiveTo: timestamp("effective_to"), // null = open-ended
+  reason: text("reason"),
+  createdBy: varchar("created_by").references(() => admins.id),
+  appliedAt: timestamp("applied_at"), // Set by the fee schedule job once in force and merchants are notified
+  cancelledAt: timestamp("cancelled_at"), // Cancelled before taking effect; kept for the audit trail
+  cancelledBy: varchar("cancelled_by").references(() => admins.id),
+  createdAt: timestamp("created_at").default(sql`NOW()`)
+});
+
+export const insertFeeScheduleSchema = createInsertSchema(feeSchedules).omit({
+  id: true,
+  appliedAt: true,
+  cancelledAt: true,
+  cancelledBy: true,
+  createdAt: true
+});
+
+const feeRateFields = {
+  percentage: z.coerce.number().min(0).max(100),
+  flatFee: z.coerce.number().min(0).default(0)
+};
+
+// Admin fee updates; effectiveFrom defaults to now
+export const updateGlobalFeeSchema = z.object({
+  ...feeRateFields,
+  currency: z.string().length(3).toUpperCase().default("USD"),
+  reason: z.string().max(500).optional(),
+  effectiveFrom: z.coerce.date().optional()
+});
+
+export const feeTierInputSchema = z.object({
+  tierName: z.string().min(1).max(100),
+  minMonthlyVolume: z.coerce.number().min(0),
+  ...feeRateFields
+});
+
+export const updateFeeTiersSchema = z.object({
+  tiers: z.array(feeTierInputSchema),
+  reason: z.string().max(500).optional(),
+  effectiveFrom: z.coerce.date().optional()
+});
+
+export const updateMerchantFeeSchema = z.object({
+  enabled: z.boolean(),
+  percentage: feeRateFields.percentage.optional(),
+  flatFee: feeRateFields.flatFee,
+  reason: z.string().max(500).optional(),
+  effectiveFrom: z.coerce.date().optional()
+}).refine(data => !data.enabled || data.percentage !== undefined, {
+  message: "Percentage is required when enabling custom fees",
+  path: ["percentage"]
+});
+
+// Schedule a future change to the global default or a merchant override
+export const scheduleFeeChangeSchema = z.object({
+  scope: z.enum(["global", "merchant"]),
+  merchantId: z.string().optional(),
+  ...feeRateFields,
+  effectiveFrom: z.coerce.date().refine(date => date > new Date(), "Effective date must be in the future"),
+  reason: z.string().min(1, "Reason is required").max(500)
+}).refine(data => data.scope !== "merchant" || !!data.merchantId, {
+  message: "merchantId is required for merchant fee changes",
+  path: ["merchantId"]
+});
+
+export type FeeScope = typeof feeScopes[number];
+export type InsertFeeSchedule = z.infer<typeof insertFeeScheduleSchema>;
+export type FeeSchedule = typeof feeSchedules.$inferSelect;
+export type UpdateGlobalFee = z.infer<typeof updateGlobalFeeSchema>;
+export type UpdateFeeTiers = z.infer<typeof updateFeeTiersSchema>;
+export type UpdateMerchantFee = z.infer<typeof updateMerchantFeeSchema>;
+export type ScheduleFeeChange = z.infer<typeof scheduleFeeChangeSchema>;
+
+// Outbound webhooks: platform events delivered to merchant-configured endpoints
+export const merchantWebhookEventTypes = [
+  "kyb.approved",
+  "kyb.rejected",
+  "deposit_address.created",
+  "payment.pending",
+  "payment.completed",
+  "payment.failed",
+  "webhook.test"
+] as const;
+
+export const merchantWebhookEndpoints = pgTable("merchant_webhook_endpoints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  description: text("description"),
+  encryptedSecret: text("encrypted_secret").notNull(), // whsec_ signing secret, encrypted at rest
+  events: text("events").array().default([]), // Empty = all events
+  enabled: boolean("enabled").notNull().default(true),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`)
+});
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  endpointId: varchar("endpoint_id").notNull().references(() => merchantWebhookEndpoints.id, { onDelete: "cascade" }),
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id, { onDelete: "cascade" }),
+  eventId: varchar("event_id").notNull(), // Stable across retries and replays so receivers can dedupe
+  eventType: text("event_type").notNull(),
+  payload: json("payload").$type<WebhookEventPayload>().notNull(),
+  status: text("status").notNull().default("pending"), // pending, success, failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").default(sql`NOW()`),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseCode: integer("response_code"),
+  responseTimeMs: integer("response_time_ms"),
+  lastError: text("last_error"),
+  replayOfId: varchar("replay_of_id"), // Delivery this one re-sends
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`)
+});
+
+// Body POSTed to merchant endpoints
+export interface WebhookEventPayload {
+  id: string;
+  type: string;
+  created: string; // ISO timestamp
+  data: Record<string, any>;
+}
+
+export const insertMerchantWebhookEndpointSchema = createInsertSchema(merchantWebhookEndpoints).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// Merchant endpoint create/update request
+export const webhookEndpointInputSchema = z.object({
+  url: z.string().url("Valid URL is required"),
+  description: z.string().max(200).optional(),
+  events: z.array(z.enum(merchantWebhookEventTypes)).default([]),
+  enabled: z.boolean().default(true),
+  maxAttempts: z.number().int().min(1).max(10).default(5)
+});
+
+export const updateWebhookEndpointSchema = webhookEndpointInputSchema.partial();
+
+export type MerchantWebhookEventType = typeof merchantWebhookEventTypes[number];
+export type InsertMerchantWebhookEndpoint = z.infer<typeof insertMerchantWebhookEndpointSchema>;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointInputSchema>;
+export type MerchantWebhookEndpoint = typeof merchantWebhookEndpoints.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+// Background jobs (Postgres-backed queue); dead jobs exhausted their attempts and wait for an admin retry
+export const jobTypes = ["provision_merchant_asset"] as const;
+export const jobStatuses = ["pending", "running", "succeeded", "dead"] as const;
+
+export interface JobPayload {
+  merchantId: string;
+  customerGuid?: string;
+  asset?: string;
+}
+
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(),
+  payload: json("payload").$type<JobPayload>().notNull(),
+  merchantId: varchar("merchant_id").references(() => merchants.id, { onDelete: "cascade" }),
+  dedupeKey: text("dedupe_key"), // At most one pending/running job per key
+  status: text("status").notNull().default("pending"), // pending, running, succeeded, dead
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(8),
+  runAt: timestamp("run_at").notNull().default(sql`NOW()`),
+  lockedUntil: timestamp("locked_until"), // Lease for the worker that claimed the job
+  lastError: text("last_error"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`)
+}, (table) => ({
+  // Enforces the dedupe key even when two callers enqueue at once
+  activeDedupeKey: uniqueIndex("jobs_active_dedupe_key").on(table.dedupeKey).where(sql`status IN ('pending', 'running')`)
+}));
+
+// drizzle-zod can't derive optional members of a json column type, so the payload shape is spelled out
+export const insertJobSchema = createInsertSchema(jobs, {
+  payload: z.object({
+    merchantId: z.string(),
+    customerGuid: z.string().optional(),
+    asset: z.string().optional()
+  })
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type JobType = typeof jobTypes[number];
+export type JobStatus = typeof jobStatuses[number];
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+
+// Merchant onboarding state machine (transitions are defined in server/onboarding-service.ts)
+export const onboardingStates = [
+  "registered", // Merchant account exists, no Cybrid customer yet
+  "customer_created", // Cybrid customer exists, identity verification not started
+  "customer_error", // Cybrid customer creation failed
+  "kyc_in_review", // Identity verification submitted
+  "kyc_rejected",
+  "provisioning", // KYC approved, trade accounts and deposit addresses being created
+  "provisioning_failed",
+  "active", // Ready to receive payments
+  "deactivated" // Disabled by an admin
+] as const;
+
+export const onboardingTriggers = ["registration", "admin", "merchant", "cybrid_api", "cybrid_webhook", "kyc_polling", "kyc_sync", "provisioning", "reconciliation"] as const;
+
+export const merchantStateTransitions = pgTable("merchant_state_transitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  merchantId: varchar("merchant_id").notNull().references(() => merchants.id, { onDelete: "cascade" }),
+  fromState: text("from_state").notNull(),
+  toState: text("to_state").notNull(),
+  trigger: text("trigger").notNull(), // See onboardingTriggers
+  actorId: varchar("actor_id"), // Admin id for admin-triggered changes, webhook event id for Cybrid events
+  reason: text("reason"),
+  forced: boolean("forced").notNull().default(false), // Admin override outside the normal transitions
+  createdAt: timestamp("created_at").default(sql`NOW()`)
+});
+
+export const insertMerchantStateTransitionSchema = createInsertSchema(merchantStateTransitions).omit({
+  id: true,
+  createdAt: true
+});
+
+// Admin request to move a merchant to another onboarding state
+export const adminOnboardingTransitionSchema = z.object({
+  state: z.enum(onboardingStates),
+  reason: z.string().trim().min(1, "A reason is required"),
+  force: z.boolean().default(false)
+});
+
+export type OnboardingState = typeof onboardingStates[number];
+export type OnboardingTrigger = typeof onboardingTriggers[number];
+export type InsertMerchantStateTransition = z.infer<typeof insertMerchantStateTransitionSchema>;
+export type AdminOnboardingTransition = z.infer<typeof adminOnboardingTransitionSchema>;
+export type MerchantStateTransition = typeof merchantStateTransitions.$inferSelect;
+
+// Scheduled reconciliation of local merchant state against Cybrid; each run stores its discrepancy report
+export const reconciliationRunTriggers = ["scheduled", "manual"] as const;
+export const reconciliationRunStatuses = ["running", "completed", "failed"] as const;
+export const reconciliationChecks = ["customer", "customer_type", "kyc", "trade_account", "deposit_address", "account_summary"] as const;
+
+export interface ReconciliationDiscrepancy {
+  merchantId: string;
+  merchantName: string;
+  check: typeof reconciliationChecks[number];
+  asset?: string;
+  field: string;
+  localValue: string | null;
+  remoteValue: string | null;
+  repaired: boolean;
+  detail?: string; // What was repaired, or why it needs an admin
+}
+
+export interface ReconciliationMerchantError {
+  merchantId: string;
+  merchantName: string;
+  error: string;
+}
+
+export const reconciliationRuns = pgTable("reconciliation_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trigger: text("trigger").notNull(), // scheduled, manual
+  triggeredBy: varchar("triggered_by"), // Admin id for manual runs
+  status: text("status").notNull().default("running"), // running, completed, failed
+  merchantsChecked: integer("merchants_checked").notNull().default(0),
+  discrepancyCount: integer("discrepancy_count").notNull().default(0),
+  repairedCount: integer("repaired_count").notNull().default(0),
+  errorCount: integer("error_count").notNull().default(0),
+  discrepancies: json("discrepancies").$type<ReconciliationDiscrepancy[]>().notNull().default([]),
+  merchantErrors: json("merchant_errors").$type<ReconciliationMerchantError[]>().notNull().default([]),
+  error: text("error"), // Why a failed run stopped
+  startedAt: timestamp("started_at").default(sql`NOW()`),
+  completedAt: timestamp("completed_at")
+});
+
+// drizzle-zod can't derive optional members of json column types, so the report shapes are spelled out
+export const insertReconciliationRunSchema = createInsertSchema(reconciliationRuns, {
+  discrepancies: z.array(z.object({
+    merchantId: z.string(),
+    merchantName: z.string(),
+    check: z.enum(reconciliationChecks),
+    asset: z.string().optional(),
+    field: z.string(),
+    localValue: z.string().nullable(),
+    remoteValue: z.string().nullable(),
+    repaired: z.boolean(),
+    detail: z.string().optional()
+  })).optional(),
+  merchantErrors: z.array(z.object({
+    merchantId: z.string(),
+    merchantName: z.string(),
+    error: z.string()
+  })).optional()
+}).omit({
+  id: true,
+  startedAt: true
+});
+
+export type ReconciliationRunTrigger = typeof reconciliationRunTriggers[number];
+export type ReconciliationRunStatus = typeof reconciliationRunStatuses[number];
+export type ReconciliationCheck = typeof reconciliationChecks[number];
+export type InsertReconciliationRun = z.infer<typeof insertReconciliationRunSchema>;
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
+
+// Append-only audit trail of admin and merchant actions (written by server/audit-service.ts, never updated or deleted)
+export const auditActorTypes = ["admin", "merchant", "system", "anonymous"] as const;
+
+// Field-level before/after values for updates; creates have only `after`, deletes only `before`
+export type AuditChanges = Record<string, { before?: unknown; after?: unknown }>;
+
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorType: text("actor_type").notNull(), // admin, merchant, system, anonymous
+  actorId: varchar("actor_id"), // No foreign key so entries outlive deleted admins and merchants
+  actorName: text("actor_name"), // Username at the time of the action
+  action: text("action").notNull(), // Dotted verb, e.g. merchant.update, credentials.save
+  targetType: text("target_type"),
+  targetId: varchar("target_id"),
+  changes: json("changes").$type<AuditChanges>(),
+  metadata: json("metadata").$type<Record<string, unknown>>(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().default(sql`NOW()`)
+});
+
+// drizzle-zod can't derive record-typed json columns, so they are spelled out
+export const insertAuditLogSchema = createInsertSchema(auditLog, {
+  changes: z.record(z.object({ before: z.unknown().optional(), after: z.unknown().optional() })).nullable().optional(),
+  metadata: z.record(z.unknown()).nullable().optional()
+}).omit({
+  id: true,
+  createdAt: true
+});
+
+export const auditLogFiltersSchema = z.object({
+  actorType: z.enum(auditActorTypes).optional(),
+  actorId: z.string().optional(),
+  action: z.string().optional(),
+  targetType: z.string().optional(),
+  targetId: z.string().optional(),
+  search: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(5000).default(200)
+});
+
+export type AuditActorType = typeof auditActorTypes[number];
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLogFilters = z.infer<typeof auditLogFiltersSchema>;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+// Platform-wide settings, one JSON value per key. require_admin_2fa is changed from the admin portal;
+// the *_backfilled keys record one-off data fixes that have run (see BackfillService)
+export const platformSettingKeys = ["require_admin_2fa", "modes_backfilled", "webhook_event_sources_backfilled", "fee_schedules_backfilled", "cybrid_modes_backfilled"] as const;
+
+export const platformSettings = pgTable("platform_settings", {
+  key: text("key").primaryKey(), // See platformSettingKeys
+  value: json("value").notNull(),
+  updatedBy: varchar("updated_by"), // Admin id
+  updatedAt: timestamp("updated_at").default(sql`NOW()`)
+});
+
+export const adminSecuritySettingsSchema = z.object({
+  requireAdmin2fa: z.boolean()
+});
+
+export type PlatformSettingKey = typeof platformSettingKeys[number];
+export type PlatformSetting = typeof platformSettings.$inferSelect;
+export type AdminSecuritySettings = z.infer<typeof adminSecuritySettingsSchema>;
+
+// Outbound notifications (email), one row per message with who it went to and whether it was delivered
+export const notificationTemplates = [
+  "signup_invite",
+  "credentials_reset",
+  "password_reset",
+  "kyc_approved",
+  "kyc_rejected",
+  "deposit_address_ready",
+  "payment_received",
+  "fee_change",
+  "credentials_failed"
+] as const;
+export const notificationStatuses = ["pending", "sent", "failed"] as const;
+export const notificationRecipientTypes = ["merchant", "admin", "prospect"] as const; // prospect: invited, not yet registered
+
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  template: text("template").notNull(), // See notificationTemplates
+  channel: text("channel").notNull().default("email"),
+  recipient: text("recipient").notNull(), // Email address
+  recipientType: text("recipient_type").notNull(), // See notificationRecipientTypes
+  recipientId: varchar("recipient_id"), // Merchant or admin id
+  subject: text("subject").notNull(),
+  status: text("status").notNull().default("pending"), // See notificationStatuses
+  transport: text("transport").notNull(), // smtp, file or console
+  providerMessageId: text("provider_message_id"),
+  error: text("error"),
+  metadata: json("metadata").$type<Record<string, unknown>>(), // Template inputs minus secrets (never passwords or tokens)
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  sentAt: timestamp("sent_at")
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications, {
+  metadata: z.record(z.unknown()).nullable().optional()
+}).omit({
+  id: true,
+  createdAt: true
+});
+
+export const notificationFiltersSchema = z.object({
+  template: z.enum(notificationTemplates).optional(),
+  status: z.enum(notificationStatuses).optional(),
+  recipientId: z.string().optional(),
+  search: z.string().trim().min(1).optional(), // Recipient address
+  limit: z.coerce.number().int().min(1).max(1000).default(200)
+});
+
+export type NotificationTemplate = typeof notificationTemplates[number];
+export type NotificationStatus = typeof notificationStatuses[number];
+export type NotificationRecipientType = typeof notificationRecipientTypes[number];
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationFilters = z.infer<typeof notificationFiltersSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+// Encrypted key/value secrets for the Postgres secret store backend (server/secret-store.ts)
+export const storedSecrets = pgTable("stored_secrets", {
+  name: text("name").primaryKey(), // e.g. merchant-<id>-transak
+  encryptedValue: text("encrypted_value").notNull(), // AES-256-GCM via CredentialEncryption
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`)
+});
+
+export type StoredSecret = typeof storedSecrets.$inferSelect;
+
+// Re-encryption of every stored secret under the newest credential encryption key (server/key-rotation-service.ts)
+export const encryptedFields = [
+  "merchant_credentials.encrypted_api_key",
+  "merchant_credentials.encrypted_api_secret",
+  "stored_secrets.encrypted_value",
+  "merchant_webhook_endpoints.encrypted_secret",
+  "admins.totp_secret"
+] as const;
+export const keyRotationRunStatuses = ["running", "completed", "failed"] as const;
+
+export interface KeyRotationError {
+  field: typeof encryptedFields[number];
+  recordId: string;
+  error: string;
+}
+
+export const keyRotationRuns = pgTable("key_rotation_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  targetKeyId: text("target_key_id").notNull(), // Key every value is re-wrapped under
+  triggeredBy: varchar("triggered_by"), // Admin id
+  status: text("status").notNull().default("running"), // running, completed, failed
+  totalCount: integer("total_count").notNull().default(0), // Encrypted values found, known once the scan finishes
+  processedCount: integer("processed_count").notNull().default(0),
+  rewrappedCount: integer("rewrapped_count").notNull().default(0),
+  alreadyCurrentCount: integer("already_current_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0), // Placeholders for values held in an external secret store
+  errorCount: integer("error_count").notNull().default(0),
+  errors: json("errors").$type<KeyRotationError[]>().notNull().default([]),
+  error: text("error"), // Why a failed run stopped
+  startedAt: timestamp("started_at").default(sql`NOW()`),
+  completedAt: timestamp("completed_at")
+});
+
+export const insertKeyRotationRunSchema = createInsertSchema(keyRotationRuns, {
+  errors: z.array(z.object({
+    field: z.enum(encryptedFields),
+    recordId: z.string(),
+    error: z.string()
+  })).optional()
+}).omit({
+  id: true,
+  startedAt: true
+});
+
+export type EncryptedField = typeof encryptedFields[number];
+export type KeyRotationRunStatus = typeof keyRotationRunStatuses[number];
+export type InsertKeyRotationRun = z.infer<typeof insertKeyRotationRunSchema>;
+export type KeyRotationRun = typeof keyRotationRuns.$inferSelect;